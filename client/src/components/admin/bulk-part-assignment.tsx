@@ -0,0 +1,368 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Eye, Layers } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  BIKE_CATEGORIES,
+  CATEGORY_SUBCATEGORIES,
+  type BulkAssignment,
+  type BulkAssignmentFilter,
+  type BulkAssignmentPreview,
+  type PartCategoryTags,
+} from "@shared/schema";
+
+const ALL = "all";
+
+export type FilterForm = {
+  bikemake: string;
+  modelPattern: string;
+  yearFrom: string;
+  yearTo: string;
+  bikeCategory: string;
+  bikeSubcategory: string;
+  minCapacity: string;
+  maxCapacity: string;
+};
+
+export const emptyFilter: FilterForm = {
+  bikemake: ALL,
+  modelPattern: "",
+  yearFrom: "",
+  yearTo: "",
+  bikeCategory: ALL,
+  bikeSubcategory: ALL,
+  minCapacity: "",
+  maxCapacity: "",
+};
+
+const toNumber = (value: string) => (value.trim() ? parseInt(value, 10) : undefined);
+
+// Form fields -> API filter, leaving out everything that wasn't filled in
+export function toBulkAssignmentFilter(form: FilterForm): BulkAssignmentFilter {
+  return {
+    bikemake: form.bikemake !== ALL ? form.bikemake : undefined,
+    modelPattern: form.modelPattern.trim() || undefined,
+    yearFrom: toNumber(form.yearFrom),
+    yearTo: toNumber(form.yearTo),
+    bikeCategory: form.bikeCategory !== ALL ? form.bikeCategory : undefined,
+    bikeSubcategory: form.bikeSubcategory !== ALL ? form.bikeSubcategory : undefined,
+    minCapacity: toNumber(form.minCapacity),
+    maxCapacity: toNumber(form.maxCapacity),
+  };
+}
+
+// API filter -> form fields, for editing a saved filter
+export function toFilterForm(filter: BulkAssignmentFilter): FilterForm {
+  const toText = (value: number | undefined) => (value !== undefined ? String(value) : "");
+  return {
+    bikemake: filter.bikemake || ALL,
+    modelPattern: filter.modelPattern || "",
+    yearFrom: toText(filter.yearFrom),
+    yearTo: toText(filter.yearTo),
+    bikeCategory: filter.bikeCategory || ALL,
+    bikeSubcategory: filter.bikeSubcategory || ALL,
+    minCapacity: toText(filter.minCapacity),
+    maxCapacity: toText(filter.maxCapacity),
+  };
+}
+
+// Make, model pattern, years, capacity and category inputs shared by bulk assignment and fitment rules
+export function MotorcycleFilterFields({ filter, onChange, testIdPrefix }: {
+  filter: FilterForm;
+  onChange: (updates: Partial<FilterForm>) => void;
+  testIdPrefix: string;
+}) {
+  const { data: makes } = useQuery<string[]>({
+    queryKey: ["/api/motorcycles/makes"],
+  });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Make</label>
+        <Select value={filter.bikemake} onValueChange={(value) => onChange({ bikemake: value })}>
+          <SelectTrigger data-testid={`select-${testIdPrefix}-make`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All Makes</SelectItem>
+            {makes?.map((make) => (
+              <SelectItem key={make} value={make}>{make}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Model</label>
+        <Input
+          value={filter.modelPattern}
+          onChange={(e) => onChange({ modelPattern: e.target.value })}
+          placeholder="e.g. 250 SX-F or *SX-F*"
+          data-testid={`input-${testIdPrefix}-model`}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Years</label>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            value={filter.yearFrom}
+            onChange={(e) => onChange({ yearFrom: e.target.value })}
+            placeholder="From"
+            data-testid={`input-${testIdPrefix}-year-from`}
+          />
+          <Input
+            type="number"
+            value={filter.yearTo}
+            onChange={(e) => onChange({ yearTo: e.target.value })}
+            placeholder="To"
+            data-testid={`input-${testIdPrefix}-year-to`}
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Capacity (cc)</label>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            value={filter.minCapacity}
+            onChange={(e) => onChange({ minCapacity: e.target.value })}
+            placeholder="Min"
+            data-testid={`input-${testIdPrefix}-capacity-min`}
+          />
+          <Input
+            type="number"
+            value={filter.maxCapacity}
+            onChange={(e) => onChange({ maxCapacity: e.target.value })}
+            placeholder="Max"
+            data-testid={`input-${testIdPrefix}-capacity-max`}
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+        <Select
+          value={filter.bikeCategory}
+          onValueChange={(value) => onChange({ bikeCategory: value, bikeSubcategory: ALL })}
+        >
+          <SelectTrigger data-testid={`select-${testIdPrefix}-category`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All Categories</SelectItem>
+            {Object.values(BIKE_CATEGORIES).map((category) => (
+              <SelectItem key={category} value={category}>{category}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Subcategory</label>
+        <Select
+          value={filter.bikeSubcategory}
+          onValueChange={(value) => onChange({ bikeSubcategory: value })}
+          disabled={filter.bikeCategory === ALL}
+        >
+          <SelectTrigger data-testid={`select-${testIdPrefix}-subcategory`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All Subcategories</SelectItem>
+            {CATEGORY_SUBCATEGORIES[filter.bikeCategory]?.map((subcategory) => (
+              <SelectItem key={subcategory} value={subcategory}>{subcategory}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+// Set or clear one part category on every motorcycle matching a filter, after previewing the affected bikes
+export default function BulkPartAssignment() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState<FilterForm>(emptyFilter);
+  const [partCategory, setPartCategory] = useState("");
+  const [sku, setSku] = useState("");
+  const [clearCategory, setClearCategory] = useState(false);
+  const [preview, setPreview] = useState<BulkAssignmentPreview | null>(null);
+
+  const { data: categoryTags } = useQuery<PartCategoryTags[]>({
+    queryKey: ["/api/part-category-tags"],
+  });
+
+  const buildRequest = (): BulkAssignment => ({
+    filter: toBulkAssignmentFilter(filter),
+    partCategory,
+    productVariant: clearCategory ? null : sku.trim(),
+  });
+
+  // Any change to the form makes the current preview stale
+  const updateFilter = (updates: Partial<FilterForm>) => {
+    setFilter({ ...filter, ...updates });
+    setPreview(null);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/motorcycles/bulk-assign/preview", buildRequest());
+      return (await response.json()) as BulkAssignmentPreview;
+    },
+    onSuccess: (result) => setPreview(result),
+    onError: (error: Error) => {
+      toast({ title: "Preview failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/motorcycles/bulk-assign", {
+        ...buildRequest(),
+        expectedRecids: preview!.motorcycles.map(row => row.motorcycle.recid),
+      });
+      return response.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      setPreview(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/motorcycles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      toast({ title: "Bulk assignment applied", description: result.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Bulk assignment failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleApply = () => {
+    if (!preview) return;
+    const action = clearCategory ? `Clear ${partCategory}` : `Assign ${sku.trim()} as ${partCategory}`;
+    if (window.confirm(`${action} on ${preview.changeCount} motorcycles? Every change is recorded in the part assignment history.`)) {
+      applyMutation.mutate();
+    }
+  };
+
+  const hasFilter = Object.values(toBulkAssignmentFilter(filter)).some(value => value !== undefined);
+  const canPreview = hasFilter && !!partCategory && (clearCategory || !!sku.trim());
+  const categoryLabel = categoryTags?.find(tag => tag.categoryValue === partCategory)?.categoryLabel || partCategory;
+
+  return (
+    <Card data-testid="card-bulk-assignment">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          <CardTitle>Bulk Assignment</CardTitle>
+        </div>
+        <CardDescription>
+          Set or clear one part category on every motorcycle matching a filter. Year range matches bikes whose whole production run falls inside it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <MotorcycleFilterFields filter={filter} onChange={updateFilter} testIdPrefix="bulk" />
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end border-t pt-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Part Category</label>
+            <Select value={partCategory} onValueChange={(value) => { setPartCategory(value); setPreview(null); }}>
+              <SelectTrigger data-testid="select-bulk-part-category">
+                <SelectValue placeholder="Choose a category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categoryTags?.map((tag) => (
+                  <SelectItem key={tag.categoryValue} value={tag.categoryValue}>{tag.categoryLabel}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">SKU</label>
+            <Input
+              value={sku}
+              onChange={(e) => { setSku(e.target.value); setPreview(null); }}
+              placeholder="e.g. 821-01-BK"
+              disabled={clearCategory}
+              data-testid="input-bulk-sku"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 h-10">
+            <Checkbox
+              checked={clearCategory}
+              onCheckedChange={(checked) => { setClearCategory(checked === true); setPreview(null); }}
+              data-testid="checkbox-bulk-clear"
+            />
+            Clear this category instead
+          </label>
+          <Button
+            onClick={() => previewMutation.mutate()}
+            disabled={!canPreview || previewMutation.isPending}
+            data-testid="button-bulk-preview"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            {previewMutation.isPending ? "Previewing..." : "Preview"}
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-3" data-testid="bulk-assignment-preview">
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-gray-700">
+                {preview.motorcycles.length} motorcycles match, <strong>{preview.changeCount}</strong> will change
+              </div>
+              <Button
+                onClick={handleApply}
+                disabled={preview.changeCount === 0 || applyMutation.isPending}
+                data-testid="button-bulk-apply"
+              >
+                {applyMutation.isPending ? "Applying..." : `Apply to ${preview.changeCount} motorcycles`}
+              </Button>
+            </div>
+            {preview.motorcycles.length > 0 && (
+              <div className="border rounded-lg max-h-96 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b sticky top-0">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-semibold text-gray-700">Motorcycle</th>
+                      <th className="px-4 py-2 text-left font-semibold text-gray-700">Years</th>
+                      <th className="px-4 py-2 text-left font-semibold text-gray-700">{categoryLabel}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {preview.motorcycles.map(({ motorcycle, currentValue, willChange }) => (
+                      <tr key={motorcycle.recid} className={willChange ? "" : "text-gray-400"} data-testid={`row-bulk-${motorcycle.recid}`}>
+                        <td className="px-4 py-2">
+                          {motorcycle.bikemake} {motorcycle.bikemodel}
+                          {motorcycle.capacity ? ` ${motorcycle.capacity}cc` : ""}
+                        </td>
+                        <td className="px-4 py-2">{motorcycle.firstyear}-{motorcycle.lastyear}</td>
+                        <td className="px-4 py-2 font-mono text-xs">
+                          {willChange ? (
+                            <>
+                              <span className={currentValue ? "" : "italic text-gray-400"}>{currentValue || "none"}</span>
+                              {" → "}
+                              <span className={preview.productVariant ? "font-medium" : "italic text-gray-400"}>
+                                {preview.productVariant || "none"}
+                              </span>
+                            </>
+                          ) : (
+                            <Badge variant="outline" className="text-xs">Unchanged</Badge>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
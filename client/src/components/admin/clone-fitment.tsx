@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Copy, Eye } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { partAssignmentHistoryKey } from "@/components/admin/part-assignment-history";
+import type { CloneFitmentPreview, CloneFitmentTargetStatus, Motorcycle } from "@shared/schema";
+
+interface CloneFitmentProps {
+  targetMotorcycle: Motorcycle;
+  categoryLabels: Record<string, string>;
+}
+
+const STATUS_STYLES: Record<CloneFitmentTargetStatus, string> = {
+  new: "bg-green-50 text-green-800",
+  same: "text-gray-400",
+  conflict: "bg-yellow-50 text-yellow-900",
+};
+
+const parseRecids = (value: string) =>
+  value.split(/[\s,]+/).map(part => parseInt(part, 10)).filter(recid => !isNaN(recid));
+
+// "Copy fitment from": copy another motorcycle's assignments onto this one (and optionally more), category by category
+export default function CloneFitment({ targetMotorcycle, categoryLabels }: CloneFitmentProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [sourceRecid, setSourceRecid] = useState("");
+  const [extraTargets, setExtraTargets] = useState("");
+  const [preview, setPreview] = useState<CloneFitmentPreview | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const targetRecids = () =>
+    Array.from(new Set([targetMotorcycle.recid, ...parseRecids(extraTargets)]));
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/motorcycles/${parseInt(sourceRecid, 10)}/clone-fitment/preview`, {
+        targetRecids: targetRecids(),
+      });
+      return (await response.json()) as CloneFitmentPreview;
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      // Pre-select categories that only fill gaps; conflicts need an explicit tick
+      setSelected(new Set(result.categories
+        .filter(category => category.targets.some(target => target.status === "new") &&
+          !category.targets.some(target => target.status === "conflict"))
+        .map(category => category.partCategory)));
+    },
+    onError: (error: Error) => {
+      setPreview(null);
+      toast({ title: "Preview failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/motorcycles/${preview!.source.recid}/clone-fitment`, {
+        targetRecids: preview!.targets.map(target => target.recid),
+        categories: Array.from(selected),
+      });
+      return response.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      for (const target of preview!.targets) {
+        queryClient.invalidateQueries({ queryKey: [`/api/motorcycles`, target.recid, `/parts`] });
+        queryClient.invalidateQueries({ queryKey: partAssignmentHistoryKey(target.recid) });
+      }
+      setPreview(null);
+      toast({ title: "Fitment copied", description: result.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Copy failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleCategory = (partCategory: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(partCategory); else next.delete(partCategory);
+    setSelected(next);
+  };
+
+  const handleApply = () => {
+    const conflicts = preview!.categories.filter(category =>
+      selected.has(category.partCategory) && category.targets.some(target => target.status === "conflict")
+    ).length;
+    const warning = conflicts > 0 ? ` ${conflicts} of them overwrite a different existing value.` : "";
+    if (window.confirm(`Copy ${selected.size} categories from ${preview!.source.bikemake} ${preview!.source.bikemodel}?${warning}`)) {
+      applyMutation.mutate();
+    }
+  };
+
+  const bikeName = (motorcycle: Motorcycle) =>
+    `${motorcycle.bikemake} ${motorcycle.bikemodel} (${motorcycle.firstyear}-${motorcycle.lastyear})`;
+
+  return (
+    <Card data-testid="card-clone-fitment">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Copy className="h-5 w-5" />
+          <CardTitle>Copy Fitment From</CardTitle>
+        </div>
+        <CardDescription>
+          Copy another motorcycle's part assignments, including tooth ranges, onto {bikeName(targetMotorcycle)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Source RECID</label>
+            <Input
+              type="number"
+              value={sourceRecid}
+              onChange={(e) => { setSourceRecid(e.target.value); setPreview(null); }}
+              placeholder="e.g. 9200"
+              data-testid="input-clone-source"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Also copy to RECIDs</label>
+            <Input
+              value={extraTargets}
+              onChange={(e) => { setExtraTargets(e.target.value); setPreview(null); }}
+              placeholder="Optional, e.g. 9301, 9302"
+              data-testid="input-clone-targets"
+            />
+          </div>
+          <Button
+            onClick={() => previewMutation.mutate()}
+            disabled={!sourceRecid.trim() || previewMutation.isPending}
+            data-testid="button-clone-preview"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            {previewMutation.isPending ? "Comparing..." : "Compare"}
+          </Button>
+        </div>
+
+        {preview && (
+          preview.categories.length === 0 ? (
+            <div className="text-center text-gray-500 py-4">{bikeName(preview.source)} has no part assignments to copy</div>
+          ) : (
+            <div className="space-y-3" data-testid="clone-fitment-preview">
+              <div className="text-sm text-gray-700">
+                From <strong>{bikeName(preview.source)}</strong>. Highlighted cells are new (green) or would overwrite a different value (yellow).
+              </div>
+              <div className="border rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b">
+                    <tr>
+                      <th className="px-3 py-2 w-8"></th>
+                      <th className="px-3 py-2 text-left font-semibold text-gray-700">Category</th>
+                      <th className="px-3 py-2 text-left font-semibold text-gray-700">Source</th>
+                      {preview.targets.map(target => (
+                        <th key={target.recid} className="px-3 py-2 text-left font-semibold text-gray-700">
+                          {target.bikemodel} {target.firstyear}-{target.lastyear}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {preview.categories.map(category => (
+                      <tr key={category.partCategory} data-testid={`row-clone-${category.partCategory}`}>
+                        <td className="px-3 py-2">
+                          <Checkbox
+                            checked={selected.has(category.partCategory)}
+                            onCheckedChange={(checked) => toggleCategory(category.partCategory, checked === true)}
+                            disabled={category.targets.every(target => target.status === "same")}
+                            data-testid={`checkbox-clone-${category.partCategory}`}
+                          />
+                        </td>
+                        <td className="px-3 py-2">{categoryLabels[category.partCategory] || category.partCategory}</td>
+                        <td className="px-3 py-2 font-mono text-xs">{category.sourceValue}</td>
+                        {category.targets.map(target => (
+                          <td key={target.recid} className={`px-3 py-2 font-mono text-xs ${STATUS_STYLES[target.status]}`}>
+                            {target.currentValue || <span className="italic">none</span>}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  onClick={handleApply}
+                  disabled={selected.size === 0 || applyMutation.isPending}
+                  data-testid="button-clone-apply"
+                >
+                  {applyMutation.isPending ? "Copying..." : `Copy ${selected.size} categories`}
+                </Button>
+              </div>
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { HelpCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { CompatiblePartCategoryMethod, CompatiblePartMatchRule, CompatiblePartsExplanation } from "@shared/schema";
+
+const MATCH_RULE_LABELS: Record<CompatiblePartMatchRule, string> = {
+  product_sku: "Product SKU",
+  variant_sku: "Variant SKU",
+  group_title: "Sprocket group title",
+  group_prefix: "Sprocket group prefix",
+  part_mapping: "Variant mapping",
+};
+
+const CATEGORY_METHOD_LABELS: Record<CompatiblePartCategoryMethod, string> = {
+  oe_sku: "OE value",
+  assigned_sku: "Assigned value",
+  tag_exact: "Product tags",
+  tag_partial: "Partial tag match",
+  default: "Default",
+};
+
+// Answers "why does this part show up for this bike?" from the same matching the storefront uses
+export default function CompatiblePartsExplainer() {
+  const [recidInput, setRecidInput] = useState("");
+  const [recid, setRecid] = useState<number | null>(null);
+
+  const { data: explanation, isFetching, error } = useQuery<CompatiblePartsExplanation>({
+    queryKey: ["/api/motorcycles", recid, "compatible-parts/explain"],
+    enabled: recid !== null,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseInt(recidInput, 10);
+    if (!isNaN(value)) setRecid(value);
+  };
+
+  return (
+    <Card data-testid="card-compatible-parts-explainer">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <HelpCircle className="h-5 w-5" />
+          <CardTitle>Explain Compatible Parts</CardTitle>
+        </div>
+        <CardDescription>
+          Shows, for one motorcycle, which assigned value matched each product, which variants the tooth ranges removed and how each product's storefront category was chosen
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            type="number"
+            value={recidInput}
+            onChange={(e) => setRecidInput(e.target.value)}
+            placeholder="Motorcycle RECID"
+            className="w-48"
+            data-testid="input-explain-recid"
+          />
+          <Button type="submit" disabled={!recidInput.trim() || isFetching} data-testid="button-explain">
+            {isFetching ? "Explaining..." : "Explain"}
+          </Button>
+        </form>
+
+        {error && <div className="text-sm text-red-600">{(error as Error).message}</div>}
+
+        {explanation && (
+          <div className="space-y-4" data-testid="explain-result">
+            <div className="text-sm text-gray-700 space-y-1">
+              <div className="font-medium text-gray-900">
+                {explanation.motorcycle.bikemake} {explanation.motorcycle.bikemodel} ({explanation.motorcycle.firstyear}-{explanation.motorcycle.lastyear})
+              </div>
+              <div>
+                Values matched by SKU:{" "}
+                {explanation.skuValues.length > 0
+                  ? <span className="font-mono">{explanation.skuValues.join(", ")}</span>
+                  : <span className="italic text-gray-400">none</span>}
+              </div>
+              {explanation.prefixValues.length > 0 && (
+                <div>
+                  Sprocket groups matched by title/prefix (no OE sprocket set): <span className="font-mono">{explanation.prefixValues.join(", ")}</span>
+                </div>
+              )}
+              {(explanation.toothRanges.fcwgroup_range || explanation.toothRanges.rcwgroup_range) && (
+                <div>
+                  Tooth ranges:
+                  {explanation.toothRanges.fcwgroup_range && <> front [{explanation.toothRanges.fcwgroup_range.join(", ")}]</>}
+                  {explanation.toothRanges.rcwgroup_range && <> rear [{explanation.toothRanges.rcwgroup_range.join(", ")}]</>}
+                </div>
+              )}
+              {explanation.ruleFitments.some(fitment => !fitment.overridden) && (
+                <div>
+                  From fitment rules:{" "}
+                  {explanation.ruleFitments.filter(fitment => !fitment.overridden).map(fitment => (
+                    <span key={fitment.partCategory} className="mr-3">
+                      {fitment.partCategory} <span className="font-mono">{fitment.sku}</span> ({fitment.ruleName})
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {explanation.products.length === 0 ? (
+              <div className="text-center text-gray-500 py-4">No products match this motorcycle's values</div>
+            ) : (
+              <div className="border rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-semibold text-gray-700">Product</th>
+                      <th className="px-3 py-2 text-left font-semibold text-gray-700">Matched by</th>
+                      <th className="px-3 py-2 text-left font-semibold text-gray-700">Category</th>
+                      <th className="px-3 py-2 text-left font-semibold text-gray-700">Filtered variants</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {explanation.products.map((product) => (
+                      <tr key={product.productId} className={product.included ? "" : "bg-red-50"} data-testid={`row-explain-${product.productId}`}>
+                        <td className="px-3 py-2 align-top">
+                          <div className="font-medium text-gray-900">{product.title}</div>
+                          {!product.included && <Badge variant="destructive" className="mt-1">Excluded: no variants left</Badge>}
+                        </td>
+                        <td className="px-3 py-2 align-top">
+                          <div>{MATCH_RULE_LABELS[product.matchRule]}</div>
+                          <div className="text-xs text-gray-600">
+                            {product.matchRule === "part_mapping" ? "Mapped variant" : `${product.matchedCategory || "?"} =`}{" "}
+                            <span className="font-mono">{product.matchedValue}</span>
+                            {product.matchedSku && product.matchedSku !== product.matchedValue && (
+                              <> (SKU <span className="font-mono">{product.matchedSku}</span>)</>
+                            )}
+                          </div>
+                          {product.fromRule && (
+                            <div className="text-xs text-purple-700">via rule "{product.fromRule}"</div>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 align-top">
+                          {product.categoryMethod ? (
+                            <>
+                              <div>{product.adminCategoryLabel} <span className="text-xs text-gray-500">({product.adminCategory})</span></div>
+                              <div className="text-xs text-gray-600">
+                                {CATEGORY_METHOD_LABELS[product.categoryMethod]}: {product.categoryDetail}
+                              </div>
+                            </>
+                          ) : (
+                            <span className="italic text-gray-400">—</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 align-top text-xs">
+                          {product.filteredVariants.length === 0 ? (
+                            <span className="text-gray-400">none</span>
+                          ) : (
+                            <ul className="space-y-1">
+                              {product.filteredVariants.map((variant, index) => (
+                                <li key={variant.variantId || index}>
+                                  <span className="font-mono">{variant.sku || variant.variantId}</span>: {variant.reason}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,10 +2,14 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { AlertCircle, CheckCircle, Download, Upload, FileText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, CheckCircle, Download, Upload, FileText, ArrowRight } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CsvImportPreview, CsvImportRowPreview } from "@shared/schema";
 
 interface ImportResult {
   success: boolean;
@@ -19,11 +23,27 @@ interface ImportResult {
   }>;
 }
 
+type PreviewFilter = "all" | CsvImportRowPreview["status"];
+
+const STATUS_STYLES: Record<CsvImportRowPreview["status"], string> = {
+  new: "bg-green-100 text-green-800",
+  changed: "bg-blue-100 text-blue-800",
+  unchanged: "bg-gray-100 text-gray-600",
+  error: "bg-red-100 text-red-800",
+};
+
+function formatValue(value: string | number | null) {
+  return value === null || value === "" ? "empty" : String(value);
+}
+
 export function CSVImport() {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [preview, setPreview] = useState<CsvImportPreview | null>(null);
+  const [previewFilter, setPreviewFilter] = useState<PreviewFilter>("all");
+  const [isCommitting, setIsCommitting] = useState(false);
   const [importType, setImportType] = useState<'motorcycles' | 'parts' | 'combined'>('combined');
   const { toast } = useToast();
 
@@ -66,11 +86,14 @@ export function CSVImport() {
     setIsUploading(true);
     setUploadProgress(0);
     setImportResult(null);
+    setPreview(null);
 
     try {
       const formData = new FormData();
       formData.append('csvFile', file);
       formData.append('type', importType);
+      // Dry run first - nothing is written until the previewed changeset is committed
+      formData.append('mode', 'preview');
 
       // Simulate upload progress
       const progressInterval = setInterval(() => {
@@ -95,8 +118,37 @@ export function CSVImport() {
         throw new Error('Upload failed');
       }
 
-      const result = await response.json();
+      const result: CsvImportPreview = await response.json();
+      setPreview(result);
+      setPreviewFilter("all");
+    } catch (error) {
+      console.error('Upload error:', error);
+      toast({
+        title: "Upload failed",
+        description: "Please try again or check your file format",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+      setTimeout(() => {
+        setUploadProgress(0);
+      }, 2000);
+    }
+  };
+
+  const commitPreview = async () => {
+    if (!preview) return;
+    setIsCommitting(true);
+
+    try {
+      const response = await apiRequest("POST", "/api/import/csv/commit", { previewId: preview.previewId });
+      const result: ImportResult = await response.json();
       setImportResult(result);
+      setPreview(null);
+
+      queryClient.invalidateQueries({ queryKey: ["/api/motorcycles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/import-history"] });
 
       if (result.success) {
         toast({
@@ -111,20 +163,19 @@ export function CSVImport() {
         });
       }
     } catch (error) {
-      console.error('Upload error:', error);
       toast({
-        title: "Upload failed",
-        description: "Please try again or check your file format",
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Please upload the file again",
         variant: "destructive",
       });
     } finally {
-      setIsUploading(false);
-      setTimeout(() => {
-        setUploadProgress(0);
-      }, 2000);
+      setIsCommitting(false);
     }
   };
 
+  const previewRows = preview?.rows.filter(row => previewFilter === "all" || row.status === previewFilter) ?? [];
+  const pendingChanges = preview ? preview.summary.new + preview.summary.changed : 0;
+
   const downloadTemplate = () => {
     console.log('Downloading template for type:', importType);
     const templateUrl = `/api/import/template?type=${importType}`;
@@ -162,6 +213,7 @@ export function CSVImport() {
                 console.log('Import type changed to:', value);
                 setImportType(value as 'motorcycles' | 'parts' | 'combined');
                 setImportResult(null); // Clear previous results when switching types
+                setPreview(null);
               }}
             >
               <SelectTrigger className="w-full" data-testid="select-import-type">
@@ -239,6 +291,82 @@ export function CSVImport() {
             )}
           </div>
 
+          {/* Import Preview (dry run diff) */}
+          {preview && (
+            <div className="space-y-4" data-testid="csv-import-preview">
+              <Alert className="border-blue-200 bg-blue-50">
+                <FileText className="h-4 w-4 text-blue-600" />
+                <AlertDescription>
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="space-y-1">
+                      <p className="font-medium">
+                        Preview of {preview.filename}: {preview.totalRows} rows - nothing has been written yet
+                      </p>
+                      <p className="text-sm">
+                        {preview.summary.new} new, {preview.summary.changed} changed, {preview.summary.unchanged} unchanged, {preview.summary.error} with errors
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={() => setPreview(null)} disabled={isCommitting} data-testid="button-cancel-import">
+                        Cancel
+                      </Button>
+                      <Button onClick={commitPreview} disabled={isCommitting || pendingChanges === 0} data-testid="button-commit-import">
+                        {isCommitting ? "Importing..." : `Commit ${pendingChanges} row${pendingChanges !== 1 ? 's' : ''}`}
+                      </Button>
+                    </div>
+                  </div>
+                </AlertDescription>
+              </Alert>
+
+              <Tabs value={previewFilter} onValueChange={(value) => setPreviewFilter(value as PreviewFilter)}>
+                <TabsList>
+                  <TabsTrigger value="all">All ({preview.totalRows})</TabsTrigger>
+                  <TabsTrigger value="new">New ({preview.summary.new})</TabsTrigger>
+                  <TabsTrigger value="changed">Changed ({preview.summary.changed})</TabsTrigger>
+                  <TabsTrigger value="unchanged">Unchanged ({preview.summary.unchanged})</TabsTrigger>
+                  <TabsTrigger value="error">Errors ({preview.summary.error})</TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {previewRows.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-4">No rows in this view</p>
+                ) : (
+                  previewRows.map((row) => (
+                    <div key={row.row} className="text-sm p-3 rounded border" data-testid={`preview-row-${row.row}`}>
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-gray-500">Row {row.row}</span>
+                        <Badge className={STATUS_STYLES[row.status]}>{row.status}</Badge>
+                        <span className="font-medium">
+                          {row.recid !== null ? `#${row.recid}` : "New RECID"} {row.motorcycle}
+                        </span>
+                      </div>
+                      {row.changes.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {row.changes.map((change) => (
+                            <li key={`${change.kind}-${change.field}`} className="flex items-center gap-2 text-gray-700">
+                              <span className="font-mono text-xs">
+                                {change.field}{change.kind === "notes" || change.kind === "qualifiers" ? ` ${change.kind}` : ""}
+                              </span>
+                              <span className="text-gray-400 line-through">{formatValue(change.oldValue)}</span>
+                              <ArrowRight className="h-3 w-3" />
+                              <span className="font-medium">{formatValue(change.newValue)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {row.errors.map((error, index) => (
+                        <div key={index} className="mt-1 text-red-600">
+                          {error.field} - {error.message}
+                        </div>
+                      ))}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Import Results */}
           {importResult && (
             <div className="space-y-4">
@@ -2,11 +2,154 @@ import { useState, useRef } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import type { ImportHistory } from "@shared/schema";
+
+const statusVariant = (status: string) => {
+  if (status === "success") return "default";
+  if (status === "running" || status === "rolled_back") return "secondary";
+  return "destructive";
+};
+
+// Past imports for the current shop. Admins can roll an import back, restoring every row it touched.
+export function ImportHistoryList() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: importHistory } = useQuery<ImportHistory[]>({
+    queryKey: ["/api/import-history"],
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (importId: string) => {
+      const response = await apiRequest("POST", `/api/import-history/${importId}/rollback`);
+      return response.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/motorcycles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/mappings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/import-history"] });
+      toast({
+        title: "Import rolled back",
+        description: result.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to roll back import",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRollback = (record: ImportHistory) => {
+    if (window.confirm(`Roll back ${record.filename}? Every row it created will be deleted and every row it changed restored to its pre-import value.`)) {
+      rollbackMutation.mutate(record.id);
+    }
+  };
+
+  const canRollback = (record: ImportHistory) =>
+    record.status !== "running" && record.status !== "rolled_back";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import History</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Date
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Type
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  File
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Records
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                {can("admin") && (
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {importHistory && importHistory.length > 0 ? (
+                importHistory.map((record) => (
+                  <tr key={record.id} data-testid={`row-import-${record.id}`}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(record.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 capitalize">
+                      {record.type}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {record.filename}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {record.recordsCount}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Badge variant={statusVariant(record.status)}>
+                        {record.status.replace("_", " ")}
+                      </Badge>
+                      {record.rolledBackAt && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {record.rolledBackBy ? `by ${record.rolledBackBy}, ` : ""}
+                          {new Date(record.rolledBackAt).toLocaleString()}
+                        </div>
+                      )}
+                    </td>
+                    {can("admin") && (
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        {canRollback(record) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRollback(record)}
+                            disabled={rollbackMutation.isPending}
+                            data-testid={`button-rollback-import-${record.id}`}
+                          >
+                            <span className="material-icons text-base mr-1">undo</span>
+                            Roll back
+                          </Button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={can("admin") ? 6 : 5} className="px-6 py-4 text-center text-gray-500">
+                    No import history available
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function DataImport() {
   const [motorcycleFile, setMotorcycleFile] = useState<File | null>(null);
@@ -18,10 +161,6 @@ export default function DataImport() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: importHistory } = useQuery<any[]>({
-    queryKey: ["/api/import-history"],
-  });
-
   const importMotorcyclesMutation = useMutation({
     mutationFn: (data: { data: any[], filename: string }) => 
       apiRequest("POST", "/api/import/motorcycles", data),
@@ -391,68 +530,7 @@ export default function DataImport() {
         </Card>
       </div>
 
-      {/* Import History */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Import History</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="overflow-x-auto">
-            <table className="min-w-full divide-y divide-gray-200">
-              <thead className="bg-gray-50">
-                <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Date
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Type
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    File
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Records
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Status
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {importHistory && importHistory.length > 0 ? (
-                  importHistory.map((record: any) => (
-                    <tr key={record.id} data-testid={`row-import-${record.id}`}>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {new Date(record.createdAt).toLocaleString()}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 capitalize">
-                        {record.type}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {record.filename}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {record.recordsCount}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <Badge variant={record.status === "success" ? "default" : "destructive"}>
-                          {record.status}
-                        </Badge>
-                      </td>
-                    </tr>
-                  ))
-                ) : (
-                  <tr>
-                    <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
-                      No import history available
-                    </td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
-          </div>
-        </CardContent>
-      </Card>
+      <ImportHistoryList />
     </div>
   );
 }
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { describeFitmentQualifiers, type FitmentDetails } from "@shared/schema";
+
+interface FitmentDetailsEditorProps {
+  motorcycleRecid: number;
+  partCategory: string;
+  details: FitmentDetails | undefined;
+  canEdit: boolean;
+}
+
+type AbsOption = "any" | "abs" | "non_abs";
+
+type DetailsForm = { notes: string; market: string; abs: AbsOption; trim: string };
+
+const toDetailsForm = (details: FitmentDetails | undefined): DetailsForm => ({
+  notes: details?.notes || "",
+  market: details?.qualifiers?.market || "",
+  abs: details?.qualifiers?.abs === undefined ? "any" : details.qualifiers.abs ? "abs" : "non_abs",
+  trim: details?.qualifiers?.trim || "",
+});
+
+// Notes and qualifiers ("ABS models only", "EU market only") on one assigned part
+export default function FitmentDetailsEditor({ motorcycleRecid, partCategory, details, canEdit }: FitmentDetailsEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<DetailsForm | null>(null);
+
+  const saveMutation = useMutation({
+    mutationFn: async (form: DetailsForm) => {
+      const response = await apiRequest("PUT", `/api/motorcycles/${motorcycleRecid}/parts/${partCategory}/details`, {
+        notes: form.notes.trim() || null,
+        qualifiers: {
+          market: form.market.trim() || undefined,
+          abs: form.abs === "any" ? undefined : form.abs === "abs",
+          trim: form.trim.trim() || undefined,
+        },
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/motorcycles`, motorcycleRecid, `/parts`, "details"] });
+      setForm(null);
+      toast({ title: "Fitment notes saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving fitment notes", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const qualifierLabels = describeFitmentQualifiers(details?.qualifiers);
+
+  if (form) {
+    return (
+      <div className="space-y-2 text-xs bg-amber-50 p-2 rounded border border-amber-200" data-testid={`form-fitment-details-${partCategory}`}>
+        <Input
+          value={form.notes}
+          onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          placeholder="Notes, e.g. requires longer throttle cable"
+          maxLength={500}
+          className="text-xs h-7"
+          data-testid={`input-fitment-notes-${partCategory}`}
+        />
+        <div className="grid grid-cols-3 gap-1">
+          <Input
+            value={form.market}
+            onChange={(e) => setForm({ ...form, market: e.target.value })}
+            placeholder="Market"
+            className="text-xs h-7"
+            data-testid={`input-fitment-market-${partCategory}`}
+          />
+          <Select value={form.abs} onValueChange={(value) => setForm({ ...form, abs: value as AbsOption })}>
+            <SelectTrigger className="text-xs h-7" data-testid={`select-fitment-abs-${partCategory}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">ABS or not</SelectItem>
+              <SelectItem value="abs">ABS only</SelectItem>
+              <SelectItem value="non_abs">Non-ABS only</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            value={form.trim}
+            onChange={(e) => setForm({ ...form, trim: e.target.value })}
+            placeholder="Trim"
+            className="text-xs h-7"
+            data-testid={`input-fitment-trim-${partCategory}`}
+          />
+        </div>
+        <div className="flex gap-1">
+          <Button
+            size="sm"
+            onClick={() => saveMutation.mutate(form)}
+            disabled={saveMutation.isPending}
+            className="text-xs px-2 py-1 h-6 flex-1"
+            data-testid={`button-save-fitment-details-${partCategory}`}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setForm(null)} className="text-xs px-2 py-1 h-6 flex-1">
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!details && !canEdit) return null;
+
+  return (
+    <div className="text-xs space-y-1" data-testid={`fitment-details-${partCategory}`}>
+      {qualifierLabels.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {qualifierLabels.map((label) => (
+            <Badge key={label} variant="outline" className="text-amber-800 border-amber-300 bg-amber-50">{label}</Badge>
+          ))}
+        </div>
+      )}
+      {details?.notes && <div className="text-gray-700 italic">{details.notes}</div>}
+      {canEdit && (
+        <button
+          type="button"
+          className="text-blue-600 hover:text-blue-700"
+          onClick={() => setForm(toDetailsForm(details))}
+          data-testid={`button-edit-fitment-details-${partCategory}`}
+        >
+          {details ? "Edit notes" : "+ Add notes"}
+        </button>
+      )}
+    </div>
+  );
+}
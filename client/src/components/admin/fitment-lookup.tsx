@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Search, Pencil, Trash2, Check, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { PartCategoryTags, ReverseFitmentLookup, ReverseFitmentMatch } from "@shared/schema";
+
+type LookupMode = "sku" | "productId";
+
+const PART_MAPPING_CATEGORY = "part_mapping";
+
+// Answers "which bikes does this part fit?" across fitments and part mappings, with edits applied in place
+export default function FitmentLookup() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<LookupMode>("sku");
+  const [searchInput, setSearchInput] = useState("");
+  const [lookup, setLookup] = useState<{ mode: LookupMode; value: string } | null>(null);
+  const [editing, setEditing] = useState<{ fitmentId: string; sku: string } | null>(null);
+
+  const lookupKey = ["/api/fitments/lookup", lookup?.mode, lookup?.value];
+  const { data: result, isFetching } = useQuery<ReverseFitmentLookup>({
+    queryKey: lookupKey,
+    queryFn: async () => {
+      const params = new URLSearchParams({ [lookup!.mode]: lookup!.value });
+      const response = await fetch(`/api/fitments/lookup?${params}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to look up fitments");
+      return response.json();
+    },
+    enabled: !!lookup,
+  });
+
+  const { data: categoryTags } = useQuery<PartCategoryTags[]>({
+    queryKey: ["/api/part-category-tags"],
+  });
+
+  const categoryLabel = (partCategory: string) =>
+    partCategory === PART_MAPPING_CATEGORY
+      ? "Part mappings"
+      : categoryTags?.find(tag => tag.categoryValue === partCategory)?.categoryLabel || partCategory;
+
+  const invalidateAfterEdit = (motorcycleRecid: number) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/fitments/lookup"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/motorcycles`, motorcycleRecid, `/parts`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/motorcycles", motorcycleRecid, "parts/history"] });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ match, sku }: { match: ReverseFitmentMatch; sku: string | null }) => {
+      const response = await apiRequest("PATCH", `/api/motorcycles/${match.motorcycle.recid}/parts`, {
+        partCategory: match.partCategory,
+        productVariant: sku,
+      });
+      return response.json();
+    },
+    onSuccess: (_data, { match, sku }) => {
+      invalidateAfterEdit(match.motorcycle.recid);
+      setEditing(null);
+      toast({
+        title: sku ? "Assignment updated" : "Assignment removed",
+        description: `${match.motorcycle.bikemake} ${match.motorcycle.bikemodel} - ${categoryLabel(match.partCategory)}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error updating assignment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMappingMutation = useMutation({
+    mutationFn: async (match: ReverseFitmentMatch) => {
+      await apiRequest("DELETE", `/api/mappings/${match.partMappingId}`);
+    },
+    onSuccess: (_data, match) => {
+      invalidateAfterEdit(match.motorcycle.recid);
+      queryClient.invalidateQueries({ queryKey: ["/api/mappings"] });
+      toast({ title: "Part mapping removed", description: `${match.motorcycle.bikemake} ${match.motorcycle.bikemodel}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error removing part mapping", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = searchInput.trim();
+    if (value) {
+      setEditing(null);
+      setLookup({ mode, value });
+    }
+  };
+
+  const handleRemove = (match: ReverseFitmentMatch) => {
+    const bike = `${match.motorcycle.bikemake} ${match.motorcycle.bikemodel} (${match.motorcycle.firstyear}-${match.motorcycle.lastyear})`;
+    if (!window.confirm(`Remove ${match.sku || "this part"} from ${bike}?`)) return;
+
+    if (match.partMappingId) {
+      deleteMappingMutation.mutate(match);
+    } else {
+      assignMutation.mutate({ match, sku: null });
+    }
+  };
+
+  // Group matches by category, keeping the server's category order
+  const groups = (result?.matches || []).reduce<Record<string, ReverseFitmentMatch[]>>((acc, match) => {
+    acc[match.partCategory] = [...(acc[match.partCategory] || []), match];
+    return acc;
+  }, {});
+  const isSaving = assignMutation.isPending || deleteMappingMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Fitment Lookup</CardTitle>
+          <CardDescription>
+            Find every motorcycle a SKU or product is assigned to, in any part category or part mapping
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <Select value={mode} onValueChange={(value) => setMode(value as LookupMode)}>
+              <SelectTrigger className="w-40" data-testid="select-lookup-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sku">SKU</SelectItem>
+                <SelectItem value="productId">Product ID</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder={mode === "sku" ? "e.g. 821-01-BK" : "Shopify product ID"}
+              data-testid="input-lookup-value"
+            />
+            <Button type="submit" disabled={!searchInput.trim() || isFetching} data-testid="button-lookup">
+              <Search className="h-4 w-4 mr-2" />
+              {isFetching ? "Searching..." : "Search"}
+            </Button>
+          </form>
+          {result && (
+            <div className="mt-3 text-sm text-gray-600" data-testid="text-lookup-summary">
+              {result.matches.length} assignments on {new Set(result.matches.map(match => match.motorcycle.recid)).size} motorcycles
+              {result.skus.length > 0 && <> for {result.skus.join(", ")}</>}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && result.matches.length === 0 && (
+        <div className="text-center text-gray-500 py-8">No motorcycles reference this part</div>
+      )}
+
+      {Object.entries(groups).map(([partCategory, matches]) => (
+        <Card key={partCategory} data-testid={`card-lookup-${partCategory}`}>
+          <CardHeader className="pb-3">
+            <div className="flex items-center gap-2">
+              <CardTitle className="text-base">{categoryLabel(partCategory)}</CardTitle>
+              <Badge variant="outline">{matches.length}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {matches.map((match) => {
+                const rowId = match.fitmentId || match.partMappingId!;
+                const isEditing = !!match.fitmentId && editing?.fitmentId === match.fitmentId;
+                return (
+                  <div key={rowId} className="flex items-center justify-between gap-4 py-2" data-testid={`row-lookup-${rowId}`}>
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm font-medium text-gray-900">
+                        {match.motorcycle.bikemake} {match.motorcycle.bikemodel}
+                        {match.motorcycle.capacity ? ` ${match.motorcycle.capacity}cc` : ""}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {match.motorcycle.firstyear}-{match.motorcycle.lastyear} • RECID {match.motorcycle.recid}
+                      </div>
+                    </div>
+                    {isEditing ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={editing!.sku}
+                          onChange={(e) => setEditing({ fitmentId: editing!.fitmentId, sku: e.target.value })}
+                          className="h-8 w-48"
+                          autoFocus
+                          data-testid={`input-lookup-sku-${rowId}`}
+                        />
+                        <Button
+                          size="sm"
+                          onClick={() => assignMutation.mutate({ match, sku: editing!.sku.trim() || null })}
+                          disabled={isSaving}
+                          data-testid={`button-save-lookup-${rowId}`}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm text-gray-700">{match.sku || "—"}</span>
+                        {can("editor") && match.fitmentId && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setEditing({ fitmentId: match.fitmentId!, sku: match.sku || "" })}
+                            disabled={isSaving}
+                            data-testid={`button-edit-lookup-${rowId}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can("editor") && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRemove(match)}
+                            disabled={isSaving}
+                            data-testid={`button-remove-lookup-${rowId}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
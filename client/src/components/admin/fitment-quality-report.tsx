@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Download, Pencil, Check, X, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { TOOTH_RANGE_CATEGORIES, type FitmentQualityIssue, type FitmentQualityIssueType, type FitmentQualityReport, type PartCategoryTags } from "@shared/schema";
+
+const ALL = "all";
+
+const ISSUE_LABELS: Record<FitmentQualityIssueType, string> = {
+  missing_sku: "Not in Shopify",
+  inactive_product: "Inactive product",
+  tag_mismatch: "Tags don't fit category",
+  invalid_tooth_range: "Invalid tooth range",
+  empty_tooth_range: "Range matches no variants",
+};
+
+const REPORT_KEY = ["/api/data-quality/fitments"];
+
+// Fitment values that don't resolve to a live product or don't fit their category, fixable in place
+export default function FitmentQualityReportPanel() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [issueFilter, setIssueFilter] = useState<string>(ALL);
+  const [editing, setEditing] = useState<{ fitmentId: string; value: string } | null>(null);
+
+  const { data: report, isFetching, refetch } = useQuery<FitmentQualityReport>({
+    queryKey: REPORT_KEY,
+  });
+
+  const { data: categoryTags } = useQuery<PartCategoryTags[]>({
+    queryKey: ["/api/part-category-tags"],
+  });
+
+  const categoryLabel = (partCategory: string) =>
+    categoryTags?.find(tag => tag.categoryValue === partCategory)?.categoryLabel || partCategory;
+
+  // Tooth ranges have their own endpoint; everything else is an ordinary (audited) assignment
+  const fixMutation = useMutation({
+    mutationFn: async ({ issue, value }: { issue: FitmentQualityIssue; value: string }) => {
+      const response = TOOTH_RANGE_CATEGORIES.includes(issue.partCategory)
+        ? await apiRequest("PATCH", `/api/motorcycles/${issue.motorcycle.recid}/tooth-range`, {
+            rangeType: issue.partCategory,
+            rangeValue: value,
+          })
+        : await apiRequest("PATCH", `/api/motorcycles/${issue.motorcycle.recid}/parts`, {
+            partCategory: issue.partCategory,
+            productVariant: value || null,
+          });
+      return response.json();
+    },
+    onSuccess: (_data, { issue }) => {
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: REPORT_KEY });
+      queryClient.invalidateQueries({ queryKey: [`/api/motorcycles`, issue.motorcycle.recid, `/parts`] });
+      toast({
+        title: "Fitment updated",
+        description: `${issue.motorcycle.bikemake} ${issue.motorcycle.bikemodel} - ${categoryLabel(issue.partCategory)}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error updating fitment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleExport = () => {
+    const link = document.createElement('a');
+    link.href = '/api/data-quality/fitments/export';
+    link.download = 'fitment-quality-report.csv';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const issues = (report?.issues || []).filter(issue => issueFilter === ALL || issue.issue === issueFilter);
+
+  // Category -> make -> issues, keeping the server's ordering
+  const groups = issues.reduce<Record<string, Record<string, FitmentQualityIssue[]>>>((acc, issue) => {
+    const byMake = acc[issue.partCategory] || (acc[issue.partCategory] = {});
+    byMake[issue.motorcycle.bikemake] = [...(byMake[issue.motorcycle.bikemake] || []), issue];
+    return acc;
+  }, {});
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Fitment Data Quality</CardTitle>
+              <CardDescription>
+                Assigned SKUs missing from the Shopify product cache or only on inactive products, products whose tags don't fit the category, and tooth ranges that match no variants
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => refetch()} disabled={isFetching} data-testid="button-quality-refresh">
+                <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+                Re-check
+              </Button>
+              <Button variant="outline" onClick={handleExport} disabled={!report} data-testid="button-quality-export">
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-4">
+            <Select value={issueFilter} onValueChange={setIssueFilter}>
+              <SelectTrigger className="w-64" data-testid="select-quality-issue">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All issues</SelectItem>
+                {Object.entries(ISSUE_LABELS).map(([issue, label]) => (
+                  <SelectItem key={issue} value={issue}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {report && (
+              <div className="text-sm text-gray-600" data-testid="text-quality-summary">
+                {report.issues.length} issues in {report.fitmentCount} fitments, checked {new Date(report.generatedAt).toLocaleString()}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {report && issues.length === 0 && (
+        <div className="text-center text-gray-500 py-8">No issues found</div>
+      )}
+
+      {Object.entries(groups).map(([partCategory, byMake]) => (
+        <Card key={partCategory} data-testid={`card-quality-${partCategory}`}>
+          <CardHeader className="pb-3">
+            <div className="flex items-center gap-2">
+              <CardTitle className="text-base">{categoryLabel(partCategory)}</CardTitle>
+              <Badge variant="outline">{Object.values(byMake).reduce((sum, makeIssues) => sum + makeIssues.length, 0)}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {Object.entries(byMake).map(([make, makeIssues]) => (
+              <div key={make}>
+                <div className="text-sm font-semibold text-gray-700 mb-1">{make}</div>
+                <div className="divide-y">
+                  {makeIssues.map((issue) => {
+                    const isEditing = editing?.fitmentId === issue.fitmentId;
+                    return (
+                      <div key={issue.fitmentId} className="flex items-center justify-between gap-4 py-2" data-testid={`row-quality-${issue.fitmentId}`}>
+                        <div className="min-w-0 flex-1">
+                          <div className="text-sm text-gray-900">
+                            {issue.motorcycle.bikemodel} {issue.motorcycle.firstyear}-{issue.motorcycle.lastyear}
+                            <span className="text-xs text-gray-500"> • RECID {issue.motorcycle.recid}</span>
+                          </div>
+                          <div className="text-xs text-gray-600">
+                            <Badge variant="secondary" className="mr-2">{ISSUE_LABELS[issue.issue]}</Badge>
+                            {issue.detail}
+                          </div>
+                        </div>
+                        {isEditing ? (
+                          <div className="flex items-center gap-2">
+                            <Input
+                              value={editing!.value}
+                              onChange={(e) => setEditing({ fitmentId: issue.fitmentId, value: e.target.value })}
+                              className="h-8 w-48"
+                              autoFocus
+                              data-testid={`input-quality-${issue.fitmentId}`}
+                            />
+                            <Button
+                              size="sm"
+                              onClick={() => fixMutation.mutate({ issue, value: editing!.value.trim() })}
+                              disabled={fixMutation.isPending}
+                              data-testid={`button-save-quality-${issue.fitmentId}`}
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono text-sm text-gray-700">{issue.value}</span>
+                            {can("editor") && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setEditing({ fitmentId: issue.fitmentId, value: issue.value })}
+                                disabled={fixMutation.isPending}
+                                data-testid={`button-fix-quality-${issue.fitmentId}`}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
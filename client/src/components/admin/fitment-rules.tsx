@@ -0,0 +1,395 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Eye, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  MotorcycleFilterFields,
+  emptyFilter,
+  toBulkAssignmentFilter,
+  toFilterForm,
+  type FilterForm,
+} from "@/components/admin/bulk-part-assignment";
+import type { FitmentRule, FitmentRuleConditions, InsertFitmentRule, Motorcycle, PartCategoryTags } from "@shared/schema";
+
+type PartRow = { partCategory: string; value: string };
+
+type RuleForm = {
+  id: string | null; // null while creating
+  name: string;
+  priority: string;
+  filter: FilterForm;
+  partValues: PartRow[];
+  assignments: PartRow[];
+};
+
+const emptyRule: RuleForm = {
+  id: null,
+  name: "",
+  priority: "0",
+  filter: emptyFilter,
+  partValues: [],
+  assignments: [{ partCategory: "", value: "" }],
+};
+
+const toRows = (record: Record<string, string> | undefined): PartRow[] =>
+  Object.entries(record || {}).map(([partCategory, value]) => ({ partCategory, value }));
+
+// Rows with a category and a value -> record; half-filled rows are dropped
+const toRecord = (rows: PartRow[]): Record<string, string> =>
+  Object.fromEntries(rows.filter(row => row.partCategory && row.value.trim()).map(row => [row.partCategory, row.value.trim()]));
+
+function toConditions(form: RuleForm): FitmentRuleConditions {
+  const partValues = toRecord(form.partValues);
+  return {
+    ...toBulkAssignmentFilter(form.filter),
+    partValues: Object.keys(partValues).length > 0 ? partValues : undefined,
+  };
+}
+
+function toRuleForm(rule: FitmentRule): RuleForm {
+  return {
+    id: rule.id,
+    name: rule.name,
+    priority: String(rule.priority),
+    filter: toFilterForm(rule.conditions),
+    partValues: toRows(rule.conditions.partValues),
+    assignments: toRows(rule.assignments),
+  };
+}
+
+// Editable list of category -> value pairs
+function PartRowsEditor({ rows, onChange, categoryTags, valuePlaceholder, testIdPrefix }: {
+  rows: PartRow[];
+  onChange: (rows: PartRow[]) => void;
+  categoryTags: PartCategoryTags[] | undefined;
+  valuePlaceholder: string;
+  testIdPrefix: string;
+}) {
+  const updateRow = (index: number, updates: Partial<PartRow>) =>
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, index) => (
+        <div key={index} className="flex gap-2">
+          <Select value={row.partCategory} onValueChange={(value) => updateRow(index, { partCategory: value })}>
+            <SelectTrigger className="w-64" data-testid={`select-${testIdPrefix}-category-${index}`}>
+              <SelectValue placeholder="Part category" />
+            </SelectTrigger>
+            <SelectContent>
+              {categoryTags?.map((tag) => (
+                <SelectItem key={tag.categoryValue} value={tag.categoryValue}>{tag.categoryLabel}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={row.value}
+            onChange={(e) => updateRow(index, { value: e.target.value })}
+            placeholder={valuePlaceholder}
+            data-testid={`input-${testIdPrefix}-value-${index}`}
+          />
+          <Button variant="ghost" size="sm" onClick={() => onChange(rows.filter((_, i) => i !== index))}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...rows, { partCategory: "", value: "" }])}
+        data-testid={`button-${testIdPrefix}-add`}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add
+      </Button>
+    </div>
+  );
+}
+
+// Persisted "bikes like this get these SKUs" rules; explicit assignments on a bike always win over them
+export default function FitmentRules() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const canEdit = can("editor");
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [matches, setMatches] = useState<Motorcycle[] | null>(null);
+
+  const { data: rules, isLoading } = useQuery<FitmentRule[]>({
+    queryKey: ["/api/fitment-rules"],
+  });
+
+  const { data: categoryTags } = useQuery<PartCategoryTags[]>({
+    queryKey: ["/api/part-category-tags"],
+  });
+
+  const categoryLabel = (partCategory: string) =>
+    categoryTags?.find(tag => tag.categoryValue === partCategory)?.categoryLabel || partCategory;
+
+  const updateForm = (updates: Partial<RuleForm>) => {
+    setForm({ ...form!, ...updates });
+    setMatches(null);
+  };
+
+  // Rule changes alter every matching bike's effective parts
+  const invalidateRules = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/fitment-rules"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/motorcycles"] });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/fitment-rules/preview", { conditions: toConditions(form!) });
+      return (await response.json()) as Motorcycle[];
+    },
+    onSuccess: (result) => setMatches(result),
+    onError: (error: Error) => {
+      toast({ title: "Preview failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const rule: InsertFitmentRule = {
+        name: form!.name.trim(),
+        conditions: toConditions(form!),
+        assignments: toRecord(form!.assignments),
+        priority: parseInt(form!.priority, 10) || 0,
+        enabled: form!.id ? rules?.find(existing => existing.id === form!.id)?.enabled ?? true : true,
+      };
+      const response = form!.id
+        ? await apiRequest("PUT", `/api/fitment-rules/${form!.id}`, rule)
+        : await apiRequest("POST", "/api/fitment-rules", rule);
+      return (await response.json()) as FitmentRule;
+    },
+    onSuccess: (rule) => {
+      invalidateRules();
+      setForm(null);
+      setMatches(null);
+      toast({ title: "Fitment rule saved", description: rule.name });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving fitment rule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ rule, enabled }: { rule: FitmentRule; enabled: boolean }) => {
+      const response = await apiRequest("PUT", `/api/fitment-rules/${rule.id}`, { enabled });
+      return response.json();
+    },
+    onSuccess: invalidateRules,
+    onError: (error: Error) => {
+      toast({ title: "Error updating fitment rule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (rule: FitmentRule) => {
+      await apiRequest("DELETE", `/api/fitment-rules/${rule.id}`);
+    },
+    onSuccess: (_data, rule) => {
+      invalidateRules();
+      toast({ title: "Fitment rule deleted", description: rule.name });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error deleting fitment rule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const describeConditions = (conditions: FitmentRuleConditions) => {
+    const parts: string[] = [];
+    if (conditions.bikemake) parts.push(conditions.bikemake);
+    if (conditions.modelPattern) parts.push(`model ${conditions.modelPattern}`);
+    if (conditions.yearFrom !== undefined || conditions.yearTo !== undefined) {
+      parts.push(`years ${conditions.yearFrom ?? "…"}-${conditions.yearTo ?? "…"}`);
+    }
+    if (conditions.minCapacity !== undefined || conditions.maxCapacity !== undefined) {
+      parts.push(`${conditions.minCapacity ?? "…"}-${conditions.maxCapacity ?? "…"}cc`);
+    }
+    if (conditions.bikeCategory) parts.push(conditions.bikeSubcategory ? `${conditions.bikeCategory} / ${conditions.bikeSubcategory}` : conditions.bikeCategory);
+    for (const [partCategory, value] of Object.entries(conditions.partValues || {})) {
+      parts.push(`${categoryLabel(partCategory)} = ${value}`);
+    }
+    return parts.join(", ");
+  };
+
+  const conditions = form ? toConditions(form) : null;
+  const hasCondition = !!conditions && Object.values(conditions).some(value => value !== undefined);
+  const canSave = !!form && !!form.name.trim() && hasCondition && Object.keys(toRecord(form.assignments)).length > 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Fitment Rules</CardTitle>
+              <CardDescription>
+                Assign SKUs to every motorcycle matching a rule. A bike's own assignment always wins; when rules overlap, the higher priority wins.
+              </CardDescription>
+            </div>
+            {canEdit && !form && (
+              <Button onClick={() => setForm(emptyRule)} data-testid="button-new-rule">
+                <Plus className="h-4 w-4 mr-2" />
+                New Rule
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center text-gray-500 py-6">Loading rules...</div>
+          ) : !rules || rules.length === 0 ? (
+            <div className="text-center text-gray-500 py-6">No fitment rules yet</div>
+          ) : (
+            <div className="divide-y">
+              {rules.map((rule) => (
+                <div key={rule.id} className={`flex items-start justify-between gap-4 py-3 ${rule.enabled ? "" : "opacity-60"}`} data-testid={`row-rule-${rule.id}`}>
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900">{rule.name}</span>
+                      <Badge variant="outline">Priority {rule.priority}</Badge>
+                      {!rule.enabled && <Badge variant="secondary">Disabled</Badge>}
+                    </div>
+                    <div className="text-sm text-gray-600">When: {describeConditions(rule.conditions)}</div>
+                    <div className="text-sm text-gray-600">
+                      Assigns:{" "}
+                      {Object.entries(rule.assignments).map(([partCategory, sku]) => (
+                        <span key={partCategory} className="mr-3">
+                          {categoryLabel(partCategory)} <span className="font-mono">{sku}</span>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center gap-2">
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <Checkbox
+                          checked={rule.enabled}
+                          onCheckedChange={(checked) => toggleMutation.mutate({ rule, enabled: checked === true })}
+                          disabled={toggleMutation.isPending}
+                          data-testid={`checkbox-rule-enabled-${rule.id}`}
+                        />
+                        Enabled
+                      </label>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => { setForm(toRuleForm(rule)); setMatches(null); }}
+                        data-testid={`button-edit-rule-${rule.id}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => window.confirm(`Delete the rule "${rule.name}"? Bikes that got parts only from it will lose them.`) && deleteMutation.mutate(rule)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-rule-${rule.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {form && (
+        <Card data-testid="card-rule-editor">
+          <CardHeader>
+            <CardTitle>{form.id ? "Edit Rule" : "New Rule"}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="md:col-span-3">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  placeholder="e.g. CRF250R 2018+ bar mount"
+                  data-testid="input-rule-name"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Priority</label>
+                <Input
+                  type="number"
+                  value={form.priority}
+                  onChange={(e) => updateForm({ priority: e.target.value })}
+                  data-testid="input-rule-priority"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="font-semibold text-gray-900">Motorcycles</h4>
+              <MotorcycleFilterFields filter={form.filter} onChange={(updates) => updateForm({ filter: { ...form.filter, ...updates } })} testIdPrefix="rule" />
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="font-semibold text-gray-900">Existing parts</h4>
+              <p className="text-sm text-gray-600">Only bikes with these parts assigned directly match. Use * as a wildcard, e.g. 520*.</p>
+              <PartRowsEditor
+                rows={form.partValues}
+                onChange={(partValues) => updateForm({ partValues })}
+                categoryTags={categoryTags}
+                valuePlaceholder="Required SKU"
+                testIdPrefix="rule-condition"
+              />
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="font-semibold text-gray-900">Assigns</h4>
+              <PartRowsEditor
+                rows={form.assignments}
+                onChange={(assignments) => updateForm({ assignments })}
+                categoryTags={categoryTags}
+                valuePlaceholder="SKU"
+                testIdPrefix="rule-assignment"
+              />
+            </div>
+
+            {matches && (
+              <div className="text-sm text-gray-700" data-testid="text-rule-matches">
+                Matches <strong>{matches.length}</strong> motorcycles
+                {matches.length > 0 && (
+                  <>: {matches.slice(0, 10).map(motorcycle => `${motorcycle.bikemake} ${motorcycle.bikemodel} ${motorcycle.firstyear}-${motorcycle.lastyear}`).join("; ")}
+                    {matches.length > 10 && ` and ${matches.length - 10} more`}</>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => { setForm(null); setMatches(null); }}>Cancel</Button>
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate()}
+                disabled={!hasCondition || previewMutation.isPending}
+                data-testid="button-rule-preview"
+              >
+                <Eye className="h-4 w-4 mr-2" />
+                {previewMutation.isPending ? "Checking..." : "Preview Matches"}
+              </Button>
+              <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending} data-testid="button-rule-save">
+                {saveMutation.isPending ? "Saving..." : "Save Rule"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
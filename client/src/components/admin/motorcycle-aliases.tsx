@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowRight, Pencil, Plus, Sparkles, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { InsertMotorcycleAlias, MotorcycleAlias, MotorcycleAliasKind, MotorcycleNameDuplicate } from "@shared/schema";
+
+const ALIASES_KEY = ["/api/motorcycle-aliases"];
+const DUPLICATES_KEY = ["/api/motorcycle-aliases/duplicates"];
+
+type AliasForm = {
+  id: string | null; // null while creating
+  kind: MotorcycleAliasKind;
+  alias: string;
+  canonical: string;
+  bikemake: string; // Models only; empty: any make
+};
+
+const emptyAlias: AliasForm = { id: null, kind: "make", alias: "", canonical: "", bikemake: "" };
+
+const toAliasForm = (alias: MotorcycleAlias): AliasForm => ({
+  id: alias.id,
+  kind: alias.kind as MotorcycleAliasKind,
+  alias: alias.alias,
+  canonical: alias.canonical,
+  bikemake: alias.bikemake || "",
+});
+
+// Other spellings of makes and models ("Husky", "GASGAS"). CSV imports store the canonical spelling and motorcycle
+// searches are rewritten to it.
+export default function MotorcycleAliases() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const canEdit = can("editor");
+  const [form, setForm] = useState<AliasForm | null>(null);
+
+  const { data: aliases, isLoading } = useQuery<MotorcycleAlias[]>({ queryKey: ALIASES_KEY });
+  const { data: duplicates } = useQuery<MotorcycleNameDuplicate[]>({ queryKey: DUPLICATES_KEY });
+
+  const invalidateAliases = () => {
+    queryClient.invalidateQueries({ queryKey: ALIASES_KEY });
+    queryClient.invalidateQueries({ queryKey: DUPLICATES_KEY });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const alias: InsertMotorcycleAlias = {
+        kind: form!.kind,
+        alias: form!.alias.trim(),
+        canonical: form!.canonical.trim(),
+        bikemake: form!.kind === "model" ? form!.bikemake.trim() || null : null,
+      };
+      const response = form!.id
+        ? await apiRequest("PUT", `/api/motorcycle-aliases/${form!.id}`, alias)
+        : await apiRequest("POST", "/api/motorcycle-aliases", alias);
+      return (await response.json()) as MotorcycleAlias;
+    },
+    onSuccess: (alias) => {
+      invalidateAliases();
+      setForm(null);
+      toast({ title: "Alias saved", description: `${alias.alias} → ${alias.canonical}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving alias", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (alias: MotorcycleAlias) => {
+      await apiRequest("DELETE", `/api/motorcycle-aliases/${alias.id}`);
+    },
+    onSuccess: (_data, alias) => {
+      invalidateAliases();
+      toast({ title: "Alias deleted", description: alias.alias });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error deleting alias", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const seedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/motorcycle-aliases/seed");
+      return (await response.json()) as { seeded: number; aliases: MotorcycleAlias[] };
+    },
+    onSuccess: (result) => {
+      invalidateAliases();
+      toast({ title: "Aliases seeded", description: `${result.seeded} ${result.seeded === 1 ? "alias" : "aliases"} added` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error seeding aliases", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canSave = !!form && !!form.alias.trim() && !!form.canonical.trim() && form.alias.trim() !== form.canonical.trim();
+  const unresolved = duplicates?.filter(duplicate => duplicate.canonical === null) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Make &amp; Model Aliases</CardTitle>
+              <CardDescription>
+                Other spellings customers and suppliers use, e.g. "Husky" for Husqvarna or "SXF 250" for 250 SX-F. Case, spaces and punctuation are ignored when matching. CSV imports store the canonical spelling and searches look for it.
+              </CardDescription>
+            </div>
+            {canEdit && !form && (
+              <Button onClick={() => setForm(emptyAlias)} data-testid="button-new-alias">
+                <Plus className="h-4 w-4 mr-2" />
+                New Alias
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {form && (
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end border rounded-lg p-4 bg-gray-50" data-testid="form-alias">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+                <Select value={form.kind} onValueChange={(value) => setForm({ ...form, kind: value as MotorcycleAliasKind })}>
+                  <SelectTrigger data-testid="select-alias-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="make">Make</SelectItem>
+                    <SelectItem value="model">Model</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Alias</label>
+                <Input value={form.alias} onChange={(e) => setForm({ ...form, alias: e.target.value })} data-testid="input-alias" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Canonical spelling</label>
+                <Input value={form.canonical} onChange={(e) => setForm({ ...form, canonical: e.target.value })} data-testid="input-alias-canonical" />
+              </div>
+              <div>
+                {form.kind === "model" && (
+                  <>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Make</label>
+                    <Input
+                      value={form.bikemake}
+                      onChange={(e) => setForm({ ...form, bikemake: e.target.value })}
+                      placeholder="Empty: any make"
+                      data-testid="input-alias-make"
+                    />
+                  </>
+                )}
+              </div>
+              <div className="flex gap-2 justify-end">
+                <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+                <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending} data-testid="button-alias-save">
+                  {saveMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="text-center text-gray-500 py-6">Loading aliases...</div>
+          ) : !aliases || aliases.length === 0 ? (
+            <div className="text-center text-gray-500 py-6">No aliases yet</div>
+          ) : (
+            <div className="border rounded-lg overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Type</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Alias</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Canonical</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Make</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {aliases.map((alias) => (
+                    <tr key={alias.id} data-testid={`row-alias-${alias.id}`}>
+                      <td className="px-3 py-2"><Badge variant="outline">{alias.kind === "make" ? "Make" : "Model"}</Badge></td>
+                      <td className="px-3 py-2">{alias.alias}</td>
+                      <td className="px-3 py-2 font-medium">{alias.canonical}</td>
+                      <td className="px-3 py-2 text-xs text-gray-600">{alias.kind === "model" ? alias.bikemake || "Any make" : ""}</td>
+                      <td className="px-3 py-2">
+                        {canEdit && (
+                          <div className="flex gap-2 justify-end">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setForm(toAliasForm(alias))}
+                              data-testid={`button-edit-alias-${alias.id}`}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => window.confirm(`Delete the alias ${alias.alias} → ${alias.canonical}?`) && deleteMutation.mutate(alias)}
+                              disabled={deleteMutation.isPending}
+                              data-testid={`button-delete-alias-${alias.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-duplicate-names">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Duplicate-Looking Names</CardTitle>
+              <CardDescription>
+                Makes, and models under one make, stored with spellings that differ only in case, spacing or punctuation. Seeding adds an alias to the most used spelling for each one no alias covers yet.
+              </CardDescription>
+            </div>
+            {canEdit && unresolved.length > 0 && (
+              <Button
+                onClick={() => window.confirm(`Add aliases for ${unresolved.length} duplicate names?`) && seedMutation.mutate()}
+                disabled={seedMutation.isPending}
+                data-testid="button-seed-aliases"
+              >
+                <Sparkles className="h-4 w-4 mr-2" />
+                {seedMutation.isPending ? "Seeding..." : `Seed ${unresolved.length}`}
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!duplicates || duplicates.length === 0 ? (
+            <div className="text-center text-gray-500 py-4">No duplicate-looking makes or models</div>
+          ) : (
+            <div className="divide-y border rounded-lg max-h-96 overflow-y-auto">
+              {duplicates.map((duplicate) => (
+                <div
+                  key={`${duplicate.kind}-${duplicate.bikemake ?? ""}-${duplicate.key}`}
+                  className="px-3 py-2 flex items-center gap-2 flex-wrap text-sm"
+                  data-testid={`row-duplicate-${duplicate.kind}-${duplicate.key}`}
+                >
+                  <Badge variant="outline">{duplicate.kind === "make" ? "Make" : duplicate.bikemake}</Badge>
+                  {duplicate.spellings.map((spelling, index) => (
+                    <span key={spelling.value} className={index === 0 ? "font-medium" : "text-gray-600"}>
+                      {spelling.value} <span className="text-xs text-gray-400">({spelling.count})</span>
+                    </span>
+                  ))}
+                  {duplicate.canonical !== null && (
+                    <span className="flex items-center gap-1 text-xs text-green-700">
+                      <ArrowRight className="h-3 w-3" />
+                      {duplicate.canonical}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -27,13 +27,14 @@ import type { InsertMotorcycle } from "@shared/schema";
 
 interface MotorcycleFormProps {
   motorcycle?: any;
+  initialValues?: Partial<InsertMotorcycle>; // Prefill when adding, e.g. from a search that found nothing
   onClose: () => void;
 }
 
-export default function MotorcycleForm({ motorcycle, onClose }: MotorcycleFormProps) {
+export default function MotorcycleForm({ motorcycle, initialValues, onClose }: MotorcycleFormProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [selectedCategory, setSelectedCategory] = useState(motorcycle?.bikeCategory || "");
+  const [selectedCategory, setSelectedCategory] = useState(motorcycle?.bikeCategory || initialValues?.bikeCategory || "");
 
   // Fetch category configuration from the database
   const { data: categoryConfig, isLoading: loadingCategories } = useQuery<MotorcycleCategoryConfig[]>({
@@ -71,6 +72,7 @@ export default function MotorcycleForm({ motorcycle, onClose }: MotorcycleFormPr
       firstyear: motorcycle?.firstyear || new Date().getFullYear(),
       lastyear: motorcycle?.lastyear || new Date().getFullYear(),
       capacity: motorcycle?.capacity || undefined,
+      ...(motorcycle ? {} : initialValues),
     },
   });
 
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { apiRequest } from "@/lib/queryClient";
+import type { OrderAttributionReport, OrderAttributionTotals } from "@shared/schema";
+
+const ORDER_ATTRIBUTION_KEY = "/api/analytics/order-attribution";
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+
+function formatRevenue(cents: number, currency: string | null) {
+  const amount = cents / 100;
+  return currency
+    ? amount.toLocaleString(undefined, { style: "currency", currency })
+    : amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function TotalsCells({ totals, currency }: { totals: OrderAttributionTotals; currency: string | null }) {
+  return (
+    <>
+      <td className="px-3 py-2 text-right">{totals.orders}</td>
+      <td className="px-3 py-2 text-right">{totals.units}</td>
+      <td className="px-3 py-2 text-right font-semibold">{formatRevenue(totals.revenueCents, currency)}</td>
+    </>
+  );
+}
+
+const totalsHeaders = (
+  <>
+    <th className="px-3 py-2 text-right font-semibold text-gray-700">Orders</th>
+    <th className="px-3 py-2 text-right font-semibold text-gray-700">Units</th>
+    <th className="px-3 py-2 text-right font-semibold text-gray-700">Revenue</th>
+  </>
+);
+
+// Revenue and units from order lines bought through the finder, per motorcycle, make and part category
+export default function OrderAttributionAnalytics() {
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [applied, setApplied] = useState({ dateFrom: "", dateTo: "" });
+
+  const { data: report, isLoading } = useQuery<OrderAttributionReport>({
+    queryKey: [ORDER_ATTRIBUTION_KEY, applied.dateFrom, applied.dateTo],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: "50" });
+      if (applied.dateFrom) params.set("dateFrom", applied.dateFrom);
+      // Inclusive of the whole last day
+      if (applied.dateTo) params.set("dateTo", `${applied.dateTo}T23:59:59`);
+      const response = await apiRequest("GET", `${ORDER_ATTRIBUTION_KEY}?${params}`);
+      return response.json();
+    },
+  });
+
+  const setLastDays = (days: number) => {
+    setDateFrom(daysAgo(days));
+    setDateTo(daysAgo(0));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-end">
+        <div className="flex gap-2">
+          <div className="space-y-1">
+            <label className="text-sm font-medium text-gray-700">From Date</label>
+            <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className="w-40" data-testid="input-attribution-date-from" />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm font-medium text-gray-700">To Date</label>
+            <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className="w-40" data-testid="input-attribution-date-to" />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => setApplied({ dateFrom, dateTo })} size="sm" data-testid="button-attribution-apply">
+            <CalendarIcon className="h-4 w-4 mr-1" />
+            Apply Filter
+          </Button>
+          <Button
+            onClick={() => {
+              setDateFrom("");
+              setDateTo("");
+              setApplied({ dateFrom: "", dateTo: "" });
+            }}
+            size="sm"
+            variant="outline"
+          >
+            Clear
+          </Button>
+          <Button onClick={() => setLastDays(7)} size="sm" variant="ghost">Last 7 days</Button>
+          <Button onClick={() => setLastDays(30)} size="sm" variant="ghost">Last 30 days</Button>
+        </div>
+      </div>
+
+      {(applied.dateFrom || applied.dateTo) && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-600">Active filter:</span>
+          <Badge variant="secondary">{applied.dateFrom || "All time"} → {applied.dateTo || "Now"}</Badge>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : !report || report.totals.units === 0 ? (
+        <div className="text-center text-gray-500 py-6">No orders were attributed to a motorcycle in the selected date range</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="border rounded-lg p-3">
+              <div className="text-xs text-gray-500">Attributed revenue</div>
+              <div className="text-xl font-semibold" data-testid="text-attribution-revenue">{formatRevenue(report.totals.revenueCents, report.currency)}</div>
+            </div>
+            <div className="border rounded-lg p-3">
+              <div className="text-xs text-gray-500">Units</div>
+              <div className="text-xl font-semibold">{report.totals.units}</div>
+            </div>
+            <div className="border rounded-lg p-3">
+              <div className="text-xs text-gray-500">Orders</div>
+              <div className="text-xl font-semibold">{report.totals.orders}</div>
+            </div>
+          </div>
+
+          <Tabs defaultValue="motorcycles">
+            <TabsList>
+              <TabsTrigger value="motorcycles">By motorcycle</TabsTrigger>
+              <TabsTrigger value="makes">By make</TabsTrigger>
+              <TabsTrigger value="categories">By part category</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="motorcycles" className="mt-4">
+              <div className="border rounded-lg overflow-x-auto max-h-96 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-semibold text-gray-700">Motorcycle</th>
+                      {totalsHeaders}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {report.motorcycles.map((entry) => (
+                      <tr key={entry.motorcycleRecid} data-testid={`row-attribution-motorcycle-${entry.motorcycleRecid}`}>
+                        <td className="px-3 py-2">
+                          {entry.bikemake ? `${entry.bikemake} ${entry.bikemodel}` : <span className="text-gray-500">Deleted motorcycle</span>}
+                          <span className="text-xs text-gray-500 ml-2">RECID {entry.motorcycleRecid}</span>
+                        </td>
+                        <TotalsCells totals={entry} currency={report.currency} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="makes" className="mt-4">
+              <div className="border rounded-lg overflow-x-auto max-h-96 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-semibold text-gray-700">Make</th>
+                      {totalsHeaders}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {report.makes.map((entry) => (
+                      <tr key={entry.bikemake} data-testid={`row-attribution-make-${entry.bikemake}`}>
+                        <td className="px-3 py-2">{entry.bikemake}</td>
+                        <TotalsCells totals={entry} currency={report.currency} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="categories" className="mt-4">
+              <div className="border rounded-lg overflow-x-auto max-h-96 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-semibold text-gray-700">Part category</th>
+                      {totalsHeaders}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {report.categories.map((entry) => (
+                      <tr key={entry.partCategory ?? "uncategorized"} data-testid={`row-attribution-category-${entry.partCategory ?? "uncategorized"}`}>
+                        <td className="px-3 py-2">{entry.label}</td>
+                        <TotalsCells totals={entry} currency={report.currency} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+}
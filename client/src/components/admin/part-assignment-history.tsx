@@ -0,0 +1,117 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { History, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { PartAssignmentAudit, PartAssignmentSource } from "@shared/schema";
+
+interface PartAssignmentHistoryProps {
+  motorcycleRecid: number;
+  categoryLabels: Record<string, string>;
+}
+
+const SOURCE_LABELS: Record<PartAssignmentSource, string> = {
+  manual: "Manual",
+  csv_import: "CSV import",
+  auto_heal: "Auto-heal",
+  revert: "Revert",
+  bulk_assign: "Bulk assign",
+  clone: "Copied fitment",
+  supersession: "SKU supersession",
+};
+
+export function partAssignmentHistoryKey(motorcycleRecid: number) {
+  return ["/api/motorcycles", motorcycleRecid, "parts/history"];
+}
+
+export default function PartAssignmentHistory({ motorcycleRecid, categoryLabels }: PartAssignmentHistoryProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: history, isLoading } = useQuery<PartAssignmentAudit[]>({
+    queryKey: partAssignmentHistoryKey(motorcycleRecid),
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      const response = await apiRequest("POST", `/api/motorcycles/${motorcycleRecid}/parts/history/${entryId}/revert`);
+      return response.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/motorcycles`, motorcycleRecid, `/parts`] });
+      queryClient.invalidateQueries({ queryKey: partAssignmentHistoryKey(motorcycleRecid) });
+      toast({ title: "Change reverted", description: result.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error reverting change", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const labelFor = (entry: PartAssignmentAudit) =>
+    entry.partMappingId ? "Part mapping product" : categoryLabels[entry.partCategory] || entry.partCategory;
+
+  return (
+    <Card data-testid="card-part-assignment-history">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          <CardTitle>Change History</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-gray-500 py-4">Loading history...</div>
+        ) : !history || history.length === 0 ? (
+          <div className="text-center text-gray-500 py-4">No part assignment changes recorded yet</div>
+        ) : (
+          <div className="divide-y">
+            {history.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-center justify-between gap-4 py-3"
+                data-testid={`history-entry-${entry.id}`}
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm font-medium text-gray-900">{labelFor(entry)}</div>
+                  <div className="text-sm text-gray-600 truncate">
+                    <span className={entry.previousValue ? "" : "italic text-gray-400"}>
+                      {entry.previousValue || "none"}
+                    </span>
+                    {" → "}
+                    <span className={entry.newValue ? "font-medium" : "italic text-gray-400"}>
+                      {entry.newValue || "none"}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                    <Badge variant="outline" className="text-xs">
+                      {SOURCE_LABELS[entry.source as PartAssignmentSource] || entry.source}
+                    </Badge>
+                    <span>{entry.changedBy || "system"}</span>
+                    <span>•</span>
+                    <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                  </div>
+                </div>
+                {can("editor") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revertMutation.mutate(entry.id)}
+                    disabled={revertMutation.isPending || (!!entry.partMappingId && !entry.previousValue)}
+                    data-testid={`button-revert-${entry.id}`}
+                  >
+                    <Undo2 className="h-4 w-4 mr-1" />
+                    Revert
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
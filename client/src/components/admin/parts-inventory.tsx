@@ -1,17 +1,27 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { ChevronDown, ChevronRight, Search, Package, ListOrdered } from "lucide-react";
-import type { ShopifyProductWithVariants } from "@shared/schema";
+import { ChevronDown, ChevronRight, Search, Package, ListOrdered, RefreshCw } from "lucide-react";
+import type { ShopifyProductWithVariants, ProductCacheStatus } from "@shared/schema";
+
+function formatTimestamp(value: string | null) {
+  return value ? new Date(value).toLocaleString() : "Never";
+}
 
 export function PartsInventory() {
   const [searchQuery, setSearchQuery] = useState("");
   const [expandedProducts, setExpandedProducts] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
 
   // Fetch all products with variants
   const { data: products, isLoading } = useQuery<ShopifyProductWithVariants[]>({
@@ -23,6 +33,33 @@ export function PartsInventory() {
     }
   });
 
+  // Product cache freshness
+  const { data: cacheStatus } = useQuery<ProductCacheStatus>({
+    queryKey: ["/api/products/cache-status"],
+  });
+
+  const syncCacheMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/products/cache/sync");
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products/"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/cache-status"] });
+      toast({
+        title: "Product cache synced",
+        description: `${result.productCount} products (${result.variantCount} variants) loaded from Shopify`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sync product cache",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Filter products based on search query
   const filteredProducts = products?.filter(product => {
     const searchLower = searchQuery.toLowerCase();
@@ -101,6 +138,37 @@ export function PartsInventory() {
         </CardHeader>
         
         <CardContent className="space-y-4">
+          {/* Product Cache Freshness */}
+          <div
+            className="flex flex-wrap items-center justify-between gap-3 rounded-lg border bg-gray-50 p-3 text-sm"
+            data-testid="product-cache-status"
+          >
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-gray-600">
+              <span>
+                <strong>Cache:</strong> {cacheStatus?.productCount ?? 0} products, {cacheStatus?.variantCount ?? 0} variants
+              </span>
+              <span>
+                <strong>Last full sync:</strong> {formatTimestamp(cacheStatus?.lastFullSyncAt ?? null)}
+              </span>
+              <span>
+                <strong>Last webhook:</strong> {formatTimestamp(cacheStatus?.lastWebhookAt ?? null)}
+                {cacheStatus?.lastWebhookTopic && ` (${cacheStatus.lastWebhookTopic})`}
+              </span>
+            </div>
+            {can("editor") && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => syncCacheMutation.mutate()}
+                disabled={syncCacheMutation.isPending}
+                data-testid="button-sync-product-cache"
+              >
+                <RefreshCw className={`h-4 w-4 mr-1 ${syncCacheMutation.isPending ? "animate-spin" : ""}`} />
+                {syncCacheMutation.isPending ? "Syncing..." : "Sync now"}
+              </Button>
+            )}
+          </div>
+
           {/* Search and Controls */}
           <div className="flex gap-4 items-center">
             <div className="relative flex-1">
@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Search, ChevronDown, Filter, ArrowRight } from "lucide-react";
+import { Search, ChevronDown, ChevronLeft, ChevronRight, Filter, ArrowRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -8,7 +8,27 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import type { ShopifyProduct, ShopifyProductWithVariants, Motorcycle, PartCategoryTags, PartSection } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import PartAssignmentHistory, { partAssignmentHistoryKey } from "@/components/admin/part-assignment-history";
+import CloneFitment from "@/components/admin/clone-fitment";
+import FitmentDetailsEditor from "@/components/admin/fitment-details-editor";
+import { BIKE_CATEGORIES } from "@shared/schema";
+import type { ShopifyProduct, ShopifyProductWithVariants, Motorcycle, MotorcycleListPage, PartCategoryTags, PartSection, EffectiveMotorcycleParts, MotorcycleFitmentDetails } from "@shared/schema";
+
+const MOTORCYCLE_PAGE_SIZE = 30;
+
+// Sort select values are "<sort>:<order>"; best match falls back to make when there's no search
+const MOTORCYCLE_SORT_OPTIONS = [
+  { value: "relevance:desc", label: "Best match" },
+  { value: "make:asc", label: "Make A-Z" },
+  { value: "model:asc", label: "Model A-Z" },
+  { value: "year:desc", label: "Newest first" },
+  { value: "year:asc", label: "Oldest first" },
+  { value: "capacity:desc", label: "Largest capacity" },
+  { value: "recid:asc", label: "RECID" },
+];
+
+const emptyMotorcycleFilters = { bikemake: "", bikeCategory: "", firstyear: "", partCategory: "", partStatus: "missing", sort: "relevance:desc" };
 
 interface PartsMappingProps {
   selectedMotorcycle?: Motorcycle | null;
@@ -155,7 +175,8 @@ const getFilteredProducts = (products: ShopifyProduct[], categoryValue: string,
 export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps) {
   const [motorcycleSearch, setMotorcycleSearch] = useState("");
   const [productSearch, setProductSearch] = useState("");
-  const [motorcycleFilters, setMotorcycleFilters] = useState({ bikemake: "", biketype: "", firstyear: "" });
+  const [motorcycleFilters, setMotorcycleFilters] = useState(emptyMotorcycleFilters);
+  const [motorcyclePageCursors, setMotorcyclePageCursors] = useState<(string | undefined)[]>([undefined]); // One per page visited; the last is the current page
   const [currentMotorcycle, setCurrentMotorcycle] = useState<Motorcycle | null>(selectedMotorcycle || null);
   const [selectedCategory, setSelectedCategory] = useState("");
   const [productVariant, setProductVariant] = useState("");
@@ -165,6 +186,8 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
   const [selectedProductForVariant, setSelectedProductForVariant] = useState("");
   const [editingToothRange, setEditingToothRange] = useState<'fcwgroup_range' | 'rcwgroup_range' | null>(null);
   const [toothRangeValue, setToothRangeValue] = useState("");
+  const { can } = useAuth();
+  const canEdit = can("editor");
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
@@ -183,6 +206,17 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
     if (!categoryTags) return buildDynamicPartSections([], partSections);
     return buildDynamicPartSections(categoryTags, partSections);
   }, [categoryTags, partSections]);
+
+  // Category labels for the change history panel
+  const categoryLabels = useMemo(() => {
+    const labels: Record<string, string> = {};
+    Object.values(dynamicSections).forEach((section: any) => {
+      section.categories.forEach((category: any) => {
+        labels[category.value] = category.label;
+      });
+    });
+    return labels;
+  }, [dynamicSections]);
   
   // Update current motorcycle if prop changes
   useEffect(() => {
@@ -191,30 +225,46 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
     }
   }, [selectedMotorcycle]);
 
-  // Query for motorcycles if no specific one selected
-  const { data: motorcycles, isLoading: loadingMotorcycles } = useQuery<Motorcycle[]>({
-    queryKey: ["/api/motorcycles", motorcycleSearch, motorcycleFilters],
+  // New search or filters start again from the first page
+  useEffect(() => {
+    setMotorcyclePageCursors([undefined]);
+  }, [motorcycleSearch, motorcycleFilters]);
+
+  // Query one page of motorcycles if no specific one selected
+  const motorcycleCursor = motorcyclePageCursors[motorcyclePageCursors.length - 1];
+  const { data: motorcyclePage, isLoading: loadingMotorcycles } = useQuery<MotorcycleListPage>({
+    queryKey: ["/api/motorcycles", motorcycleSearch, motorcycleFilters, motorcycleCursor],
     queryFn: async () => {
-      const params = new URLSearchParams();
+      const [sort, order] = motorcycleFilters.sort.split(":");
+      const params = new URLSearchParams({ limit: String(MOTORCYCLE_PAGE_SIZE) });
       
       // Add search parameter if exists
       if (motorcycleSearch.trim()) {
         params.append("search", motorcycleSearch.trim());
       }
+      if (sort !== "relevance" || motorcycleSearch.trim()) {
+        params.append("sort", sort);
+        params.append("order", order);
+      }
       
       // Add filter parameters if exists
       if (motorcycleFilters.bikemake && motorcycleFilters.bikemake !== "all-makes") {
         params.append("bikemake", motorcycleFilters.bikemake);
       }
       if (motorcycleFilters.firstyear && motorcycleFilters.firstyear !== "all-years") {
-        params.append("firstyear", motorcycleFilters.firstyear);
+        params.append("year", motorcycleFilters.firstyear);
       }
-      if (motorcycleFilters.biketype && motorcycleFilters.biketype !== "all-types") {
-        params.append("biketype", motorcycleFilters.biketype);
+      if (motorcycleFilters.bikeCategory && motorcycleFilters.bikeCategory !== "all-categories") {
+        params.append("bikeCategory", motorcycleFilters.bikeCategory);
+      }
+      if (motorcycleFilters.partCategory && motorcycleFilters.partCategory !== "any-part") {
+        params.append(motorcycleFilters.partStatus === "has" ? "hasPart" : "missingPart", motorcycleFilters.partCategory);
+      }
+      if (motorcycleCursor) {
+        params.append("cursor", motorcycleCursor);
       }
       
-      const url = `/api/motorcycles${params.toString() ? `?${params.toString()}` : ''}`;
-      const response = await fetch(url);
+      const response = await fetch(`/api/motorcycles?${params.toString()}`);
       
       if (!response.ok) {
         throw new Error('Failed to fetch motorcycles');
@@ -224,6 +274,8 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
     },
     enabled: !currentMotorcycle,
   });
+  const motorcycles = motorcyclePage?.motorcycles;
+  const motorcyclePageStart = (motorcyclePageCursors.length - 1) * MOTORCYCLE_PAGE_SIZE;
 
   // Query for dropdown filter data
   const { data: availableMakes } = useQuery<string[]>({
@@ -271,6 +323,28 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
     },
   });
 
+  // Values supplied by fitment rules; nested under the parts key so assignment invalidations refresh it too
+  const { data: effectiveParts } = useQuery<EffectiveMotorcycleParts>({
+    queryKey: [`/api/motorcycles`, currentMotorcycle?.recid, `/parts`, "effective"],
+    enabled: !!currentMotorcycle?.recid,
+    queryFn: async () => {
+      const response = await fetch(`/api/motorcycles/${currentMotorcycle!.recid}/parts/effective`, { credentials: "include" });
+      if (!response.ok) throw new Error(`Failed to fetch rule fitments: ${response.status}`);
+      return response.json();
+    },
+  });
+
+  // Notes and qualifiers on this bike's assignments, also nested under the parts key
+  const { data: fitmentDetails } = useQuery<MotorcycleFitmentDetails>({
+    queryKey: [`/api/motorcycles`, currentMotorcycle?.recid, `/parts`, "details"],
+    enabled: !!currentMotorcycle?.recid,
+    queryFn: async () => {
+      const response = await fetch(`/api/motorcycles/${currentMotorcycle!.recid}/parts/details`, { credentials: "include" });
+      if (!response.ok) throw new Error(`Failed to fetch fitment details: ${response.status}`);
+      return response.json();
+    },
+  });
+
   // Debug logging for troubleshooting
   useEffect(() => {
     if (currentMotorcycle) {
@@ -305,6 +379,7 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
     },
     onSuccess: (data, variables) => {
       queryClient.invalidateQueries({ queryKey: [`/api/motorcycles`, variables.motorcycleId, `/parts`] });
+      queryClient.invalidateQueries({ queryKey: partAssignmentHistoryKey(variables.motorcycleId) });
       const categoryTag = categoryTags?.find(c => c.categoryValue === variables.partCategory);
       toast({
         title: "Part assigned successfully",
@@ -320,6 +395,7 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
           body: JSON.stringify({ partCategory: 'oe_rcw', productVariant: null }),
         }).then(() => {
           queryClient.invalidateQueries({ queryKey: [`/api/motorcycles`, variables.motorcycleId, `/parts`] });
+          queryClient.invalidateQueries({ queryKey: partAssignmentHistoryKey(variables.motorcycleId) });
           toast({
             title: "OE Rear Sprocket cleared",
             description: "Please select a new OE Rear Sprocket variant for the updated RCW Group",
@@ -336,6 +412,7 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
           body: JSON.stringify({ partCategory: 'oe_fcw', productVariant: null }),
         }).then(() => {
           queryClient.invalidateQueries({ queryKey: [`/api/motorcycles`, variables.motorcycleId, `/parts`] });
+          queryClient.invalidateQueries({ queryKey: partAssignmentHistoryKey(variables.motorcycleId) });
           toast({
             title: "OE Front Sprocket cleared", 
             description: "Please select a new OE Front Sprocket variant for the updated FCW Group",
@@ -374,6 +451,7 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
     },
     onSuccess: (data, variables) => {
       queryClient.invalidateQueries({ queryKey: [`/api/motorcycles`, variables.motorcycleId, `/parts`] });
+      queryClient.invalidateQueries({ queryKey: partAssignmentHistoryKey(variables.motorcycleId) });
       const label = variables.rangeType === 'fcwgroup_range' ? 'Front Sprocket' : 'Rear Sprocket';
       toast({
         title: "Tooth range updated",
@@ -404,6 +482,8 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
   };
 
   const startEditing = (category: string, currentValue: string | null) => {
+    if (!canEdit) return;
+
     // For OE Rear Sprocket, check if RCW Group is selected first
     if (category === 'oe_rcw' && !motorcycleParts?.rcwgroup) {
       toast({
@@ -442,6 +522,7 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
   };
 
   const startEditingToothRange = (rangeType: 'fcwgroup_range' | 'rcwgroup_range', currentValue: string | null) => {
+    if (!canEdit) return;
     setEditingToothRange(rangeType);
     setToothRangeValue(currentValue || "");
   };
@@ -523,17 +604,60 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
               </Select>
 
               <Select 
-                value={motorcycleFilters.biketype} 
-                onValueChange={(value) => setMotorcycleFilters(prev => ({ ...prev, biketype: value }))}
+                value={motorcycleFilters.bikeCategory} 
+                onValueChange={(value) => setMotorcycleFilters(prev => ({ ...prev, bikeCategory: value }))}
               >
                 <SelectTrigger data-testid="select-type-filter">
                   <SelectValue placeholder="All Types" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all-types">All Types</SelectItem>
-                  <SelectItem value="1">Road</SelectItem>
-                  <SelectItem value="2">Dirt</SelectItem>
-                  <SelectItem value="3">ATV/Quad</SelectItem>
+                  <SelectItem value="all-categories">All Types</SelectItem>
+                  {Object.values(BIKE_CATEGORIES).map((category) => (
+                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select 
+                value={motorcycleFilters.partCategory} 
+                onValueChange={(value) => setMotorcycleFilters(prev => ({ ...prev, partCategory: value }))}
+              >
+                <SelectTrigger data-testid="select-part-filter">
+                  <SelectValue placeholder="Any Part Category" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any-part">Any Part Category</SelectItem>
+                  {categoryTags?.map((tag) => (
+                    <SelectItem key={tag.categoryValue} value={tag.categoryValue}>{tag.categoryLabel}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select 
+                value={motorcycleFilters.partStatus} 
+                onValueChange={(value) => setMotorcycleFilters(prev => ({ ...prev, partStatus: value }))}
+                disabled={!motorcycleFilters.partCategory || motorcycleFilters.partCategory === "any-part"}
+              >
+                <SelectTrigger data-testid="select-part-status-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="missing">Missing this part</SelectItem>
+                  <SelectItem value="has">Has this part</SelectItem>
+                </SelectContent>
+              </Select>
+
+              <Select 
+                value={motorcycleFilters.sort} 
+                onValueChange={(value) => setMotorcycleFilters(prev => ({ ...prev, sort: value }))}
+              >
+                <SelectTrigger data-testid="select-motorcycle-sort">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MOTORCYCLE_SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -566,6 +690,37 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
               </div>
             ) : null}
+
+            {/* Pagination */}
+            {motorcyclePage && motorcyclePage.total > 0 && (
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span data-testid="text-motorcycle-page-range">
+                  Showing {motorcyclePageStart + 1}-{motorcyclePageStart + motorcyclePage.motorcycles.length} of {motorcyclePage.total} motorcycles
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setMotorcyclePageCursors(prev => prev.slice(0, -1))}
+                    disabled={motorcyclePageCursors.length === 1}
+                    data-testid="button-motorcycles-previous"
+                  >
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setMotorcyclePageCursors(prev => [...prev, motorcyclePage.nextCursor!])}
+                    disabled={!motorcyclePage.nextCursor}
+                    data-testid="button-motorcycles-next"
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -589,7 +744,7 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
                 onClick={() => {
                   setCurrentMotorcycle(null);
                   setMotorcycleSearch("");
-                  setMotorcycleFilters({ bikemake: "", biketype: "", firstyear: "" });
+                  setMotorcycleFilters(emptyMotorcycleFilters);
                 }}
                 data-testid="button-change-motorcycle"
               >
@@ -646,6 +801,7 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
                 {sectionData.categories.map((category: any) => {
               const assignedPart = motorcycleParts[category.value];
+              const ruleFitment = effectiveParts?.ruleFitments.find(fitment => fitment.partCategory === category.value);
               const isEditing = editingCategory === category.value;
               
               // Special handling for two-step workflows
@@ -668,6 +824,20 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
                 >
                   <div className="space-y-2">
                     <div className="font-medium text-sm">{category.label}</div>
+
+                    {/* Value supplied by a fitment rule, or the rule this bike's own assignment overrides */}
+                    {ruleFitment && !isEditing && (
+                      <div
+                        className={`text-xs p-2 rounded border ${ruleFitment.overridden ? 'text-gray-500 bg-gray-50 border-gray-200' : 'text-purple-800 bg-purple-50 border-purple-200'}`}
+                        data-testid={`text-rule-${category.value}`}
+                      >
+                        {ruleFitment.overridden ? (
+                          <>Overrides rule "{ruleFitment.ruleName}" (<span className="font-mono">{ruleFitment.sku}</span>)</>
+                        ) : (
+                          <>From rule "{ruleFitment.ruleName}": <span className="font-mono font-semibold">{ruleFitment.sku}</span></>
+                        )}
+                      </div>
+                    )}
                     
                     {/* Special message for OE Rear Sprocket if RCW Group not selected */}
                     {isOERearSprocket && !selectedRCWGroup && !isEditing && (
@@ -943,12 +1113,19 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
                         {assignedPart ? (
                           <>
                             <div
-                              className="text-lg font-semibold text-green-700 cursor-pointer hover:text-green-800"
+                              className={`text-lg font-semibold text-green-700 ${canEdit ? "cursor-pointer hover:text-green-800" : ""}`}
                               onClick={() => startEditing(category.value, assignedPart)}
                               data-testid={`text-assigned-${category.value}`}
                             >
                               {assignedPart}
                             </div>
+
+                            <FitmentDetailsEditor
+                              motorcycleRecid={currentMotorcycle.recid}
+                              partCategory={category.value}
+                              details={fitmentDetails?.[category.value]}
+                              canEdit={canEdit}
+                            />
                             
                             {/* Show tooth range editor for FCW Group and RCW Group */}
                             {(isFCWGroup || isRCWGroup) && (
@@ -1000,21 +1177,27 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
                                     >
                                       {motorcycleParts[isFCWGroup ? 'fcwgroup_range' : 'rcwgroup_range'] || 'No range set - all variants shown'}
                                     </div>
-                                    <div className="text-gray-500 mt-1 italic">
-                                      Click to edit (e.g., "49-51" or "48,50,52")
-                                    </div>
+                                    {canEdit && (
+                                      <div className="text-gray-500 mt-1 italic">
+                                        Click to edit (e.g., "49-51" or "48,50,52")
+                                      </div>
+                                    )}
                                   </>
                                 )}
                               </div>
                             )}
                           </>
+                        ) : !canEdit ? (
+                          <div className="text-sm text-gray-400 py-3 text-center" data-testid={`text-unassigned-${category.value}`}>
+                            Not assigned
+                          </div>
                         ) : (
                           <div
                             className="text-sm text-blue-600 cursor-pointer hover:text-blue-700 hover:bg-blue-50 py-3 border-2 border-dashed border-blue-300 rounded text-center transition-all"
                             onClick={() => startEditing(category.value, null)}
                             data-testid={`button-add-${category.value}`}
                           >
-                            + Select Product
+                            {ruleFitment ? '+ Override Rule' : '+ Select Product'}
                           </div>
                         )}
                       </div>
@@ -1029,6 +1212,16 @@ export default function PartsMapping({ selectedMotorcycle }: PartsMappingProps)
           })}
         </div>
       )}
+
+      {/* Copy another motorcycle's assignments onto this one */}
+      {currentMotorcycle && canEdit && (
+        <CloneFitment targetMotorcycle={currentMotorcycle} categoryLabels={categoryLabels} />
+      )}
+
+      {/* Part assignment change history with revert */}
+      {currentMotorcycle && (
+        <PartAssignmentHistory motorcycleRecid={currentMotorcycle.recid} categoryLabels={categoryLabels} />
+      )}
     </div>
   );
 }
\ No newline at end of file
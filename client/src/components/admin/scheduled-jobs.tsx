@@ -0,0 +1,253 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Clock, Play, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { SCHEDULED_JOB_LABELS, type ScheduledJob, type ScheduledJobRun, type ScheduledJobRunStatus, type ScheduledJobType } from "@shared/schema";
+
+type JobConfig = Pick<ScheduledJob, 'schedule' | 'enabled' | 'nextRunAt' | 'updatedBy' | 'updatedAt'> & { jobType: ScheduledJobType };
+
+const JOBS_KEY = ["/api/scheduled-jobs"];
+const RUNS_KEY = ["/api/scheduled-jobs/runs"];
+
+const STATUS_VARIANTS: Record<ScheduledJobRunStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  running: "outline",
+  success: "default",
+  error: "destructive",
+  skipped: "secondary",
+};
+
+const formatDuration = (durationMs: number | null) =>
+  durationMs === null ? "—" : durationMs < 1000 ? `${durationMs} ms` : `${(durationMs / 1000).toFixed(1)} s`;
+
+function JobRow({ job }: { job: JobConfig }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [schedule, setSchedule] = useState(job.schedule);
+  const [enabled, setEnabled] = useState(job.enabled);
+
+  useEffect(() => {
+    setSchedule(job.schedule);
+    setEnabled(job.enabled);
+  }, [job.schedule, job.enabled]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/scheduled-jobs/${job.jobType}`, { schedule: schedule.trim(), enabled });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: JOBS_KEY });
+      toast({ title: "Schedule saved", description: SCHEDULED_JOB_LABELS[job.jobType] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving schedule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/scheduled-jobs/${job.jobType}/run`);
+      return (await response.json()) as ScheduledJobRun;
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: RUNS_KEY });
+      toast({
+        title: `${SCHEDULED_JOB_LABELS[job.jobType]}: ${run.status}`,
+        description: run.errorMessage || run.summary || undefined,
+        variant: run.status === "error" ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error running job", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const dirty = schedule.trim() !== job.schedule || enabled !== job.enabled;
+
+  return (
+    <tr data-testid={`row-job-${job.jobType}`}>
+      <td className="px-3 py-2 font-medium text-gray-900">{SCHEDULED_JOB_LABELS[job.jobType]}</td>
+      <td className="px-3 py-2">
+        <Input
+          value={schedule}
+          onChange={(e) => setSchedule(e.target.value)}
+          className="h-8 w-40 font-mono"
+          data-testid={`input-job-schedule-${job.jobType}`}
+        />
+      </td>
+      <td className="px-3 py-2">
+        <Checkbox
+          checked={enabled}
+          onCheckedChange={(checked) => setEnabled(checked === true)}
+          data-testid={`checkbox-job-enabled-${job.jobType}`}
+        />
+      </td>
+      <td className="px-3 py-2 text-xs text-gray-600">
+        {job.enabled && job.nextRunAt ? new Date(job.nextRunAt).toLocaleString() : <span className="italic">disabled</span>}
+      </td>
+      <td className="px-3 py-2">
+        <div className="flex gap-2 justify-end">
+          <Button
+            size="sm"
+            onClick={() => saveMutation.mutate()}
+            disabled={!dirty || !schedule.trim() || saveMutation.isPending}
+            data-testid={`button-save-job-${job.jobType}`}
+          >
+            Save
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => runMutation.mutate()}
+            disabled={runMutation.isPending}
+            data-testid={`button-run-job-${job.jobType}`}
+          >
+            <Play className="h-4 w-4 mr-1" />
+            {runMutation.isPending ? "Running..." : "Run now"}
+          </Button>
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+type MappingFinding = { id: string; shopifyProductId: string; shopifyVariantId: string | null; expectedSku?: string | null; variantSku?: string | null };
+
+// Mappings whose product left the cache in the most recent successful validation
+function LatestFindings({ run }: { run: ScheduledJobRun }) {
+  const result = run.result as { stale?: MappingFinding[]; missing?: MappingFinding[] } | null;
+  const stale = result?.stale || [];
+  const missing = result?.missing || [];
+
+  return (
+    <div className="space-y-2 text-sm" data-testid="latest-findings">
+      <div className="text-gray-700">
+        Last validation {new Date(run.startedAt).toLocaleString()}: {run.summary}
+      </div>
+      {stale.length === 0 && missing.length === 0 ? (
+        <div className="text-gray-500">No stale or missing mappings</div>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto divide-y border rounded-lg">
+          {stale.map((mapping) => (
+            <li key={`stale-${mapping.id}`} className="px-3 py-1.5 flex items-center gap-2">
+              <Badge variant="secondary">Stale</Badge>
+              <span className="text-gray-700">
+                {mapping.shopifyVariantId ? `Variant ${mapping.shopifyVariantId}` : `Product ${mapping.shopifyProductId}`} gone, healable by SKU
+              </span>
+              <span className="font-mono text-xs text-gray-500">{mapping.shopifyVariantId ? mapping.variantSku : mapping.expectedSku}</span>
+            </li>
+          ))}
+          {missing.map((mapping) => (
+            <li key={`missing-${mapping.id}`} className="px-3 py-1.5 flex items-center gap-2">
+              <Badge variant="destructive">Missing SKU</Badge>
+              <span className="text-gray-700">
+                {mapping.shopifyVariantId ? `Variant ${mapping.shopifyVariantId}` : `Product ${mapping.shopifyProductId}`} gone, no SKU to heal from
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Schedules for the mapping maintenance jobs, with their run history and the latest validation findings
+export default function ScheduledJobs() {
+  const { data: jobs } = useQuery<JobConfig[]>({ queryKey: JOBS_KEY });
+  const { data: runs, isFetching, refetch } = useQuery<ScheduledJobRun[]>({ queryKey: RUNS_KEY });
+
+  const latestValidation = runs?.find(run => run.jobType === "validate_mappings" && run.status === "success");
+
+  return (
+    <div className="space-y-6">
+      <Card data-testid="card-scheduled-jobs">
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            <CardTitle>Scheduled Jobs</CardTitle>
+          </div>
+          <CardDescription>
+            Cron schedules in UTC (minute hour day month weekday), e.g. <span className="font-mono">0 3 * * *</span> for 03:00 daily or <span className="font-mono">*/30 * * * *</span> every 30 minutes
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">Job</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">Schedule</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">Enabled</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">Next run</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {jobs?.map((job) => <JobRow key={job.jobType} job={job} />)}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Run History</CardTitle>
+              <CardDescription>The 50 most recent scheduled and manual runs</CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => refetch()} disabled={isFetching} data-testid="button-refresh-job-runs">
+              <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {latestValidation && <LatestFindings run={latestValidation} />}
+
+          {!runs || runs.length === 0 ? (
+            <div className="text-center text-gray-500 py-4">No runs yet</div>
+          ) : (
+            <div className="border rounded-lg overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Started</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Job</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Trigger</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Status</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Duration</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {runs.map((run) => (
+                    <tr key={run.id} data-testid={`row-job-run-${run.id}`}>
+                      <td className="px-3 py-2 text-xs text-gray-600">{new Date(run.startedAt).toLocaleString()}</td>
+                      <td className="px-3 py-2">{SCHEDULED_JOB_LABELS[run.jobType as ScheduledJobType] || run.jobType}</td>
+                      <td className="px-3 py-2 text-xs text-gray-600">
+                        {run.trigger === "manual" ? `Manual${run.triggeredBy ? ` (${run.triggeredBy})` : ""}` : "Schedule"}
+                      </td>
+                      <td className="px-3 py-2">
+                        <Badge variant={STATUS_VARIANTS[run.status as ScheduledJobRunStatus] || "outline"}>{run.status}</Badge>
+                      </td>
+                      <td className="px-3 py-2 text-xs text-gray-600">{formatDuration(run.durationMs)}</td>
+                      <td className="px-3 py-2 text-xs text-gray-700">{run.errorMessage || run.summary}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowRight, Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { DiscontinuedSkuReportEntry, InsertSkuSupersession, SkuSupersession, SupersededFitment } from "@shared/schema";
+
+const SUPERSESSIONS_KEY = ["/api/sku-supersessions"];
+const SUPERSEDED_KEY = ["/api/sku-supersessions/superseded-fitments"];
+const DISCONTINUED_KEY = ["/api/sku-supersessions/discontinued"];
+
+type SupersessionForm = {
+  id: string | null; // null while creating
+  oldSku: string;
+  newSku: string; // Empty: discontinued
+  effectiveDate: string;
+  notes: string;
+};
+
+const emptySupersession: SupersessionForm = { id: null, oldSku: "", newSku: "", effectiveDate: "", notes: "" };
+
+const toSupersessionForm = (supersession: SkuSupersession): SupersessionForm => ({
+  id: supersession.id,
+  oldSku: supersession.oldSku,
+  newSku: supersession.newSku || "",
+  effectiveDate: supersession.effectiveDate || "",
+  notes: supersession.notes || "",
+});
+
+const describeMotorcycle = ({ bikemake, bikemodel, firstyear, lastyear }: SupersededFitment["motorcycle"]) =>
+  `${bikemake} ${bikemodel} ${firstyear}-${lastyear}`;
+
+// Replaced and discontinued part numbers. Storefront lookups follow them on the fly; the rewrite updates stored fitments.
+export default function SkuSupersessions() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const canEdit = can("editor");
+  const [form, setForm] = useState<SupersessionForm | null>(null);
+
+  const { data: supersessions, isLoading } = useQuery<SkuSupersession[]>({ queryKey: SUPERSESSIONS_KEY });
+  const { data: superseded } = useQuery<SupersededFitment[]>({ queryKey: SUPERSEDED_KEY });
+  const { data: discontinued } = useQuery<DiscontinuedSkuReportEntry[]>({ queryKey: DISCONTINUED_KEY });
+
+  const invalidateSupersessions = () => {
+    queryClient.invalidateQueries({ queryKey: SUPERSESSIONS_KEY });
+    queryClient.invalidateQueries({ queryKey: SUPERSEDED_KEY });
+    queryClient.invalidateQueries({ queryKey: DISCONTINUED_KEY });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const supersession: InsertSkuSupersession = {
+        oldSku: form!.oldSku.trim(),
+        newSku: form!.newSku.trim() || null,
+        effectiveDate: form!.effectiveDate || null,
+        notes: form!.notes.trim() || null,
+      };
+      const response = form!.id
+        ? await apiRequest("PUT", `/api/sku-supersessions/${form!.id}`, supersession)
+        : await apiRequest("POST", "/api/sku-supersessions", supersession);
+      return (await response.json()) as SkuSupersession;
+    },
+    onSuccess: (supersession) => {
+      invalidateSupersessions();
+      setForm(null);
+      toast({ title: "Supersession saved", description: `${supersession.oldSku} → ${supersession.newSku || "discontinued"}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving supersession", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (supersession: SkuSupersession) => {
+      await apiRequest("DELETE", `/api/sku-supersessions/${supersession.id}`);
+    },
+    onSuccess: (_data, supersession) => {
+      invalidateSupersessions();
+      toast({ title: "Supersession deleted", description: supersession.oldSku });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error deleting supersession", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rewriteMutation = useMutation({
+    mutationFn: async (fitmentIds: string[]) => {
+      const response = await apiRequest("POST", "/api/sku-supersessions/rewrite", { fitmentIds });
+      return (await response.json()) as { changed: number; unchanged: number };
+    },
+    onSuccess: (result) => {
+      invalidateSupersessions();
+      queryClient.invalidateQueries({ queryKey: ["/api/motorcycles"] });
+      toast({
+        title: "Fitments rewritten",
+        description: `${result.changed} updated${result.unchanged > 0 ? `, ${result.unchanged} skipped because they changed since the preview` : ""}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error rewriting fitments", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canSave = !!form && !!form.oldSku.trim() && form.newSku.trim().toLowerCase() !== form.oldSku.trim().toLowerCase();
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>SKU Supersessions</CardTitle>
+              <CardDescription>
+                Point an old part number at its replacement, or leave the new SKU empty to mark it discontinued. Lookups use the replacement from the effective date; discontinued parts without a successor are hidden from the storefront.
+              </CardDescription>
+            </div>
+            {canEdit && !form && (
+              <Button onClick={() => setForm(emptySupersession)} data-testid="button-new-supersession">
+                <Plus className="h-4 w-4 mr-2" />
+                New Supersession
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {form && (
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end border rounded-lg p-4 bg-gray-50" data-testid="form-supersession">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Old SKU</label>
+                <Input value={form.oldSku} onChange={(e) => setForm({ ...form, oldSku: e.target.value })} data-testid="input-supersession-old-sku" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">New SKU</label>
+                <Input
+                  value={form.newSku}
+                  onChange={(e) => setForm({ ...form, newSku: e.target.value })}
+                  placeholder="Empty: discontinued"
+                  data-testid="input-supersession-new-sku"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Effective from</label>
+                <Input
+                  type="date"
+                  value={form.effectiveDate}
+                  onChange={(e) => setForm({ ...form, effectiveDate: e.target.value })}
+                  data-testid="input-supersession-effective-date"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+                <Input value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} data-testid="input-supersession-notes" />
+              </div>
+              <div className="flex gap-2 justify-end">
+                <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+                <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending} data-testid="button-supersession-save">
+                  {saveMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="text-center text-gray-500 py-6">Loading supersessions...</div>
+          ) : !supersessions || supersessions.length === 0 ? (
+            <div className="text-center text-gray-500 py-6">No supersessions yet</div>
+          ) : (
+            <div className="border rounded-lg overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Old SKU</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">New SKU</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Effective</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Notes</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {supersessions.map((supersession) => (
+                    <tr key={supersession.id} data-testid={`row-supersession-${supersession.id}`}>
+                      <td className="px-3 py-2 font-mono">{supersession.oldSku}</td>
+                      <td className="px-3 py-2">
+                        {supersession.newSku
+                          ? <span className="font-mono">{supersession.newSku}</span>
+                          : <Badge variant="destructive">Discontinued</Badge>}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-gray-600">{supersession.effectiveDate || "Immediately"}</td>
+                      <td className="px-3 py-2 text-xs text-gray-600">{supersession.notes}</td>
+                      <td className="px-3 py-2">
+                        {canEdit && (
+                          <div className="flex gap-2 justify-end">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setForm(toSupersessionForm(supersession))}
+                              data-testid={`button-edit-supersession-${supersession.id}`}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => window.confirm(`Delete the supersession for ${supersession.oldSku}? Lookups will use the old SKU again.`) && deleteMutation.mutate(supersession)}
+                              disabled={deleteMutation.isPending}
+                              data-testid={`button-delete-supersession-${supersession.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-superseded-fitments">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Fitments Using Superseded SKUs</CardTitle>
+              <CardDescription>
+                Stored assignments that lookups currently redirect. Rewriting stores the resolved SKU and records each change in the assignment history.
+              </CardDescription>
+            </div>
+            {canEdit && superseded && superseded.length > 0 && (
+              <Button
+                onClick={() => window.confirm(`Rewrite ${superseded.length} fitments to their current SKU?`) && rewriteMutation.mutate(superseded.map(fitment => fitment.fitmentId))}
+                disabled={rewriteMutation.isPending}
+                data-testid="button-rewrite-superseded"
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${rewriteMutation.isPending ? "animate-spin" : ""}`} />
+                {rewriteMutation.isPending ? "Rewriting..." : `Rewrite ${superseded.length}`}
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!superseded || superseded.length === 0 ? (
+            <div className="text-center text-gray-500 py-4">No fitments use a superseded SKU</div>
+          ) : (
+            <div className="border rounded-lg overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Motorcycle</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Category</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Stored</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Becomes</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {superseded.map((fitment) => (
+                    <tr key={fitment.fitmentId} data-testid={`row-superseded-${fitment.fitmentId}`}>
+                      <td className="px-3 py-2">{describeMotorcycle(fitment.motorcycle)}</td>
+                      <td className="px-3 py-2 text-gray-600">{fitment.partCategory}</td>
+                      <td className="px-3 py-2 font-mono">{fitment.sku}</td>
+                      <td className="px-3 py-2">
+                        <span className="font-mono">{fitment.resolvedSku}</span>
+                        {fitment.chain.length > 2 && (
+                          <div className="text-xs text-gray-500 flex items-center gap-1 flex-wrap">
+                            {fitment.chain.map((sku, index) => (
+                              <span key={index} className="flex items-center gap-1">
+                                {index > 0 && <ArrowRight className="h-3 w-3" />}
+                                <span className="font-mono">{sku}</span>
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-discontinued-skus">
+        <CardHeader>
+          <CardTitle>Discontinued SKUs</CardTitle>
+          <CardDescription>Parts with no successor, hidden from the storefront, and the motorcycles that still have them assigned</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!discontinued || discontinued.length === 0 ? (
+            <div className="text-center text-gray-500 py-4">No discontinued SKUs</div>
+          ) : (
+            <div className="divide-y border rounded-lg">
+              {discontinued.map((entry) => (
+                <div key={entry.supersession.id} className="px-3 py-2 space-y-1" data-testid={`row-discontinued-${entry.supersession.id}`}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono font-medium">{entry.sku}</span>
+                    <Badge variant={entry.fitments.length > 0 ? "destructive" : "secondary"}>
+                      {entry.fitments.length} {entry.fitments.length === 1 ? "fitment" : "fitments"}
+                    </Badge>
+                    {entry.supersession.notes && <span className="text-xs text-gray-500">{entry.supersession.notes}</span>}
+                  </div>
+                  {entry.fitments.length > 0 && (
+                    <ul className="text-xs text-gray-600 space-y-0.5">
+                      {entry.fitments.map((fitment) => (
+                        <li key={fitment.fitmentId}>
+                          {describeMotorcycle(fitment.motorcycle)}: {fitment.partCategory}
+                          {fitment.sku !== entry.sku && <> (<span className="font-mono">{fitment.sku}</span>)</>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { apiRequest } from "@/lib/queryClient";
+import type { StorefrontFunnel, StorefrontFunnelCounts } from "@shared/schema";
+
+const STOREFRONT_FUNNEL_KEY = "/api/analytics/storefront-funnel";
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+
+// Share of one stage that reached the next, or a dash when the earlier stage is empty
+const conversion = (from: number, to: number) => from > 0 ? `${Math.round((to / from) * 100)}%` : "–";
+
+function FunnelCells({ counts }: { counts: StorefrontFunnelCounts }) {
+  return (
+    <>
+      <td className="px-3 py-2 text-right">{counts.searches}</td>
+      <td className="px-3 py-2 text-right">{counts.views}</td>
+      <td className="px-3 py-2 text-right">{counts.expansions}</td>
+      <td className="px-3 py-2 text-right font-semibold">{counts.addToCarts}</td>
+      <td className="px-3 py-2 text-right text-gray-600">{conversion(counts.views, counts.addToCarts)}</td>
+    </>
+  );
+}
+
+const funnelHeaders = (
+  <>
+    <th className="px-3 py-2 text-right font-semibold text-gray-700">Searches</th>
+    <th className="px-3 py-2 text-right font-semibold text-gray-700">Bike views</th>
+    <th className="px-3 py-2 text-right font-semibold text-gray-700">Expansions</th>
+    <th className="px-3 py-2 text-right font-semibold text-gray-700">Add to cart</th>
+    <th className="px-3 py-2 text-right font-semibold text-gray-700">View → cart</th>
+  </>
+);
+
+// Storefront funnel per motorcycle and per part category: searches -> bike views -> category expansions -> add to cart
+export default function StorefrontFunnelAnalytics() {
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [applied, setApplied] = useState({ dateFrom: "", dateTo: "" });
+
+  const { data: funnel, isLoading } = useQuery<StorefrontFunnel>({
+    queryKey: [STOREFRONT_FUNNEL_KEY, applied.dateFrom, applied.dateTo],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: "50" });
+      if (applied.dateFrom) params.set("dateFrom", applied.dateFrom);
+      // Inclusive of the whole last day
+      if (applied.dateTo) params.set("dateTo", `${applied.dateTo}T23:59:59`);
+      const response = await apiRequest("GET", `${STOREFRONT_FUNNEL_KEY}?${params}`);
+      return response.json();
+    },
+  });
+
+  const setLastDays = (days: number) => {
+    setDateFrom(daysAgo(days));
+    setDateTo(daysAgo(0));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-end">
+        <div className="flex gap-2">
+          <div className="space-y-1">
+            <label className="text-sm font-medium text-gray-700">From Date</label>
+            <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className="w-40" data-testid="input-funnel-date-from" />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm font-medium text-gray-700">To Date</label>
+            <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className="w-40" data-testid="input-funnel-date-to" />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => setApplied({ dateFrom, dateTo })} size="sm" data-testid="button-funnel-apply">
+            <CalendarIcon className="h-4 w-4 mr-1" />
+            Apply Filter
+          </Button>
+          <Button
+            onClick={() => {
+              setDateFrom("");
+              setDateTo("");
+              setApplied({ dateFrom: "", dateTo: "" });
+            }}
+            size="sm"
+            variant="outline"
+          >
+            Clear
+          </Button>
+          <Button onClick={() => setLastDays(7)} size="sm" variant="ghost">Last 7 days</Button>
+          <Button onClick={() => setLastDays(30)} size="sm" variant="ghost">Last 30 days</Button>
+        </div>
+      </div>
+
+      {(applied.dateFrom || applied.dateTo) && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-600">Active filter:</span>
+          <Badge variant="secondary">{applied.dateFrom || "All time"} → {applied.dateTo || "Now"}</Badge>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : !funnel || (funnel.motorcycles.length === 0 && funnel.categories.length === 0) ? (
+        <div className="text-center text-gray-500 py-6">No storefront activity for the selected date range</div>
+      ) : (
+        <Tabs defaultValue="motorcycles">
+          <TabsList>
+            <TabsTrigger value="motorcycles">By motorcycle</TabsTrigger>
+            <TabsTrigger value="categories">By part category</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="motorcycles" className="mt-4">
+            <div className="border rounded-lg overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Motorcycle</th>
+                    {funnelHeaders}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {funnel.motorcycles.map((entry) => (
+                    <tr key={entry.motorcycle.recid} data-testid={`row-funnel-motorcycle-${entry.motorcycle.recid}`}>
+                      <td className="px-3 py-2">
+                        {entry.motorcycle.bikemake} {entry.motorcycle.bikemodel} {entry.motorcycle.firstyear}-{entry.motorcycle.lastyear}
+                      </td>
+                      <FunnelCells counts={entry} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="categories" className="mt-4">
+            <p className="text-xs text-gray-500 mb-2">Searches and bike views count for every category the bike currently has a part in.</p>
+            <div className="border rounded-lg overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Part category</th>
+                    {funnelHeaders}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {funnel.categories.map((entry) => (
+                    <tr key={entry.partCategory} data-testid={`row-funnel-category-${entry.partCategory}`}>
+                      <td className="px-3 py-2">{entry.label}</td>
+                      <FunnelCells counts={entry} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { PackageX, Plus, SearchX, Wrench } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import MotorcycleForm from "@/components/admin/motorcycle-form";
+import type { InsertMotorcycle, Motorcycle, UnmetSearchDemand } from "@shared/schema";
+
+const UNMET_SEARCHES_KEY = "/api/analytics/unmet-searches";
+
+const PERIODS = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "all", label: "All time" },
+];
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+
+const toMotorcycleValues = ({ suggestion }: UnmetSearchDemand): Partial<InsertMotorcycle> => ({
+  bikemake: suggestion.bikemake || "",
+  bikemodel: suggestion.bikemodel,
+  ...(suggestion.year !== null && { firstyear: suggestion.year, lastyear: suggestion.year }),
+});
+
+interface UnmetSearchesReportProps {
+  onMapParts?: (motorcycle: Motorcycle) => void;
+}
+
+// Searches that found no motorcycle or only one without parts, clustered and ranked by recent volume -
+// the fitment team's backlog of real demand
+export default function UnmetSearchesReport({ onMapParts }: UnmetSearchesReportProps) {
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const canEdit = can("editor");
+  const [period, setPeriod] = useState("30");
+  const [creating, setCreating] = useState<Partial<InsertMotorcycle> | null>(null);
+
+  const { data: unmet, isLoading } = useQuery<UnmetSearchDemand[]>({
+    queryKey: [UNMET_SEARCHES_KEY, period],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: "50" });
+      if (period !== "all") params.set("dateFrom", daysAgo(parseInt(period)));
+      const response = await apiRequest("GET", `${UNMET_SEARCHES_KEY}?${params}`);
+      return response.json();
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-600">
+          Ranked by searches, each counting half as much per month since it was made. A search drops off once its latest attempt finds a motorcycle with parts.
+        </p>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-40" data-testid="select-unmet-period">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : !unmet || unmet.length === 0 ? (
+        <div className="text-center text-gray-500 py-6">Every search in this period found a motorcycle with parts</div>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {unmet.map((entry) => (
+            <div key={entry.key} className="px-3 py-2 flex items-center justify-between gap-4" data-testid={`row-unmet-${entry.key}`}>
+              <div className="space-y-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium text-gray-900">{entry.query}</span>
+                  {entry.reason === "no_results" ? (
+                    <Badge variant="destructive"><SearchX className="h-3 w-3 mr-1" />No results</Badge>
+                  ) : (
+                    <Badge variant="outline" className="text-amber-800 border-amber-300 bg-amber-50"><PackageX className="h-3 w-3 mr-1" />No parts</Badge>
+                  )}
+                  <span className="text-xs text-gray-500">
+                    {entry.searchCount} {entry.searchCount === 1 ? "search" : "searches"}, last {new Date(entry.lastSearchedAt).toLocaleDateString()}
+                  </span>
+                </div>
+                {entry.variants.length > 0 && (
+                  <div className="text-xs text-gray-500 truncate">Also searched as: {entry.variants.join(", ")}</div>
+                )}
+                {entry.motorcycle && (
+                  <div className="text-xs text-gray-600">
+                    Best match: {entry.motorcycle.bikemake} {entry.motorcycle.bikemodel} {entry.motorcycle.firstyear}-{entry.motorcycle.lastyear}
+                  </div>
+                )}
+              </div>
+              {canEdit && (
+                entry.reason === "no_results" ? (
+                  <Button size="sm" variant="outline" onClick={() => setCreating(toMotorcycleValues(entry))} data-testid={`button-create-from-search-${entry.key}`}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Create motorcycle
+                  </Button>
+                ) : entry.motorcycle && onMapParts && (
+                  <Button size="sm" variant="outline" onClick={() => onMapParts(entry.motorcycle!)} data-testid={`button-map-from-search-${entry.key}`}>
+                    <Wrench className="h-4 w-4 mr-1" />
+                    Map parts
+                  </Button>
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {creating && (
+        <MotorcycleForm
+          initialValues={creating}
+          onClose={() => {
+            setCreating(null);
+            queryClient.invalidateQueries({ queryKey: [UNMET_SEARCHES_KEY] });
+          }}
+        />
+      )}
+    </div>
+  );
+}
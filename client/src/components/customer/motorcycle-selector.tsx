@@ -21,7 +21,7 @@ export default function MotorcycleSelector({
   });
 
   const { data: motorcycles } = useQuery<Motorcycle[]>({
-    queryKey: ["/api/motorcycles"],
+    queryKey: ["/api/customer/motorcycles"],
   });
 
   const makes = Array.from(new Set(motorcycles?.map((m: Motorcycle) => m.bikemake) || []));
@@ -2,7 +2,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { ShopifyProduct } from "@shared/schema";
+import { describeFitmentQualifiers, type ShopifyProduct, type ShopifyProductWithCategory } from "@shared/schema";
 
 interface PartsGridProps {
   parts: ShopifyProduct[];
@@ -11,6 +11,29 @@ interface PartsGridProps {
   onAddToCart: (productId: string) => void;
 }
 
+// Caveats on the assignment that matched the part, e.g. "ABS models only" or "Requires longer throttle cable"
+function FitmentCaveats({ part }: { part: Pick<ShopifyProductWithCategory, "id" | "fitmentNotes" | "fitmentQualifiers"> }) {
+  const qualifiers = describeFitmentQualifiers(part.fitmentQualifiers);
+  if (qualifiers.length === 0 && !part.fitmentNotes) return null;
+
+  return (
+    <div className="mb-3 space-y-1" data-testid={`fitment-caveats-${part.id}`}>
+      {qualifiers.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {qualifiers.map((label) => (
+            <Badge key={label} variant="outline" className="border-amber-300 bg-amber-50 text-amber-800">
+              {label}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {part.fitmentNotes && (
+        <p className="text-xs text-amber-800">{part.fitmentNotes}</p>
+      )}
+    </div>
+  );
+}
+
 export default function PartsGrid({ parts, isLoading, viewMode, onAddToCart }: PartsGridProps) {
   if (isLoading) {
     return (
@@ -114,6 +137,7 @@ export default function PartsGrid({ parts, isLoading, viewMode, onAddToCart }: P
                       {part.sku && (
                         <p className="text-sm text-gray-500 mb-3">SKU: {part.sku}</p>
                       )}
+                      <FitmentCaveats part={part} />
                       <div className="flex items-center">
                         {renderStars()}
                         <span className="text-xs text-gray-500 ml-2">(42)</span>
@@ -193,6 +217,7 @@ export default function PartsGrid({ parts, isLoading, viewMode, onAddToCart }: P
                   )}
                 </div>
               </div>
+              <FitmentCaveats part={part} />
               <Button
                 onClick={() => onAddToCart(part.id)}
                 className="w-full"
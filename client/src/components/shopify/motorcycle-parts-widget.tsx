@@ -5,7 +5,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import type { Motorcycle, ShopifyProduct } from "@shared/schema";
+import { ORDER_LINE_PROPERTIES, type Motorcycle, type ShopifyProduct, type StorefrontEventInput } from "@shared/schema";
 
 interface ShopifyCartProduct {
   variant_id: string;
@@ -29,8 +29,12 @@ interface MotorcyclePartsWidgetProps {
 interface ExtendedShopifyProduct extends ShopifyProduct {
   compatibility?: string;
   variant_id?: string;
+  sku?: string;
+  adminCategory?: string;
 }
 
+type WidgetEvent = Pick<StorefrontEventInput, "type" | "recid"> & Partial<Pick<StorefrontEventInput, "partCategory" | "sku">>;
+
 export default function MotorcyclePartsWidget({
   shopDomain,
   apiBaseUrl = window.location.origin,
@@ -49,14 +53,37 @@ export default function MotorcyclePartsWidget({
     year: "",
   });
 
+  // Storefront API URL for this widget's shop; the server only serves installed shops named this way
+  const storefrontUrl = (path: string) =>
+    `${apiBaseUrl}${path}${shopDomain ? `?shop=${encodeURIComponent(shopDomain)}` : ""}`;
+
+  // Storefront routes take no cookies, so the widget also works when apiBaseUrl is another origin
+  const fetchStorefront = async ({ queryKey }: { queryKey: readonly unknown[] }) => {
+    const res = await fetch(queryKey[0] as string, { credentials: "omit" });
+    if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+    return res.json();
+  };
+
+  // Report bike views and add-to-cart clicks for the admin's funnel; tracking never gets in the shopper's way
+  const trackEvent = (event: WidgetEvent) => {
+    fetch(storefrontUrl("/api/customer/analytics/events"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ source: "widget", ...event }),
+      keepalive: true,
+    }).catch(() => {});
+  };
+
   // Fetch motorcycles for the selector
   const { data: motorcycles } = useQuery<Motorcycle[]>({
-    queryKey: [`${apiBaseUrl}/api/motorcycles`],
+    queryKey: [storefrontUrl("/api/customer/motorcycles")],
+    queryFn: fetchStorefront,
   });
 
   // Fetch compatible parts for selected motorcycle
   const { data: compatibleParts, isLoading: isLoadingParts } = useQuery<ExtendedShopifyProduct[]>({
-    queryKey: [`${apiBaseUrl}/api/customer/motorcycles`, selectedMotorcycle?.recid, "compatible-parts"],
+    queryKey: [storefrontUrl(`/api/customer/motorcycles/${selectedMotorcycle?.recid}/compatible-parts`)],
+    queryFn: fetchStorefront,
     enabled: !!selectedMotorcycle,
   });
 
@@ -93,6 +120,7 @@ export default function MotorcyclePartsWidget({
 
     if (motorcycle) {
       setSelectedMotorcycle(motorcycle);
+      trackEvent({ type: "bike_view", recid: motorcycle.recid });
       if (compact) setIsExpanded(true);
     }
   };
@@ -105,9 +133,11 @@ export default function MotorcyclePartsWidget({
       const cartItem: ShopifyCartProduct = {
         variant_id: product.variant_id || product.id,
         quantity: 1,
+        // Picked up by the orders/create webhook to attribute the sale to this bike
         properties: selectedMotorcycle ? {
-          'Compatible with': `${filters.year} ${selectedMotorcycle.bikemake} ${selectedMotorcycle.bikemodel}`,
-          'Motorcycle ID': selectedMotorcycle.recid.toString()
+          [ORDER_LINE_PROPERTIES.fits]: `${filters.year} ${selectedMotorcycle.bikemake} ${selectedMotorcycle.bikemodel}`,
+          [ORDER_LINE_PROPERTIES.recid]: selectedMotorcycle.recid.toString(),
+          ...(product.adminCategory && { [ORDER_LINE_PROPERTIES.partCategory]: product.adminCategory }),
         } : undefined
       };
 
@@ -120,6 +150,10 @@ export default function MotorcyclePartsWidget({
       });
 
       if (response.ok) {
+        if (selectedMotorcycle && product.adminCategory) {
+          trackEvent({ type: "add_to_cart", recid: selectedMotorcycle.recid, partCategory: product.adminCategory, sku: product.sku || null });
+        }
+
         // Trigger Shopify cart refresh if available
         if ((window as any).Shopify && (window as any).Shopify.onItemAdded) {
           (window as any).Shopify.onItemAdded();
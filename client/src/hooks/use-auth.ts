@@ -0,0 +1,42 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { roleAllows, type PublicAdminUser, type UserRole } from "@shared/schema";
+
+type LoginData = {
+  username: string;
+  password: string;
+};
+
+// Logged-in admin user and role checks. Hide any action the user's role can't perform -
+// the server enforces the same roles, so this is only about not offering dead buttons.
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<PublicAdminUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const response = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await response.json()) as PublicAdminUser;
+    },
+    onSuccess: (loggedInUser) => {
+      queryClient.setQueryData(["/api/auth/me"], loggedInUser);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      // Drop everything cached for the previous user before showing the login screen
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/me"], null);
+    },
+  });
+
+  const can = (role: UserRole) => roleAllows(user?.role, role);
+
+  return { user: user ?? null, isLoading, can, loginMutation, logoutMutation };
+}
@@ -9,21 +9,48 @@ import { useToast } from "@/hooks/use-toast";
 import { Download, ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react";
 import MotorcycleForm from "@/components/admin/motorcycle-form";
 import PartsMapping from "@/components/admin/parts-mapping";
-import DataImport from "@/components/admin/data-import";
+import DataImport, { ImportHistoryList } from "@/components/admin/data-import";
 import { CSVImport } from "@/components/admin/csv-import";
 import PartCategorySettings from "@/components/admin/part-category-settings";
 import { PartsInventory } from "@/components/admin/parts-inventory";
 import { TopSearchesAnalytics } from "@/components/admin/top-searches-analytics";
+import UnmetSearchesReport from "@/components/admin/unmet-searches-report";
+import StorefrontFunnelAnalytics from "@/components/admin/storefront-funnel-analytics";
+import OrderAttributionAnalytics from "@/components/admin/order-attribution-analytics";
 import CategoryPromotionGuide from "@/components/admin/category-promotion-guide";
+import FitmentLookup from "@/components/admin/fitment-lookup";
+import CompatiblePartsExplainer from "@/components/admin/compatible-parts-explainer";
+import FitmentRules from "@/components/admin/fitment-rules";
+import SkuSupersessions from "@/components/admin/sku-supersessions";
+import FitmentQualityReportPanel from "@/components/admin/fitment-quality-report";
+import BulkPartAssignment from "@/components/admin/bulk-part-assignment";
+import ScheduledJobs from "@/components/admin/scheduled-jobs";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import MotorcycleCategoryManagement from "@/components/admin/motorcycle-category-management";
+import MotorcycleAliases from "@/components/admin/motorcycle-aliases";
+import AdminLogin from "@/components/admin/admin-login";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { Motorcycle } from "@shared/schema";
 import { BIKE_CATEGORIES, BIKE_SUBCATEGORIES, CATEGORY_SUBCATEGORIES } from "@shared/schema";
 
-type AdminPanel = "dashboard" | "motorcycles" | "products" | "parts" | "inventory" | "import" | "settings";
+type AdminPanel = "dashboard" | "motorcycles" | "products" | "parts" | "lookup" | "rules" | "quality" | "inventory" | "import" | "settings";
 
 export default function AdminDashboard() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return user ? <AdminWorkspace /> : <AdminLogin />;
+}
+
+function AdminWorkspace() {
   const [activePanel, setActivePanel] = useState<AdminPanel>("dashboard");
   const [searchTerm, setSearchTerm] = useState("");
   const [filters, setFilters] = useState({ bikemake: "", biketype: "", bikeCategory: "", bikeSubcategory: "", firstyear: "" });
@@ -31,6 +58,8 @@ export default function AdminDashboard() {
   const [selectedMotorcycle, setSelectedMotorcycle] = useState<Motorcycle | null>(null);
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
   const { toast } = useToast();
+  const { user, can, logoutMutation } = useAuth();
+  const canEdit = can("editor");
 
   // Delete motorcycle mutation
   const deleteMutation = useMutation({
@@ -73,6 +102,11 @@ export default function AdminDashboard() {
     document.body.removeChild(link);
   };
 
+  // Store this admin session manages (all data below is scoped to it)
+  const { data: currentShop } = useQuery<{ shop: string; installed: boolean; installedShops: string[] }>({
+    queryKey: ["/api/auth/shop"],
+  });
+
   const { data: stats } = useQuery<{
     totalMotorcycles: number;
     mappedParts: number;
@@ -167,13 +201,19 @@ export default function AdminDashboard() {
     setSortOrder(sortOrder === "asc" ? "desc" : "asc");
   };
 
+  // Import and settings only change data, so viewers don't get them
   const navItems = [
     { id: "dashboard", label: "Dashboard", icon: "dashboard" },
     { id: "motorcycles", label: "Motorcycles", icon: "two_wheeler" },
     { id: "parts", label: "Parts Mapping", icon: "build" },
+    { id: "lookup", label: "Fitment Lookup", icon: "manage_search" },
+    { id: "rules", label: "Fitment Rules", icon: "rule" },
+    { id: "quality", label: "Data Quality", icon: "fact_check" },
     { id: "inventory", label: "Parts Inventory", icon: "inventory" },
-    { id: "import", label: "Data Import", icon: "cloud_upload" },
-    { id: "settings", label: "Settings", icon: "settings" },
+    ...(canEdit ? [
+      { id: "import", label: "Data Import", icon: "cloud_upload" },
+      { id: "settings", label: "Settings", icon: "settings" },
+    ] : []),
   ];
 
   const renderDashboard = () => (
@@ -324,14 +364,16 @@ export default function AdminDashboard() {
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-2 gap-4">
-              <Button 
-                variant="outline" 
-                className="flex flex-col items-center p-4 h-auto"
-                onClick={() => setActivePanel("import")}
-              >
-                <span className="material-icons mb-2 text-blue-600">upload</span>
-                <span className="text-sm">Import Data</span>
-              </Button>
+              {canEdit && (
+                <Button 
+                  variant="outline" 
+                  className="flex flex-col items-center p-4 h-auto"
+                  onClick={() => setActivePanel("import")}
+                >
+                  <span className="material-icons mb-2 text-blue-600">upload</span>
+                  <span className="text-sm">Import Data</span>
+                </Button>
+              )}
               <Button 
                 variant="outline" 
                 className="flex flex-col items-center p-4 h-auto"
@@ -340,14 +382,16 @@ export default function AdminDashboard() {
                 <span className="material-icons mb-2 text-green-600">link</span>
                 <span className="text-sm">Map Parts</span>
               </Button>
-              <Button 
-                variant="outline" 
-                className="flex flex-col items-center p-4 h-auto"
-                onClick={() => setActivePanel("settings")}
-              >
-                <span className="material-icons mb-2 text-purple-600">category</span>
-                <span className="text-sm">Categories</span>
-              </Button>
+              {canEdit && (
+                <Button 
+                  variant="outline" 
+                  className="flex flex-col items-center p-4 h-auto"
+                  onClick={() => setActivePanel("settings")}
+                >
+                  <span className="material-icons mb-2 text-purple-600">category</span>
+                  <span className="text-sm">Categories</span>
+                </Button>
+              )}
               <Button 
                 variant="outline" 
                 className="flex flex-col items-center p-4 h-auto"
@@ -400,6 +444,36 @@ export default function AdminDashboard() {
         </CardContent>
       </Card>
 
+      {/* Unmet Search Demand */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Unmet Searches</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <UnmetSearchesReport onMapParts={handleMapParts} />
+        </CardContent>
+      </Card>
+
+      {/* Storefront Funnel */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Storefront Funnel</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <StorefrontFunnelAnalytics />
+        </CardContent>
+      </Card>
+
+      {/* Order Attribution */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Revenue by Motorcycle</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <OrderAttributionAnalytics />
+        </CardContent>
+      </Card>
+
       {/* Recent Activity */}
       <Card>
         <CardHeader>
@@ -446,14 +520,16 @@ export default function AdminDashboard() {
           <h2 className="text-2xl font-semibold text-gray-900 mb-2">Motorcycles Database</h2>
           <p className="text-gray-600">Manage your motorcycle inventory and specifications</p>
         </div>
-        <Button 
-          onClick={() => setShowMotorcycleForm(true)}
-          className="flex items-center gap-2"
-          data-testid="button-add-motorcycle"
-        >
-          <span className="material-icons">add</span>
-          Add Motorcycle
-        </Button>
+        {canEdit && (
+          <Button 
+            onClick={() => setShowMotorcycleForm(true)}
+            className="flex items-center gap-2"
+            data-testid="button-add-motorcycle"
+          >
+            <span className="material-icons">add</span>
+            Add Motorcycle
+          </Button>
+        )}
       </div>
 
       {/* Search and Filters */}
@@ -622,14 +698,16 @@ export default function AdminDashboard() {
                         </Badge>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
-                        <Button 
-                          variant="ghost" 
-                          size="sm"
-                          onClick={() => handleEditMotorcycle(motorcycle)}
-                          data-testid={`button-edit-motorcycle-${motorcycle.recid}`}
-                        >
-                          <span className="material-icons text-base">edit</span>
-                        </Button>
+                        {canEdit && (
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            onClick={() => handleEditMotorcycle(motorcycle)}
+                            data-testid={`button-edit-motorcycle-${motorcycle.recid}`}
+                          >
+                            <span className="material-icons text-base">edit</span>
+                          </Button>
+                        )}
                         <Button 
                           variant="ghost" 
                           size="sm"
@@ -638,15 +716,17 @@ export default function AdminDashboard() {
                         >
                           <span className="material-icons text-base">link</span>
                         </Button>
-                        <Button 
-                          variant="ghost" 
-                          size="sm"
-                          onClick={() => handleDeleteMotorcycle(motorcycle)}
-                          disabled={deleteMutation.isPending}
-                          data-testid={`button-delete-motorcycle-${motorcycle.recid}`}
-                        >
-                          <span className="material-icons text-base">delete</span>
-                        </Button>
+                        {canEdit && (
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            onClick={() => handleDeleteMotorcycle(motorcycle)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`button-delete-motorcycle-${motorcycle.recid}`}
+                          >
+                            <span className="material-icons text-base">delete</span>
+                          </Button>
+                        )}
                         <Button 
                           variant="ghost" 
                           size="sm"
@@ -692,13 +772,38 @@ export default function AdminDashboard() {
           <div className="flex items-center">
             <span className="material-icons text-primary text-2xl mr-3">two_wheeler</span>
             <h1 className="text-xl font-semibold text-gray-900">MotoCatalog Admin</h1>
+            {currentShop?.shop && (
+              <Badge variant="outline" className="ml-3" data-testid="badge-current-shop">
+                {currentShop.shop}
+              </Badge>
+            )}
           </div>
           <div className="flex items-center space-x-4">
-            <Button variant="outline" className="flex items-center gap-2" data-testid="button-import-data">
-              <span className="material-icons">upload</span>
-              Import Data
+            {canEdit && (
+              <Button
+                variant="outline"
+                className="flex items-center gap-2"
+                onClick={() => setActivePanel("import")}
+                data-testid="button-import-data"
+              >
+                <span className="material-icons">upload</span>
+                Import Data
+              </Button>
+            )}
+            <div className="text-sm text-right" data-testid="text-current-user">
+              <div className="font-medium text-gray-900">{user?.username}</div>
+              <div className="text-xs text-gray-500 capitalize">{user?.role}</div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              data-testid="button-logout"
+            >
+              <span className="material-icons text-base mr-1">logout</span>
+              Log out
             </Button>
-            <div className="w-8 h-8 bg-gray-300 rounded-full"></div>
           </div>
         </div>
       </header>
@@ -729,15 +834,42 @@ export default function AdminDashboard() {
         <main className="flex-1 overflow-auto">
           {activePanel === "dashboard" && renderDashboard()}
           {activePanel === "motorcycles" && renderMotorcycles()}
-          {activePanel === "parts" && <PartsMapping selectedMotorcycle={selectedMotorcycle} />}
+          {activePanel === "parts" && (
+            <>
+              <PartsMapping selectedMotorcycle={selectedMotorcycle} />
+              {canEdit && (
+                <div className="px-6 pb-6">
+                  <BulkPartAssignment />
+                </div>
+              )}
+            </>
+          )}
+          {activePanel === "lookup" && (
+            <div className="p-6 space-y-6">
+              <FitmentLookup />
+              <CompatiblePartsExplainer />
+            </div>
+          )}
+          {activePanel === "rules" && (
+            <div className="p-6 space-y-6">
+              <FitmentRules />
+              <SkuSupersessions />
+            </div>
+          )}
+          {activePanel === "quality" && (
+            <div className="p-6">
+              <FitmentQualityReportPanel />
+            </div>
+          )}
           {activePanel === "inventory" && (
             <div className="p-6">
               <PartsInventory />
             </div>
           )}
           {activePanel === "import" && (
-            <div className="p-6">
+            <div className="p-6 space-y-6">
               <CSVImport />
+              <ImportHistoryList />
             </div>
           )}
           {activePanel === "settings" && (
@@ -748,7 +880,7 @@ export default function AdminDashboard() {
               </div>
               
               <Tabs defaultValue="motorcycles" className="w-full">
-                <TabsList className="grid w-full max-w-2xl grid-cols-3">
+                <TabsList className={`grid w-full max-w-2xl ${can("admin") ? "grid-cols-4" : "grid-cols-3"}`}>
                   <TabsTrigger value="motorcycles" data-testid="tab-motorcycle-settings">
                     <span className="material-icons text-sm mr-2">two_wheeler</span>
                     Motorcycle Settings
@@ -761,10 +893,17 @@ export default function AdminDashboard() {
                     <span className="material-icons text-sm mr-2">upgrade</span>
                     Category Promotion
                   </TabsTrigger>
+                  {can("admin") && (
+                    <TabsTrigger value="jobs" data-testid="tab-scheduled-jobs">
+                      <span className="material-icons text-sm mr-2">schedule</span>
+                      Scheduled Jobs
+                    </TabsTrigger>
+                  )}
                 </TabsList>
                 
                 <TabsContent value="motorcycles" className="mt-6 space-y-6">
                   <MotorcycleCategoryManagement />
+                  <MotorcycleAliases />
                 </TabsContent>
                 
                 <TabsContent value="parts" className="mt-6 space-y-6">
@@ -774,6 +913,12 @@ export default function AdminDashboard() {
                 <TabsContent value="promotion" className="mt-6 space-y-6">
                   <CategoryPromotionGuide />
                 </TabsContent>
+
+                {can("admin") && (
+                  <TabsContent value="jobs" className="mt-6 space-y-6">
+                    <ScheduledJobs />
+                  </TabsContent>
+                )}
               </Tabs>
             </div>
           )}
@@ -122,7 +122,7 @@ export default function ShopifyWidgetPage() {
                 <li>• <code>compact=true</code> - Shows collapsed version initially</li>
                 <li>• <code>maxResults=6</code> - Limits number of parts displayed</li>
                 <li>• <code>theme=dark</code> - Uses dark theme styling</li>
-                <li>• <code>shopDomain=yourstore.myshopify.com</code> - Your Shopify domain</li>
+                <li>• <code>shopDomain=yourstore.myshopify.com</code> - Your Shopify domain (required when more than one store is connected)</li>
               </ul>
             </div>
 
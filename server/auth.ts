@@ -0,0 +1,267 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import {
+  insertAdminUserSchema,
+  updateAdminUserSchema,
+  roleAllows,
+  type AdminUser,
+  type PublicAdminUser,
+  type UserRole
+} from "@shared/schema";
+
+// Passport puts the logged-in admin user on req.user
+declare global {
+  namespace Express {
+    interface User extends PublicAdminUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+};
+
+const comparePasswords = async (supplied: string, stored: string): Promise<boolean> => {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+};
+
+const toPublicUser = ({ passwordHash, ...user }: AdminUser): PublicAdminUser => user;
+
+// Middleware for admin API routes: 401 when not logged in, 403 when the role is too low.
+// Roles are cumulative, so requireRole("viewer") admits editors and admins too.
+export const requireRole = (role: UserRole) => (req: Request, res: Response, next: NextFunction) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+
+  if (!roleAllows(req.user.role, role)) {
+    return res.status(403).json({ message: `This action requires the ${role} role` });
+  }
+
+  next();
+};
+
+// Origins the admin app is served from, besides the host a request was made to
+const configuredAppOrigins = new Set(
+  [process.env.SHOPIFY_APP_URL, ...(process.env.REPLIT_DOMAINS || '').split(',').map(domain => domain.trim() && `https://${domain.trim()}`)]
+    .filter((url): url is string => !!url)
+    .flatMap(url => {
+      try {
+        return [new URL(url).origin];
+      } catch {
+        return [];
+      }
+    })
+);
+
+export const isAppOrigin = (req: Request, origin: string) =>
+  configuredAppOrigins.has(origin) || origin === `${req.protocol}://${req.get('host')}`;
+
+// Routes that carry no admin cookie: Shopify webhooks, the signed app proxy and shopper-facing storefront routes
+const CROSS_SITE_API_PREFIXES = ['/api/webhooks/', '/api/proxy/', '/api/customer/'];
+
+// CSRF protection for the cookie-authenticated API. The admin cookies are SameSite=None so they reach the app inside
+// the Shopify admin iframe, which means the browser also sends them on requests other sites make. A state-changing
+// request must therefore come from an app page: browsers always send Origin (or at least Referer) on those.
+// Requests with neither come from non-browser clients, which hold no admin cookie to abuse.
+export const requireAppOrigin = (req: Request, res: Response, next: NextFunction) => {
+  if (['GET', 'HEAD', 'OPTIONS'].includes(req.method) || !req.path.startsWith('/api/')
+    || CROSS_SITE_API_PREFIXES.some(prefix => req.path.startsWith(prefix))) {
+    return next();
+  }
+
+  let origin = req.get('Origin');
+  if (!origin && req.get('Referer')) {
+    try {
+      origin = new URL(req.get('Referer')!).origin;
+    } catch {
+      origin = 'null';
+    }
+  }
+
+  if (origin && !isAppOrigin(req, origin)) {
+    return res.status(403).json({ message: "Cross-site request rejected" });
+  }
+  next();
+};
+
+// Create the first admin from ADMIN_USERNAME / ADMIN_PASSWORD when no users exist yet
+const bootstrapAdminUser = async () => {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+
+  if (await storage.countAdminUsers() > 0) return;
+
+  if (!username || !password) {
+    console.warn('⚠️ No admin users exist - set ADMIN_USERNAME and ADMIN_PASSWORD to create the first admin');
+    return;
+  }
+
+  await storage.createAdminUser({ username, passwordHash: await hashPassword(password), role: "admin" });
+  console.log(`👤 Created initial admin user "${username}"`);
+};
+
+// Sessions, login/logout and admin user management. Must run before any route uses requireRole.
+export function setupAuth(app: Express) {
+  const PostgresSessionStore = connectPg(session);
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: process.env.SESSION_SECRET || process.env.SHOPIFY_API_SECRET!,
+    resave: false,
+    saveUninitialized: false,
+    store: new PostgresSessionStore({
+      conString: process.env.DATABASE_URL,
+      tableName: "admin_sessions",
+      createTableIfMissing: true,
+    }),
+    cookie: {
+      httpOnly: true,
+      secure: true,
+      sameSite: "none", // The admin runs inside the Shopify admin iframe; requireAppOrigin stops cross-site writes
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getAdminUserByUsername(username);
+      if (!user || !(await comparePasswords(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      return done(null, toPublicUser(user));
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getAdminUser(id);
+      // A deleted user's session simply stops authenticating
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  bootstrapAdminUser().catch(error => {
+    console.error('Failed to create initial admin user:', error);
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      req.login(user, async (loginError) => {
+        if (loginError) return next(loginError);
+        await storage.updateAdminUser(user.id, { lastLoginAt: new Date().toISOString() });
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.sendStatus(204);
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    res.json(req.user);
+  });
+
+  // Admin user management
+  app.get("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const users = await storage.getAdminUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const { username, password, role } = insertAdminUserSchema.parse(req.body);
+
+      if (await storage.getAdminUserByUsername(username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createAdminUser({ username, passwordHash: await hashPassword(password), role });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  app.patch("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const { password, role } = updateAdminUserSchema.parse(req.body);
+
+      // Keep at least one admin able to manage users
+      if (req.params.id === req.user!.id && role && role !== "admin") {
+        return res.status(400).json({ message: "You cannot remove your own admin role" });
+      }
+
+      const user = await storage.updateAdminUser(req.params.id, {
+        ...(role ? { role } : {}),
+        ...(password ? { passwordHash: await hashPassword(password) } : {}),
+      });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  app.delete("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot delete your own account" });
+      }
+
+      const deleted = await storage.deleteAdminUser(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+}
@@ -0,0 +1,494 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { createMotorcycleNormalizer, type MotorcycleNormalizer } from "./motorcycle-aliases";
+import {
+  insertMotorcycleSchema,
+  type Motorcycle,
+  type MotorcycleParts,
+  type MotorcycleFitmentDetails,
+  type InsertMotorcycle,
+  type CsvImportType,
+  type CsvImportFieldChange,
+  type CsvImportRowPreview,
+  type CsvImportPreview,
+  toMotorcycleParts,
+  toMotorcycleFitmentDetails,
+  formatFitmentQualifiers,
+  parseFitmentQualifiers
+} from "@shared/schema";
+
+// Advisory lock serialising imports (RECID allocation); same ID the imports have always used
+export const CSV_IMPORT_LOCK_ID = 1234567890;
+
+// Previews wait this long for the user to commit them
+const PREVIEW_TTL_MS = 30 * 60 * 1000;
+
+export type CsvImportResult = {
+  success: boolean;
+  totalRows: number;
+  successCount: number;
+  errorCount: number;
+  errors: Array<{ row: number; field: string; message: string }>;
+};
+
+type CsvRecord = Record<string, string | undefined>;
+
+// What csv-parse yields with columns: true - one object per row, keyed by header
+export const csvRecordsSchema = z.array(z.record(z.string(), z.string()));
+
+// A motorcycle and its assigned parts, as the plan expects them to be once earlier rows are applied
+type PlannedMotorcycle = Motorcycle & { parts: MotorcycleParts, details: MotorcycleFitmentDetails };
+
+// Combined-import column carrying an assignment's notes or qualifiers, e.g. OE_HANDLEBAR_NOTES
+type DetailColumn = { partCategory: string, kind: 'notes' | 'qualifiers' };
+
+const MAX_FITMENT_NOTES_LENGTH = 500;
+
+const previews = new Map<string, { shop: string; preview: CsvImportPreview; expiresAt: number }>();
+
+const parseOptionalInt = (value: string | undefined): number | null =>
+  value && value.trim() ? parseInt(value) : null;
+
+const describeMotorcycle = (make?: string | null, model?: string | null) =>
+  make || model ? `${make ?? ''} ${model ?? ''}`.trim() : null;
+
+// Copy of a motorcycle with one part assigned, so later rows diff against earlier ones
+function withAssignedPart(motorcycle: PlannedMotorcycle, partCategory: string, value: string | null): PlannedMotorcycle {
+  const parts = { ...motorcycle.parts };
+  if (value) {
+    parts[partCategory] = value;
+  } else {
+    delete parts[partCategory];
+  }
+  return { ...motorcycle, parts };
+}
+
+// Notes or qualifiers (CSV form) of one assignment as they currently stand
+function currentFitmentDetail(details: MotorcycleFitmentDetails, partCategory: string, kind: DetailColumn['kind']): string | null {
+  return kind === 'notes'
+    ? details[partCategory]?.notes ?? null
+    : formatFitmentQualifiers(details[partCategory]?.qualifiers) || null;
+}
+
+function withFitmentDetail(details: MotorcycleFitmentDetails, partCategory: string, kind: DetailColumn['kind'], value: string | null): MotorcycleFitmentDetails {
+  const current = details[partCategory] ?? { notes: null, qualifiers: null };
+  const updated = kind === 'notes'
+    ? { ...current, notes: value }
+    : { ...current, qualifiers: value ? parseFitmentQualifiers(value) : null };
+  return { ...details, [partCategory]: updated };
+}
+
+const isDetailChange = (change: CsvImportFieldChange): change is CsvImportFieldChange & { kind: DetailColumn['kind'] } =>
+  change.kind === 'notes' || change.kind === 'qualifiers';
+
+function planPartsRow(row: CsvRecord, rowNumber: number, current: (recid: number) => PlannedMotorcycle | undefined): CsvImportRowPreview {
+  const errors: CsvImportRowPreview['errors'] = [];
+  const recid = row.MOTORCYCLE_RECID ? parseInt(row.MOTORCYCLE_RECID) : NaN;
+
+  if (!row.MOTORCYCLE_RECID) {
+    errors.push({ field: 'MOTORCYCLE_RECID', message: 'MOTORCYCLE_RECID is required' });
+  } else if (isNaN(recid)) {
+    errors.push({ field: 'MOTORCYCLE_RECID', message: 'MOTORCYCLE_RECID must be a number' });
+  }
+  if (!row.PART_CATEGORY?.trim()) {
+    errors.push({ field: 'PART_CATEGORY', message: 'PART_CATEGORY is required' });
+  }
+  if (!row.PRODUCT_VARIANT?.trim()) {
+    errors.push({ field: 'PRODUCT_VARIANT', message: 'PRODUCT_VARIANT is required' });
+  }
+
+  const motorcycle = isNaN(recid) ? undefined : current(recid);
+  if (errors.length === 0 && !motorcycle) {
+    errors.push({ field: 'MOTORCYCLE_RECID', message: 'Motorcycle not found' });
+  }
+
+  if (errors.length > 0 || !motorcycle) {
+    return { row: rowNumber, recid: isNaN(recid) ? null : recid, motorcycle: null, status: 'error', changes: [], errors };
+  }
+
+  const partCategory = row.PART_CATEGORY!.trim();
+  const newValue = row.PRODUCT_VARIANT!.trim();
+  const oldValue = motorcycle.parts[partCategory] ?? null;
+
+  return {
+    row: rowNumber,
+    recid,
+    motorcycle: describeMotorcycle(motorcycle.bikemake, motorcycle.bikemodel),
+    status: oldValue === newValue ? 'unchanged' : 'changed',
+    changes: oldValue === newValue ? [] : [{ field: partCategory, kind: 'part', oldValue, newValue }],
+    errors,
+  };
+}
+
+function planMotorcycleRow(
+  row: CsvRecord,
+  rowNumber: number,
+  partColumns: Record<string, string>,
+  detailColumns: Record<string, DetailColumn>,
+  current: (recid: number) => PlannedMotorcycle | undefined,
+  plannedNewRecids: Set<number>,
+  normalizer: MotorcycleNormalizer
+): CsvImportRowPreview {
+  const errors: CsvImportRowPreview['errors'] = [];
+  let recid: number | null = null;
+
+  // RECID is optional - blank means auto-assign on commit
+  if (row.RECID && row.RECID.toString().trim() !== '') {
+    recid = parseInt(row.RECID);
+    if (isNaN(recid)) {
+      errors.push({ field: 'RECID', message: 'RECID must be a number if provided' });
+      recid = null;
+    } else if (plannedNewRecids.has(recid)) {
+      errors.push({ field: 'RECID', message: `RECID ${recid} appears more than once in this file` });
+    }
+  }
+  if (!row.BIKEMAKE?.trim()) {
+    errors.push({ field: 'BIKEMAKE', message: 'BIKEMAKE is required' });
+  }
+  if (!row.BIKEMODEL?.trim()) {
+    errors.push({ field: 'BIKEMODEL', message: 'BIKEMODEL is required' });
+  }
+
+  // Makes and models are stored under their canonical spelling ("Husky" -> "Husqvarna")
+  const bikemake = row.BIKEMAKE?.trim() ? normalizer.make(row.BIKEMAKE.trim()) : null;
+  const fields: Record<string, string | number | null> = {
+    bikemake,
+    bikemodel: row.BIKEMODEL?.trim() ? normalizer.model(bikemake ?? '', row.BIKEMODEL.trim()) : null,
+    capacity: parseOptionalInt(row.CAPACITY),
+    firstyear: parseOptionalInt(row.FIRSTYEAR),
+    lastyear: parseOptionalInt(row.LASTYEAR),
+  };
+  const parts = Object.entries(partColumns)
+    .filter(([columnName]) => row[columnName]?.trim())
+    .map(([columnName, partCategory]) => ({ partCategory, value: row[columnName]!.trim() }));
+
+  const existing = recid !== null ? current(recid) : undefined;
+  const changes: CsvImportFieldChange[] = [];
+
+  // Notes and qualifiers need an assignment to hang off, either already on the bike or in this row.
+  // Qualifiers are compared in their formatted form so "ABS=YES" and "abs=yes" don't count as a change.
+  const details: Array<DetailColumn & { value: string }> = [];
+  for (const [columnName, column] of Object.entries(detailColumns)) {
+    const cell = row[columnName]?.trim();
+    if (!cell) continue;
+
+    let value = cell;
+    if (column.kind === 'qualifiers') {
+      try {
+        value = formatFitmentQualifiers(parseFitmentQualifiers(cell));
+      } catch (error) {
+        errors.push({ field: columnName, message: (error as Error).message });
+        continue;
+      }
+      if (!value) continue;
+    } else if (value.length > MAX_FITMENT_NOTES_LENGTH) {
+      errors.push({ field: columnName, message: `Notes can be at most ${MAX_FITMENT_NOTES_LENGTH} characters` });
+      continue;
+    }
+
+    if (!parts.some(part => part.partCategory === column.partCategory) && !existing?.parts[column.partCategory]) {
+      errors.push({ field: columnName, message: `${columnName} needs a ${column.partCategory.toUpperCase()} part assigned` });
+      continue;
+    }
+    details.push({ ...column, value });
+  }
+
+  if (!existing && errors.length === 0) {
+    // New motorcycle - validate it the same way a manual create would
+    try {
+      insertMotorcycleSchema.parse({ ...fields, recid: recid ?? 0 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        error.errors.forEach(zodError => {
+          errors.push({ field: zodError.path.join('.'), message: zodError.message });
+        });
+      } else {
+        throw error;
+      }
+    }
+
+    Object.entries(fields)
+      .filter(([, value]) => value !== null)
+      .forEach(([field, value]) => changes.push({ field, kind: 'field', oldValue: null, newValue: value }));
+    parts.forEach(({ partCategory, value }) =>
+      changes.push({ field: partCategory, kind: 'part', oldValue: null, newValue: value }));
+    details.forEach(({ partCategory, kind, value }) =>
+      changes.push({ field: partCategory, kind, oldValue: null, newValue: value }));
+  } else if (existing) {
+    // Existing motorcycle - blank cells leave the current value alone
+    Object.entries(fields)
+      .filter(([field, value]) => value !== null && value !== ((existing as Record<string, any>)[field] ?? null))
+      .forEach(([field, value]) =>
+        changes.push({ field, kind: 'field', oldValue: (existing as Record<string, any>)[field] ?? null, newValue: value }));
+    parts
+      .filter(({ partCategory, value }) => (existing.parts[partCategory] ?? null) !== value)
+      .forEach(({ partCategory, value }) =>
+        changes.push({ field: partCategory, kind: 'part', oldValue: existing.parts[partCategory] ?? null, newValue: value }));
+    details
+      .filter(({ partCategory, kind, value }) => currentFitmentDetail(existing.details, partCategory, kind) !== value)
+      .forEach(({ partCategory, kind, value }) =>
+        changes.push({ field: partCategory, kind, oldValue: currentFitmentDetail(existing.details, partCategory, kind), newValue: value }));
+  }
+
+  if (errors.length > 0) {
+    return { row: rowNumber, recid, motorcycle: describeMotorcycle(row.BIKEMAKE?.trim(), row.BIKEMODEL?.trim()), status: 'error', changes: [], errors };
+  }
+
+  if (!existing && recid !== null) {
+    plannedNewRecids.add(recid);
+  }
+
+  return {
+    row: rowNumber,
+    recid,
+    motorcycle: describeMotorcycle(fields.bikemake as string, fields.bikemodel as string),
+    status: !existing ? 'new' : changes.length > 0 ? 'changed' : 'unchanged',
+    changes,
+    errors,
+  };
+}
+
+/**
+ * Validates a parsed CSV and works out what each row would do, without writing anything
+ */
+export async function planCsvImport(shop: string, importType: CsvImportType, filename: string, records: CsvRecord[]): Promise<CsvImportPreview> {
+  const [partsByRecid, detailsByRecid] = await Promise.all([
+    storage.getMotorcyclePartsByRecid(shop),
+    storage.getFitmentDetailsByRecid(shop)
+  ]);
+  const [motorcycles, aliases] = await Promise.all([storage.getMotorcycles(shop), storage.getMotorcycleAliases(shop)]);
+  const normalizer = createMotorcycleNormalizer(aliases, motorcycles);
+  const existing = new Map<number, PlannedMotorcycle>(motorcycles.map(motorcycle =>
+    [motorcycle.recid, { ...motorcycle, parts: partsByRecid.get(motorcycle.recid) || {}, details: detailsByRecid.get(motorcycle.recid) || {} }]
+  ));
+  // Bikes as they will look after earlier rows, so repeated RECIDs diff correctly
+  const working = new Map<number, PlannedMotorcycle>();
+
+  // Combined imports carry one column per registered part category, named like the export (e.g. OE_HANDLEBAR)
+  // and optionally <COLUMN>_NOTES / <COLUMN>_QUALIFIERS for that assignment's notes and qualifiers
+  const categoryValues = importType === 'combined'
+    ? (await storage.getPartCategoryTags(shop)).map(tag => tag.categoryValue)
+    : [];
+  const partColumns: Record<string, string> = Object.fromEntries(categoryValues.map(category => [category.toUpperCase(), category]));
+  const detailColumns: Record<string, DetailColumn> = Object.fromEntries(categoryValues.flatMap(category => [
+    [`${category.toUpperCase()}_NOTES`, { partCategory: category, kind: 'notes' }],
+    [`${category.toUpperCase()}_QUALIFIERS`, { partCategory: category, kind: 'qualifiers' }],
+  ]));
+  const current = (recid: number) => working.get(recid) ?? existing.get(recid);
+  const plannedNewRecids = new Set<number>();
+  const rows: CsvImportRowPreview[] = [];
+
+  let rowNumber = 2; // Start at 2 (accounting for header row)
+  for (const record of records) {
+    const preview = importType === 'parts'
+      ? planPartsRow(record, rowNumber, current)
+      : planMotorcycleRow(record, rowNumber, partColumns, detailColumns, current, plannedNewRecids, normalizer);
+
+    const motorcycle = preview.recid !== null ? current(preview.recid) : undefined;
+    if (motorcycle && preview.status === 'changed') {
+      working.set(preview.recid!, preview.changes.reduce(
+        (bike, change) => change.kind === 'part'
+          ? withAssignedPart(bike, change.field, change.newValue as string | null)
+          : isDetailChange(change)
+            ? { ...bike, details: withFitmentDetail(bike.details, change.field, change.kind, change.newValue as string | null) }
+            : { ...bike, [change.field]: change.newValue },
+        motorcycle
+      ));
+    }
+
+    rows.push(preview);
+    rowNumber++;
+  }
+
+  const count = (status: CsvImportRowPreview['status']) => rows.filter(row => row.status === status).length;
+
+  return {
+    previewId: randomUUID(),
+    importType,
+    filename,
+    totalRows: records.length,
+    summary: { new: count('new'), changed: count('changed'), unchanged: count('unchanged'), error: count('error') },
+    rows,
+    expiresAt: new Date(Date.now() + PREVIEW_TTL_MS).toISOString(),
+  };
+}
+
+// Keep a preview so the exact changeset the user reviewed can be committed later
+export function saveCsvImportPreview(shop: string, preview: CsvImportPreview): CsvImportPreview {
+  const now = Date.now();
+  Array.from(previews.entries())
+    .filter(([, stored]) => stored.expiresAt <= now)
+    .forEach(([id]) => previews.delete(id));
+
+  previews.set(preview.previewId, { shop, preview, expiresAt: Date.parse(preview.expiresAt) });
+  return preview;
+}
+
+export function getCsvImportPreview(shop: string, previewId: string): CsvImportPreview | undefined {
+  const stored = previews.get(previewId);
+  if (!stored || stored.shop !== shop || stored.expiresAt <= Date.now()) {
+    return undefined;
+  }
+  return stored.preview;
+}
+
+export function discardCsvImportPreview(previewId: string) {
+  previews.delete(previewId);
+}
+
+// Returns a conflict message when the motorcycle no longer matches what the preview showed
+async function applyChangedRow(shop: string, importId: string, row: CsvImportRowPreview, changedBy: string | null): Promise<string | null> {
+  const motorcycle = await storage.getMotorcycle(shop, row.recid!);
+  if (!motorcycle) {
+    return `Motorcycle ${row.recid} was deleted after the preview`;
+  }
+
+  const fitments = await storage.getMotorcycleFitments(shop, row.recid!);
+  const parts = toMotorcycleParts(fitments);
+  const details = toMotorcycleFitmentDetails(fitments);
+
+  for (const change of row.changes) {
+    const currentValue = change.kind === 'part'
+      ? parts[change.field] ?? null
+      : isDetailChange(change)
+        ? currentFitmentDetail(details, change.field, change.kind)
+        : (motorcycle as Record<string, any>)[change.field] ?? null;
+    if (currentValue !== change.oldValue) {
+      return `${change.field} changed after the preview (now ${currentValue ?? 'empty'})`;
+    }
+  }
+
+  await storage.recordImportBatchRow(shop, importId, 'motorcycle', String(row.recid), { ...motorcycle, fitments });
+
+  const fieldUpdates = Object.fromEntries(
+    row.changes.filter(change => change.kind === 'field').map(change => [change.field, change.newValue])
+  ) as Partial<InsertMotorcycle>;
+  if (Object.keys(fieldUpdates).length > 0) {
+    await storage.updateMotorcycle(shop, row.recid!, fieldUpdates);
+  }
+
+  for (const change of row.changes.filter(change => change.kind === 'part')) {
+    await storage.assignMotorcyclePart(shop, row.recid!, change.field, change.newValue as string | null, {
+      source: 'csv_import',
+      changedBy
+    });
+  }
+  await applyDetailChanges(shop, row.recid!, row.changes, details);
+
+  return null;
+}
+
+// Writes a row's notes and qualifier changes onto its fitments, which the part changes have assigned by now
+async function applyDetailChanges(shop: string, recid: number, changes: CsvImportFieldChange[], details: MotorcycleFitmentDetails) {
+  const updated = changes.filter(isDetailChange).reduce(
+    (current, change) => withFitmentDetail(current, change.field, change.kind, change.newValue as string | null),
+    details
+  );
+  const changedCategories = new Set(changes.filter(isDetailChange).map(change => change.field));
+  for (const partCategory of Array.from(changedCategories)) {
+    await storage.updateFitmentDetails(shop, recid, partCategory, updated[partCategory]);
+  }
+}
+
+/**
+ * Writes a planned import as part of the importId batch. Rows are re-checked against the database first,
+ * so a commit applies exactly what was previewed and skips rows that changed in the meantime.
+ */
+async function applyCsvImport(shop: string, importId: string, preview: CsvImportPreview, changedBy: string | null): Promise<CsvImportResult> {
+  const errors: CsvImportResult['errors'] = [];
+  let successCount = 0;
+  let nextRecid = await storage.getNextMotorcycleRecid(shop);
+
+  for (const row of preview.rows) {
+    try {
+      if (row.status === 'error') {
+        row.errors.forEach(error => errors.push({ row: row.row, ...error }));
+        continue;
+      }
+
+      if (row.status === 'new') {
+        let recid = row.recid;
+        if (recid === null) {
+          // Auto-assign RECID, skipping any taken by explicit RECIDs earlier in the file
+          while (await storage.getMotorcycle(shop, nextRecid)) nextRecid++;
+          recid = nextRecid++;
+        } else if (await storage.getMotorcycle(shop, recid)) {
+          errors.push({ row: row.row, field: 'RECID', message: `Motorcycle ${recid} was created after the preview` });
+          continue;
+        }
+
+        const fieldChanges = row.changes.filter(change => change.kind === 'field');
+        const motorcycleData = insertMotorcycleSchema.parse({
+          ...Object.fromEntries(fieldChanges.map(change => [change.field, change.newValue])),
+          recid
+        });
+        await storage.recordImportBatchRow(shop, importId, 'motorcycle', String(recid), null);
+        await storage.createMotorcycle(shop, motorcycleData);
+
+        for (const change of row.changes.filter(change => change.kind === 'part')) {
+          await storage.assignMotorcyclePart(shop, recid, change.field, change.newValue as string | null, {
+            source: 'csv_import',
+            changedBy
+          });
+        }
+        await applyDetailChanges(shop, recid, row.changes, {});
+      } else if (row.status === 'changed') {
+        const conflict = await applyChangedRow(shop, importId, row, changedBy);
+        if (conflict) {
+          errors.push({ row: row.row, field: 'conflict', message: conflict });
+          continue;
+        }
+      }
+
+      successCount++;
+    } catch (error) {
+      errors.push({
+        row: row.row,
+        field: 'general',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  return {
+    success: errors.length === 0 && successCount > 0,
+    totalRows: preview.totalRows,
+    successCount,
+    errorCount: preview.totalRows - successCount,
+    errors: errors.slice(0, 50) // Limit errors to first 50 for UI
+  };
+}
+
+/**
+ * Records the import in import_history and applies it as one batch, so it can be rolled back later.
+ * Callers must hold CSV_IMPORT_LOCK_ID.
+ */
+export async function runCsvImport(shop: string, preview: CsvImportPreview, changedBy: string | null): Promise<CsvImportResult> {
+  const batch = await storage.createImportHistory(shop, {
+    type: preview.importType,
+    filename: preview.filename,
+    recordsCount: 0,
+    status: 'running',
+  });
+
+  try {
+    const result = await applyCsvImport(shop, batch.id, preview, changedBy);
+    await storage.updateImportHistory(shop, batch.id, {
+      recordsCount: result.successCount,
+      status: result.successCount > 0 ? 'success' : 'error',
+    });
+    return result;
+  } catch (error) {
+    // Rows written before the failure stay in the batch and can still be rolled back
+    console.error('CSV import batch failed:', error);
+    await storage.updateImportHistory(shop, batch.id, { status: 'error' });
+    return {
+      success: false,
+      totalRows: preview.totalRows,
+      successCount: 0,
+      errorCount: preview.totalRows,
+      errors: [{ row: 0, field: 'system', message: 'Server error applying CSV import' }]
+    };
+  }
+}
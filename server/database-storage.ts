@@ -1,6 +1,6 @@
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import { eq, like, ilike, and, or, gte, lte, sql, asc } from "drizzle-orm";
+import { eq, like, ilike, and, or, gte, lte, sql, asc, desc, inArray, notInArray, isNull, isNotNull, count, exists, notExists, getTableColumns, type SQL } from "drizzle-orm";
 import {
   motorcycles,
   systemSettings,
@@ -10,7 +10,22 @@ import {
   partSections,
   shopifySessions,
   searchAnalytics,
+  storefrontEvents,
+  orderLineAttributions,
   motorcycleCategoryConfig,
+  shopifyProducts,
+  shopifyProductVariants,
+  shopifyProductTombstones,
+  adminUsers,
+  partAssignmentAudit,
+  importBatchRows,
+  motorcycleFitments,
+  categoryPromotions,
+  fitmentRules,
+  skuSupersessions,
+  motorcycleAliases,
+  scheduledJobs,
+  scheduledJobRuns,
   type Motorcycle,
   type InsertMotorcycle,
   type SystemSetting,
@@ -21,6 +36,8 @@ import {
   type InsertPartMapping,
   type ImportHistory,
   type InsertImportHistory,
+  type ImportBatchRow,
+  type ImportBatchEntityType,
   type PartCategoryTags,
   type InsertPartCategoryTags,
   type PartSection,
@@ -29,11 +46,70 @@ import {
   type InsertShopifySession,
   type SearchAnalytics,
   type InsertSearchAnalytics,
+  type UnmetSearchDemand,
+  type StorefrontEvent,
+  type StorefrontEventInput,
+  type StorefrontFunnel,
+  type OrderAttributionReport,
   type MotorcycleCategoryConfig,
-  type InsertMotorcycleCategoryConfig
+  type InsertMotorcycleCategoryConfig,
+  type CachedShopifyProduct,
+  type CachedShopifyProductVariant,
+  type InsertCachedShopifyProduct,
+  type InsertCachedShopifyProductVariant,
+  type ProductCacheStatus,
+  type AdminUser,
+  type PartAssignmentAudit,
+  type PartAssignmentChange,
+  type MotorcycleFitment,
+  type MotorcycleParts,
+  type MotorcycleFitmentDetails,
+  type FitmentDetails,
+  type LegacyPartField,
+  type CategoryPromotion,
+  type ReverseFitmentLookup,
+  type ReverseFitmentMatch,
+  type BulkAssignmentFilter,
+  type MotorcycleListQuery,
+  type MotorcycleListPage,
+  type MotorcycleSortField,
+  type FitmentRule,
+  type FitmentRuleConditions,
+  type InsertFitmentRule,
+  type EffectiveMotorcycleParts,
+  type CompatiblePartsExplanation,
+  type CompatiblePartExplanation,
+  type CompatiblePartMatchRule,
+  type CompatiblePartCategoryMethod,
+  type FitmentQualityIssue,
+  type FitmentQualityReport,
+  type SkuSupersession,
+  type InsertSkuSupersession,
+  type SupersededFitment,
+  type DiscontinuedSkuReportEntry,
+  type MotorcycleAlias,
+  type InsertMotorcycleAlias,
+  type MotorcycleNameDuplicate,
+  type ScheduledJob,
+  type ScheduledJobType,
+  type ScheduledJobRun,
+  LEGACY_PART_COLUMNS,
+  TOOTH_RANGE_CATEGORIES,
+  toMotorcycleParts,
+  toMotorcycleFitmentDetails,
+  motorcycleNameKey,
+  normalizeFitmentDetails,
+  defaultCategoryLabel
 } from "@shared/schema";
 import { IStorage } from "./storage";
-import { fetchShopifyProductsByIds, getCurrentSession, fetchShopifyProducts } from "./shopify-auth";
+import { applyFitmentRules, motorcycleMatchesRule } from "./fitment-rules";
+import { MOTORCYCLE_SORT_KEYS, decodeMotorcycleCursor, encodeMotorcycleCursor, motorcycleSearchSql, parseMotorcycleSearch } from "./motorcycle-listing";
+import { createSkuResolver, resolveMotorcycleParts, findSupersededFitments, buildDiscontinuedSkuReport, type SkuResolver } from "./sku-supersession";
+import { expandSearchAliases, findMotorcycleNameDuplicates, seedAliasesFromDuplicates } from "./motorcycle-aliases";
+import { buildUnmetSearchDemand } from "./search-demand";
+import { buildStorefrontFunnel } from "./storefront-funnel";
+import { buildOrderAttributionReport, parseOrderAttribution, type ShopifyOrderPayload } from "./order-attribution";
+import { getShopSession, fetchShopifyProducts, type ShopifySession } from "./shopify-auth";
 
 const sqlConnection = postgres(process.env.DATABASE_URL!, {
   prepare: false,
@@ -42,6 +118,81 @@ const sqlConnection = postgres(process.env.DATABASE_URL!, {
 });
 const db = drizzle(sqlConnection);
 
+// The fuzzy motorcycle search needs pg_trgm. It's created on first use where the database role is allowed to; without
+// it searches fall back to substring matching instead of failing. A failed check is retried on the next search.
+let trigramSearchCheck: Promise<boolean> | undefined;
+function trigramSearchAvailable(): Promise<boolean> {
+  trigramSearchCheck ??= (async () => {
+    try {
+      await sqlConnection`CREATE EXTENSION IF NOT EXISTS pg_trgm`;
+    } catch (error) {
+      console.warn('⚠️ Could not create the pg_trgm extension:', error instanceof Error ? error.message : error);
+    }
+    const [{ installed }] = await sqlConnection`SELECT count(*)::int AS installed FROM pg_extension WHERE extname = 'pg_trgm'`;
+    if (!installed) {
+      console.warn('⚠️ pg_trgm is not installed - motorcycle search falls back to substring matching');
+    }
+    return installed > 0;
+  })().catch(error => {
+    console.error('Failed to check for the pg_trgm extension:', error);
+    trigramSearchCheck = undefined;
+    return false;
+  });
+  return trigramSearchCheck;
+}
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Audit entries written when auto-heal repoints a part_mappings row
+const PART_MAPPING_AUDIT_CATEGORY = 'part_mapping';
+
+// Part mapping audit values are the product ID, or "productId/variantId" for variant-level mappings
+const partMappingAuditValue = (productId: string, variantId: string | null) =>
+  variantId ? `${productId}/${variantId}` : productId;
+
+function parsePartMappingAuditValue(value: string): { shopifyProductId: string, shopifyVariantId: string | null } {
+  const [shopifyProductId, shopifyVariantId] = value.split('/');
+  return { shopifyProductId, shopifyVariantId: shopifyVariantId || null };
+}
+
+// Advisory lock held while legacy part columns are copied into motorcycle_fitments (backfill or category promotion).
+// Taken for all shops at once: the startup backfill covers every shop.
+const FITMENT_BACKFILL_LOCK_ID = 1234567891;
+const FITMENT_BACKFILL_LOCK_KEY = 'all-shops';
+
+// Motorcycle columns without the legacy part storage, which only the fitment backfill reads
+const allMotorcycleColumns = getTableColumns(motorcycles);
+const motorcycleColumns = Object.fromEntries(
+  Object.entries(allMotorcycleColumns).filter(([name]) =>
+    name !== 'customParts' && !(LEGACY_PART_COLUMNS as readonly string[]).includes(name)
+  )
+) as Omit<typeof allMotorcycleColumns, LegacyPartField>;
+
+// SQL for MOTORCYCLE_SORT_KEYS, column for column, so cursors built from a row's key continue the same ordering.
+// Relevance orders by the search score instead (see motorcycleSearchSql).
+const MOTORCYCLE_SORT_COLUMNS: Record<Exclude<MotorcycleSortField, 'relevance'>, SQL[]> = {
+  make: [sql`${motorcycles.bikemake}`, sql`${motorcycles.bikemodel}`, sql`${motorcycles.firstyear}`, sql`${motorcycles.recid}`],
+  model: [sql`${motorcycles.bikemodel}`, sql`${motorcycles.bikemake}`, sql`${motorcycles.firstyear}`, sql`${motorcycles.recid}`],
+  year: [sql`${motorcycles.firstyear}`, sql`${motorcycles.bikemake}`, sql`${motorcycles.bikemodel}`, sql`${motorcycles.recid}`],
+  capacity: [sql`coalesce(${motorcycles.capacity}, 0)`, sql`${motorcycles.bikemake}`, sql`${motorcycles.bikemodel}`, sql`${motorcycles.recid}`],
+  recid: [sql`${motorcycles.recid}`],
+};
+
+// Motorcycle row plus its fitments, as recorded in an import batch
+type MotorcycleSnapshot = Motorcycle & { fitments?: MotorcycleFitment[] };
+
+// Part categories whose assignment differs between two sets of parts
+function changedPartAssignments(from: MotorcycleParts, to: MotorcycleParts): { partCategory: string, previousValue: string | null, newValue: string | null }[] {
+  const categories = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+  return Array.from(categories)
+    .map(partCategory => ({
+      partCategory,
+      previousValue: from[partCategory] ?? null,
+      newValue: to[partCategory] ?? null,
+    }))
+    .filter(change => change.previousValue !== change.newValue);
+}
+
 /**
  * Extract tooth count from variant SKU or title
  * Examples: "292--520-48GP" -> 48, "50 Tooth Sprocket" -> 50, "224U-520-51-GP" -> 51
@@ -113,141 +264,150 @@ function parseToothRange(rangeStr: string | null | undefined): number[] | null {
   return null;
 }
 
+// Rows per INSERT statement when writing the product cache
+const PRODUCT_CACHE_CHUNK_SIZE = 500;
+
+type ProductCacheSyncResult = { productCount: number, variantCount: number, pageCount: number };
+
+// Full product cache syncs in progress, per shop. Callers asking while one runs share it instead of racing to
+// rewrite the same rows.
+const productCacheSyncs = new Map<string, Promise<ProductCacheSyncResult>>();
+
+/**
+ * Convert a Shopify REST product payload (API response or webhook body) into cache rows
+ */
+function toCacheRows(product: any): { product: InsertCachedShopifyProduct; variants: InsertCachedShopifyProductVariant[] } {
+  const productId = product.id.toString();
+  return {
+    product: {
+      id: productId,
+      title: product.title || 'Unknown Product',
+      handle: product.handle || null,
+      bodyHtml: product.body_html || null,
+      productType: product.product_type || null,
+      vendor: product.vendor || null,
+      tags: product.tags || '',
+      status: product.status || null,
+      images: product.images || [],
+      shopifyUpdatedAt: product.updated_at || null,
+    },
+    variants: (product.variants || []).map((variant: any) => ({
+      id: variant.id.toString(),
+      productId,
+      title: variant.title || null,
+      sku: variant.sku || null,
+      price: variant.price || null,
+      inventoryQuantity: variant.inventory_quantity ?? null,
+      option1: variant.option1 || null,
+      option2: variant.option2 || null,
+      option3: variant.option3 || null,
+      position: variant.position ?? null,
+    })),
+  };
+}
+
+/**
+ * Rebuild the Shopify REST product shape from cache rows so matching code can treat
+ * cached and live products the same way
+ */
+function fromCacheRows(product: CachedShopifyProduct, variants: CachedShopifyProductVariant[]): any {
+  return {
+    id: product.id,
+    title: product.title,
+    handle: product.handle,
+    body_html: product.bodyHtml,
+    product_type: product.productType,
+    vendor: product.vendor,
+    tags: product.tags || '',
+    status: product.status,
+    images: (product.images as any[]) || [],
+    updated_at: product.shopifyUpdatedAt,
+    variants: variants.map(variant => ({
+      id: variant.id,
+      product_id: variant.productId,
+      title: variant.title,
+      sku: variant.sku,
+      price: variant.price,
+      inventory_quantity: variant.inventoryQuantity,
+      option1: variant.option1,
+      option2: variant.option2,
+      option3: variant.option3,
+      position: variant.position,
+    })),
+  };
+}
+
+// Product cache bookkeeping lives in system settings, one key per shop
+function productCacheSettingKey(name: string, shop: string): string {
+  return `product_cache_${name}:${shop}`;
+}
+
+// Subquery of the cached product IDs belonging to a shop
+function shopProductIds(shop: string) {
+  return db.select({ id: shopifyProducts.id }).from(shopifyProducts).where(eq(shopifyProducts.shop, shop));
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
 export class DatabaseStorage implements IStorage {
   // Motorcycles
-  async getMotorcycles(): Promise<Motorcycle[]> {
-    return await db.select().from(motorcycles);
+  async getMotorcycles(shop: string): Promise<Motorcycle[]> {
+    return await db.select(motorcycleColumns).from(motorcycles).where(eq(motorcycles.shop, shop));
   }
 
-  async getMotorcycle(recid: number): Promise<Motorcycle | undefined> {
-    const result = await db.select().from(motorcycles).where(eq(motorcycles.recid, recid));
+  async getMotorcycle(shop: string, recid: number): Promise<Motorcycle | undefined> {
+    const result = await db.select(motorcycleColumns).from(motorcycles)
+      .where(and(eq(motorcycles.shop, shop), eq(motorcycles.recid, recid)));
     return result[0];
   }
 
-  async createMotorcycle(motorcycle: InsertMotorcycle): Promise<Motorcycle> {
-    const result = await db.insert(motorcycles).values(motorcycle).returning();
+  async createMotorcycle(shop: string, motorcycle: InsertMotorcycle): Promise<Motorcycle> {
+    const result = await db.insert(motorcycles).values({ ...motorcycle, shop }).returning(motorcycleColumns);
     return result[0];
   }
 
-  async updateMotorcycle(recid: number, updates: Partial<InsertMotorcycle>): Promise<Motorcycle | undefined> {
+  async updateMotorcycle(shop: string, recid: number, updates: Partial<InsertMotorcycle>): Promise<Motorcycle | undefined> {
     const result = await db.update(motorcycles)
       .set(updates)
-      .where(eq(motorcycles.recid, recid))
-      .returning();
+      .where(and(eq(motorcycles.shop, shop), eq(motorcycles.recid, recid)))
+      .returning(motorcycleColumns);
     return result[0];
   }
 
-  async deleteMotorcycle(recid: number): Promise<boolean> {
-    const result = await db.delete(motorcycles).where(eq(motorcycles.recid, recid));
+  async deleteMotorcycle(shop: string, recid: number): Promise<boolean> {
+    const result = await db.delete(motorcycles)
+      .where(and(eq(motorcycles.shop, shop), eq(motorcycles.recid, recid)))
+      .returning();
     return result.length > 0;
   }
 
-  async searchMotorcycles(query: string): Promise<Motorcycle[]> {
-    const searchTerm = query.toLowerCase().trim();
-    
-    if (!searchTerm) {
+  async searchMotorcycles(shop: string, query: string): Promise<Motorcycle[]> {
+    if (!query.trim()) {
       return [];
     }
-    
-    // Check if search term is a numeric RECID
-    const numericRecid = parseInt(searchTerm);
-    if (!isNaN(numericRecid) && searchTerm === numericRecid.toString()) {
-      // Direct RECID search
-      const result = await db.select().from(motorcycles).where(eq(motorcycles.recid, numericRecid));
-      return result;
-    }
-    
-    // Extract year from search if present (4-digit year between 1900-2099)
-    const yearMatch = searchTerm.match(/\b(19\d{2}|20\d{2})\b/);
-    const searchYear = yearMatch ? parseInt(yearMatch[0]) : null;
-    
-    // Remove year from search term when matching make/model
-    const searchWithoutYear = searchYear 
-      ? searchTerm.replace(/\b(19\d{2}|20\d{2})\b/g, '').trim().replace(/\s+/g, ' ')
-      : searchTerm;
-    
-    // Split search into individual words for better matching
-    const words = searchWithoutYear.split(/\s+/).filter(w => w.length > 0);
-    
-    if (words.length === 0 && searchYear) {
-      // Only year was provided, search by year range
-      return await db.select().from(motorcycles).where(
-        and(
-          lte(motorcycles.firstyear, searchYear),
-          gte(motorcycles.lastyear, searchYear)
-        )
-      );
-    }
-    
-    if (words.length === 1) {
-      // Single word: search in make OR model OR RECID (if numeric)
-      const pattern = `%${words[0]}%`;
-      const conditions = [
-        ilike(motorcycles.bikemake, pattern),
-        ilike(motorcycles.bikemodel, pattern)
-      ];
-      
-      // If the word contains digits, also search RECID as string  
-      if (/\d/.test(words[0])) {
-        conditions.push(sql`CAST(${motorcycles.recid} AS TEXT) ILIKE ${pattern}`);
-      }
-      
-      let results = await db.select().from(motorcycles).where(or(...conditions)) as any;
-      
-      // Filter by year if year was in search
-      if (searchYear) {
-        results = results.filter(bike => 
-          bike.firstyear <= searchYear && bike.lastyear >= searchYear
-        );
-      }
-      
-      return results;
-    } else {
-      // Multiple words: try different combinations
-      const patterns = words.map(word => `%${word}%`);
-      
-      // Create conditions for each word in either make or model
-      const wordConditions = patterns.map(pattern => 
-        or(
-          ilike(motorcycles.bikemake, pattern),
-          ilike(motorcycles.bikemodel, pattern)
-        )
-      );
-      
-      // Also try the full search term in make or model
-      const fullPattern = `%${searchWithoutYear}%`;
-      const fullTermCondition = or(
-        ilike(motorcycles.bikemake, fullPattern),
-        ilike(motorcycles.bikemodel, fullPattern)
-      );
-      
-      // Return results where either the full term matches OR all individual words match
-      let results = await db.select().from(motorcycles).where(
-        or(
-          fullTermCondition,
-          and(...wordConditions)
-        )
-      ) as any;
-      
-      // Filter by year if year was in search
-      if (searchYear) {
-        results = results.filter(bike => 
-          bike.firstyear <= searchYear && bike.lastyear >= searchYear
-        );
-      }
-      
-      return results;
-    }
+
+    // Best match first, then make, model and newest year (the same order as rankMotorcycleSearch)
+    const search = expandSearchAliases(query, await this.getMotorcycleAliases(shop));
+    const { condition, score } = motorcycleSearchSql(parseMotorcycleSearch(search), await trigramSearchAvailable());
+    return await db.select(motorcycleColumns).from(motorcycles)
+      .where(and(eq(motorcycles.shop, shop), condition))
+      .orderBy(desc(score), asc(motorcycles.bikemake), asc(motorcycles.bikemodel), desc(motorcycles.firstyear));
   }
 
-  async filterMotorcycles(filters: { 
+  async filterMotorcycles(shop: string, filters: { 
     bikemake?: string; 
     firstyear?: number; 
     lastyear?: number; 
     bikeCategory?: string;
     bikeSubcategory?: string;
   }): Promise<Motorcycle[]> {
-    const conditions = [];
+    const conditions = [eq(motorcycles.shop, shop)];
     
     if (filters.bikemake) {
       conditions.push(eq(motorcycles.bikemake, filters.bikemake));
@@ -270,27 +430,134 @@ export class DatabaseStorage implements IStorage {
       conditions.push(eq(motorcycles.bikeSubcategory, filters.bikeSubcategory));
     }
 
-    if (conditions.length === 0) {
-      return await this.getMotorcycles();
+    return await db.select(motorcycleColumns).from(motorcycles).where(and(...conditions));
+  }
+
+  async filterMotorcyclesForBulkAssignment(shop: string, filter: BulkAssignmentFilter): Promise<Motorcycle[]> {
+    const conditions = [eq(motorcycles.shop, shop)];
+
+    if (filter.bikemake) {
+      conditions.push(ilike(motorcycles.bikemake, filter.bikemake));
+    }
+    if (filter.modelPattern) {
+      // Escape LIKE's own wildcards, then turn * into %
+      const pattern = filter.modelPattern.replace(/[\\%_]/g, char => `\\${char}`).replace(/\*/g, '%');
+      conditions.push(ilike(motorcycles.bikemodel, pattern));
+    }
+    if (filter.yearFrom !== undefined) {
+      conditions.push(gte(motorcycles.firstyear, filter.yearFrom));
+    }
+    if (filter.yearTo !== undefined) {
+      conditions.push(lte(motorcycles.lastyear, filter.yearTo));
+    }
+    if (filter.bikeCategory) {
+      conditions.push(eq(motorcycles.bikeCategory, filter.bikeCategory));
+    }
+    if (filter.bikeSubcategory) {
+      conditions.push(eq(motorcycles.bikeSubcategory, filter.bikeSubcategory));
+    }
+    if (filter.minCapacity !== undefined) {
+      conditions.push(gte(motorcycles.capacity, filter.minCapacity));
+    }
+    if (filter.maxCapacity !== undefined) {
+      conditions.push(lte(motorcycles.capacity, filter.maxCapacity));
     }
 
-    return await db.select().from(motorcycles).where(and(...conditions));
+    return await db.select(motorcycleColumns).from(motorcycles)
+      .where(and(...conditions))
+      .orderBy(asc(motorcycles.bikemake), asc(motorcycles.bikemodel), asc(motorcycles.firstyear));
   }
 
-  async getDistinctMotorcycleMakes(): Promise<string[]> {
+  async listMotorcycles(shop: string, query: MotorcycleListQuery): Promise<MotorcycleListPage> {
+    const conditions = [eq(motorcycles.shop, shop)];
+    const search = query.search
+      ? motorcycleSearchSql(parseMotorcycleSearch(expandSearchAliases(query.search, await this.getMotorcycleAliases(shop))), await trigramSearchAvailable())
+      : null;
+    const score = search?.score ?? sql<number>`0::float8`;
+
+    if (search) {
+      conditions.push(search.condition);
+    }
+    if (query.bikemake) {
+      conditions.push(sql`lower(${motorcycles.bikemake}) = ${query.bikemake.toLowerCase()}`);
+    }
+    if (query.bikemodel) {
+      conditions.push(sql`lower(${motorcycles.bikemodel}) = ${query.bikemodel.toLowerCase()}`);
+    }
+    if (query.year !== undefined) {
+      conditions.push(lte(motorcycles.firstyear, query.year));
+      conditions.push(gte(motorcycles.lastyear, query.year));
+    }
+    if (query.bikeCategory) {
+      conditions.push(eq(motorcycles.bikeCategory, query.bikeCategory));
+    }
+    if (query.bikeSubcategory) {
+      conditions.push(eq(motorcycles.bikeSubcategory, query.bikeSubcategory));
+    }
+    if (query.minCapacity !== undefined) {
+      conditions.push(gte(motorcycles.capacity, query.minCapacity));
+    }
+    if (query.maxCapacity !== undefined) {
+      conditions.push(lte(motorcycles.capacity, query.maxCapacity));
+    }
+
+    const fitmentIn = (partCategory: string) => db.select({ id: motorcycleFitments.id }).from(motorcycleFitments).where(and(
+      eq(motorcycleFitments.shop, motorcycles.shop),
+      eq(motorcycleFitments.motorcycleRecid, motorcycles.recid),
+      eq(motorcycleFitments.partCategory, partCategory)
+    ));
+    if (query.hasPart) {
+      conditions.push(exists(fitmentIn(query.hasPart)));
+    }
+    if (query.missingPart) {
+      conditions.push(notExists(fitmentIn(query.missingPart)));
+    }
+
+    // Keyset pagination: a row comparison against the previous page's last key, in the sort's direction
+    const sortColumns = query.sort === 'relevance' ? [score, sql`${motorcycles.recid}`] : MOTORCYCLE_SORT_COLUMNS[query.sort];
+    const after = query.cursor ? decodeMotorcycleCursor(query.cursor, query) : null;
+    const pageConditions = after
+      ? [...conditions, sql`(${sql.join(sortColumns, sql`, `)}) ${sql.raw(query.order === 'desc' ? '<' : '>')} (${sql.join(after.map(value => sql`${value}`), sql`, `)})`]
+      : conditions;
+    const offset = after ? null : query.offset ?? 0;
+
+    const [[{ total }], rows] = await Promise.all([
+      db.select({ total: count() }).from(motorcycles).where(and(...conditions)),
+      db.select({ ...motorcycleColumns, searchScore: score }).from(motorcycles)
+        .where(and(...pageConditions))
+        .orderBy(...sortColumns.map(column => query.order === 'desc' ? desc(column) : asc(column)))
+        .limit(query.limit + 1) // One extra row tells whether there's a next page
+        .offset(offset ?? 0),
+    ]);
+
+    const page = rows.slice(0, query.limit).map(({ searchScore, ...motorcycle }) => ({ motorcycle, score: searchScore }));
+    return {
+      motorcycles: page.map(entry => entry.motorcycle),
+      total,
+      limit: query.limit,
+      offset,
+      nextCursor: rows.length > query.limit
+        ? encodeMotorcycleCursor({ sort: query.sort, order: query.order, key: MOTORCYCLE_SORT_KEYS[query.sort](page[page.length - 1]) })
+        : null,
+    };
+  }
+
+  async getDistinctMotorcycleMakes(shop: string): Promise<string[]> {
     const result = await db.select({ bikemake: motorcycles.bikemake })
       .from(motorcycles)
+      .where(eq(motorcycles.shop, shop))
       .groupBy(motorcycles.bikemake)
       .orderBy(motorcycles.bikemake);
     
     return result.map(row => row.bikemake);
   }
 
-  async getDistinctMotorcycleYears(): Promise<number[]> {
+  async getDistinctMotorcycleYears(shop: string): Promise<number[]> {
     const result = await db.select({ 
       firstyear: motorcycles.firstyear, 
       lastyear: motorcycles.lastyear 
-    }).from(motorcycles);
+    }).from(motorcycles)
+    .where(eq(motorcycles.shop, shop));
     
     // Create a Set to collect all unique years from the ranges
     const allYears = new Set<number>();
@@ -306,22 +573,23 @@ export class DatabaseStorage implements IStorage {
     return Array.from(allYears).sort((a, b) => b - a);
   }
 
-  async getDistinctMotorcycleModelsByMake(make: string): Promise<string[]> {
+  async getDistinctMotorcycleModelsByMake(shop: string, make: string): Promise<string[]> {
     const result = await db.select({ bikemodel: motorcycles.bikemodel })
       .from(motorcycles)
-      .where(ilike(motorcycles.bikemake, make))
+      .where(and(eq(motorcycles.shop, shop), ilike(motorcycles.bikemake, make)))
       .groupBy(motorcycles.bikemodel)
       .orderBy(motorcycles.bikemodel);
     
     return result.map(row => row.bikemodel);
   }
 
-  async getDistinctYearsByMakeModel(make: string, model: string): Promise<string[]> {
+  async getDistinctYearsByMakeModel(shop: string, make: string, model: string): Promise<string[]> {
     const result = await db.select({ 
       firstyear: motorcycles.firstyear, 
       lastyear: motorcycles.lastyear 
     }).from(motorcycles)
     .where(and(
+      eq(motorcycles.shop, shop),
       ilike(motorcycles.bikemake, make),
       ilike(motorcycles.bikemodel, model)
     ));
@@ -380,8 +648,9 @@ export class DatabaseStorage implements IStorage {
     return ranges;
   }
 
-  async filterMotorcyclesByMakeModelYear(make: string, model: string, year?: number): Promise<Motorcycle[]> {
+  async filterMotorcyclesByMakeModelYear(shop: string, make: string, model: string, year?: number): Promise<Motorcycle[]> {
     const conditions = [
+      eq(motorcycles.shop, shop),
       ilike(motorcycles.bikemake, make),
       ilike(motorcycles.bikemodel, model)
     ];
@@ -392,11 +661,12 @@ export class DatabaseStorage implements IStorage {
       conditions.push(gte(motorcycles.lastyear, year));
     }
 
-    return await db.select().from(motorcycles).where(and(...conditions));
+    return await db.select(motorcycleColumns).from(motorcycles).where(and(...conditions));
   }
 
-  async filterMotorcyclesByMakeModelYearRange(make: string, model: string, startYear?: number, endYear?: number): Promise<Motorcycle[]> {
+  async filterMotorcyclesByMakeModelYearRange(shop: string, make: string, model: string, startYear?: number, endYear?: number): Promise<Motorcycle[]> {
     const conditions = [
+      eq(motorcycles.shop, shop),
       ilike(motorcycles.bikemake, make),
       ilike(motorcycles.bikemodel, model)
     ];
@@ -408,397 +678,1227 @@ export class DatabaseStorage implements IStorage {
       conditions.push(gte(motorcycles.lastyear, startYear));
     }
 
-    return await db.select().from(motorcycles).where(and(...conditions));
+    return await db.select(motorcycleColumns).from(motorcycles).where(and(...conditions));
   }
 
-  // Part Mappings
-  async getPartMappings(): Promise<PartMapping[]> {
-    return await db.select().from(partMappings);
+  // Fitments
+  async getMotorcycleFitments(shop: string, recid: number): Promise<MotorcycleFitment[]> {
+    return await db.select().from(motorcycleFitments)
+      .where(and(eq(motorcycleFitments.shop, shop), eq(motorcycleFitments.motorcycleRecid, recid)));
   }
 
-  async getPartMappingsByMotorcycle(motorcycleRecid: number): Promise<PartMapping[]> {
-    return await db.select().from(partMappings)
-      .where(eq(partMappings.motorcycleRecid, motorcycleRecid));
+  async getMotorcycleParts(shop: string, recid: number): Promise<MotorcycleParts> {
+    return toMotorcycleParts(await this.getMotorcycleFitments(shop, recid));
   }
 
-  async getPartMappingsByProduct(productId: string): Promise<PartMapping[]> {
-    return await db.select().from(partMappings)
-      .where(eq(partMappings.shopifyProductId, productId));
+  // All of a shop's assignments in one query, for list views that need every motorcycle's parts
+  async getMotorcyclePartsByRecid(shop: string): Promise<Map<number, MotorcycleParts>> {
+    const fitments = await db.select().from(motorcycleFitments).where(eq(motorcycleFitments.shop, shop));
+    const partsByRecid = new Map<number, MotorcycleParts>();
+    for (const fitment of fitments) {
+      const parts = partsByRecid.get(fitment.motorcycleRecid) || {};
+      parts[fitment.partCategory] = fitment.sku;
+      partsByRecid.set(fitment.motorcycleRecid, parts);
+    }
+    return partsByRecid;
+  }
+
+  // Notes and qualifiers for every assignment that has any, keyed like getMotorcyclePartsByRecid
+  async getFitmentDetailsByRecid(shop: string): Promise<Map<number, MotorcycleFitmentDetails>> {
+    const fitments = await db.select().from(motorcycleFitments)
+      .where(and(
+        eq(motorcycleFitments.shop, shop),
+        or(isNotNull(motorcycleFitments.notes), isNotNull(motorcycleFitments.qualifiers))
+      ));
+    const detailsByRecid = new Map<number, MotorcycleFitmentDetails>();
+    for (const fitment of fitments) {
+      detailsByRecid.set(fitment.motorcycleRecid, {
+        ...detailsByRecid.get(fitment.motorcycleRecid),
+        ...toMotorcycleFitmentDetails([fitment]),
+      });
+    }
+    return detailsByRecid;
+  }
+
+  // Notes and qualifiers belong to an existing assignment; undefined when the category has none
+  async updateFitmentDetails(shop: string, recid: number, partCategory: string, details: FitmentDetails): Promise<MotorcycleFitment | undefined> {
+    const [fitment] = await db.update(motorcycleFitments)
+      .set({ ...normalizeFitmentDetails(details), updatedAt: new Date().toISOString() })
+      .where(and(
+        eq(motorcycleFitments.shop, shop),
+        eq(motorcycleFitments.motorcycleRecid, recid),
+        eq(motorcycleFitments.partCategory, partCategory)
+      ))
+      .returning();
+    return fitment;
   }
 
-  async createPartMapping(mapping: InsertPartMapping): Promise<PartMapping> {
-    const result = await db.insert(partMappings).values(mapping).returning();
+  // Cached product and variant carrying a SKU, so fitments can link to the Shopify product they name
+  private async findCachedVariantBySku(shop: string, sku: string): Promise<{ productId: string, variantId: string } | undefined> {
+    const result = await db.select({ productId: shopifyProductVariants.productId, variantId: shopifyProductVariants.id })
+      .from(shopifyProductVariants)
+      .innerJoin(shopifyProducts, eq(shopifyProducts.id, shopifyProductVariants.productId))
+      .where(and(eq(shopifyProducts.shop, shop), sql`lower(${shopifyProductVariants.sku}) = lower(${sku})`))
+      .limit(1);
     return result[0];
   }
 
-  async deletePartMapping(id: string): Promise<boolean> {
-    const result = await db.delete(partMappings).where(eq(partMappings.id, id));
-    return result.length > 0;
+  // Part Assignments - every change is written to the audit log in the same transaction
+  async assignMotorcyclePart(shop: string, recid: number, partCategory: string, productVariant: string | null, change: PartAssignmentChange): Promise<Motorcycle | undefined> {
+    const newValue = productVariant || null;
+    const cachedVariant = newValue ? await this.findCachedVariantBySku(shop, newValue) : undefined;
+
+    return await db.transaction(async (tx) => {
+      // Lock the motorcycle so concurrent assignments to it are applied (and audited) in order
+      const [motorcycle] = await tx.select(motorcycleColumns).from(motorcycles)
+        .where(and(eq(motorcycles.shop, shop), eq(motorcycles.recid, recid)))
+        .for('update');
+      if (!motorcycle) return undefined;
+
+      await this.writeFitment(tx, shop, recid, partCategory, newValue, cachedVariant, change);
+      return motorcycle;
+    });
   }
 
-  // Add parts count to all motorcycles efficiently (fetches Shopify products once)
-  async addPartsCountToMotorcycles(motorcycles: Motorcycle[]): Promise<Array<Motorcycle & { partsCount: number }>> {
-    try {
-      // Get the current Shopify session
-      const session = getCurrentSession();
-      if (!session) {
-        // No session, return motorcycles with 0 parts
-        return motorcycles.map(m => ({ ...m, partsCount: 0 }));
+  // Sets one category on many motorcycles in a single transaction; each changed bike gets its own audit entry
+  async bulkAssignMotorcyclePart(shop: string, recids: number[], partCategory: string, productVariant: string | null, change: PartAssignmentChange): Promise<{ changed: number, unchanged: number }> {
+    const newValue = productVariant || null;
+    const cachedVariant = newValue ? await this.findCachedVariantBySku(shop, newValue) : undefined;
+    if (recids.length === 0) return { changed: 0, unchanged: 0 };
+
+    return await db.transaction(async (tx) => {
+      const locked = await tx.select({ recid: motorcycles.recid }).from(motorcycles)
+        .where(and(eq(motorcycles.shop, shop), inArray(motorcycles.recid, recids)))
+        .orderBy(asc(motorcycles.recid))
+        .for('update');
+
+      let changed = 0;
+      for (const { recid } of locked) {
+        if (await this.writeFitment(tx, shop, recid, partCategory, newValue, cachedVariant, change)) changed++;
       }
-      
-      // Fetch Shopify products ONCE for all motorcycles
-      const allProductsResponse = await fetchShopifyProducts(session);
-      const allProducts = allProductsResponse.products || [];
-      
-      // Define all the motorcycle part fields that can contain SKU values
-      const partFieldsToCheck = [
-        'oe_handlebar', 'oe_fcw', 'oe_rcw', 'oe_barmount', 'oe_chain',
-        'front_brakepads', 'rear_brakepads',
-        'handlebars_78', 'twinwall', 'fatbar', 'fatbar36',
-        'grips', 'cam',
-        'barmount28', 'barmount36',
-        'fcwgroup', 'fcwconv', 'rcwconv', 'rcwgroup', 'rcwgroup_range', 'twinring',
-        'chainconv', 'r1_chain', 'r3_chain', 'r4_chain', 'rr4_chain',
-        'clipon', 'rcwcarrier', 'active_handlecompare', 'other_fcw'
-      ];
-      
-      // Count parts for each motorcycle using the shared product list
-      return motorcycles.map(motorcycle => {
-        // Extract all non-empty part values from this motorcycle (hardcoded columns)
-        const motorcyclePartValues: string[] = [];
-        for (const fieldName of partFieldsToCheck) {
-          const motorcycleValue = (motorcycle as any)[fieldName];
-          if (motorcycleValue && typeof motorcycleValue === 'string' && motorcycleValue.trim() !== '') {
-            motorcyclePartValues.push(motorcycleValue.trim());
-          }
-        }
-        
-        // Also extract values from customParts JSONB column
-        if (motorcycle.customParts) {
-          const customParts = motorcycle.customParts as Record<string, string | null>;
-          for (const categoryValue in customParts) {
-            const partValue = customParts[categoryValue];
-            if (partValue && typeof partValue === 'string' && partValue.trim() !== '') {
-              motorcyclePartValues.push(partValue.trim());
-            }
-          }
+      return { changed, unchanged: locked.length - changed };
+    });
+  }
+
+  // Copies the chosen categories of the source's fitments onto each target in one transaction, linked to the same products
+  async cloneMotorcycleFitments(shop: string, sourceRecid: number, targetRecids: number[], categories: string[], change: PartAssignmentChange): Promise<{ changed: number, unchanged: number } | undefined> {
+    return await db.transaction(async (tx) => {
+      const sourceFitments = await tx.select().from(motorcycleFitments)
+        .where(and(
+          eq(motorcycleFitments.shop, shop),
+          eq(motorcycleFitments.motorcycleRecid, sourceRecid),
+          inArray(motorcycleFitments.partCategory, categories)
+        ));
+      if (sourceFitments.length === 0) return undefined;
+
+      const locked = await tx.select({ recid: motorcycles.recid }).from(motorcycles)
+        .where(and(eq(motorcycles.shop, shop), inArray(motorcycles.recid, targetRecids)))
+        .orderBy(asc(motorcycles.recid))
+        .for('update');
+
+      let changed = 0;
+      let unchanged = 0;
+      for (const { recid } of locked) {
+        for (const fitment of sourceFitments) {
+          const cachedVariant = fitment.shopifyProductId && fitment.shopifyVariantId
+            ? { productId: fitment.shopifyProductId, variantId: fitment.shopifyVariantId }
+            : undefined;
+          if (await this.writeFitment(tx, shop, recid, fitment.partCategory, fitment.sku, cachedVariant, change)) changed++; else unchanged++;
         }
-        
-        // Collect prefix match values for FCW/RCW groups when OE is empty
-        const prefixMatchValues: string[] = [];
-        const fcwToothRange = parseToothRange(motorcycle.fcwgroup_range);
-        const rcwToothRange = parseToothRange(motorcycle.rcwgroup_range);
-        
-        if (motorcycle.fcwgroup && motorcycle.fcwgroup.trim() !== '' && 
-            (!motorcycle.oe_fcw || motorcycle.oe_fcw.trim() === '')) {
-          prefixMatchValues.push(motorcycle.fcwgroup.trim());
+      }
+      return { changed, unchanged };
+    });
+  }
+
+  // Upserts or deletes one fitment and audits it; the caller holds the motorcycle's row lock. Returns whether it changed.
+  private async writeFitment(
+    tx: Transaction,
+    shop: string,
+    recid: number,
+    partCategory: string,
+    newValue: string | null,
+    cachedVariant: { productId: string, variantId: string } | undefined,
+    change: PartAssignmentChange
+  ): Promise<boolean> {
+    const fitmentWhere = and(
+      eq(motorcycleFitments.shop, shop),
+      eq(motorcycleFitments.motorcycleRecid, recid),
+      eq(motorcycleFitments.partCategory, partCategory)
+    );
+    const [existing] = await tx.select().from(motorcycleFitments).where(fitmentWhere);
+    const previousValue = existing?.sku ?? null;
+
+    if (newValue) {
+      const fitment = {
+        sku: newValue,
+        shopifyProductId: cachedVariant?.productId ?? null,
+        shopifyVariantId: cachedVariant?.variantId ?? null,
+      };
+      await tx.insert(motorcycleFitments)
+        .values({ shop, motorcycleRecid: recid, partCategory, ...fitment })
+        .onConflictDoUpdate({
+          target: [motorcycleFitments.shop, motorcycleFitments.motorcycleRecid, motorcycleFitments.partCategory],
+          set: { ...fitment, updatedAt: sql`CURRENT_TIMESTAMP` }
+        });
+    } else if (existing) {
+      await tx.delete(motorcycleFitments).where(fitmentWhere);
+    }
+
+    if (previousValue === newValue) return false;
+
+    await tx.insert(partAssignmentAudit).values({
+      shop,
+      motorcycleRecid: recid,
+      partCategory,
+      previousValue,
+      newValue,
+      source: change.source,
+      changedBy: change.changedBy ?? null,
+      revertOfId: change.revertOfId ?? null,
+    });
+    return true;
+  }
+
+  /**
+   * Copies the legacy part columns and customParts into motorcycle_fitments. Runs at startup; each
+   * motorcycle's legacy values are cleared in the same transaction as its copy, so reruns are no-ops.
+   * A fitment that already exists for a category is newer than the legacy value and is kept.
+   */
+  async migrateLegacyPartAssignments(): Promise<{ motorcycles: number, fitments: number }> {
+    const migrated = { motorcycles: 0, fitments: 0 };
+
+    const locked = await this.withAdvisoryLock(FITMENT_BACKFILL_LOCK_ID, FITMENT_BACKFILL_LOCK_KEY, async () => {
+      const legacyRows = await db.select().from(motorcycles).where(or(
+        sql`${motorcycles.customParts} IS NOT NULL`,
+        ...LEGACY_PART_COLUMNS.map(column => sql`${allMotorcycleColumns[column]} IS NOT NULL`)
+      ));
+
+      const clearedLegacyFields = Object.fromEntries(
+        [...LEGACY_PART_COLUMNS, 'customParts'].map(field => [field, null])
+      ) as Partial<typeof motorcycles.$inferInsert>;
+
+      for (const row of legacyRows) {
+        // Fixed columns win over a customParts key of the same name
+        const legacyParts: MotorcycleParts = {};
+        for (const [partCategory, value] of Object.entries((row.customParts as Record<string, unknown>) || {})) {
+          if (typeof value === 'string' && value.trim() !== '') legacyParts[partCategory] = value.trim();
         }
-        if (motorcycle.rcwgroup && motorcycle.rcwgroup.trim() !== '' && 
-            (!motorcycle.oe_rcw || motorcycle.oe_rcw.trim() === '')) {
-          prefixMatchValues.push(motorcycle.rcwgroup.trim());
+        for (const column of LEGACY_PART_COLUMNS) {
+          const value = row[column];
+          if (value && value.trim() !== '') legacyParts[column] = value.trim();
         }
-        
-        // Count compatible products for this motorcycle
-        let count = 0;
-        for (const product of allProducts) {
-          let isCompatible = false;
-
-          // Check if the main product SKU matches any motorcycle part value
-          if (motorcyclePartValues.some(partValue => 
-            product.sku && product.sku.toLowerCase().trim() === partValue.toLowerCase().trim()
-          )) {
-            isCompatible = true;
+        const categories = Object.keys(legacyParts);
+
+        await db.transaction(async (tx) => {
+          if (categories.length > 0) {
+            await tx.insert(motorcycleFitments)
+              .values(categories.map(partCategory => ({
+                shop: row.shop,
+                motorcycleRecid: row.recid,
+                partCategory,
+                sku: legacyParts[partCategory],
+              })))
+              .onConflictDoNothing();
+
+            // Only clear the legacy values once every category is confirmed in the fitment table
+            const [{ copied }] = await tx.select({ copied: count() }).from(motorcycleFitments)
+              .where(and(
+                eq(motorcycleFitments.shop, row.shop),
+                eq(motorcycleFitments.motorcycleRecid, row.recid),
+                inArray(motorcycleFitments.partCategory, categories)
+              ));
+            if (copied !== categories.length) {
+              throw new Error(`Fitment backfill for ${row.shop} motorcycle ${row.recid} found ${copied} of ${categories.length} parts`);
+            }
           }
-          
-          // Check if product title matches any prefix value (for group products without OE)
-          if (!isCompatible && prefixMatchValues.some(prefix => 
-            product.title && product.title.toLowerCase().trim() === prefix.toLowerCase().trim()
-          )) {
-            isCompatible = true;
+
+          await tx.update(motorcycles)
+            .set(clearedLegacyFields)
+            .where(and(eq(motorcycles.shop, row.shop), eq(motorcycles.recid, row.recid)));
+        });
+
+        migrated.motorcycles++;
+        migrated.fitments += categories.length;
+      }
+
+      if (migrated.fitments > 0) {
+        await this.linkUnlinkedFitments();
+      }
+
+      return migrated;
+    });
+
+    // Another instance is already running the backfill
+    return locked.acquired ? locked.result : migrated;
+  }
+
+  // Link copied fitments to cached products where the SKU is known
+  private async linkUnlinkedFitments() {
+    await db.execute(sql`
+      UPDATE ${motorcycleFitments}
+      SET shopify_product_id = ${shopifyProductVariants.productId}, shopify_variant_id = ${shopifyProductVariants.id}
+      FROM ${shopifyProductVariants}
+      JOIN ${shopifyProducts} ON ${shopifyProducts.id} = ${shopifyProductVariants.productId}
+      WHERE ${shopifyProducts.shop} = ${motorcycleFitments.shop}
+        AND lower(${shopifyProductVariants.sku}) = lower(${motorcycleFitments.sku})
+        AND ${motorcycleFitments.shopifyVariantId} IS NULL
+    `);
+  }
+
+  // Category Promotions
+  async getCategoryPromotions(shop: string): Promise<CategoryPromotion[]> {
+    return await db.select().from(categoryPromotions)
+      .where(eq(categoryPromotions.shop, shop))
+      .orderBy(desc(categoryPromotions.createdAt));
+  }
+
+  /**
+   * Moves a category's values still held in its legacy column or customParts into fitments, verifies
+   * that every one of them arrived, and registers the category in part_category_tags so assignment,
+   * CSV import/export and the storefront pick it up. The run is recorded in category_promotions.
+   */
+  async promotePartCategory(shop: string, partCategory: string, promotedBy: string | null): Promise<{ success: boolean, message: string, promotion?: CategoryPromotion }> {
+    // Shares the backfill's lock - both rewrite the same legacy values
+    const locked = await this.withAdvisoryLock(FITMENT_BACKFILL_LOCK_ID, FITMENT_BACKFILL_LOCK_KEY, async () => {
+      const [promotion] = await db.insert(categoryPromotions)
+        .values({ shop, partCategory, status: 'running', promotedBy })
+        .returning();
+
+      try {
+        const result = await db.transaction(async (tx) => {
+          const isLegacyColumn = (LEGACY_PART_COLUMNS as readonly string[]).includes(partCategory);
+          const legacyValue = isLegacyColumn
+            ? sql<string>`${allMotorcycleColumns[partCategory as typeof LEGACY_PART_COLUMNS[number]]}`
+            : sql<string>`${motorcycles.customParts} ->> ${partCategory}`;
+          const hasLegacyValue = and(eq(motorcycles.shop, shop), sql`nullif(trim(${legacyValue}), '') IS NOT NULL`);
+
+          const legacyRows = await tx.select({ recid: motorcycles.recid, sku: legacyValue })
+            .from(motorcycles)
+            .where(hasLegacyValue)
+            .for('update');
+
+          // A fitment that already exists is newer than the legacy value and is kept
+          if (legacyRows.length > 0) {
+            await tx.insert(motorcycleFitments)
+              .values(legacyRows.map(row => ({ shop, motorcycleRecid: row.recid, partCategory, sku: row.sku.trim() })))
+              .onConflictDoNothing();
           }
 
-          // If not matched by main SKU, check variant SKUs
-          if (!isCompatible && product.variants) {
-            for (const variant of product.variants) {
-              // Exact SKU match
-              if (variant.sku && motorcyclePartValues.some(partValue => 
-                variant.sku.toLowerCase().trim() === partValue.toLowerCase().trim()
-              )) {
-                isCompatible = true;
-                break;
-              }
-              
-              // Prefix match for FCW/RCW groups (when OE is empty, show all variants)
-              if (!isCompatible && variant.sku && prefixMatchValues.some(prefix => 
-                variant.sku.toLowerCase().trim().startsWith(prefix.toLowerCase().trim())
-              )) {
-                isCompatible = true;
-                break;
-              }
-            }
+          const [{ missing }] = await tx.select({ missing: count() })
+            .from(motorcycles)
+            .leftJoin(motorcycleFitments, and(
+              eq(motorcycleFitments.shop, motorcycles.shop),
+              eq(motorcycleFitments.motorcycleRecid, motorcycles.recid),
+              eq(motorcycleFitments.partCategory, partCategory)
+            ))
+            .where(and(hasLegacyValue, isNull(motorcycleFitments.id)));
+          if (missing > 0) {
+            throw new Error(`${missing} motorcycles still hold ${partCategory} values that are not in the fitment table`);
           }
 
-          if (isCompatible) {
-            // Apply tooth count range filtering for accurate count
-            const matchedViaFCW = motorcycle.fcwgroup && 
-              (product.title?.toLowerCase().trim() === motorcycle.fcwgroup.toLowerCase().trim() ||
-               product.variants?.some((v: any) => v.sku?.toLowerCase().trim().startsWith(motorcycle.fcwgroup.toLowerCase().trim())));
-            
-            const matchedViaRCW = motorcycle.rcwgroup && 
-              (product.title?.toLowerCase().trim() === motorcycle.rcwgroup.toLowerCase().trim() ||
-               product.variants?.some((v: any) => v.sku?.toLowerCase().trim().startsWith(motorcycle.rcwgroup.toLowerCase().trim())));
-            
-            // Check if product would have variants after filtering
-            let hasValidVariants = true;
-            
-            if ((matchedViaFCW && fcwToothRange) || (matchedViaRCW && rcwToothRange)) {
-              if (product.variants && product.variants.length > 0) {
-                const validVariants = product.variants.filter((variant: any) => {
-                  const toothCount = extractToothCount(variant.sku) || extractToothCount(variant.title);
-                  if (toothCount === null) return true; // Keep if we can't extract tooth count
-                  
-                  if (matchedViaFCW && fcwToothRange) {
-                    return fcwToothRange.includes(toothCount);
-                  }
-                  if (matchedViaRCW && rcwToothRange) {
-                    return rcwToothRange.includes(toothCount);
-                  }
-                  return true;
-                });
-                hasValidVariants = validVariants.length > 0;
-              }
-            }
-            
-            if (hasValidVariants) {
-              count++;
-            }
+          if (legacyRows.length > 0) {
+            await tx.update(motorcycles)
+              .set(isLegacyColumn
+                ? { [partCategory]: null } as Partial<typeof motorcycles.$inferInsert>
+                : { customParts: sql`nullif(${motorcycles.customParts} - ${partCategory}, '{}'::jsonb)` })
+              .where(hasLegacyValue);
+          }
+
+          const [{ fitmentCount }] = await tx.select({ fitmentCount: count() })
+            .from(motorcycleFitments)
+            .where(and(eq(motorcycleFitments.shop, shop), eq(motorcycleFitments.partCategory, partCategory)));
+          if (fitmentCount === 0) {
+            throw new Error(`No motorcycles use ${partCategory}`);
           }
+
+          const [existingTag] = await tx.select().from(partCategoryTags)
+            .where(and(eq(partCategoryTags.shop, shop), eq(partCategoryTags.categoryValue, partCategory)));
+          if (!existingTag) {
+            const [{ maxSortOrder }] = await tx.select({ maxSortOrder: sql<number>`coalesce(max(${partCategoryTags.sortOrder}), 0)` })
+              .from(partCategoryTags)
+              .where(eq(partCategoryTags.shop, shop));
+            await tx.insert(partCategoryTags).values({
+              shop,
+              categoryValue: partCategory,
+              categoryLabel: defaultCategoryLabel(partCategory),
+              productTags: '[]',
+              sortOrder: Number(maxSortOrder) + 1,
+            });
+          }
+
+          const [updated] = await tx.update(categoryPromotions)
+            .set({ status: 'success', migratedCount: legacyRows.length, fitmentCount, registeredTag: !existingTag })
+            .where(eq(categoryPromotions.id, promotion.id))
+            .returning();
+          return updated;
+        });
+
+        if (result.migratedCount > 0) {
+          await this.linkUnlinkedFitments();
         }
-        
+
         return {
-          ...motorcycle,
-          partsCount: count
+          success: true,
+          message: `Promoted ${partCategory}: ${result.migratedCount} legacy values moved, ${result.fitmentCount} motorcycles assigned${result.registeredTag ? ', category registered' : ''}`,
+          promotion: result,
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const [failed] = await db.update(categoryPromotions)
+          .set({ status: 'error', errorMessage })
+          .where(eq(categoryPromotions.id, promotion.id))
+          .returning();
+        return { success: false, message: `Promotion of ${partCategory} failed: ${errorMessage}`, promotion: failed };
+      }
+    });
+
+    if (!locked.acquired) {
+      return { success: false, message: "Another category migration is already running. Please wait and try again." };
+    }
+    return locked.result;
+  }
+
+  /**
+   * Undoes a promotion's registry entry. The moved values stay in the fitment table - nothing reads
+   * the legacy columns any more, so putting them back would only hide the assignments.
+   */
+  async rollbackCategoryPromotion(shop: string, promotionId: string, rolledBackBy: string | null): Promise<{ success: boolean, message: string }> {
+    return await db.transaction(async (tx) => {
+      const [promotion] = await tx.select().from(categoryPromotions)
+        .where(and(eq(categoryPromotions.shop, shop), eq(categoryPromotions.id, promotionId)))
+        .for('update');
+      if (!promotion) {
+        return { success: false, message: "Promotion not found" };
+      }
+      if (promotion.rolledBackAt) {
+        return { success: false, message: `This promotion was already rolled back${promotion.rolledBackBy ? ` by ${promotion.rolledBackBy}` : ''}` };
+      }
+      if (promotion.status !== 'success') {
+        return { success: false, message: "Only successful promotions can be rolled back" };
+      }
+
+      if (promotion.registeredTag) {
+        await tx.delete(partCategoryTags)
+          .where(and(eq(partCategoryTags.shop, shop), eq(partCategoryTags.categoryValue, promotion.partCategory)));
+      }
+
+      await tx.update(categoryPromotions)
+        .set({ status: 'rolled_back', rolledBackAt: new Date().toISOString(), rolledBackBy })
+        .where(eq(categoryPromotions.id, promotionId));
+
+      return {
+        success: true,
+        message: promotion.registeredTag
+          ? `Removed ${promotion.partCategory} from the category registry; its ${promotion.fitmentCount} fitments were kept`
+          : `Nothing to undo for ${promotion.partCategory} - it was already registered before the promotion`,
+      };
+    });
+  }
+
+  // Fitment Rules
+  async getFitmentRules(shop: string): Promise<FitmentRule[]> {
+    return await db.select().from(fitmentRules)
+      .where(eq(fitmentRules.shop, shop))
+      .orderBy(desc(fitmentRules.priority), asc(fitmentRules.createdAt));
+  }
+
+  async getFitmentRule(shop: string, id: string): Promise<FitmentRule | undefined> {
+    const result = await db.select().from(fitmentRules)
+      .where(and(eq(fitmentRules.shop, shop), eq(fitmentRules.id, id)));
+    return result[0];
+  }
+
+  async createFitmentRule(shop: string, rule: InsertFitmentRule, createdBy: string | null): Promise<FitmentRule> {
+    const result = await db.insert(fitmentRules)
+      .values({ ...rule, shop, createdBy, updatedBy: createdBy })
+      .returning();
+    return result[0];
+  }
+
+  async updateFitmentRule(shop: string, id: string, updates: Partial<InsertFitmentRule>, updatedBy: string | null): Promise<FitmentRule | undefined> {
+    const result = await db.update(fitmentRules)
+      .set({ ...updates, updatedBy, updatedAt: new Date().toISOString() })
+      .where(and(eq(fitmentRules.shop, shop), eq(fitmentRules.id, id)))
+      .returning();
+    return result[0];
+  }
+
+  async deleteFitmentRule(shop: string, id: string): Promise<boolean> {
+    const result = await db.delete(fitmentRules)
+      .where(and(eq(fitmentRules.shop, shop), eq(fitmentRules.id, id)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Bike-level conditions go to SQL; part conditions are checked against each candidate's explicit assignments
+  async getFitmentRuleMatches(shop: string, conditions: FitmentRuleConditions): Promise<Motorcycle[]> {
+    const candidates = await this.filterMotorcyclesForBulkAssignment(shop, conditions);
+    if (!conditions.partValues || Object.keys(conditions.partValues).length === 0) {
+      return candidates;
+    }
+
+    const partsByRecid = await this.getMotorcyclePartsByRecid(shop);
+    return candidates.filter(motorcycle =>
+      motorcycleMatchesRule({ conditions }, motorcycle, partsByRecid.get(motorcycle.recid) || {})
+    );
+  }
+
+  async getEffectiveMotorcycleParts(shop: string, recid: number): Promise<EffectiveMotorcycleParts> {
+    const [motorcycle, parts, rules] = await Promise.all([
+      this.getMotorcycle(shop, recid),
+      this.getMotorcycleParts(shop, recid),
+      this.getFitmentRules(shop),
+    ]);
+    if (!motorcycle) return { parts, ruleFitments: [] };
+    return applyFitmentRules(rules, motorcycle, parts);
+  }
+
+  // SKU Supersessions
+  async getSkuSupersessions(shop: string): Promise<SkuSupersession[]> {
+    return await db.select().from(skuSupersessions)
+      .where(eq(skuSupersessions.shop, shop))
+      .orderBy(asc(skuSupersessions.oldSku));
+  }
+
+  async createSkuSupersession(shop: string, supersession: InsertSkuSupersession, createdBy: string | null): Promise<SkuSupersession> {
+    const result = await db.insert(skuSupersessions)
+      .values({ ...supersession, shop, createdBy, updatedBy: createdBy })
+      .returning();
+    return result[0];
+  }
+
+  async updateSkuSupersession(shop: string, id: string, updates: Partial<InsertSkuSupersession>, updatedBy: string | null): Promise<SkuSupersession | undefined> {
+    const result = await db.update(skuSupersessions)
+      .set({ ...updates, updatedBy, updatedAt: new Date().toISOString() })
+      .where(and(eq(skuSupersessions.shop, shop), eq(skuSupersessions.id, id)))
+      .returning();
+    return result[0];
+  }
+
+  async deleteSkuSupersession(shop: string, id: string): Promise<boolean> {
+    const result = await db.delete(skuSupersessions)
+      .where(and(eq(skuSupersessions.shop, shop), eq(skuSupersessions.id, id)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getSupersededFitments(shop: string): Promise<SupersededFitment[]> {
+    const [supersessions, fitments, motorcycleRows] = await Promise.all([
+      this.getSkuSupersessions(shop),
+      db.select().from(motorcycleFitments).where(eq(motorcycleFitments.shop, shop)),
+      this.getMotorcycles(shop),
+    ]);
+    return findSupersededFitments(fitments, motorcycleRows, createSkuResolver(supersessions));
+  }
+
+  // Rewrites superseded fitments (all, or the given fitment IDs) to their successor SKU in one transaction, audited per bike.
+  // A fitment edited after it was listed keeps its new value.
+  async rewriteSupersededFitments(shop: string, fitmentIds: string[] | undefined, change: PartAssignmentChange): Promise<{ changed: number, unchanged: number }> {
+    const superseded = (await this.getSupersededFitments(shop))
+      .filter(fitment => !fitmentIds || fitmentIds.includes(fitment.fitmentId));
+    if (superseded.length === 0) return { changed: 0, unchanged: 0 };
+
+    const cachedVariants = new Map<string, { productId: string, variantId: string } | undefined>();
+    for (const sku of Array.from(new Set(superseded.map(fitment => fitment.resolvedSku)))) {
+      cachedVariants.set(sku, await this.findCachedVariantBySku(shop, sku));
+    }
+
+    return await db.transaction(async (tx) => {
+      const recids = Array.from(new Set(superseded.map(fitment => fitment.motorcycle.recid)));
+      await tx.select({ recid: motorcycles.recid }).from(motorcycles)
+        .where(and(eq(motorcycles.shop, shop), inArray(motorcycles.recid, recids)))
+        .orderBy(asc(motorcycles.recid))
+        .for('update');
+
+      let changed = 0;
+      let unchanged = 0;
+      for (const fitment of superseded) {
+        const [current] = await tx.select({ sku: motorcycleFitments.sku }).from(motorcycleFitments)
+          .where(and(eq(motorcycleFitments.shop, shop), eq(motorcycleFitments.id, fitment.fitmentId)));
+        if (current?.sku !== fitment.sku) {
+          unchanged++;
+          continue;
+        }
+        const cachedVariant = cachedVariants.get(fitment.resolvedSku);
+        if (await this.writeFitment(tx, shop, fitment.motorcycle.recid, fitment.partCategory, fitment.resolvedSku, cachedVariant, change)) changed++; else unchanged++;
+      }
+      return { changed, unchanged };
+    });
+  }
+
+  async getDiscontinuedSkuReport(shop: string): Promise<DiscontinuedSkuReportEntry[]> {
+    const [supersessions, fitments, motorcycleRows] = await Promise.all([
+      this.getSkuSupersessions(shop),
+      db.select().from(motorcycleFitments).where(eq(motorcycleFitments.shop, shop)),
+      this.getMotorcycles(shop),
+    ]);
+    return buildDiscontinuedSkuReport(fitments, motorcycleRows, createSkuResolver(supersessions), supersessions);
+  }
+
+  // Motorcycle Aliases
+  async getMotorcycleAliases(shop: string): Promise<MotorcycleAlias[]> {
+    return await db.select().from(motorcycleAliases)
+      .where(eq(motorcycleAliases.shop, shop))
+      .orderBy(asc(motorcycleAliases.kind), asc(motorcycleAliases.canonical), asc(motorcycleAliases.alias));
+  }
+
+  async createMotorcycleAlias(shop: string, alias: InsertMotorcycleAlias, createdBy: string | null): Promise<MotorcycleAlias> {
+    const result = await db.insert(motorcycleAliases)
+      .values({ ...alias, shop, aliasKey: motorcycleNameKey(alias.alias), createdBy })
+      .returning();
+    return result[0];
+  }
+
+  async updateMotorcycleAlias(shop: string, id: string, alias: InsertMotorcycleAlias): Promise<MotorcycleAlias | undefined> {
+    const result = await db.update(motorcycleAliases)
+      .set({ ...alias, aliasKey: motorcycleNameKey(alias.alias) })
+      .where(and(eq(motorcycleAliases.shop, shop), eq(motorcycleAliases.id, id)))
+      .returning();
+    return result[0];
+  }
+
+  async deleteMotorcycleAlias(shop: string, id: string): Promise<boolean> {
+    const result = await db.delete(motorcycleAliases)
+      .where(and(eq(motorcycleAliases.shop, shop), eq(motorcycleAliases.id, id)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getMotorcycleNameDuplicates(shop: string): Promise<MotorcycleNameDuplicate[]> {
+    const [motorcycleRows, aliases] = await Promise.all([this.getMotorcycles(shop), this.getMotorcycleAliases(shop)]);
+    return findMotorcycleNameDuplicates(motorcycleRows, aliases);
+  }
+
+  async seedMotorcycleAliases(shop: string, createdBy: string | null): Promise<MotorcycleAlias[]> {
+    const seeds = seedAliasesFromDuplicates(await this.getMotorcycleNameDuplicates(shop));
+    if (seeds.length === 0) return [];
+    return await db.insert(motorcycleAliases)
+      .values(seeds.map(alias => ({ ...alias, shop, aliasKey: motorcycleNameKey(alias.alias), createdBy })))
+      .returning();
+  }
+
+  async getPartAssignmentHistory(shop: string, recid: number, limit: number = 100): Promise<PartAssignmentAudit[]> {
+    return await db.select().from(partAssignmentAudit)
+      .where(and(eq(partAssignmentAudit.shop, shop), eq(partAssignmentAudit.motorcycleRecid, recid)))
+      .orderBy(desc(partAssignmentAudit.createdAt))
+      .limit(limit);
+  }
+
+  async getPartAssignmentAuditEntry(shop: string, id: string): Promise<PartAssignmentAudit | undefined> {
+    const result = await db.select().from(partAssignmentAudit)
+      .where(and(eq(partAssignmentAudit.shop, shop), eq(partAssignmentAudit.id, id)));
+    return result[0];
+  }
+
+  // Put back the value an audit entry replaced. The revert is itself audited, so it can be reverted too.
+  async revertPartAssignment(shop: string, auditId: string, changedBy: string | null): Promise<{ success: boolean, message: string }> {
+    const entry = await this.getPartAssignmentAuditEntry(shop, auditId);
+    if (!entry) {
+      return { success: false, message: "History entry not found" };
+    }
+
+    const change: PartAssignmentChange = { source: 'revert', changedBy, revertOfId: entry.id };
+
+    if (entry.partMappingId) {
+      if (!entry.previousValue) {
+        return { success: false, message: "This change has no previous product to restore" };
+      }
+
+      const restored = await db.transaction(async (tx) => {
+        const result = await tx.update(partMappings)
+          .set({ ...parsePartMappingAuditValue(entry.previousValue!), lastSynced: new Date().toISOString() })
+          .where(and(eq(partMappings.shop, shop), eq(partMappings.id, entry.partMappingId!)))
+          .returning();
+        if (result.length === 0) return false;
+
+        await tx.insert(partAssignmentAudit).values({
+          shop,
+          motorcycleRecid: entry.motorcycleRecid,
+          partCategory: entry.partCategory,
+          partMappingId: entry.partMappingId,
+          previousValue: entry.newValue,
+          newValue: entry.previousValue,
+          source: change.source,
+          changedBy: change.changedBy ?? null,
+          revertOfId: change.revertOfId ?? null,
+        });
+        return true;
+      });
+
+      return restored
+        ? { success: true, message: `Restored product ${entry.previousValue} on the part mapping` }
+        : { success: false, message: "Part mapping no longer exists" };
+    }
+
+    const motorcycle = await this.assignMotorcyclePart(shop, entry.motorcycleRecid, entry.partCategory, entry.previousValue, change);
+    if (!motorcycle) {
+      return { success: false, message: "Motorcycle no longer exists" };
+    }
+
+    return {
+      success: true,
+      message: entry.previousValue
+        ? `Restored ${entry.partCategory} to ${entry.previousValue}`
+        : `Cleared ${entry.partCategory}`
+    };
+  }
+
+  // Part Mappings
+  async getPartMappings(shop: string): Promise<PartMapping[]> {
+    return await db.select().from(partMappings).where(eq(partMappings.shop, shop));
+  }
+
+  async getPartMappingsByMotorcycle(shop: string, motorcycleRecid: number): Promise<PartMapping[]> {
+    return await db.select().from(partMappings)
+      .where(and(eq(partMappings.shop, shop), eq(partMappings.motorcycleRecid, motorcycleRecid)));
+  }
+
+  async getPartMappingsByProduct(shop: string, productId: string): Promise<PartMapping[]> {
+    return await db.select().from(partMappings)
+      .where(and(eq(partMappings.shop, shop), eq(partMappings.shopifyProductId, productId)));
+  }
+
+  async createPartMapping(shop: string, mapping: InsertPartMapping): Promise<PartMapping> {
+    const result = await db.insert(partMappings).values({ ...mapping, shop }).returning();
+    return result[0];
+  }
+
+  async deletePartMapping(shop: string, id: string): Promise<boolean> {
+    const result = await db.delete(partMappings)
+      .where(and(eq(partMappings.shop, shop), eq(partMappings.id, id)))
+      .returning();
+    return result.length > 0;
+  }
+
+  /**
+   * Reverse fitment lookup. A SKU also finds the part mappings of the cached products carrying it, and
+   * fitments naming SKUs it supersedes or is superseded by; a product ID also finds fitments naming any
+   * of its variant SKUs. SKUs compare case-insensitively.
+   */
+  async getReverseFitments(shop: string, query: { sku?: string, productId?: string }): Promise<ReverseFitmentLookup> {
+    const cachedVariants = await db.select({ productId: shopifyProductVariants.productId, sku: shopifyProductVariants.sku })
+      .from(shopifyProductVariants)
+      .innerJoin(shopifyProducts, eq(shopifyProducts.id, shopifyProductVariants.productId))
+      .where(and(
+        eq(shopifyProducts.shop, shop),
+        query.productId
+          ? eq(shopifyProductVariants.productId, query.productId)
+          : sql`lower(${shopifyProductVariants.sku}) = lower(${query.sku ?? ''})`
+      ));
+
+    // A SKU also finds the fitments still naming the SKUs it superseded, or its successor
+    const skuResolver = createSkuResolver(await this.getSkuSupersessions(shop));
+    const skus = query.productId
+      ? Array.from(new Set(cachedVariants.map(variant => variant.sku).filter((sku): sku is string => !!sku)))
+      : Array.from(new Set([query.sku!, skuResolver.resolve(query.sku!).sku, ...skuResolver.predecessors(query.sku!)]
+          .filter((sku): sku is string => !!sku)));
+    const productIds = query.productId
+      ? [query.productId]
+      : Array.from(new Set(cachedVariants.map(variant => variant.productId)));
+    const lowerSkus = skus.map(sku => sku.toLowerCase());
+
+    const fitmentRows = await db.select({ fitment: motorcycleFitments, motorcycle: motorcycleColumns })
+      .from(motorcycleFitments)
+      .innerJoin(motorcycles, and(
+        eq(motorcycles.shop, motorcycleFitments.shop),
+        eq(motorcycles.recid, motorcycleFitments.motorcycleRecid)
+      ))
+      .where(and(
+        eq(motorcycleFitments.shop, shop),
+        or(
+          lowerSkus.length > 0 ? inArray(sql`lower(${motorcycleFitments.sku})`, lowerSkus) : undefined,
+          productIds.length > 0 ? inArray(motorcycleFitments.shopifyProductId, productIds) : undefined
+        ) ?? sql`false`
+      ));
+
+    const mappingRows = await db.select({ mapping: partMappings, motorcycle: motorcycleColumns })
+      .from(partMappings)
+      .innerJoin(motorcycles, and(
+        eq(motorcycles.shop, partMappings.shop),
+        eq(motorcycles.recid, partMappings.motorcycleRecid)
+      ))
+      .where(and(
+        eq(partMappings.shop, shop),
+        or(
+          productIds.length > 0 ? inArray(partMappings.shopifyProductId, productIds) : undefined,
+          lowerSkus.length > 0 ? inArray(sql`lower(${partMappings.expectedSku})`, lowerSkus) : undefined,
+          lowerSkus.length > 0 ? inArray(sql`lower(${partMappings.variantSku})`, lowerSkus) : undefined
+        ) ?? sql`false`
+      ));
+
+    const matches: ReverseFitmentMatch[] = [
+      ...fitmentRows.map(({ fitment, motorcycle }) => ({
+        motorcycle,
+        partCategory: fitment.partCategory,
+        sku: fitment.sku,
+        fitmentId: fitment.id,
+        partMappingId: null,
+      })),
+      ...mappingRows.map(({ mapping, motorcycle }) => ({
+        motorcycle,
+        partCategory: PART_MAPPING_AUDIT_CATEGORY,
+        sku: mapping.variantSku ?? mapping.expectedSku,
+        fitmentId: null,
+        partMappingId: mapping.id,
+      })),
+    ];
+    matches.sort((a, b) =>
+      a.partCategory.localeCompare(b.partCategory) ||
+      a.motorcycle.bikemake.localeCompare(b.motorcycle.bikemake) ||
+      a.motorcycle.bikemodel.localeCompare(b.motorcycle.bikemodel) ||
+      a.motorcycle.firstyear - b.motorcycle.firstyear
+    );
+
+    return { skus, productIds, matches };
+  }
+
+  // Add assigned parts and the compatible parts count to a page of motorcycles. Counts what getCompatibleParts returns
+  // for each bike - fitment rules and supersessions included - but only loads the products the page's values can match.
+  async addPartsCountToMotorcycles(shop: string, motorcycles: Motorcycle[]): Promise<Array<Motorcycle & { parts: MotorcycleParts, partsCount: number }>> {
+    if (motorcycles.length === 0) return [];
+
+    try {
+      const recids = motorcycles.map(motorcycle => motorcycle.recid);
+      const [fitments, rules, supersessions, mappings] = await Promise.all([
+        db.select().from(motorcycleFitments)
+          .where(and(eq(motorcycleFitments.shop, shop), inArray(motorcycleFitments.motorcycleRecid, recids))),
+        this.getFitmentRules(shop),
+        this.getSkuSupersessions(shop),
+        db.select().from(partMappings)
+          .where(and(
+            eq(partMappings.shop, shop),
+            inArray(partMappings.motorcycleRecid, recids),
+            eq(partMappings.compatible, true),
+            isNotNull(partMappings.shopifyVariantId)
+          )),
+      ]);
+      const skuResolver = createSkuResolver(supersessions);
+
+      const mappedVariantIdsByRecid = new Map<number, Map<string, string>>();
+      for (const mapping of mappings) {
+        const mapped = mappedVariantIdsByRecid.get(mapping.motorcycleRecid) || new Map<string, string>();
+        mapped.set(mapping.shopifyProductId, mapping.shopifyVariantId!);
+        mappedVariantIdsByRecid.set(mapping.motorcycleRecid, mapped);
+      }
+
+      const page = motorcycles.map(motorcycle => {
+        const explicitParts = toMotorcycleParts(fitments.filter(fitment => fitment.motorcycleRecid === motorcycle.recid));
+        return {
+          motorcycle,
+          explicitParts,
+          resolvedParts: resolveMotorcycleParts(applyFitmentRules(rules, motorcycle, explicitParts).parts, skuResolver),
+          mappedVariantIds: mappedVariantIdsByRecid.get(motorcycle.recid) || new Map<string, string>(),
         };
       });
+
+      // Every product any bike on the page could match: a variant SKU equal to or starting with one of its values, a
+      // title equal to a sprocket group, or a mapped variant. matchCompatibleProducts then applies the exact rules.
+      const values = new Set<string>();
+      const groups = new Set<string>();
+      const mappedProductIds = new Set<string>();
+      for (const { resolvedParts, mappedVariantIds } of page) {
+        for (const [partCategory, sku] of Object.entries(resolvedParts)) {
+          if (TOOTH_RANGE_CATEGORIES.includes(partCategory) || sku.trim() === '') continue;
+          values.add(sku.toLowerCase().trim());
+          if (partCategory === 'fcwgroup' || partCategory === 'rcwgroup') groups.add(sku.toLowerCase().trim());
+        }
+        mappedVariantIds.forEach((_variantId, productId) => mappedProductIds.add(productId));
+      }
+
+      const products = await this.getCachedProductCandidates(shop, Array.from(values), Array.from(groups), Array.from(mappedProductIds));
+
+      return page.map(({ motorcycle, explicitParts, resolvedParts, mappedVariantIds }) => ({
+        ...motorcycle,
+        parts: explicitParts,
+        partsCount: this.matchCompatibleProducts(products, resolvedParts, {
+          motorcycleRecid: motorcycle.recid,
+          mappedVariantIds,
+          skuResolver,
+          log: () => {},
+        }).compatibleProducts.length,
+      }));
     } catch (error) {
       console.error('Failed to add parts count to motorcycles:', error);
       // Return motorcycles with 0 parts on error
-      return motorcycles.map(m => ({ ...m, partsCount: 0 }));
+      return motorcycles.map(m => ({ ...m, parts: {}, partsCount: 0 }));
     }
   }
 
-  // Compatible Parts - Uses motorcycle database fields for SKU matching (ignores admin part mappings)
-  async getCompatibleParts(motorcycleRecid: number): Promise<ShopifyProductWithCategory[]> {
-    try {
-      // Get the motorcycle details for SKU-based matching
-      const motorcycle = await this.getMotorcycle(motorcycleRecid);
-      if (!motorcycle) {
-        return [];
-      }
+  // Cached products (in Shopify REST shape) with a variant SKU in skus or starting with one of groups, a title equal
+  // to one of groups, or one of productIds. SKUs and groups are lower-cased and trimmed.
+  private async getCachedProductCandidates(shop: string, skus: string[], groups: string[], productIds: string[]): Promise<any[]> {
+    if (skus.length === 0 && groups.length === 0 && productIds.length === 0) return [];
+    await this.ensureProductCacheSynced(shop);
 
-      // Get the current Shopify session
-      const session = getCurrentSession();
-      if (!session) {
-        console.warn('No Shopify session available - falling back to empty results');
-        return [];
+    const variantSku = sql`lower(trim(${shopifyProductVariants.sku}))`;
+    const variantMatches = [
+      ...(skus.length > 0 ? [inArray(variantSku, skus)] : []),
+      ...groups.map(group => sql`${variantSku} LIKE ${group.replace(/[\\%_]/g, '\\$&') + '%'}`),
+    ];
+    const productRows = await db.select().from(shopifyProducts)
+      .where(and(
+        eq(shopifyProducts.shop, shop),
+        or(
+          ...(groups.length > 0 ? [inArray(sql`lower(trim(${shopifyProducts.title}))`, groups)] : []),
+          ...(productIds.length > 0 ? [inArray(shopifyProducts.id, productIds)] : []),
+          ...(variantMatches.length > 0 ? [inArray(shopifyProducts.id,
+            db.select({ productId: shopifyProductVariants.productId }).from(shopifyProductVariants).where(or(...variantMatches))
+          )] : []),
+        )
+      ))
+      .orderBy(asc(shopifyProducts.title));
+    if (productRows.length === 0) return [];
+
+    const variantRows = await db.select().from(shopifyProductVariants)
+      .where(inArray(shopifyProductVariants.productId, productRows.map(product => product.id)))
+      .orderBy(asc(shopifyProductVariants.position));
+    return this.assembleCachedProducts(productRows, variantRows);
+  }
+
+  /**
+   * The products compatible with a bike's resolved parts, or with a variant mapped to it, less the variants its tooth
+   * ranges and discontinued SKUs remove. Shared by getCompatibleParts and the listing's parts counts so both agree.
+   */
+  private matchCompatibleProducts(products: any[], parts: MotorcycleParts, match: {
+    motorcycleRecid: number;
+    mappedVariantIds: Map<string, string>;
+    skuResolver: SkuResolver;
+    explanation?: CompatiblePartsExplanation;
+    log?: (...args: unknown[]) => void;
+  }) {
+    const { motorcycleRecid, mappedVariantIds, skuResolver, explanation, log = console.log } = match;
+
+    // Collect ALL motorcycle part values for SKU matching (not just OE fields)
+    const motorcyclePartValues: string[] = [];
+    
+    // Collect prefix match values for FCW/RCW groups when OE is empty
+    const prefixMatchValues: string[] = [];
+    
+    // Parse tooth count ranges for FCW/RCW filtering
+    const fcwToothRange = parseToothRange(parts.fcwgroup_range);
+    const rcwToothRange = parseToothRange(parts.rcwgroup_range);
+    
+    // Check if fcwgroup is populated but oe_fcw is empty → add for prefix matching
+    if (parts.fcwgroup && parts.fcwgroup.trim() !== '' && 
+        (!parts.oe_fcw || parts.oe_fcw.trim() === '')) {
+      prefixMatchValues.push(parts.fcwgroup.trim());
+      log(`🔧 FCW Group "${parts.fcwgroup}" with no OE Front Sprocket → will match all variants with prefix`);
+      if (fcwToothRange) {
+        log(`   📏 FCW Range filter: ${parts.fcwgroup_range} → [${fcwToothRange.join(', ')}] teeth`);
       }
-      
-      // Fetch part category tags to determine admin categories
-      const categoryTags = await db.select().from(partCategoryTags);
-      
-      console.log(`🔍 Using motorcycle database fields for compatibility matching (motorcycle ${motorcycleRecid})`);
-      
-      // Get all products for SKU matching
-      const allProductsResponse = await fetchShopifyProducts(session);
-      const allProducts = allProductsResponse.products || [];
-      
-      // Collect ALL motorcycle part values for SKU matching (not just OE fields)
-      const motorcyclePartValues = [];
-      
-      // Collect prefix match values for FCW/RCW groups when OE is empty
-      const prefixMatchValues: string[] = [];
-      
-      // Parse tooth count ranges for FCW/RCW filtering
-      const fcwToothRange = parseToothRange(motorcycle.fcwgroup_range);
-      const rcwToothRange = parseToothRange(motorcycle.rcwgroup_range);
-      
-      // Check if fcwgroup is populated but oe_fcw is empty → add for prefix matching
-      if (motorcycle.fcwgroup && motorcycle.fcwgroup.trim() !== '' && 
-          (!motorcycle.oe_fcw || motorcycle.oe_fcw.trim() === '')) {
-        prefixMatchValues.push(motorcycle.fcwgroup.trim());
-        console.log(`🔧 FCW Group "${motorcycle.fcwgroup}" with no OE Front Sprocket → will match all variants with prefix`);
-        if (fcwToothRange) {
-          console.log(`   📏 FCW Range filter: ${motorcycle.fcwgroup_range} → [${fcwToothRange.join(', ')}] teeth`);
-        }
+    }
+    
+    // Check if rcwgroup is populated but oe_rcw is empty → add for prefix matching
+    if (parts.rcwgroup && parts.rcwgroup.trim() !== '' && 
+        (!parts.oe_rcw || parts.oe_rcw.trim() === '')) {
+      prefixMatchValues.push(parts.rcwgroup.trim());
+      log(`🔧 RCW Group "${parts.rcwgroup}" with no OE Rear Sprocket → will match all variants with prefix`);
+      if (rcwToothRange) {
+        log(`   📏 RCW Range filter: ${parts.rcwgroup_range} → [${rcwToothRange.join(', ')}] teeth`);
       }
-      
-      // Check if rcwgroup is populated but oe_rcw is empty → add for prefix matching
-      if (motorcycle.rcwgroup && motorcycle.rcwgroup.trim() !== '' && 
-          (!motorcycle.oe_rcw || motorcycle.oe_rcw.trim() === '')) {
-        prefixMatchValues.push(motorcycle.rcwgroup.trim());
-        console.log(`🔧 RCW Group "${motorcycle.rcwgroup}" with no OE Rear Sprocket → will match all variants with prefix`);
-        if (rcwToothRange) {
-          console.log(`   📏 RCW Range filter: ${motorcycle.rcwgroup_range} → [${rcwToothRange.join(', ')}] teeth`);
-        }
+    }
+    
+    // Every assigned SKU except the tooth ranges, which only narrow the sprocket groups
+    for (const [partCategory, sku] of Object.entries(parts)) {
+      if (!TOOTH_RANGE_CATEGORIES.includes(partCategory) && sku.trim() !== '') {
+        motorcyclePartValues.push(sku.trim());
       }
-      
-      // Define all the motorcycle part fields that can contain SKU values
-      const partFieldsToCheck = [
-        // Original Equipment fields
-        'oe_handlebar', 'oe_fcw', 'oe_rcw', 'oe_barmount', 'oe_chain',
-        // Brake pad fields
-        'front_brakepads', 'rear_brakepads',
-        // Handlebar fields
-        'handlebars_78', 'twinwall', 'fatbar', 'fatbar36',
-        // Other part fields
-        'grips', 'cam',
-        // Bar mount fields
-        'barmount28', 'barmount36',
-        // Sprocket/chainwheel fields
-        'fcwgroup', 'fcwconv', 'rcwconv', 'rcwgroup', 'rcwgroup_range', 'twinring',
-        // Chain fields
-        'chainconv', 'r1_chain', 'r3_chain', 'r4_chain', 'rr4_chain',
-        // Other specialized fields
-        'clipon', 'rcwcarrier', 'active_handlecompare', 'other_fcw'
-      ];
-      
-      // Extract all non-empty part values from motorcycle database (hardcoded columns)
-      for (const fieldName of partFieldsToCheck) {
-        const motorcycleValue = (motorcycle as any)[fieldName];
-        if (motorcycleValue && typeof motorcycleValue === 'string' && motorcycleValue.trim() !== '') {
-          motorcyclePartValues.push(motorcycleValue.trim());
-        }
+    }
+    
+    log(`🔍 Motorcycle ${motorcycleRecid} part values for SKU matching:`, motorcyclePartValues);
+    log(`🔍 Motorcycle ${motorcycleRecid} prefix match values:`, prefixMatchValues);
+    log(`📋 Motorcycle ${motorcycleRecid} fitments:`, JSON.stringify(parts, null, 2));
+
+    if (explanation) {
+      explanation.skuValues = motorcyclePartValues;
+      explanation.prefixValues = prefixMatchValues;
+      explanation.toothRanges = { fcwgroup_range: fcwToothRange, rcwgroup_range: rcwToothRange };
+    }
+    const productExplanations: Map<any, CompatiblePartExplanation> = new Map();
+
+    // Category whose value triggered a match, and the rule that supplied it if any
+    const matchSource = (value: string, categories?: string[]) => {
+      const partCategory = Object.keys(parts).find(category =>
+        (!categories || categories.includes(category)) && !TOOTH_RANGE_CATEGORIES.includes(category) &&
+        parts[category].toLowerCase().trim() === value.toLowerCase().trim()
+      ) || null;
+      const ruleFitment = explanation?.ruleFitments.find(fitment => fitment.partCategory === partCategory && !fitment.overridden);
+      return { partCategory, fromRule: ruleFitment?.ruleName || null };
+    };
+    
+    let compatibleProducts: any[] = [];
+    
+    // Find products that match motorcycle part values by SKU
+    // Also track which specific variant matched for each product
+    const productMatchInfo: Map<any, string | null> = new Map();
+    // And which category's value matched it, for that assignment's notes and qualifiers
+    const productMatchCategories: Map<any, string | null> = new Map();
+    
+    for (const product of products) {
+      let isCompatible = false;
+      let matchedVariantId: string | null = null;
+      let matchRule: CompatiblePartMatchRule | null = null;
+      let matchedValue = '';
+      let matchedSku: string | null = null;
+
+      // Check if the main product SKU matches any motorcycle part value
+      if (motorcyclePartValues.some(partValue => 
+        product.sku && product.sku.toLowerCase().trim() === partValue.toLowerCase().trim()
+      )) {
+        isCompatible = true;
+        // If main product SKU matches, use first variant ID
+        matchedVariantId = product.variants?.[0]?.id?.toString() || null;
+        matchRule = 'product_sku';
+        matchedValue = matchedSku = product.sku;
       }
       
-      // Also extract values from customParts JSONB column
-      if (motorcycle.customParts) {
-        const customParts = motorcycle.customParts as Record<string, string | null>;
-        for (const categoryValue in customParts) {
-          const partValue = customParts[categoryValue];
-          if (partValue && typeof partValue === 'string' && partValue.trim() !== '') {
-            motorcyclePartValues.push(partValue.trim());
+      // Check if product title matches any prefix value (for group products without OE)
+      if (!isCompatible && prefixMatchValues.some(prefix => 
+        product.title && product.title.toLowerCase().trim() === prefix.toLowerCase().trim()
+      )) {
+        isCompatible = true;
+        matchedVariantId = null; // All variants match
+        matchRule = 'group_title';
+        matchedValue = product.title;
+        log(`✅ Product title match: "${product.title}" matches FCW/RCW group → returning all variants`);
+      }
+
+      // If not matched by main SKU, check variant SKUs
+      if (!isCompatible && product.variants) {
+        for (const variant of product.variants) {
+          // Exact SKU match
+          if (variant.sku && motorcyclePartValues.some(partValue => 
+            variant.sku.toLowerCase().trim() === partValue.toLowerCase().trim()
+          )) {
+            isCompatible = true;
+            matchedVariantId = variant.id?.toString() || null;
+            matchRule = 'variant_sku';
+            matchedValue = matchedSku = variant.sku;
+            break;
+          }
+          
+          // Prefix match for FCW/RCW groups (when OE is empty, show all variants)
+          if (!isCompatible && variant.sku && prefixMatchValues.some(prefix => 
+            variant.sku.toLowerCase().trim().startsWith(prefix.toLowerCase().trim())
+          )) {
+            isCompatible = true;
+            matchedVariantId = variant.id?.toString() || null;
+            matchRule = 'group_prefix';
+            matchedValue = prefixMatchValues.find(p => variant.sku.toLowerCase().trim().startsWith(p.toLowerCase().trim()))!;
+            matchedSku = variant.sku;
+            log(`✅ Prefix match: variant SKU "${variant.sku}" matches prefix "${prefixMatchValues.find(p => variant.sku.toLowerCase().trim().startsWith(p.toLowerCase().trim()))}"`);
+            break;
           }
         }
       }
-      
-      console.log(`🔍 Motorcycle ${motorcycleRecid} part values for SKU matching:`, motorcyclePartValues);
-      console.log(`🔍 Motorcycle ${motorcycleRecid} prefix match values:`, prefixMatchValues);
-      console.log(`📋 Motorcycle ${motorcycleRecid} record:`, JSON.stringify(motorcycle, null, 2));
-      
-      let compatibleProducts: any[] = [];
-      
-      // Find products that match motorcycle part values by SKU
-      // Also track which specific variant matched for each product
-      const productMatchInfo: Map<any, string | null> = new Map();
-      
-      for (const product of allProducts) {
-        let isCompatible = false;
-        let matchedVariantId: string | null = null;
-
-        // Check if the main product SKU matches any motorcycle part value
-        if (motorcyclePartValues.some(partValue => 
-          product.sku && product.sku.toLowerCase().trim() === partValue.toLowerCase().trim()
-        )) {
-          isCompatible = true;
-          // If main product SKU matches, use first variant ID
-          matchedVariantId = product.variants?.[0]?.id?.toString() || null;
+
+      // A variant-level mapping makes the product compatible even when no assigned SKU names it
+      const mappedVariantId = mappedVariantIds.get(product.id?.toString());
+      const mappedVariant = mappedVariantId ? product.variants?.find((v: any) => v.id?.toString() === mappedVariantId) : undefined;
+      if (!isCompatible && mappedVariant) {
+        isCompatible = true;
+        matchRule = 'part_mapping';
+        matchedValue = matchedSku = mappedVariant.sku || mappedVariantId!;
+        log(`✅ Variant mapping: "${product.title}" variant ${mappedVariantId} is mapped to motorcycle ${motorcycleRecid}`);
+      }
+
+      if (isCompatible) {
+        // Apply tooth count range filtering if this product matched via FCW/RCW group
+        let filteredProduct = product;
+        const filteredVariants: CompatiblePartExplanation['filteredVariants'] = [];
+        
+        // Check if this product matched via fcwgroup (front sprocket)
+        const matchedViaFCW = parts.fcwgroup && 
+          (product.title?.toLowerCase().trim() === parts.fcwgroup.toLowerCase().trim() ||
+           product.variants?.some((v: any) => v.sku?.toLowerCase().trim().startsWith(parts.fcwgroup.toLowerCase().trim())));
+        
+        // Check if this product matched via rcwgroup (rear sprocket)
+        const matchedViaRCW = parts.rcwgroup && 
+          (product.title?.toLowerCase().trim() === parts.rcwgroup.toLowerCase().trim() ||
+           product.variants?.some((v: any) => v.sku?.toLowerCase().trim().startsWith(parts.rcwgroup.toLowerCase().trim())));
+        
+        // Apply FCW range filter
+        if (matchedViaFCW && fcwToothRange && product.variants) {
+          const originalCount = product.variants.length;
+          filteredProduct = {
+            ...product,
+            variants: product.variants.filter((variant: any) => {
+              const toothCount = extractToothCount(variant.sku) || extractToothCount(variant.title);
+              const inRange = toothCount !== null && fcwToothRange.includes(toothCount);
+              if (toothCount && !inRange) {
+                log(`   ❌ Filtered out FCW variant ${variant.sku}: ${toothCount} teeth not in range [${fcwToothRange.join(', ')}]`);
+              }
+              if (!inRange) {
+                filteredVariants.push({
+                  variantId: variant.id?.toString() || null,
+                  sku: variant.sku || null,
+                  reason: toothCount !== null
+                    ? `${toothCount} teeth, outside fcwgroup_range ${parts.fcwgroup_range}`
+                    : `No tooth count in SKU or title (fcwgroup_range ${parts.fcwgroup_range})`,
+                });
+              }
+              return inRange;
+            })
+          };
+          if (filteredProduct.variants.length < originalCount) {
+            log(`   📊 FCW Range filtered: ${originalCount} → ${filteredProduct.variants.length} variants`);
+          }
         }
         
-        // Check if product title matches any prefix value (for group products without OE)
-        if (!isCompatible && prefixMatchValues.some(prefix => 
-          product.title && product.title.toLowerCase().trim() === prefix.toLowerCase().trim()
-        )) {
-          isCompatible = true;
-          matchedVariantId = null; // All variants match
-          console.log(`✅ Product title match: "${product.title}" matches FCW/RCW group → returning all variants`);
+        // Apply RCW range filter
+        if (matchedViaRCW && rcwToothRange && filteredProduct.variants) {
+          const originalCount = filteredProduct.variants.length;
+          filteredProduct = {
+            ...filteredProduct,
+            variants: filteredProduct.variants.filter((variant: any) => {
+              const toothCount = extractToothCount(variant.sku) || extractToothCount(variant.title);
+              const inRange = toothCount !== null && rcwToothRange.includes(toothCount);
+              if (toothCount && !inRange) {
+                log(`   ❌ Filtered out RCW variant ${variant.sku}: ${toothCount} teeth not in range [${rcwToothRange.join(', ')}]`);
+              }
+              if (!inRange) {
+                filteredVariants.push({
+                  variantId: variant.id?.toString() || null,
+                  sku: variant.sku || null,
+                  reason: toothCount !== null
+                    ? `${toothCount} teeth, outside rcwgroup_range ${parts.rcwgroup_range}`
+                    : `No tooth count in SKU or title (rcwgroup_range ${parts.rcwgroup_range})`,
+                });
+              }
+              return inRange;
+            })
+          };
+          if (filteredProduct.variants.length < originalCount) {
+            log(`   📊 RCW Range filtered: ${originalCount} → ${filteredProduct.variants.length} variants`);
+          }
+        }
+        
+        // Discontinued variants (e.g. other sizes of a matched sprocket group) aren't offered on the storefront
+        if (filteredProduct.variants?.some((variant: any) => variant.sku && skuResolver.isDiscontinued(variant.sku))) {
+          filteredProduct = {
+            ...filteredProduct,
+            variants: filteredProduct.variants.filter((variant: any) => {
+              const discontinued = !!variant.sku && skuResolver.isDiscontinued(variant.sku);
+              if (discontinued) {
+                filteredVariants.push({
+                  variantId: variant.id?.toString() || null,
+                  sku: variant.sku,
+                  reason: 'Discontinued with no successor',
+                });
+              }
+              return !discontinued;
+            })
+          };
         }
 
-        // If not matched by main SKU, check variant SKUs
-        if (!isCompatible && product.variants) {
-          for (const variant of product.variants) {
-            // Exact SKU match
-            if (variant.sku && motorcyclePartValues.some(partValue => 
-              variant.sku.toLowerCase().trim() === partValue.toLowerCase().trim()
-            )) {
-              isCompatible = true;
-              matchedVariantId = variant.id?.toString() || null;
-              break;
-            }
-            
-            // Prefix match for FCW/RCW groups (when OE is empty, show all variants)
-            if (!isCompatible && variant.sku && prefixMatchValues.some(prefix => 
-              variant.sku.toLowerCase().trim().startsWith(prefix.toLowerCase().trim())
-            )) {
-              isCompatible = true;
-              matchedVariantId = variant.id?.toString() || null;
-              console.log(`✅ Prefix match: variant SKU "${variant.sku}" matches prefix "${prefixMatchValues.find(p => variant.sku.toLowerCase().trim().startsWith(p.toLowerCase().trim()))}"`);
-              break;
-            }
-          }
+        // The mapped variant is the one shown, unless the tooth ranges removed it
+        if (mappedVariant && filteredProduct.variants?.some((v: any) => v.id?.toString() === mappedVariantId)) {
+          matchedVariantId = mappedVariantId!;
         }
 
-        if (isCompatible) {
-          // Apply tooth count range filtering if this product matched via FCW/RCW group
-          let filteredProduct = product;
-          
-          // Check if this product matched via fcwgroup (front sprocket)
-          const matchedViaFCW = motorcycle.fcwgroup && 
-            (product.title?.toLowerCase().trim() === motorcycle.fcwgroup.toLowerCase().trim() ||
-             product.variants?.some((v: any) => v.sku?.toLowerCase().trim().startsWith(motorcycle.fcwgroup.toLowerCase().trim())));
-          
-          // Check if this product matched via rcwgroup (rear sprocket)
-          const matchedViaRCW = motorcycle.rcwgroup && 
-            (product.title?.toLowerCase().trim() === motorcycle.rcwgroup.toLowerCase().trim() ||
-             product.variants?.some((v: any) => v.sku?.toLowerCase().trim().startsWith(motorcycle.rcwgroup.toLowerCase().trim())));
-          
-          // Apply FCW range filter
-          if (matchedViaFCW && fcwToothRange && product.variants) {
-            const originalCount = product.variants.length;
-            filteredProduct = {
-              ...product,
-              variants: product.variants.filter((variant: any) => {
-                const toothCount = extractToothCount(variant.sku) || extractToothCount(variant.title);
-                const inRange = toothCount !== null && fcwToothRange.includes(toothCount);
-                if (toothCount && !inRange) {
-                  console.log(`   ❌ Filtered out FCW variant ${variant.sku}: ${toothCount} teeth not in range [${fcwToothRange.join(', ')}]`);
-                }
-                return inRange;
-              })
-            };
-            if (filteredProduct.variants.length < originalCount) {
-              console.log(`   📊 FCW Range filtered: ${originalCount} → ${filteredProduct.variants.length} variants`);
-            }
-          }
-          
-          // Apply RCW range filter
-          if (matchedViaRCW && rcwToothRange && filteredProduct.variants) {
-            const originalCount = filteredProduct.variants.length;
-            filteredProduct = {
-              ...filteredProduct,
-              variants: filteredProduct.variants.filter((variant: any) => {
-                const toothCount = extractToothCount(variant.sku) || extractToothCount(variant.title);
-                const inRange = toothCount !== null && rcwToothRange.includes(toothCount);
-                if (toothCount && !inRange) {
-                  console.log(`   ❌ Filtered out RCW variant ${variant.sku}: ${toothCount} teeth not in range [${rcwToothRange.join(', ')}]`);
-                }
-                return inRange;
-              })
-            };
-            if (filteredProduct.variants.length < originalCount) {
-              console.log(`   📊 RCW Range filtered: ${originalCount} → ${filteredProduct.variants.length} variants`);
-            }
-          }
-          
-          // Only add product if it still has variants after filtering
-          if (!filteredProduct.variants || filteredProduct.variants.length > 0) {
-            compatibleProducts.push(filteredProduct);
-            productMatchInfo.set(filteredProduct, matchedVariantId);
+        // Only add product if it still has variants after filtering
+        const isGroupMatch = matchRule === 'group_title' || matchRule === 'group_prefix';
+        const source = matchRule === 'part_mapping'
+          ? { partCategory: null, fromRule: null }
+          : matchSource(matchedValue, isGroupMatch ? ['fcwgroup', 'rcwgroup'] : undefined);
+
+        const included = !filteredProduct.variants || filteredProduct.variants.length > 0;
+        if (included) {
+          compatibleProducts.push(filteredProduct);
+          productMatchInfo.set(filteredProduct, matchedVariantId);
+          productMatchCategories.set(filteredProduct, source.partCategory);
+        } else {
+          log(`   ⚠️ Product "${product.title}" excluded: no variants remain after tooth count filtering`);
+        }
+
+        if (explanation) {
+          const entry: CompatiblePartExplanation = {
+            productId: product.id?.toString() || '',
+            title: product.title || 'Unknown Product',
+            included,
+            matchRule: matchRule!,
+            matchedCategory: source.partCategory,
+            matchedValue,
+            matchedSku,
+            fromRule: source.fromRule,
+            matchedVariantId,
+            filteredVariants,
+            adminCategory: null,
+            adminCategoryLabel: null,
+            categoryMethod: null,
+            categoryDetail: null,
+          };
+          if (included) {
+            productExplanations.set(filteredProduct, entry); // Completed once the category is chosen
           } else {
-            console.log(`   ⚠️ Product "${product.title}" excluded: no variants remain after tooth count filtering`);
+            explanation.products.push(entry);
           }
         }
       }
+    }
+
+    return { compatibleProducts, productMatchInfo, productMatchCategories, productExplanations };
+  }
+
+  // Compatible Parts - Uses motorcycle database fields for SKU matching (ignores admin part mappings)
+  /**
+   * Shows why getCompatibleParts returns what it does for one motorcycle: which assigned value matched
+   * each product and how, which variants the tooth ranges removed, and how adminCategory was chosen.
+   */
+  async explainCompatibleParts(shop: string, motorcycleRecid: number): Promise<CompatiblePartsExplanation | undefined> {
+    const motorcycle = await this.getMotorcycle(shop, motorcycleRecid);
+    if (!motorcycle) {
+      return undefined;
+    }
+
+    const { parts, ruleFitments } = await this.getEffectiveMotorcycleParts(shop, motorcycleRecid);
+    const explanation: CompatiblePartsExplanation = {
+      motorcycle,
+      parts,
+      ruleFitments,
+      skuValues: [],
+      prefixValues: [],
+      toothRanges: { fcwgroup_range: null, rcwgroup_range: null },
+      products: [],
+    };
+    await this.getCompatibleParts(shop, motorcycleRecid, explanation);
+    return explanation;
+  }
+
+  // When an explanation is passed, each matching and categorisation decision is recorded in it
+  async getCompatibleParts(shop: string, motorcycleRecid: number, explanation?: CompatiblePartsExplanation): Promise<ShopifyProductWithCategory[]> {
+    try {
+      // Get the motorcycle details for SKU-based matching
+      const motorcycle = await this.getMotorcycle(shop, motorcycleRecid);
+      if (!motorcycle) {
+        return [];
+      }
+      // Explicit assignments plus whatever the fitment rules supply, with superseded SKUs replaced by their
+      // successors and discontinued ones dropped
+      const skuResolver = createSkuResolver(await this.getSkuSupersessions(shop));
+      const parts = resolveMotorcycleParts((await this.getEffectiveMotorcycleParts(shop, motorcycleRecid)).parts, skuResolver);
+      // Notes and qualifiers on this bike's own assignments, shown with the part they matched
+      const fitmentDetails = toMotorcycleFitmentDetails(await this.getMotorcycleFitments(shop, motorcycleRecid));
+
+      // Fetch part category tags to determine admin categories
+      const categoryTags = await db.select().from(partCategoryTags).where(eq(partCategoryTags.shop, shop));
+      
+      console.log(`🔍 Using motorcycle database fields for compatibility matching (motorcycle ${motorcycleRecid})`);
+      
+      // Get all cached products for SKU matching
+      const allProductsResponse = await this.getCachedShopifyProducts(shop);
+      const allProducts = allProductsResponse.products || [];
+
+      // Variant-level part mappings: product ID -> the variant mapped to this motorcycle
+      const mappedVariantIds = new Map(
+        (await this.getPartMappingsByMotorcycle(shop, motorcycleRecid))
+          .filter(mapping => mapping.compatible && mapping.shopifyVariantId)
+          .map(mapping => [mapping.shopifyProductId, mapping.shopifyVariantId!])
+      );
       
+      const { compatibleProducts, productMatchInfo, productMatchCategories, productExplanations } =
+        this.matchCompatibleProducts(allProducts, parts, { motorcycleRecid, mappedVariantIds, skuResolver, explanation });
+
       // Step 4: Transform compatible products and determine admin categories
       const products: ShopifyProductWithCategory[] = compatibleProducts.map((product: any) => {
         const productTags = (product.tags || '').toLowerCase().split(',').map((tag: string) => tag.trim());
@@ -806,6 +1906,8 @@ export class DatabaseStorage implements IStorage {
         // Find matching category by checking if any product tags match the category's productTags
         let adminCategory = 'others'; // Default category
         let adminCategoryLabel = 'Others'; // Default label
+        let categoryMethod: CompatiblePartCategoryMethod = 'default';
+        let categoryDetail = 'No OE value, assigned SKU or product tag matched';
         
         // First, check if this is an OE part by comparing SKUs with motorcycle OE fields
         let isOEPart = false;
@@ -822,12 +1924,14 @@ export class DatabaseStorage implements IStorage {
         if (mainSKU) {
           for (const categoryTag of categoryTags) {
             if (oeFieldsToCheck.includes(categoryTag.categoryValue.toLowerCase())) {
-              const oeFieldValue = (motorcycle as any)[categoryTag.categoryValue.toLowerCase()];
+              const oeFieldValue = parts[categoryTag.categoryValue];
               if (oeFieldValue && typeof oeFieldValue === 'string' && oeFieldValue.toLowerCase().trim() === mainSKU.toLowerCase().trim()) {
                 isOEPart = true;
                 oeFieldMatch = categoryTag;
                 adminCategory = categoryTag.assignedSection || 'others';
                 adminCategoryLabel = categoryTag.categoryLabel || 'Others';
+                categoryMethod = 'oe_sku';
+                categoryDetail = `Product SKU ${mainSKU} is the ${categoryTag.categoryValue} value`;
                 break;
               }
             }
@@ -840,12 +1944,14 @@ export class DatabaseStorage implements IStorage {
             if (variant.sku) {
               for (const categoryTag of categoryTags) {
                 if (oeFieldsToCheck.includes(categoryTag.categoryValue.toLowerCase())) {
-                  const oeFieldValue = (motorcycle as any)[categoryTag.categoryValue.toLowerCase()];
+                  const oeFieldValue = parts[categoryTag.categoryValue];
                   if (oeFieldValue && typeof oeFieldValue === 'string' && oeFieldValue.toLowerCase().trim() === variant.sku.toLowerCase().trim()) {
                     isOEPart = true;
                     oeFieldMatch = categoryTag;
                     adminCategory = categoryTag.assignedSection || 'others';
                     adminCategoryLabel = categoryTag.categoryLabel || 'Others';
+                    categoryMethod = 'oe_sku';
+                    categoryDetail = `Variant SKU ${variant.sku} is the ${categoryTag.categoryValue} value`;
                     break;
                   }
                 }
@@ -864,12 +1970,14 @@ export class DatabaseStorage implements IStorage {
           if (skuToCheck) {
             // Check against categoryTags to find a matching field
             for (const categoryTag of categoryTags) {
-              const fieldValue = (motorcycle as any)[categoryTag.categoryValue.toLowerCase()];
+              const fieldValue = parts[categoryTag.categoryValue];
               if (fieldValue && typeof fieldValue === 'string' && 
                   fieldValue.toLowerCase().trim() === skuToCheck.toLowerCase().trim()) {
                 // Found a match - use this category label
                 adminCategory = categoryTag.assignedSection || 'others';
                 adminCategoryLabel = categoryTag.categoryLabel || 'Others';
+                categoryMethod = 'assigned_sku';
+                categoryDetail = `SKU ${skuToCheck} is the ${categoryTag.categoryValue} value`;
                 break;
               }
             }
@@ -921,6 +2029,10 @@ export class DatabaseStorage implements IStorage {
           if (bestMatch) {
             adminCategory = bestMatch.categoryTag.assignedSection;
             adminCategoryLabel = bestMatch.categoryTag.categoryLabel;
+            categoryMethod = bestMatch.matchType === 'exact' ? 'tag_exact' : 'tag_partial';
+            categoryDetail = bestMatch.matchType === 'exact'
+              ? `${bestMatch.matchCount} product tag(s) equal ${bestMatch.categoryTag.categoryValue}'s tags ${bestMatch.categoryTag.productTags}`
+              : `A product tag partly matches ${bestMatch.categoryTag.categoryValue}'s tags ${bestMatch.categoryTag.productTags}`;
           }
         }
         
@@ -941,8 +2053,8 @@ export class DatabaseStorage implements IStorage {
         
         // Check if this is an FCW/RCW group product by comparing product title with fcwgroup/rcwgroup fields
         // Supports both exact match and prefix match (e.g., "292U-520" matches "292U-520 Ultralight Rear Sprocket...")
-        const fcwGroupTitle = motorcycle.fcwgroup;
-        const rcwGroupTitle = motorcycle.rcwgroup;
+        const fcwGroupTitle = parts.fcwgroup;
+        const rcwGroupTitle = parts.rcwgroup;
         
         const isFcwRcwGroupProduct = (
           (fcwGroupTitle && product.title && (
@@ -974,6 +2086,9 @@ export class DatabaseStorage implements IStorage {
           });
         }
         
+        const matchedCategory = productMatchCategories.get(product);
+        const details = matchedCategory ? fitmentDetails[matchedCategory] : undefined;
+
         const productData = {
           id: product.id ? product.id.toString() : `temp-${Math.random().toString(36)}`,
           title: product.title || 'Unknown Product',
@@ -990,53 +2105,193 @@ export class DatabaseStorage implements IStorage {
           adminCategoryLabel: adminCategoryLabel,
           matchedVariantId: matchedVariantId, // ID of the variant that matched motorcycle's SKU
           alternativeVariants: alternativeVariants, // All variants for FCW/RCW group products
-          isOE: isOEPart // Flag indicating this product matches an OE field (for green highlighting)
+          isOE: isOEPart, // Flag indicating this product matches an OE field (for green highlighting)
+          fitmentNotes: details?.notes ?? null,
+          fitmentQualifiers: details?.qualifiers ?? null
         };
         
         // Debug log to help identify any missing fields
         if (!product.id) {
           console.warn(`⚠️ Product missing ID:`, JSON.stringify(product, null, 2));
         }
+
+        const entry = productExplanations.get(product);
+        if (explanation && entry) {
+          explanation.products.push({ ...entry, adminCategory, adminCategoryLabel, categoryMethod, categoryDetail });
+        }
         
         return productData;
       }) || [];
       
-      console.log(`✅ LIVE DATA: Found ${products.length} compatible parts for motorcycle ${motorcycleRecid}`);
+      console.log(`✅ CACHED DATA: Found ${products.length} compatible parts for motorcycle ${motorcycleRecid}`);
       return products;
       
     } catch (error) {
-      console.error('Failed to fetch live compatible parts:', error);
+      console.error('Failed to load compatible parts:', error);
+      // An explanation must not quietly come back empty
+      if (explanation) throw error;
       // Return empty array instead of throwing to prevent complete failure
       return [];
     }
   }
 
   // Import History
-  async getImportHistory(): Promise<ImportHistory[]> {
-    return await db.select().from(importHistory).orderBy(importHistory.createdAt);
+  async getImportHistory(shop: string): Promise<ImportHistory[]> {
+    return await db.select().from(importHistory)
+      .where(eq(importHistory.shop, shop))
+      .orderBy(desc(importHistory.createdAt));
+  }
+
+  async getImportHistoryEntry(shop: string, id: string): Promise<ImportHistory | undefined> {
+    const result = await db.select().from(importHistory)
+      .where(and(eq(importHistory.shop, shop), eq(importHistory.id, id)));
+    return result[0];
+  }
+
+  async createImportHistory(shop: string, history: InsertImportHistory): Promise<ImportHistory> {
+    const result = await db.insert(importHistory).values({ ...history, shop }).returning();
+    return result[0];
   }
 
-  async createImportHistory(history: InsertImportHistory): Promise<ImportHistory> {
-    const result = await db.insert(importHistory).values(history).returning();
+  async updateImportHistory(shop: string, id: string, updates: Partial<InsertImportHistory>): Promise<ImportHistory | undefined> {
+    const result = await db.update(importHistory)
+      .set(updates)
+      .where(and(eq(importHistory.shop, shop), eq(importHistory.id, id)))
+      .returning();
     return result[0];
   }
 
+  // Call before the import writes the row. Only the first touch per batch is kept, so a row that appears
+  // twice in one file still rolls back to its pre-import state.
+  async recordImportBatchRow(shop: string, importId: string, entityType: ImportBatchEntityType, entityId: string, beforeState: object | null): Promise<void> {
+    await db.insert(importBatchRows)
+      .values({
+        importId,
+        shop,
+        entityType,
+        entityId,
+        action: beforeState ? 'updated' : 'created',
+        beforeState,
+      })
+      .onConflictDoNothing();
+  }
+
+  async getImportBatchRows(shop: string, importId: string): Promise<ImportBatchRow[]> {
+    return await db.select().from(importBatchRows)
+      .where(and(eq(importBatchRows.shop, shop), eq(importBatchRows.importId, importId)));
+  }
+
+  // Restore every row in an import batch to its pre-import value, all or nothing. Rows the import
+  // created are deleted (with their fitments and part mappings); part assignment changes are audited as reverts.
+  async rollbackImport(shop: string, importId: string, rolledBackBy: string | null): Promise<{ success: boolean, message: string }> {
+    return await db.transaction(async (tx) => {
+      const [entry] = await tx.select().from(importHistory)
+        .where(and(eq(importHistory.shop, shop), eq(importHistory.id, importId)))
+        .for('update');
+      if (!entry) {
+        return { success: false, message: "Import not found" };
+      }
+      if (entry.rolledBackAt) {
+        return { success: false, message: `This import was already rolled back${entry.rolledBackBy ? ` by ${entry.rolledBackBy}` : ''}` };
+      }
+      if (entry.status === 'running') {
+        return { success: false, message: "This import is still running" };
+      }
+
+      const rows = await tx.select().from(importBatchRows)
+        .where(and(eq(importBatchRows.shop, shop), eq(importBatchRows.importId, importId)));
+      if (rows.length === 0) {
+        return { success: false, message: "This import has no recorded changes to roll back" };
+      }
+
+      let removed = 0;
+      let restored = 0;
+
+      // Part mappings first, so no mapping still points at a motorcycle this import created
+      for (const row of rows.filter(row => row.entityType === 'part_mapping')) {
+        await tx.delete(partMappings).where(and(eq(partMappings.shop, shop), eq(partMappings.id, row.entityId)));
+        if (row.action === 'created') {
+          removed++;
+        } else {
+          await tx.insert(partMappings).values(row.beforeState as PartMapping);
+          restored++;
+        }
+      }
+
+      for (const row of rows.filter(row => row.entityType === 'motorcycle')) {
+        const recid = parseInt(row.entityId);
+        const [current] = await tx.select(motorcycleColumns).from(motorcycles)
+          .where(and(eq(motorcycles.shop, shop), eq(motorcycles.recid, recid)))
+          .for('update');
+
+        if (row.action === 'created') {
+          if (!current) continue;
+          await tx.delete(partMappings).where(and(eq(partMappings.shop, shop), eq(partMappings.motorcycleRecid, recid)));
+          await tx.delete(motorcycles).where(and(eq(motorcycles.shop, shop), eq(motorcycles.recid, recid)));
+          removed++;
+          continue;
+        }
+
+        const { shop: _shop, recid: _recid, fitments: beforeFitments = [], ...beforeState } = row.beforeState as MotorcycleSnapshot;
+        if (current) {
+          await tx.update(motorcycles)
+            .set(beforeState)
+            .where(and(eq(motorcycles.shop, shop), eq(motorcycles.recid, recid)));
+        } else {
+          // Deleted after the import - put the pre-import row back
+          await tx.insert(motorcycles).values({ ...beforeState, shop, recid });
+        }
+
+        // Put the motorcycle's fitments back exactly as they were
+        const fitmentWhere = and(eq(motorcycleFitments.shop, shop), eq(motorcycleFitments.motorcycleRecid, recid));
+        const currentFitments = await tx.select().from(motorcycleFitments).where(fitmentWhere);
+        await tx.delete(motorcycleFitments).where(fitmentWhere);
+        if (beforeFitments.length > 0) {
+          await tx.insert(motorcycleFitments).values(beforeFitments);
+        }
+
+        const partChanges = changedPartAssignments(toMotorcycleParts(currentFitments), toMotorcycleParts(beforeFitments));
+        if (partChanges.length > 0) {
+          await tx.insert(partAssignmentAudit).values(partChanges.map(change => ({
+            shop,
+            motorcycleRecid: recid,
+            ...change,
+            source: 'revert',
+            changedBy: rolledBackBy,
+          })));
+        }
+        restored++;
+      }
+
+      await tx.update(importHistory)
+        .set({ status: 'rolled_back', rolledBackAt: new Date().toISOString(), rolledBackBy })
+        .where(eq(importHistory.id, importId));
+
+      return { success: true, message: `Rolled back import: ${restored} rows restored, ${removed} rows removed` };
+    });
+  }
+
   // Bulk operations
-  async bulkCreateMotorcycles(motorcyclesList: InsertMotorcycle[]): Promise<Motorcycle[]> {
-    const result = await db.insert(motorcycles).values(motorcyclesList).returning();
+  async bulkCreateMotorcycles(shop: string, motorcyclesList: InsertMotorcycle[]): Promise<Motorcycle[]> {
+    const result = await db.insert(motorcycles)
+      .values(motorcyclesList.map(motorcycle => ({ ...motorcycle, shop })))
+      .returning(motorcycleColumns);
     return result;
   }
 
-  async bulkCreatePartMappings(mappingsList: InsertPartMapping[]): Promise<PartMapping[]> {
-    const result = await db.insert(partMappings).values(mappingsList).returning();
+  async bulkCreatePartMappings(shop: string, mappingsList: InsertPartMapping[]): Promise<PartMapping[]> {
+    const result = await db.insert(partMappings)
+      .values(mappingsList.map(mapping => ({ ...mapping, shop })))
+      .returning();
     return result;
   }
 
   // Part Category Tags
-  async getPartCategoryTags(): Promise<Array<PartCategoryTags & { sectionLabel: string | null }>> {
+  async getPartCategoryTags(shop: string): Promise<Array<PartCategoryTags & { sectionLabel: string | null }>> {
     const result = await db
       .select({
         id: partCategoryTags.id,
+        shop: partCategoryTags.shop,
         categoryValue: partCategoryTags.categoryValue,
         categoryLabel: partCategoryTags.categoryLabel,
         productTags: partCategoryTags.productTags,
@@ -1049,6 +2304,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(partCategoryTags)
       .leftJoin(partSections, eq(partCategoryTags.assignedSection, partSections.sectionKey))
+      .where(eq(partCategoryTags.shop, shop))
       .orderBy(
         asc(partCategoryTags.assignedSection),
         asc(partCategoryTags.sortOrder)
@@ -1056,26 +2312,29 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getPartCategoryTag(categoryValue: string): Promise<PartCategoryTags | undefined> {
-    const result = await db.select().from(partCategoryTags).where(eq(partCategoryTags.categoryValue, categoryValue));
+  async getPartCategoryTag(shop: string, categoryValue: string): Promise<PartCategoryTags | undefined> {
+    const result = await db.select().from(partCategoryTags)
+      .where(and(eq(partCategoryTags.shop, shop), eq(partCategoryTags.categoryValue, categoryValue)));
     return result[0];
   }
 
-  async createPartCategoryTag(partCategoryTag: InsertPartCategoryTags): Promise<PartCategoryTags> {
-    const result = await db.insert(partCategoryTags).values(partCategoryTag).returning();
+  async createPartCategoryTag(shop: string, partCategoryTag: InsertPartCategoryTags): Promise<PartCategoryTags> {
+    const result = await db.insert(partCategoryTags).values({ ...partCategoryTag, shop }).returning();
     return result[0];
   }
 
-  async updatePartCategoryTag(categoryValue: string, updates: Partial<InsertPartCategoryTags>): Promise<PartCategoryTags | undefined> {
+  async updatePartCategoryTag(shop: string, categoryValue: string, updates: Partial<InsertPartCategoryTags>): Promise<PartCategoryTags | undefined> {
     const result = await db.update(partCategoryTags)
       .set({ ...updates, updatedAt: new Date().toISOString() })
-      .where(eq(partCategoryTags.categoryValue, categoryValue))
+      .where(and(eq(partCategoryTags.shop, shop), eq(partCategoryTags.categoryValue, categoryValue)))
       .returning();
     return result[0];
   }
 
-  async deletePartCategoryTag(categoryValue: string): Promise<boolean> {
-    const result = await db.delete(partCategoryTags).where(eq(partCategoryTags.categoryValue, categoryValue)).returning();
+  async deletePartCategoryTag(shop: string, categoryValue: string): Promise<boolean> {
+    const result = await db.delete(partCategoryTags)
+      .where(and(eq(partCategoryTags.shop, shop), eq(partCategoryTags.categoryValue, categoryValue)))
+      .returning();
     return result.length > 0;
   }
 
@@ -1171,7 +2430,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteShopifySession(id: string): Promise<boolean> {
-    const result = await db.delete(shopifySessions).where(eq(shopifySessions.id, id));
+    const result = await db.delete(shopifySessions).where(eq(shopifySessions.id, id)).returning();
     return result.length > 0;
   }
 
@@ -1189,104 +2448,160 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Search Analytics
-  async createSearchAnalytics(analytics: InsertSearchAnalytics): Promise<SearchAnalytics> {
-    const result = await db.insert(searchAnalytics).values(analytics).returning();
+  async createSearchAnalytics(shop: string, analytics: InsertSearchAnalytics): Promise<SearchAnalytics> {
+    const result = await db.insert(searchAnalytics).values({ ...analytics, shop }).returning();
     return result[0];
   }
 
-  async getTopSearches(dateFrom?: string, dateTo?: string, limit: number = 25): Promise<{searchQuery: string, searchCount: number}[]> {
-    let query = db.select({
+  async getTopSearches(shop: string, dateFrom?: string, dateTo?: string, limit: number = 25): Promise<{searchQuery: string, searchCount: number}[]> {
+    const conditions: any[] = [eq(searchAnalytics.shop, shop)];
+    if (dateFrom) {
+      conditions.push(sql`${searchAnalytics.createdAt} >= ${dateFrom}`);
+    }
+    if (dateTo) {
+      conditions.push(sql`${searchAnalytics.createdAt} <= ${dateTo}`);
+    }
+
+    const result = await db.select({
       searchQuery: searchAnalytics.searchQuery,
       searchCount: sql<number>`COUNT(*)`
     })
     .from(searchAnalytics)
+    .where(and(...conditions))
     .groupBy(searchAnalytics.searchQuery)
     .orderBy(sql`COUNT(*) DESC`)
     .limit(limit);
 
-    if (dateFrom || dateTo) {
-      const conditions: any[] = [];
-      if (dateFrom) {
-        conditions.push(sql`${searchAnalytics.createdAt} >= ${dateFrom}`);
-      }
-      if (dateTo) {
-        conditions.push(sql`${searchAnalytics.createdAt} <= ${dateTo}`);
-      }
-      query = query.where(and(...conditions)) as any;
+    return result;
+  }
+
+  async getUnmetSearchDemand(shop: string, dateFrom?: string, dateTo?: string, limit: number = 50): Promise<UnmetSearchDemand[]> {
+    const conditions = [eq(searchAnalytics.shop, shop)];
+    if (dateFrom) {
+      conditions.push(gte(searchAnalytics.createdAt, dateFrom));
+    }
+    if (dateTo) {
+      conditions.push(lte(searchAnalytics.createdAt, dateTo));
     }
 
-    const result = await query;
-    return result;
+    const [searches, motorcycleRows, partsByRecid, aliases] = await Promise.all([
+      db.select({
+        searchQuery: searchAnalytics.searchQuery,
+        resultsCount: searchAnalytics.resultsCount,
+        topResultRecid: searchAnalytics.topResultRecid,
+        createdAt: searchAnalytics.createdAt,
+      }).from(searchAnalytics).where(and(...conditions)),
+      this.getMotorcycles(shop),
+      this.getMotorcyclePartsByRecid(shop),
+      this.getMotorcycleAliases(shop),
+    ]);
+    return buildUnmetSearchDemand(searches, { motorcycles: motorcycleRows, partsByRecid, aliases, now: new Date() }, limit);
+  }
+
+  async recordStorefrontEvent(shop: string, event: StorefrontEventInput): Promise<StorefrontEvent> {
+    const result = await db.insert(storefrontEvents).values({
+      shop,
+      eventType: event.type,
+      source: event.source,
+      motorcycleRecid: event.recid,
+      partCategory: event.partCategory,
+      sku: event.sku,
+    }).returning();
+    return result[0];
+  }
+
+  async getStorefrontFunnel(shop: string, dateFrom?: string, dateTo?: string, limit: number = 50): Promise<StorefrontFunnel> {
+    const searchConditions = [eq(searchAnalytics.shop, shop), isNotNull(searchAnalytics.topResultRecid)];
+    const eventConditions = [eq(storefrontEvents.shop, shop)];
+    if (dateFrom) {
+      searchConditions.push(gte(searchAnalytics.createdAt, dateFrom));
+      eventConditions.push(gte(storefrontEvents.createdAt, dateFrom));
+    }
+    if (dateTo) {
+      searchConditions.push(lte(searchAnalytics.createdAt, dateTo));
+      eventConditions.push(lte(storefrontEvents.createdAt, dateTo));
+    }
+
+    const [searches, events, motorcycleRows, partsByRecid, categoryTags] = await Promise.all([
+      db.select({ topResultRecid: searchAnalytics.topResultRecid }).from(searchAnalytics).where(and(...searchConditions)),
+      db.select({
+        eventType: storefrontEvents.eventType,
+        motorcycleRecid: storefrontEvents.motorcycleRecid,
+        partCategory: storefrontEvents.partCategory,
+      }).from(storefrontEvents).where(and(...eventConditions)),
+      this.getMotorcycles(shop),
+      this.getMotorcyclePartsByRecid(shop),
+      this.getPartCategoryTags(shop),
+    ]);
+    return buildStorefrontFunnel(searches, events, { motorcycles: motorcycleRows, partsByRecid, categoryTags }, limit);
+  }
+
+  async recordOrderAttribution(shop: string, order: ShopifyOrderPayload): Promise<number> {
+    const [motorcycleRows, partsByRecid] = await Promise.all([
+      this.getMotorcycles(shop),
+      this.getMotorcyclePartsByRecid(shop),
+    ]);
+    const lines = parseOrderAttribution(order, { motorcycles: motorcycleRows, partsByRecid });
+    if (lines.length === 0) return 0;
+
+    // Shopify retries deliveries, so a line item is only recorded once
+    const inserted = await db.insert(orderLineAttributions)
+      .values(lines.map(line => ({ ...line, shop })))
+      .onConflictDoNothing({ target: [orderLineAttributions.shop, orderLineAttributions.lineItemId] })
+      .returning({ id: orderLineAttributions.id });
+    return inserted.length;
+  }
+
+  async getOrderAttributionReport(shop: string, dateFrom?: string, dateTo?: string, limit: number = 50): Promise<OrderAttributionReport> {
+    const conditions = [eq(orderLineAttributions.shop, shop)];
+    if (dateFrom) conditions.push(gte(orderLineAttributions.orderedAt, dateFrom));
+    if (dateTo) conditions.push(lte(orderLineAttributions.orderedAt, dateTo));
+
+    const [lines, categoryTags] = await Promise.all([
+      db.select({
+        orderId: orderLineAttributions.orderId,
+        motorcycleRecid: orderLineAttributions.motorcycleRecid,
+        bikemake: orderLineAttributions.bikemake,
+        bikemodel: orderLineAttributions.bikemodel,
+        partCategory: orderLineAttributions.partCategory,
+        quantity: orderLineAttributions.quantity,
+        revenueCents: orderLineAttributions.revenueCents,
+        currency: orderLineAttributions.currency,
+      }).from(orderLineAttributions).where(and(...conditions)),
+      this.getPartCategoryTags(shop),
+    ]);
+    return buildOrderAttributionReport(lines, categoryTags, limit);
   }
 
-  async getNextMotorcycleRecid(): Promise<number> {
+  async getNextMotorcycleRecid(shop: string): Promise<number> {
     const rows = await db
       .select({ 
         maxRecid: sql<number>`max(${motorcycles.recid})` 
       })
-      .from(motorcycles);
+      .from(motorcycles)
+      .where(eq(motorcycles.shop, shop));
     
     const max = rows[0]?.maxRecid == null ? 9999 : Number(rows[0].maxRecid);
     
     return max + 1;
   }
 
-  async getCategoryUsage(): Promise<{ fixedColumns: string[], jsonbCategories: { category: string, count: number }[] }> {
-    // List of fixed part category columns in the motorcycles table
-    const fixedColumns = [
-      'oe_handlebar',
-      'oe_fcw',
-      'oe_rcw',
-      'front_brakepads',
-      'rear_brakepads',
-      'handlebars_78',
-      'twinwall',
-      'fatbar',
-      'fatbar36',
-      'grips',
-      'cam',
-      'oe_barmount',
-      'barmount28',
-      'barmount36',
-      'fcwgroup',
-      'fcwconv',
-      'rcwconv',
-      'rcwgroup',
-      'rcwgroup_range',
-      'twinring',
-      'oe_chain',
-      'chainconv',
-      'r1_chain',
-      'r3_chain',
-      'r4_chain',
-      'rr4_chain',
-      'clipon',
-      'rcwcarrier',
-      'active_handlecompare',
-      'other_fcw'
-    ];
+  async getCategoryUsage(shop: string): Promise<{ fixedColumns: string[], jsonbCategories: { category: string, count: number }[] }> {
+    // The categories that used to be fixed columns on the motorcycles table
+    const fixedColumns: string[] = [...LEGACY_PART_COLUMNS];
 
-    // Query to extract all unique keys from customParts JSONB and count usage
-    const jsonbUsageQuery = sql<{ category: string; count: number }>`
-      SELECT 
-        key as category,
-        COUNT(*) as count
-      FROM motorcycles,
-      LATERAL jsonb_each_text(custom_parts) AS kv(key, value)
-      WHERE custom_parts IS NOT NULL 
-        AND custom_parts != 'null'::jsonb
-        AND value IS NOT NULL
-        AND value != ''
-      GROUP BY key
-      ORDER BY COUNT(*) DESC, key ASC
-    `;
-
-    const jsonbResults = await db.execute(jsonbUsageQuery);
-    
-    const jsonbCategories = (jsonbResults as any[]).map((row: any) => ({
-      category: row.category,
-      count: typeof row.count === 'string' ? parseInt(row.count, 10) : row.count
-    }));
+    // Count usage of every other category held in the fitment table
+    const jsonbCategories = await db.select({
+      category: motorcycleFitments.partCategory,
+      count: count(),
+    })
+      .from(motorcycleFitments)
+      .where(and(
+        eq(motorcycleFitments.shop, shop),
+        notInArray(motorcycleFitments.partCategory, fixedColumns)
+      ))
+      .groupBy(motorcycleFitments.partCategory)
+      .orderBy(desc(count()), asc(motorcycleFitments.partCategory));
 
     return {
       fixedColumns,
@@ -1294,85 +2609,366 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // ========== LOCAL PRODUCT CACHE ==========
+
+  /**
+   * Replaces the session shop's cached catalog with a full paginated fetch from Shopify. Only one sync runs per shop;
+   * a call made while it runs gets that sync's result.
+   */
+  async syncProductCache(session: ShopifySession): Promise<ProductCacheSyncResult> {
+    const running = productCacheSyncs.get(session.shop);
+    if (running) return running;
+
+    const sync = this.runProductCacheSync(session).finally(() => productCacheSyncs.delete(session.shop));
+    productCacheSyncs.set(session.shop, sync);
+    return sync;
+  }
+
+  private async runProductCacheSync(session: ShopifySession): Promise<ProductCacheSyncResult> {
+    const shop = session.shop;
+    const catalog = await fetchShopifyProducts(session);
+    const rows = catalog.products.map(toCacheRows);
+    const productRows = rows.map(row => ({ ...row.product, shop }));
+    const variantRows = rows.flatMap(row => row.variants);
+
+    // Swap the whole catalog in one transaction so readers never see a half-written cache
+    await db.transaction(async (tx) => {
+      // Variants go with their products (ON DELETE CASCADE)
+      await tx.delete(shopifyProducts).where(eq(shopifyProducts.shop, shop));
+      for (const batch of chunk(productRows, PRODUCT_CACHE_CHUNK_SIZE)) {
+        await tx.insert(shopifyProducts).values(batch);
+      }
+      for (const batch of chunk(variantRows, PRODUCT_CACHE_CHUNK_SIZE)) {
+        await tx.insert(shopifyProductVariants).values(batch);
+      }
+    });
+
+    await this.setSystemSetting(productCacheSettingKey('last_full_sync', shop), new Date().toISOString(), `When the product cache for ${shop} was last fully synced from Shopify`);
+    await this.setSystemSetting(productCacheSettingKey('last_full_sync_pages', shop), catalog.pageCount.toString(), `Shopify pages loaded by the last full product cache sync for ${shop}`);
+
+    console.log(`📦 Product cache synced for ${shop}: ${catalog.productCount} products, ${catalog.variantCount} variants (${catalog.pageCount} pages)`);
+    return { productCount: catalog.productCount, variantCount: catalog.variantCount, pageCount: catalog.pageCount };
+  }
+
+  /**
+   * Inserts or replaces a single product (and all its variants) from a products/create or products/update webhook.
+   * Webhooks can arrive out of order, so a payload older than the cached row, or for a deleted product, is ignored.
+   * Returns whether the cache was written.
+   */
+  async upsertCachedProduct(shop: string, product: any, topic: string): Promise<boolean> {
+    const rows = toCacheRows(product);
+    const productRow = { ...rows.product, shop };
+    const variants = rows.variants;
+
+    const written = await db.transaction(async (tx) => {
+      const [tombstone] = await tx.select({ id: shopifyProductTombstones.id }).from(shopifyProductTombstones)
+        .where(and(eq(shopifyProductTombstones.shop, shop), eq(shopifyProductTombstones.id, productRow.id)));
+      if (tombstone) return false;
+
+      // Shopify's updated_at has second precision: an equal timestamp is a redelivery or a same-second edit, so it's applied
+      const updated = await tx.insert(shopifyProducts)
+        .values(productRow)
+        .onConflictDoUpdate({
+          target: shopifyProducts.id,
+          set: { ...productRow, syncedAt: sql`CURRENT_TIMESTAMP` },
+          setWhere: sql`${shopifyProducts.shopifyUpdatedAt} IS NULL OR excluded.shopify_updated_at IS NULL
+            OR excluded.shopify_updated_at::timestamptz >= ${shopifyProducts.shopifyUpdatedAt}::timestamptz`
+        })
+        .returning({ id: shopifyProducts.id });
+      if (updated.length === 0) return false;
+
+      // Variants can be added or removed in an update, so replace the product's set wholesale
+      await tx.delete(shopifyProductVariants).where(eq(shopifyProductVariants.productId, productRow.id));
+      if (variants.length > 0) {
+        await tx.insert(shopifyProductVariants).values(variants);
+      }
+      return true;
+    });
+
+    await this.recordProductWebhook(shop, topic);
+    return written;
+  }
+
+  /**
+   * Removes a product from the cache after a products/delete webhook and leaves a tombstone so late updates are ignored
+   */
+  async deleteCachedProduct(shop: string, productId: string, topic: string): Promise<boolean> {
+    const result = await db.transaction(async (tx) => {
+      await tx.insert(shopifyProductTombstones).values({ id: productId, shop }).onConflictDoNothing();
+      return await tx.delete(shopifyProducts)
+        .where(and(eq(shopifyProducts.shop, shop), eq(shopifyProducts.id, productId)))
+        .returning();
+    });
+    await this.recordProductWebhook(shop, topic);
+    return result.length > 0;
+  }
+
+  private async recordProductWebhook(shop: string, topic: string): Promise<void> {
+    await this.setSystemSetting(productCacheSettingKey('last_webhook', shop), new Date().toISOString(), `When the last product webhook updated the cache for ${shop}`);
+    await this.setSystemSetting(productCacheSettingKey('last_webhook_topic', shop), topic, `Topic of the last product webhook applied to the cache for ${shop}`);
+  }
+
+  /**
+   * Returns the cached catalog in Shopify REST shape. A shop that was never fully synced is filled from Shopify first
+   * when a session is available, so a fresh install doesn't serve an empty storefront. A synced shop with no products
+   * is simply empty.
+   */
+  async getCachedShopifyProducts(shop: string): Promise<{ products: any[] }> {
+    await this.ensureProductCacheSynced(shop);
+
+    const productRows = await db.select().from(shopifyProducts)
+      .where(eq(shopifyProducts.shop, shop))
+      .orderBy(asc(shopifyProducts.title));
+
+    const variantRows = await db.select().from(shopifyProductVariants)
+      .where(inArray(shopifyProductVariants.productId, shopProductIds(shop)))
+      .orderBy(asc(shopifyProductVariants.position));
+
+    return { products: this.assembleCachedProducts(productRows, variantRows) };
+  }
+
+  private async ensureProductCacheSynced(shop: string): Promise<void> {
+    if (await this.getSystemSetting(productCacheSettingKey('last_full_sync', shop))) return;
+
+    const session = getShopSession(shop);
+    if (session) {
+      console.log(`📦 Product cache for ${shop} was never synced - running initial full sync`);
+      await this.syncProductCache(session);
+    }
+  }
+
+  /**
+   * Returns cached products for specific Shopify product IDs
+   */
+  async getCachedShopifyProductsByIds(shop: string, productIds: string[]): Promise<{ products: any[] }> {
+    if (productIds.length === 0) {
+      return { products: [] };
+    }
+
+    const productRows = await db.select().from(shopifyProducts)
+      .where(and(eq(shopifyProducts.shop, shop), inArray(shopifyProducts.id, productIds)));
+    const variantRows = productRows.length > 0
+      ? await db.select().from(shopifyProductVariants)
+          .where(inArray(shopifyProductVariants.productId, productRows.map(p => p.id)))
+          .orderBy(asc(shopifyProductVariants.position))
+      : [];
+
+    return { products: this.assembleCachedProducts(productRows, variantRows) };
+  }
+
+  private assembleCachedProducts(productRows: CachedShopifyProduct[], variantRows: CachedShopifyProductVariant[]): any[] {
+    const variantsByProduct = new Map<string, CachedShopifyProductVariant[]>();
+    for (const variant of variantRows) {
+      const list = variantsByProduct.get(variant.productId) || [];
+      list.push(variant);
+      variantsByProduct.set(variant.productId, list);
+    }
+    return productRows.map(product => fromCacheRows(product, variantsByProduct.get(product.id) || []));
+  }
+
+  async getProductCacheStatus(shop: string): Promise<ProductCacheStatus> {
+    const [productTotal, variantTotal, lastFullSyncAt, lastFullSyncPages, lastWebhookAt, lastWebhookTopic] = await Promise.all([
+      db.select({ value: count() }).from(shopifyProducts).where(eq(shopifyProducts.shop, shop)),
+      db.select({ value: count() }).from(shopifyProductVariants)
+        .where(inArray(shopifyProductVariants.productId, shopProductIds(shop))),
+      this.getSystemSetting(productCacheSettingKey('last_full_sync', shop)),
+      this.getSystemSetting(productCacheSettingKey('last_full_sync_pages', shop)),
+      this.getSystemSetting(productCacheSettingKey('last_webhook', shop)),
+      this.getSystemSetting(productCacheSettingKey('last_webhook_topic', shop)),
+    ]);
+
+    return {
+      productCount: Number(productTotal[0]?.value || 0),
+      variantCount: Number(variantTotal[0]?.value || 0),
+      lastFullSyncAt: lastFullSyncAt || null,
+      lastFullSyncPages: lastFullSyncPages ? parseInt(lastFullSyncPages, 10) : null,
+      lastWebhookAt: lastWebhookAt || null,
+      lastWebhookTopic: lastWebhookTopic || null,
+    };
+  }
+
   // ========== SKU-BASED HEALING FUNCTIONS ==========
   
   /**
-   * Validates all part mappings and identifies stale product IDs
+   * Validates all part mappings and identifies stale product IDs. Variant-level mappings are only
+   * healthy while their variant still exists, and are stale (healable) when they have a variant SKU.
    */
-  async validatePartMappings(): Promise<{
-    healthy: Array<{id: string, shopifyProductId: string, expectedSku: string | null}>,
-    stale: Array<{id: string, shopifyProductId: string, expectedSku: string | null}>,
-    missing: Array<{id: string, shopifyProductId: string}>
+  async validatePartMappings(shop: string): Promise<{
+    healthy: Array<{id: string, shopifyProductId: string, shopifyVariantId: string | null, expectedSku: string | null, variantSku: string | null}>,
+    stale: Array<{id: string, shopifyProductId: string, shopifyVariantId: string | null, expectedSku: string | null, variantSku: string | null}>,
+    missing: Array<{id: string, shopifyProductId: string, shopifyVariantId: string | null}>
   }> {
-    const session = getCurrentSession();
-    if (!session) {
-      throw new Error('No Shopify session available for validation');
-    }
-
     // Get all part mappings
-    const mappings = await db.select().from(partMappings);
+    const mappings = await this.getPartMappings(shop);
     
     // Get unique product IDs to check
     const uniqueProductIds = Array.from(new Set(mappings.map(m => m.shopifyProductId)));
     
-    // Fetch products from Shopify to validate IDs
-    const shopifyResponse = await fetchShopifyProductsByIds(session, uniqueProductIds);
+    // Look up products in the local cache to validate IDs
+    const shopifyResponse = await this.getCachedShopifyProductsByIds(shop, uniqueProductIds);
     const existingProducts = shopifyResponse.products || [];
     const existingProductIds = new Set(existingProducts.map((p: any) => p.id.toString()));
+    const existingVariantIds = new Set(existingProducts.flatMap((p: any) => (p.variants || []).map((v: any) => v.id?.toString())));
     
     const healthy = [];
     const stale = [];
     const missing = [];
     
     for (const mapping of mappings) {
-      if (existingProductIds.has(mapping.shopifyProductId)) {
-        healthy.push({
+      const entry = {
+        id: mapping.id,
+        shopifyProductId: mapping.shopifyProductId,
+        shopifyVariantId: mapping.shopifyVariantId,
+        expectedSku: mapping.expectedSku,
+        variantSku: mapping.variantSku
+      };
+      const exists = existingProductIds.has(mapping.shopifyProductId) &&
+        (!mapping.shopifyVariantId || existingVariantIds.has(mapping.shopifyVariantId));
+
+      if (exists) {
+        healthy.push(entry);
+      } else if (mapping.shopifyVariantId ? mapping.variantSku : mapping.expectedSku) {
+        stale.push(entry);
+      } else {
+        missing.push({
           id: mapping.id,
           shopifyProductId: mapping.shopifyProductId,
-          expectedSku: mapping.expectedSku
+          shopifyVariantId: mapping.shopifyVariantId
         });
-      } else {
-        if (mapping.expectedSku) {
-          stale.push({
-            id: mapping.id,
-            shopifyProductId: mapping.shopifyProductId,
-            expectedSku: mapping.expectedSku
-          });
-        } else {
-          missing.push({
-            id: mapping.id,
-            shopifyProductId: mapping.shopifyProductId
-          });
-        }
       }
     }
     
     return { healthy, stale, missing };
   }
+  /**
+   * Checks every fitment against the product cache: SKUs no live product carries, products whose tags
+   * don't fit the category, and tooth ranges that are unreadable or leave none of the group's variants.
+   */
+  async getFitmentQualityReport(shop: string): Promise<FitmentQualityReport> {
+    const [fitments, motorcycleRows, categoryTags, { products }] = await Promise.all([
+      db.select().from(motorcycleFitments).where(eq(motorcycleFitments.shop, shop)),
+      this.getMotorcycles(shop),
+      db.select().from(partCategoryTags).where(eq(partCategoryTags.shop, shop)),
+      this.getCachedShopifyProducts(shop),
+    ]);
+
+    const motorcyclesByRecid = new Map(motorcycleRows.map(motorcycle => [motorcycle.recid, motorcycle]));
+    const expectedTags = new Map(categoryTags.map(tag => [
+      tag.categoryValue,
+      (JSON.parse(tag.productTags || '[]') as string[]).map(productTag => productTag.toLowerCase().trim()),
+    ]));
+    const partsByRecid = new Map<number, MotorcycleParts>();
+    for (const fitment of fitments) {
+      partsByRecid.set(fitment.motorcycleRecid, { ...partsByRecid.get(fitment.motorcycleRecid), [fitment.partCategory]: fitment.sku });
+    }
+
+    // Cached variants by lower-cased SKU, each with the product carrying it
+    const variantsBySku = new Map<string, { product: any, variant: any }[]>();
+    for (const product of products) {
+      for (const variant of product.variants) {
+        if (!variant.sku) continue;
+        const key = variant.sku.toLowerCase().trim();
+        variantsBySku.set(key, [...(variantsBySku.get(key) || []), { product, variant }]);
+      }
+    }
+
+    // Sprocket groups resolve the way getCompatibleParts matches them: product title or variant SKU prefix
+    const groupVariants = (group: string) => {
+      const prefix = group.toLowerCase().trim();
+      return products.flatMap((product: any) => product.variants
+        .filter((variant: any) => product.title?.toLowerCase().trim() === prefix || variant.sku?.toLowerCase().trim().startsWith(prefix))
+        .map((variant: any) => ({ product, variant })));
+    };
+
+    const issues: FitmentQualityIssue[] = [];
+    for (const fitment of fitments) {
+      const motorcycle = motorcyclesByRecid.get(fitment.motorcycleRecid);
+      if (!motorcycle) continue;
+      const value = fitment.sku.trim();
+      const flag = (issue: FitmentQualityIssue['issue'], detail: string) =>
+        issues.push({ fitmentId: fitment.id, motorcycle, partCategory: fitment.partCategory, value, issue, detail });
+
+      if (TOOTH_RANGE_CATEGORIES.includes(fitment.partCategory)) {
+        const groupCategory = fitment.partCategory.replace(/_range$/, '');
+        const group = partsByRecid.get(fitment.motorcycleRecid)?.[groupCategory];
+        const range = parseToothRange(value);
+        if (!range) {
+          flag('invalid_tooth_range', `"${value}" is not a range like 49-51 or 48,50,52`);
+        } else if (!group) {
+          flag('empty_tooth_range', `No ${groupCategory} is assigned, so the range has nothing to filter`);
+        } else {
+          const toothCounts = groupVariants(group)
+            .map(({ variant }) => extractToothCount(variant.sku) || extractToothCount(variant.title))
+            .filter((toothCount): toothCount is number => toothCount !== null);
+          if (!toothCounts.some(toothCount => range.includes(toothCount))) {
+            const available = Array.from(new Set(toothCounts)).sort((a, b) => a - b);
+            flag('empty_tooth_range', available.length > 0
+              ? `No ${group} variant has ${value} teeth (available: ${available.join(', ')})`
+              : `No ${group} variants with a tooth count are cached`);
+          }
+        }
+        continue;
+      }
+
+      const isGroup = fitment.partCategory === 'fcwgroup' || fitment.partCategory === 'rcwgroup';
+      const candidates = isGroup ? groupVariants(value) : variantsBySku.get(value.toLowerCase()) || [];
+      if (candidates.length === 0) {
+        flag('missing_sku', isGroup ? `No cached product title or variant SKU starts with ${value}` : `No cached product or variant has SKU ${value}`);
+        continue;
+      }
+
+      // Cache rows synced before status was stored have none; treat them as live
+      const live = candidates.filter(({ product }) => !product.status || product.status === 'active');
+      if (live.length === 0) {
+        flag('inactive_product', `${candidates[0].product.title} is ${candidates[0].product.status}`);
+        continue;
+      }
+
+      const expected = expectedTags.get(fitment.partCategory) || [];
+      const fitsCategory = (product: any) => (product.tags || '').toLowerCase().split(',').map((tag: string) => tag.trim()).filter(Boolean)
+        .some((tag: string) => expected.some(expectedTag => tag.includes(expectedTag) || expectedTag.includes(tag)));
+      if (expected.length > 0 && !live.some(({ product }) => fitsCategory(product))) {
+        flag('tag_mismatch', `${live[0].product.title} is tagged "${live[0].product.tags || ''}"; ${fitment.partCategory} expects one of ${expected.join(', ')}`);
+      }
+    }
+
+    issues.sort((a, b) =>
+      a.partCategory.localeCompare(b.partCategory) ||
+      a.motorcycle.bikemake.localeCompare(b.motorcycle.bikemake) ||
+      a.motorcycle.bikemodel.localeCompare(b.motorcycle.bikemodel)
+    );
+
+    return { generatedAt: new Date().toISOString(), fitmentCount: fitments.length, issues };
+  }
+
 
   /**
-   * Heals a stale part mapping by finding the product with matching SKU
+   * Heals a stale part mapping by finding the product with matching SKU. Variant-level mappings
+   * only heal to a variant carrying the SKU (pass their variantSku) and are repointed to that variant.
    */
-  async healPartMapping(mappingId: string, expectedSku: string): Promise<{
+  async healPartMapping(shop: string, mappingId: string, expectedSku: string, changedBy: string | null = null): Promise<{
     success: boolean, 
     newProductId?: string,
     message: string
   }> {
-    const session = getCurrentSession();
-    if (!session) {
-      return { success: false, message: 'No Shopify session available' };
-    }
-
     try {
-      // Get all products from Shopify to search for SKU
-      const shopifyResponse = await fetchShopifyProducts(session);
+      const [mapping] = await db.select().from(partMappings)
+        .where(and(eq(partMappings.shop, shop), eq(partMappings.id, mappingId)));
+      if (!mapping) {
+        return { success: false, message: "Part mapping not found" };
+      }
+      const variantLevel = mapping.shopifyVariantId !== null;
+
+      // Get all cached products to search for SKU
+      const shopifyResponse = await this.getCachedShopifyProducts(shop);
       const allProducts = shopifyResponse.products || [];
       
       // Find product containing the expected SKU (check main SKU and variants)
       let matchingProduct = null;
+      let matchingVariant = null;
       for (const product of allProducts) {
         // Check main product SKU
-        if (product.sku && product.sku.toLowerCase().trim() === expectedSku.toLowerCase().trim()) {
+        if (!variantLevel && product.sku && product.sku.toLowerCase().trim() === expectedSku.toLowerCase().trim()) {
           matchingProduct = product;
           break;
         }
@@ -1382,6 +2978,7 @@ export class DatabaseStorage implements IStorage {
           for (const variant of product.variants) {
             if (variant.sku && variant.sku.toLowerCase().trim() === expectedSku.toLowerCase().trim()) {
               matchingProduct = product;
+              matchingVariant = variant;
               break;
             }
           }
@@ -1392,25 +2989,47 @@ export class DatabaseStorage implements IStorage {
       if (!matchingProduct) {
         return { 
           success: false, 
-          message: `No product found with SKU: ${expectedSku}` 
+          message: `No ${variantLevel ? 'variant' : 'product'} found with SKU: ${expectedSku}` 
         };
       }
+
+      const newProductId = matchingProduct.id.toString();
+      const newVariantId = variantLevel ? matchingVariant.id.toString() : null;
       
-      // Update the mapping with the new product ID
-      await db
-        .update(partMappings)
-        .set({
-          shopifyProductId: matchingProduct.id.toString(),
-          productTitle: matchingProduct.title,
-          lastSynced: new Date().toISOString(),
-          status: 'active'
-        })
-        .where(eq(partMappings.id, mappingId));
+      // Update the mapping with the new product ID, recording the old one for revert
+      await db.transaction(async (tx) => {
+        const [previous] = await tx.select().from(partMappings)
+          .where(and(eq(partMappings.shop, shop), eq(partMappings.id, mappingId)))
+          .for('update');
+        if (!previous) return;
+
+        await tx
+          .update(partMappings)
+          .set({
+            shopifyProductId: newProductId,
+            ...(variantLevel ? { shopifyVariantId: newVariantId, variantSku: matchingVariant.sku } : {}),
+            productTitle: matchingProduct.title,
+            lastSynced: new Date().toISOString(),
+            status: 'active'
+          })
+          .where(and(eq(partMappings.shop, shop), eq(partMappings.id, mappingId)));
+
+        await tx.insert(partAssignmentAudit).values({
+          shop,
+          motorcycleRecid: previous.motorcycleRecid,
+          partCategory: PART_MAPPING_AUDIT_CATEGORY,
+          partMappingId: mappingId,
+          previousValue: partMappingAuditValue(previous.shopifyProductId, previous.shopifyVariantId),
+          newValue: partMappingAuditValue(newProductId, newVariantId),
+          source: 'auto_heal',
+          changedBy,
+        });
+      });
       
       return {
         success: true,
-        newProductId: matchingProduct.id.toString(),
-        message: `Healed mapping: ${expectedSku} → ${matchingProduct.title} (ID: ${matchingProduct.id})`
+        newProductId,
+        message: `Healed mapping: ${expectedSku} → ${matchingProduct.title} (ID: ${partMappingAuditValue(newProductId, newVariantId)})`
       };
       
     } catch (error) {
@@ -1424,24 +3043,23 @@ export class DatabaseStorage implements IStorage {
   /**
    * Populates missing SKU and title data for existing part mappings
    */
-  async populatePartMappingMetadata(): Promise<{
+  async populatePartMappingMetadata(shop: string): Promise<{
     updated: number,
     failed: number,
     details: Array<{id: string, sku?: string, title?: string, error?: string}>
   }> {
-    const session = getCurrentSession();
-    if (!session) {
-      throw new Error('No Shopify session available');
-    }
-
-    // Get mappings without expected_sku or product_title
+    // Get mappings without expected_sku or product_title, or variant-level ones without variant_sku
     const mappingsToUpdate = await db
       .select()
       .from(partMappings)
       .where(
-        or(
-          sql`${partMappings.expectedSku} IS NULL`,
-          sql`${partMappings.productTitle} IS NULL`
+        and(
+          eq(partMappings.shop, shop),
+          or(
+            sql`${partMappings.expectedSku} IS NULL`,
+            sql`${partMappings.productTitle} IS NULL`,
+            sql`${partMappings.shopifyVariantId} IS NOT NULL AND ${partMappings.variantSku} IS NULL`
+          )
         )
       );
 
@@ -1452,8 +3070,8 @@ export class DatabaseStorage implements IStorage {
     // Get unique product IDs to fetch
     const uniqueProductIds = Array.from(new Set(mappingsToUpdate.map(m => m.shopifyProductId)));
     
-    // Fetch products from Shopify
-    const shopifyResponse = await fetchShopifyProductsByIds(session, uniqueProductIds);
+    // Look up products in the local cache
+    const shopifyResponse = await this.getCachedShopifyProductsByIds(shop, uniqueProductIds);
     const products = shopifyResponse.products || [];
     
     // Create product lookup map
@@ -1466,7 +3084,11 @@ export class DatabaseStorage implements IStorage {
     for (const mapping of mappingsToUpdate) {
       const product = productMap.get(mapping.shopifyProductId);
       
-      if (product) {
+      const variant = mapping.shopifyVariantId
+        ? (product as any)?.variants?.find((v: any) => v.id?.toString() === mapping.shopifyVariantId)
+        : undefined;
+
+      if (product && (!mapping.shopifyVariantId || variant)) {
         // Get the primary SKU (from first variant or main product)
         const primarySku = (product as any).variants?.[0]?.sku || (product as any).sku || null;
         
@@ -1475,6 +3097,7 @@ export class DatabaseStorage implements IStorage {
             .update(partMappings)
             .set({
               expectedSku: primarySku,
+              ...(variant ? { variantSku: variant.sku || null } : {}),
               productTitle: (product as any).title,
               lastSynced: new Date().toISOString(),
               status: 'active'
@@ -1484,7 +3107,7 @@ export class DatabaseStorage implements IStorage {
           updated++;
           details.push({
             id: mapping.id,
-            sku: primarySku,
+            sku: variant?.sku || primarySku,
             title: (product as any).title
           });
         } catch (error) {
@@ -1498,7 +3121,9 @@ export class DatabaseStorage implements IStorage {
         failed++;
         details.push({
           id: mapping.id,
-          error: `Product ${mapping.shopifyProductId} not found in Shopify`
+          error: product
+            ? `Variant ${mapping.shopifyVariantId} not found on product ${mapping.shopifyProductId}`
+            : `Product ${mapping.shopifyProductId} not found in product cache`
         });
       }
     }
@@ -1509,19 +3134,20 @@ export class DatabaseStorage implements IStorage {
   /**
    * Auto-heals all stale part mappings by finding products with matching SKUs
    */
-  async autoHealAllStalePartMappings(): Promise<{
+  async autoHealAllStalePartMappings(shop: string, changedBy: string | null = null): Promise<{
     healed: number,
     failed: number,
     details: Array<{id: string, message: string}>
   }> {
-    const validation = await this.validatePartMappings();
+    const validation = await this.validatePartMappings(shop);
     
     let healed = 0;
     let failed = 0;
     const details = [];
     
     for (const staleMapping of validation.stale) {
-      const result = await this.healPartMapping(staleMapping.id, staleMapping.expectedSku!);
+      const healSku = staleMapping.shopifyVariantId ? staleMapping.variantSku! : staleMapping.expectedSku!;
+      const result = await this.healPartMapping(shop, staleMapping.id, healSku, changedBy);
       
       if (result.success) {
         healed++;
@@ -1570,10 +3196,63 @@ export class DatabaseStorage implements IStorage {
   async hardDeleteMotorcycleCategoryConfig(id: string): Promise<boolean> {
     // Hard delete for complete removal
     const result = await db.delete(motorcycleCategoryConfig)
-      .where(eq(motorcycleCategoryConfig.id, id));
+      .where(eq(motorcycleCategoryConfig.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Scheduled Jobs
+  async getScheduledJobs(shop: string): Promise<ScheduledJob[]> {
+    return await db.select().from(scheduledJobs).where(eq(scheduledJobs.shop, shop));
+  }
+
+  async saveScheduledJob(shop: string, jobType: ScheduledJobType, job: Pick<ScheduledJob, 'schedule' | 'enabled' | 'nextRunAt'>, updatedBy: string | null): Promise<ScheduledJob> {
+    const result = await db.insert(scheduledJobs)
+      .values({ ...job, shop, jobType, updatedBy })
+      .onConflictDoUpdate({
+        target: [scheduledJobs.shop, scheduledJobs.jobType],
+        set: { ...job, updatedBy, updatedAt: new Date().toISOString() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  // Across all shops - the scheduler is one loop per server
+  async getDueScheduledJobs(now: string): Promise<ScheduledJob[]> {
+    return await db.select().from(scheduledJobs)
+      .where(and(eq(scheduledJobs.enabled, true), lte(scheduledJobs.nextRunAt, now)))
+      .orderBy(asc(scheduledJobs.nextRunAt));
+  }
+
+  // Compare-and-set on nextRunAt so only one server instance runs each due occurrence
+  async claimScheduledJob(id: string, expectedNextRunAt: string, nextRunAt: string | null): Promise<boolean> {
+    const result = await db.update(scheduledJobs)
+      .set({ nextRunAt })
+      .where(and(eq(scheduledJobs.id, id), eq(scheduledJobs.nextRunAt, expectedNextRunAt)))
+      .returning();
     return result.length > 0;
   }
 
+  async createScheduledJobRun(shop: string, run: Pick<ScheduledJobRun, 'jobType' | 'trigger' | 'status' | 'triggeredBy'> & Partial<ScheduledJobRun>): Promise<ScheduledJobRun> {
+    const result = await db.insert(scheduledJobRuns).values({ ...run, shop }).returning();
+    return result[0];
+  }
+
+  async updateScheduledJobRun(id: string, updates: Partial<ScheduledJobRun>): Promise<ScheduledJobRun | undefined> {
+    const result = await db.update(scheduledJobRuns)
+      .set(updates)
+      .where(eq(scheduledJobRuns.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getScheduledJobRuns(shop: string, limit: number = 50): Promise<ScheduledJobRun[]> {
+    return await db.select().from(scheduledJobRuns)
+      .where(eq(scheduledJobRuns.shop, shop))
+      .orderBy(desc(scheduledJobRuns.startedAt))
+      .limit(limit);
+  }
+
   // Advisory Locks - PostgreSQL session-level locks for preventing concurrent operations
   async acquireAdvisoryLock(lockId: number): Promise<boolean> {
     try {
@@ -1597,6 +3276,61 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async withAdvisoryLock<T>(classId: number, key: string, task: () => Promise<T>): Promise<{ acquired: true; result: T } | { acquired: false }> {
+    // Session locks belong to a connection, so lock and unlock go through one reserved connection. The task runs
+    // on the pool: a second run can't re-enter the lock through the same session.
+    const lockConnection = await sqlConnection.reserve();
+    try {
+      const locked = await lockConnection`SELECT pg_try_advisory_lock(${classId}, hashtext(${key})) as acquired`;
+      if (!locked[0]?.acquired) return { acquired: false };
+      try {
+        return { acquired: true, result: await task() };
+      } finally {
+        await lockConnection`SELECT pg_advisory_unlock(${classId}, hashtext(${key}))`;
+      }
+    } finally {
+      lockConnection.release();
+    }
+  }
+
+  // Admin Users
+  async getAdminUsers(): Promise<AdminUser[]> {
+    return await db.select().from(adminUsers).orderBy(asc(adminUsers.username));
+  }
+
+  async getAdminUser(id: string): Promise<AdminUser | undefined> {
+    const result = await db.select().from(adminUsers).where(eq(adminUsers.id, id));
+    return result[0];
+  }
+
+  async getAdminUserByUsername(username: string): Promise<AdminUser | undefined> {
+    const result = await db.select().from(adminUsers).where(eq(adminUsers.username, username));
+    return result[0];
+  }
+
+  async countAdminUsers(): Promise<number> {
+    const result = await db.select({ count: count() }).from(adminUsers);
+    return Number(result[0]?.count ?? 0);
+  }
+
+  async createAdminUser(user: Pick<AdminUser, 'username' | 'passwordHash' | 'role'>): Promise<AdminUser> {
+    const result = await db.insert(adminUsers).values(user).returning();
+    return result[0];
+  }
+
+  async updateAdminUser(id: string, updates: Partial<Pick<AdminUser, 'passwordHash' | 'role' | 'lastLoginAt'>>): Promise<AdminUser | undefined> {
+    const result = await db.update(adminUsers)
+      .set({ ...updates, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(adminUsers.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteAdminUser(id: string): Promise<boolean> {
+    const result = await db.delete(adminUsers).where(eq(adminUsers.id, id)).returning();
+    return result.length > 0;
+  }
+
   // System Settings
   async getSystemSetting(key: string): Promise<string | undefined> {
     const result = await db.select().from(systemSettings).where(eq(systemSettings.settingKey, key));
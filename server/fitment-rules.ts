@@ -0,0 +1,63 @@
+import {
+  type Motorcycle,
+  type MotorcycleParts,
+  type BulkAssignmentFilter,
+  type FitmentRule,
+  type RuleFitment,
+  type EffectiveMotorcycleParts
+} from "@shared/schema";
+
+// Case-insensitive whole-value match where * stands for any characters, e.g. "*SX-F*"
+export function wildcardPattern(pattern: string): RegExp {
+  return new RegExp(`^${pattern.split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+}
+
+// Same semantics as the SQL filter used for bulk assignment: years by containment, make case-insensitive
+export function motorcycleMatchesFilter(motorcycle: Motorcycle, filter: BulkAssignmentFilter): boolean {
+  if (filter.bikemake && motorcycle.bikemake.toLowerCase() !== filter.bikemake.toLowerCase()) return false;
+  if (filter.modelPattern && !wildcardPattern(filter.modelPattern).test(motorcycle.bikemodel)) return false;
+  if (filter.yearFrom !== undefined && motorcycle.firstyear < filter.yearFrom) return false;
+  if (filter.yearTo !== undefined && motorcycle.lastyear > filter.yearTo) return false;
+  if (filter.bikeCategory && motorcycle.bikeCategory !== filter.bikeCategory) return false;
+  if (filter.bikeSubcategory && motorcycle.bikeSubcategory !== filter.bikeSubcategory) return false;
+  if (filter.minCapacity !== undefined && (motorcycle.capacity ?? -Infinity) < filter.minCapacity) return false;
+  if (filter.maxCapacity !== undefined && (motorcycle.capacity ?? Infinity) > filter.maxCapacity) return false;
+  return true;
+}
+
+// Part conditions look only at explicit assignments, so one rule's output never triggers another
+export function motorcycleMatchesRule(rule: Pick<FitmentRule, 'conditions'>, motorcycle: Motorcycle, explicitParts: MotorcycleParts): boolean {
+  if (!motorcycleMatchesFilter(motorcycle, rule.conditions)) return false;
+  return Object.entries(rule.conditions.partValues || {}).every(([partCategory, pattern]) =>
+    explicitParts[partCategory] !== undefined && wildcardPattern(pattern).test(explicitParts[partCategory].trim())
+  );
+}
+
+// Highest priority first; ties go to the older rule
+export function sortFitmentRules(rules: FitmentRule[]): FitmentRule[] {
+  return [...rules].sort((a, b) => b.priority - a.priority || a.createdAt.localeCompare(b.createdAt));
+}
+
+// Merge rule-supplied values under a motorcycle's explicit assignments. Only the winning rule per category is reported.
+export function applyFitmentRules(rules: FitmentRule[], motorcycle: Motorcycle, explicitParts: MotorcycleParts): EffectiveMotorcycleParts {
+  const parts: MotorcycleParts = { ...explicitParts };
+  const ruleFitments: RuleFitment[] = [];
+  const claimed = new Set<string>();
+
+  for (const rule of sortFitmentRules(rules)) {
+    if (!rule.enabled || !motorcycleMatchesRule(rule, motorcycle, explicitParts)) continue;
+
+    for (const [partCategory, sku] of Object.entries(rule.assignments)) {
+      if (claimed.has(partCategory)) continue;
+      claimed.add(partCategory);
+
+      const overridden = explicitParts[partCategory] !== undefined;
+      if (!overridden) {
+        parts[partCategory] = sku;
+      }
+      ruleFitments.push({ partCategory, sku, ruleId: rule.id, ruleName: rule.name, overridden });
+    }
+  }
+
+  return { parts, ruleFitments };
+}
@@ -3,21 +3,38 @@ import express, { type Request, Response, NextFunction } from "express";
 import cookieParser from "cookie-parser";
 import cors from "cors";
 import { registerRoutes } from "./routes";
+import { isAppOrigin, requireAppOrigin } from "./auth";
 import { setupVite, serveStatic, log } from "./vite";
 
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
 const app = express();
 
-// Configure CORS to allow Shopify and other domains
-app.use(cors({
-  origin: true, // Allow all origins for debugging - can restrict later
-  credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['*'],
-  exposedHeaders: ['*']
+// Credentialed CORS only for the app's own origins, so other sites can't read the admin API as a logged-in admin.
+// Storefront routes take no cookies and answer any shop's domain.
+app.use(cors<Request>((req, callback) => {
+  const origin = req.get('Origin');
+  if (origin && isAppOrigin(req, origin)) {
+    return callback(null, { origin: true, credentials: true, methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'] });
+  }
+  callback(null, { origin: req.path.startsWith('/api/customer/'), credentials: false, methods: ['GET', 'POST', 'OPTIONS'] });
 }));
+app.use(requireAppOrigin);
 
-app.use(cookieParser());
-app.use(express.json());
+// Signed cookies carry the logged-in shop for admin requests
+app.use(cookieParser(process.env.SESSION_SECRET || process.env.SHOPIFY_API_SECRET));
+// Keep the raw request body so Shopify webhook HMAC signatures can be verified
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -0,0 +1,129 @@
+import { storage } from "./storage";
+import { nextCronRun } from "./cron";
+import {
+  SCHEDULED_JOB_TYPES,
+  type ScheduledJobType,
+  type ScheduledJobTrigger,
+  type ScheduledJobRun
+} from "@shared/schema";
+
+// How often due jobs are looked for; schedules therefore have minute resolution at best
+const SCHEDULER_TICK_MS = 60 * 1000;
+
+// Advisory lock classes start here, one per job type; the shop is the second lock key
+const JOB_LOCK_BASE_ID = 1300000000;
+
+type JobOutcome = { summary: string; result: unknown };
+
+const jobRunners: Record<ScheduledJobType, (shop: string, changedBy: string | null) => Promise<JobOutcome>> = {
+  validate_mappings: async (shop) => {
+    const result = await storage.validatePartMappings(shop);
+    return {
+      summary: `${result.healthy.length} healthy, ${result.stale.length} stale, ${result.missing.length} missing SKUs`,
+      // Healthy mappings are only counted - the findings are the stale and missing ones
+      result: { healthy: result.healthy.length, stale: result.stale, missing: result.missing },
+    };
+  },
+  heal_stale_mappings: async (shop, changedBy) => {
+    const result = await storage.autoHealAllStalePartMappings(shop, changedBy);
+    return { summary: `${result.healed} healed, ${result.failed} failed`, result };
+  },
+  populate_mapping_metadata: async (shop) => {
+    const result = await storage.populatePartMappingMetadata(shop);
+    return { summary: `${result.updated} updated, ${result.failed} failed`, result };
+  },
+};
+
+export function isScheduledJobType(value: string): value is ScheduledJobType {
+  return (SCHEDULED_JOB_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Run one job now and record it in scheduled_job_runs. If the same job is already running for the shop
+ * (here or on another server) the run is recorded as skipped rather than waiting. Never throws for job
+ * failures - they are recorded on the run.
+ */
+export async function runScheduledJob(shop: string, jobType: ScheduledJobType, trigger: ScheduledJobTrigger, triggeredBy: string | null): Promise<ScheduledJobRun> {
+  const lockClass = JOB_LOCK_BASE_ID + SCHEDULED_JOB_TYPES.indexOf(jobType);
+
+  const locked = await storage.withAdvisoryLock(lockClass, shop, async () => {
+    const startedAt = Date.now();
+    const run = await storage.createScheduledJobRun(shop, { jobType, trigger, status: 'running', triggeredBy });
+    console.log(`⏱️ Running ${jobType} for ${shop} (${trigger})`);
+
+    try {
+      const { summary, result } = await jobRunners[jobType](shop, triggeredBy);
+      console.log(`✅ ${jobType} for ${shop}: ${summary}`);
+      return (await storage.updateScheduledJobRun(run.id, {
+        status: 'success',
+        summary,
+        result,
+        finishedAt: new Date().toISOString(),
+        durationMs: Date.now() - startedAt,
+      }))!;
+    } catch (error) {
+      console.error(`❌ ${jobType} for ${shop} failed:`, error);
+      return (await storage.updateScheduledJobRun(run.id, {
+        status: 'error',
+        errorMessage: (error as Error).message,
+        finishedAt: new Date().toISOString(),
+        durationMs: Date.now() - startedAt,
+      }))!;
+    }
+  });
+  if (locked.acquired) return locked.result;
+
+  console.log(`⏭️ Skipping ${jobType} for ${shop}: already running`);
+  return await storage.createScheduledJobRun(shop, {
+    jobType,
+    trigger,
+    status: 'skipped',
+    triggeredBy,
+    summary: 'Another run of this job was still in progress',
+    finishedAt: new Date().toISOString(),
+    durationMs: 0,
+  });
+}
+
+// Claim and run every job whose next run time has passed. Jobs run one after another.
+async function runDueJobs() {
+  const now = new Date();
+  const dueJobs = await storage.getDueScheduledJobs(now.toISOString());
+
+  for (const job of dueJobs) {
+    if (!isScheduledJobType(job.jobType)) continue;
+
+    // Scheduled from now rather than the missed time, so downtime doesn't cause a burst of catch-up runs
+    let nextRunAt: string | null = null;
+    try {
+      nextRunAt = nextCronRun(job.schedule, now)?.toISOString() ?? null;
+    } catch (error) {
+      console.error(`Invalid schedule "${job.schedule}" for ${job.jobType} (${job.shop}):`, error);
+    }
+
+    if (!(await storage.claimScheduledJob(job.id, job.nextRunAt!, nextRunAt))) continue;
+    await runScheduledJob(job.shop, job.jobType, 'schedule', null);
+  }
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let tickInProgress = false;
+
+export function startJobScheduler() {
+  if (schedulerTimer) return;
+
+  schedulerTimer = setInterval(async () => {
+    // A long job can outlast the tick; the claim already protects against double runs, this just avoids piling up
+    if (tickInProgress) return;
+    tickInProgress = true;
+    try {
+      await runDueJobs();
+    } catch (error) {
+      console.error('Scheduled job tick failed:', error);
+    } finally {
+      tickInProgress = false;
+    }
+  }, SCHEDULER_TICK_MS);
+
+  console.log('⏱️ Mapping job scheduler started');
+}
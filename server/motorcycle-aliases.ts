@@ -0,0 +1,143 @@
+import {
+  motorcycleNameKey,
+  type Motorcycle,
+  type MotorcycleAlias,
+  type InsertMotorcycleAlias,
+  type MotorcycleNameDuplicate
+} from "@shared/schema";
+
+// Longest alias, in words, a search is checked for ("gas gas", "sx f 250")
+const MAX_ALIAS_WORDS = 4;
+
+export type MotorcycleNormalizer = {
+  make(value: string): string;
+  model(bikemake: string, value: string): string; // bikemake as already normalized
+};
+
+const modelLookupKey = (bikemake: string, model: string) => `${motorcycleNameKey(bikemake)}|${motorcycleNameKey(model)}`;
+
+// Spellings of each key, most used first (ties alphabetically)
+function spellingsByKey(values: string[], keyOf: (value: string) => string): Map<string, { value: string, count: number }[]> {
+  const counts = new Map<string, Map<string, number>>();
+  for (const value of values) {
+    const key = keyOf(value);
+    const spellings = counts.get(key) || new Map<string, number>();
+    spellings.set(value, (spellings.get(value) || 0) + 1);
+    counts.set(key, spellings);
+  }
+  return new Map(Array.from(counts.entries()).map(([key, spellings]) => [
+    key,
+    Array.from(spellings.entries())
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+  ]));
+}
+
+// Canonical spellings by alias key. Model aliases for one make win over those for any make.
+function aliasLookup(aliases: MotorcycleAlias[]) {
+  const makes = new Map<string, string>();
+  const models = new Map<string, string>();
+  const anyMakeModels = new Map<string, string>();
+  for (const alias of aliases) {
+    if (alias.kind === 'make') {
+      makes.set(alias.aliasKey, alias.canonical);
+    } else if (alias.bikemake) {
+      models.set(`${motorcycleNameKey(alias.bikemake)}|${alias.aliasKey}`, alias.canonical);
+    } else {
+      anyMakeModels.set(alias.aliasKey, alias.canonical);
+    }
+  }
+  return {
+    make: (value: string) => makes.get(motorcycleNameKey(value)),
+    model: (bikemake: string, value: string) => models.get(modelLookupKey(bikemake, value)) ?? anyMakeModels.get(motorcycleNameKey(value)),
+  };
+}
+
+// Aliases first; otherwise the most used existing spelling with the same letters and digits, so "HUSQVARNA"
+// is stored as "Husqvarna" once that exists. Anything else is kept as given.
+export function createMotorcycleNormalizer(aliases: MotorcycleAlias[], motorcycles: Motorcycle[]): MotorcycleNormalizer {
+  const lookup = aliasLookup(aliases);
+  const makeSpellings = spellingsByKey(motorcycles.map(motorcycle => motorcycle.bikemake), motorcycleNameKey);
+  const modelSpellings = spellingsByKey(
+    motorcycles.map(motorcycle => `${motorcycle.bikemake}|${motorcycle.bikemodel}`),
+    value => modelLookupKey(value.slice(0, value.indexOf('|')), value.slice(value.indexOf('|') + 1))
+  );
+
+  return {
+    make: (value) => lookup.make(value) ?? makeSpellings.get(motorcycleNameKey(value))?.[0].value ?? value,
+    model: (bikemake, value) => {
+      const existing = modelSpellings.get(modelLookupKey(bikemake, value))?.[0].value;
+      return lookup.model(bikemake, value) ?? (existing !== undefined ? existing.slice(existing.indexOf('|') + 1) : value);
+    },
+  };
+}
+
+// Rewrites aliases in a search to their canonical spelling, longest first: "husky fc 450" -> "Husqvarna fc 450".
+// Make and model aliases both apply, whatever make a model alias is for.
+export function expandSearchAliases(query: string, aliases: MotorcycleAlias[]): string {
+  if (aliases.length === 0) return query;
+
+  const canonicalByKey = new Map(aliases.map(alias => [alias.aliasKey, alias.canonical]));
+  const words = query.trim().split(/\s+/).filter(word => word.length > 0);
+  const expanded: string[] = [];
+
+  for (let i = 0; i < words.length;) {
+    let length = Math.min(MAX_ALIAS_WORDS, words.length - i);
+    for (; length > 0; length--) {
+      const canonical = canonicalByKey.get(motorcycleNameKey(words.slice(i, i + length).join('')));
+      if (canonical !== undefined) {
+        expanded.push(canonical);
+        break;
+      }
+    }
+    if (length === 0) {
+      expanded.push(words[i]);
+      length = 1;
+    }
+    i += length;
+  }
+
+  return expanded.join(' ');
+}
+
+// Makes, and models within a make, stored under more than one spelling of the same letters and digits
+export function findMotorcycleNameDuplicates(motorcycles: Motorcycle[], aliases: MotorcycleAlias[]): MotorcycleNameDuplicate[] {
+  const lookup = aliasLookup(aliases);
+  const duplicates: MotorcycleNameDuplicate[] = [];
+
+  for (const [key, spellings] of Array.from(spellingsByKey(motorcycles.map(motorcycle => motorcycle.bikemake), motorcycleNameKey))) {
+    if (spellings.length < 2) continue;
+    duplicates.push({ kind: 'make', bikemake: null, key, spellings, canonical: lookup.make(spellings[0].value) ?? null });
+  }
+
+  // Models are grouped under the make's most used spelling, so "KTM 250 SX-F" and "ktm 250 SXF" land together
+  const makeSpelling = new Map(Array.from(spellingsByKey(motorcycles.map(motorcycle => motorcycle.bikemake), motorcycleNameKey))
+    .map(([key, spellings]) => [key, spellings[0].value]));
+  const modelsByMake = new Map<string, string[]>();
+  for (const motorcycle of motorcycles) {
+    const bikemake = makeSpelling.get(motorcycleNameKey(motorcycle.bikemake))!;
+    modelsByMake.set(bikemake, [...(modelsByMake.get(bikemake) || []), motorcycle.bikemodel]);
+  }
+  for (const [bikemake, models] of Array.from(modelsByMake)) {
+    for (const [key, spellings] of Array.from(spellingsByKey(models, motorcycleNameKey))) {
+      if (spellings.length < 2) continue;
+      duplicates.push({ kind: 'model', bikemake, key, spellings, canonical: lookup.model(bikemake, spellings[0].value) ?? null });
+    }
+  }
+
+  const total = (duplicate: MotorcycleNameDuplicate) => duplicate.spellings.reduce((sum, spelling) => sum + spelling.count, 0);
+  return duplicates.sort((a, b) => total(b) - total(a) || a.key.localeCompare(b.key));
+}
+
+// Seed aliases from the stored values: each duplicate no alias covers yet gets one alias (all its spellings share
+// the key) pointing at its most used spelling
+export function seedAliasesFromDuplicates(duplicates: MotorcycleNameDuplicate[]): InsertMotorcycleAlias[] {
+  return duplicates
+    .filter(duplicate => duplicate.canonical === null)
+    .map(duplicate => ({
+      kind: duplicate.kind,
+      alias: duplicate.spellings[1].value,
+      canonical: duplicate.spellings[0].value,
+      bikemake: duplicate.bikemake,
+    }));
+}
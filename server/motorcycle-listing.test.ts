@@ -0,0 +1,157 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { pg_trgm } from "@electric-sql/pglite/contrib/pg_trgm";
+import { drizzle } from "drizzle-orm/pglite";
+import { motorcycles, type Motorcycle } from "@shared/schema";
+import { motorcycleSearchScore, motorcycleSearchSql, parseMotorcycleSearch, rankMotorcycleSearch } from "./motorcycle-listing";
+
+const bike = (recid: number, bikemake: string, bikemodel: string, firstyear: number, lastyear: number) =>
+  ({ recid, bikemake, bikemodel, firstyear, lastyear }) as Motorcycle;
+
+const catalog = [
+  bike(1, "Yamaha", "YZ250F", 2010, 2013),
+  bike(2, "Yamaha", "YZ250F", 2001, 2009),
+  bike(3, "Yamaha", "YZ250FX", 2015, 2020),
+  bike(4, "Yamaha", "YZ250", 2005, 2020),
+  bike(5, "Honda", "CRF450R", 2017, 2020),
+  bike(6, "Honda", "CRF 450X", 2005, 2017),
+  bike(7, "Honda", "CRF450RX", 2017, 2020),
+  bike(8, "Honda", "CBR600RR", 2007, 2012),
+  bike(9, "Kawasaki", "KX450F", 2009, 2015),
+  bike(10, "Suzuki", "RM-Z450", 2008, 2017),
+  bike(11, "Harley-Davidson", "Road King", 1994, 2020),
+  bike(12, "KTM", "SX-F 350", 2011, 2022),
+];
+
+const search = (query: string) => rankMotorcycleSearch(catalog, parseMotorcycleSearch(query));
+const recids = (query: string) => search(query).map(motorcycle => motorcycle.recid);
+
+describe("parseMotorcycleSearch", () => {
+  it("treats a bare number as a RECID", () => {
+    assert.deepEqual(parseMotorcycleSearch(" 42 "), { recid: 42, year: null, words: [] });
+  });
+
+  it("takes a 4-digit year out of the words", () => {
+    assert.deepEqual(parseMotorcycleSearch("YZ250F 2012"), { recid: null, year: 2012, words: ["yz250f"] });
+  });
+
+  it("splits on anything but letters and digits", () => {
+    assert.deepEqual(parseMotorcycleSearch("RM-Z 450").words, ["rm", "z", "450"]);
+  });
+});
+
+describe("motorcycle search", () => {
+  it("finds a make and model despite a typo", () => {
+    assert.deepEqual(search("yamha yz250f")[0], catalog[0]);
+    assert.ok(!recids("yamha yz250f").includes(4), "the YZ250 is too far off once the make is misspelled");
+  });
+
+  it("ranks the bike spelled without spaces first for a spaced search", () => {
+    assert.deepEqual(recids("crf 450r"), [5, 7, 6]);
+    assert.deepEqual(recids("rm z 450"), [10]);
+  });
+
+  it("only keeps bikes made in the searched year", () => {
+    assert.deepEqual(recids("yz250f 2010"), [1, 4]);
+    assert.deepEqual(recids("yz250f 2005"), [2, 4]);
+    assert.deepEqual(recids("yz250f 1999"), []);
+  });
+
+  it("ranks exact hits over prefix hits over fuzzy ones", () => {
+    const scores = search("yz250f").map(motorcycle => motorcycleSearchScore(motorcycle, parseMotorcycleSearch("yz250f")));
+    assert.deepEqual(recids("yz250f"), [1, 2, 3, 4], "exact (newest year first), then YZ250FX, then YZ250");
+    assert.deepEqual(scores, [1, 1, 0.8571, 0.7143]);
+  });
+
+  it("matches a RECID exactly", () => {
+    assert.deepEqual(recids("8"), [8]);
+  });
+
+  it("finds nothing for a search unlike any bike", () => {
+    assert.deepEqual(recids("vespa primavera"), []);
+  });
+});
+
+// The in-memory storage relies on motorcycleSearchScore agreeing with what Postgres returns for motorcycleSearchSql
+describe("in-memory search scoring matches pg_trgm", () => {
+  let client: PGlite;
+  let db: ReturnType<typeof drizzle>;
+
+  before(async () => {
+    client = new PGlite({ extensions: { pg_trgm } });
+    await client.exec(`
+      CREATE EXTENSION pg_trgm;
+      CREATE TABLE motorcycles (shop text, recid integer, bikemake text, bikemodel text, firstyear integer, lastyear integer);
+    `);
+    for (const motorcycle of catalog) {
+      await client.query(
+        "INSERT INTO motorcycles (recid, bikemake, bikemodel, firstyear, lastyear) VALUES ($1, $2, $3, $4, $5)",
+        [motorcycle.recid, motorcycle.bikemake, motorcycle.bikemodel, motorcycle.firstyear, motorcycle.lastyear]
+      );
+    }
+    db = drizzle(client);
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  const queries = [
+    "yamha yz250f", "crf 450r", "yz250f", "yz250f 2010", "kx 450", "rmz450", "rm-z 450", "honda crf", "cbr",
+    "yamaha", "harley road king", "road kng", "sxf350", "ktm sx-f", "crf450 rx", "kawasaki kx450f 2012", "zz250",
+  ];
+
+  for (const query of queries) {
+    it(`scores "${query}" like word_similarity`, async () => {
+      const parsed = parseMotorcycleSearch(query);
+      const { condition, score } = motorcycleSearchSql(parsed);
+      const rows = await db.select({ recid: motorcycles.recid, score }).from(motorcycles).where(condition);
+
+      const fromSql = new Map(rows.map(row => [row.recid, row.score]));
+      const inMemory = new Map(catalog
+        .map(motorcycle => [motorcycle.recid, motorcycleSearchScore(motorcycle, parsed)] as const)
+        .filter((entry): entry is readonly [number, number] => entry[1] !== null));
+      assert.deepEqual(inMemory, fromSql);
+    });
+  }
+});
+
+describe("search without pg_trgm", () => {
+  let client: PGlite;
+  let db: ReturnType<typeof drizzle>;
+
+  before(async () => {
+    client = new PGlite();
+    await client.exec(`CREATE TABLE motorcycles (shop text, recid integer, bikemake text, bikemodel text, firstyear integer, lastyear integer);`);
+    for (const motorcycle of catalog) {
+      await client.query(
+        "INSERT INTO motorcycles (recid, bikemake, bikemodel, firstyear, lastyear) VALUES ($1, $2, $3, $4, $5)",
+        [motorcycle.recid, motorcycle.bikemake, motorcycle.bikemodel, motorcycle.firstyear, motorcycle.lastyear]
+      );
+    }
+    db = drizzle(client);
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  const fallbackSearch = async (query: string) => {
+    const { condition, score } = motorcycleSearchSql(parseMotorcycleSearch(query), false);
+    const rows = await db.select({ recid: motorcycles.recid, score }).from(motorcycles).where(condition).orderBy(motorcycles.recid);
+    return rows.map(row => [row.recid, row.score]);
+  };
+
+  it("matches the search with its spaces removed as a substring", async () => {
+    assert.deepEqual(await fallbackSearch("crf 450r"), [[5, 1], [7, 1]]);
+  });
+
+  it("matches every word anywhere in make and model", async () => {
+    assert.deepEqual(await fallbackSearch("yamaha yz250f 2012"), [[1, 0.5]]);
+  });
+
+  it("finds nothing for a typo", async () => {
+    assert.deepEqual(await fallbackSearch("yamha yz250f"), []);
+  });
+});
@@ -0,0 +1,271 @@
+import { and, eq, gte, lte, sql, type SQL } from "drizzle-orm";
+import {
+  motorcycles,
+  motorcycleSearchText,
+  type Motorcycle,
+  type MotorcycleListQuery,
+  type MotorcycleListPage,
+  type MotorcycleSortField
+} from "@shared/schema";
+
+type SortKey = Array<string | number>;
+
+// A listed motorcycle with its search relevance (0 when there's no search)
+export type ScoredMotorcycle = { motorcycle: Motorcycle, score: number };
+
+// Columns each sort orders by, most significant first; recid last so every key is unique. A missing capacity sorts as 0.
+export const MOTORCYCLE_SORT_KEYS: Record<MotorcycleSortField, (entry: ScoredMotorcycle) => SortKey> = {
+  relevance: ({ motorcycle, score }) => [score, motorcycle.recid],
+  make: ({ motorcycle }) => [motorcycle.bikemake, motorcycle.bikemodel, motorcycle.firstyear, motorcycle.recid],
+  model: ({ motorcycle }) => [motorcycle.bikemodel, motorcycle.bikemake, motorcycle.firstyear, motorcycle.recid],
+  year: ({ motorcycle }) => [motorcycle.firstyear, motorcycle.bikemake, motorcycle.bikemodel, motorcycle.recid],
+  capacity: ({ motorcycle }) => [motorcycle.capacity ?? 0, motorcycle.bikemake, motorcycle.bikemodel, motorcycle.recid],
+  recid: ({ motorcycle }) => [motorcycle.recid],
+};
+
+// What a cursor's key must hold for each sort
+const SORT_KEY_TYPES: Record<MotorcycleSortField, Array<'string' | 'number'>> = {
+  relevance: ['number', 'number'],
+  make: ['string', 'string', 'number', 'number'],
+  model: ['string', 'string', 'number', 'number'],
+  year: ['number', 'string', 'string', 'number'],
+  capacity: ['number', 'string', 'string', 'number'],
+  recid: ['number'],
+};
+
+type MotorcycleCursor = { sort: MotorcycleSortField, order: 'asc' | 'desc', key: SortKey };
+
+// Opaque to clients: the sort key of the last motorcycle on a page
+export function encodeMotorcycleCursor(cursor: MotorcycleCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// The sort key to continue after, or null if the cursor is malformed or was issued for a different sort
+export function decodeMotorcycleCursor(cursor: string, query: Pick<MotorcycleListQuery, 'sort' | 'order'>): SortKey | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString()) as Partial<MotorcycleCursor>;
+    if (decoded.sort !== query.sort || decoded.order !== query.order || !Array.isArray(decoded.key)) return null;
+    const expectedTypes = SORT_KEY_TYPES[query.sort];
+    if (decoded.key.length !== expectedTypes.length || decoded.key.some((value, i) => typeof value !== expectedTypes[i])) return null;
+    return decoded.key;
+  } catch {
+    return null;
+  }
+}
+
+// pg_trgm's default word_similarity_threshold, which the SQL search's <% operator applies
+export const MOTORCYCLE_SEARCH_THRESHOLD = 0.6;
+
+export type MotorcycleSearch = {
+  recid: number | null; // Set when the whole search is a number
+  year: number | null;
+  words: string[]; // Lowercase letter/digit runs of the search, without its year
+};
+
+// A bare number is a RECID and a 4-digit year narrows by production years; the rest is matched fuzzily
+export function parseMotorcycleSearch(search: string): MotorcycleSearch {
+  const searchTerm = search.toLowerCase().trim();
+  const numericRecid = parseInt(searchTerm);
+  if (!isNaN(numericRecid) && searchTerm === numericRecid.toString()) {
+    return { recid: numericRecid, year: null, words: [] };
+  }
+
+  const yearMatch = searchTerm.match(/\b(19\d{2}|20\d{2})\b/);
+  const withoutYear = yearMatch ? searchTerm.replace(/\b(19\d{2}|20\d{2})\b/g, ' ') : searchTerm;
+
+  return {
+    recid: null,
+    year: yearMatch ? parseInt(yearMatch[0]) : null,
+    words: withoutYear.split(/[^a-z0-9]+/).filter(word => word.length > 0),
+  };
+}
+
+// Scores are rounded so they survive a round trip through a cursor; the SQL rounds the same way
+export const roundSearchScore = (score: number) => Math.round(score * 10000) / 10000;
+
+// In-memory copy of motorcycleSearchText
+const searchTextOf = (motorcycle: Motorcycle) =>
+  `${motorcycle.bikemake} ${motorcycle.bikemodel} ${motorcycle.bikemodel.replace(/[^a-zA-Z0-9]+/g, '')}`.toLowerCase();
+
+// pg_trgm's trigrams in text order: each letter/digit run padded with two spaces in front and one behind
+function trigrams(text: string): string[] {
+  const result: string[] = [];
+  for (const word of text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 0)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      result.push(padded.slice(i, i + 3));
+    }
+  }
+  return result;
+}
+
+// pg_trgm's word_similarity (calc_word_similarity and iterate_word_similarity in trgm_op.c): the best
+// count / (query trigrams + stretch trigrams - count) over contiguous stretches of the text, found the same greedy way
+function wordSimilarity(query: string, text: string): number {
+  const queryTrigrams = new Set(trigrams(query));
+  const textTrigrams = trigrams(text);
+  if (queryTrigrams.size === 0) return 0;
+  // pg_trgm computes in float4
+  const similarity = (count: number, stretchSize: number) => Math.fround(count / (queryTrigrams.size + stretchSize - count));
+
+  const lastPosition = new Map<string, number>();
+  let stretchSize = 0; // Distinct trigrams in the stretch
+  let count = 0; // Distinct query trigrams in the stretch
+  let lower = -1;
+  let best = 0;
+
+  for (let i = 0; i < textTrigrams.length; i++) {
+    const trigram = textTrigrams[i];
+    const inQuery = queryTrigrams.has(trigram);
+    if (lower >= 0 || inQuery) {
+      if (!lastPosition.has(trigram)) {
+        stretchSize++;
+        if (inQuery) count++;
+      }
+      lastPosition.set(trigram, i);
+    }
+    if (!inQuery) continue;
+
+    if (lower === -1) {
+      lower = i;
+      stretchSize = 1;
+    }
+    let current = similarity(count, stretchSize);
+
+    // Try moving the stretch's start forward for a better score
+    let candidateCount = count;
+    let candidateSize = stretchSize;
+    const previousLower = lower;
+    for (let candidateLower = lower; candidateLower <= i; candidateLower++) {
+      const candidate = similarity(candidateCount, candidateSize);
+      if (candidate > current) {
+        current = candidate;
+        stretchSize = candidateSize;
+        lower = candidateLower;
+        count = candidateCount;
+      }
+      const dropped = textTrigrams[candidateLower];
+      if (lastPosition.get(dropped) === candidateLower) {
+        candidateSize--;
+        if (queryTrigrams.has(dropped)) candidateCount--;
+      }
+    }
+    best = Math.max(best, current);
+
+    for (let dropped = previousLower; dropped < lower; dropped++) {
+      if (lastPosition.get(textTrigrams[dropped]) === dropped) lastPosition.delete(textTrigrams[dropped]);
+    }
+  }
+  return best;
+}
+
+// Relevance of a motorcycle to a search, or null if it doesn't match; the in-memory storage's copy of the SQL search.
+// The search is scored as typed and with its spaces removed, so "crf 450r" ranks CRF450R above CRF 450X.
+export function motorcycleSearchScore(motorcycle: Motorcycle, search: MotorcycleSearch): number | null {
+  if (search.recid !== null) return motorcycle.recid === search.recid ? 1 : null;
+  if (search.year !== null && (motorcycle.firstyear > search.year || motorcycle.lastyear < search.year)) return null;
+  if (search.words.length === 0) return 0;
+
+  const searchText = searchTextOf(motorcycle);
+  const compactQuery = search.words.join('');
+  const score = Math.max(wordSimilarity(search.words.join(' '), searchText), wordSimilarity(compactQuery, searchText));
+
+  return score >= MOTORCYCLE_SEARCH_THRESHOLD || searchText.includes(compactQuery) ? roundSearchScore(score) : null;
+}
+
+// Fuzzy search over the trigram-indexed motorcycleSearchText: pg_trgm word similarity (<%, threshold 0.6) of the
+// search as typed or with its spaces removed, or the latter as a substring. The score is the better word similarity,
+// rounded like roundSearchScore. Without pg_trgm (trigram false) it falls back to substring matching: every word, or
+// the search with its spaces removed, must appear; the latter scores 1 and the former 0.5.
+export function motorcycleSearchSql(search: MotorcycleSearch, trigram = true): { condition: SQL, score: SQL<number> } {
+  if (search.recid !== null) {
+    return { condition: eq(motorcycles.recid, search.recid), score: sql<number>`1::float8` };
+  }
+
+  const conditions: SQL[] = [];
+  if (search.year !== null) {
+    conditions.push(lte(motorcycles.firstyear, search.year), gte(motorcycles.lastyear, search.year));
+  }
+  if (search.words.length === 0) {
+    return { condition: and(...conditions)!, score: sql<number>`0::float8` };
+  }
+
+  const searchText = motorcycleSearchText(motorcycles.bikemake, motorcycles.bikemodel);
+  const query = search.words.join(' ');
+  const compactQuery = search.words.join('');
+  if (!trigram) {
+    const containsCompact = sql`${searchText} LIKE ${`%${compactQuery}%`}`;
+    conditions.push(sql`(${containsCompact} OR (${and(...search.words.map(word => sql`${searchText} LIKE ${`%${word}%`}`))}))`);
+    return {
+      condition: and(...conditions)!,
+      score: sql<number>`(CASE WHEN ${containsCompact} THEN 1 ELSE 0.5 END)::float8`,
+    };
+  }
+  conditions.push(sql`(${query} <% ${searchText} OR ${compactQuery} <% ${searchText} OR ${searchText} LIKE ${`%${compactQuery}%`})`);
+  return {
+    condition: and(...conditions)!,
+    score: sql<number>`round(greatest(word_similarity(${query}, ${searchText}), word_similarity(${compactQuery}, ${searchText}))::numeric, 4)::float8`,
+  };
+}
+
+// Best match first, then by make, model and newest year - the order the SQL search returns
+export function rankMotorcycleSearch(motorcycles: Motorcycle[], search: MotorcycleSearch): Motorcycle[] {
+  return motorcycles
+    .map(motorcycle => ({ motorcycle, score: motorcycleSearchScore(motorcycle, search) }))
+    .filter((entry): entry is ScoredMotorcycle => entry.score !== null)
+    .sort((a, b) =>
+      b.score - a.score ||
+      a.motorcycle.bikemake.localeCompare(b.motorcycle.bikemake) ||
+      a.motorcycle.bikemodel.localeCompare(b.motorcycle.bikemodel) ||
+      b.motorcycle.firstyear - a.motorcycle.firstyear
+    )
+    .map(entry => entry.motorcycle);
+}
+
+// In-memory equivalent of the SQL listing filters other than the search (see motorcycleSearchScore);
+// partCategories holds the categories the bike has fitments for
+export function motorcycleMatchesListQuery(motorcycle: Motorcycle, query: MotorcycleListQuery, partCategories: Set<string>): boolean {
+  if (query.bikemake && motorcycle.bikemake.toLowerCase() !== query.bikemake.toLowerCase()) return false;
+  if (query.bikemodel && motorcycle.bikemodel.toLowerCase() !== query.bikemodel.toLowerCase()) return false;
+  if (query.year !== undefined && (motorcycle.firstyear > query.year || motorcycle.lastyear < query.year)) return false;
+  if (query.bikeCategory && motorcycle.bikeCategory !== query.bikeCategory) return false;
+  if (query.bikeSubcategory && motorcycle.bikeSubcategory !== query.bikeSubcategory) return false;
+  if (query.minCapacity !== undefined && (motorcycle.capacity ?? -Infinity) < query.minCapacity) return false;
+  if (query.maxCapacity !== undefined && (motorcycle.capacity ?? Infinity) > query.maxCapacity) return false;
+  if (query.hasPart && !partCategories.has(query.hasPart)) return false;
+  if (query.missingPart && partCategories.has(query.missingPart)) return false;
+  return true;
+}
+
+function compareSortKeys(a: SortKey, b: SortKey): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] < b[i]) return -1;
+    if (a[i] > b[i]) return 1;
+  }
+  return 0;
+}
+
+// Sorts already-filtered motorcycles and cuts out the requested page
+export function paginateMotorcycles(matching: ScoredMotorcycle[], query: MotorcycleListQuery, after: SortKey | null): MotorcycleListPage {
+  const sortKey = MOTORCYCLE_SORT_KEYS[query.sort];
+  const direction = query.order === 'desc' ? -1 : 1;
+  const sorted = matching
+    .map(entry => ({ motorcycle: entry.motorcycle, key: sortKey(entry) }))
+    .sort((a, b) => direction * compareSortKeys(a.key, b.key));
+
+  const remaining = after
+    ? sorted.filter(entry => direction * compareSortKeys(entry.key, after) > 0)
+    : sorted.slice(query.offset ?? 0);
+  const page = remaining.slice(0, query.limit);
+  const last = page[page.length - 1];
+
+  return {
+    motorcycles: page.map(entry => entry.motorcycle),
+    total: matching.length,
+    limit: query.limit,
+    offset: after ? null : query.offset ?? 0,
+    nextCursor: remaining.length > query.limit && last
+      ? encodeMotorcycleCursor({ sort: query.sort, order: query.order, key: last.key })
+      : null,
+  };
+}
@@ -0,0 +1,126 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import type { Motorcycle, PartCategoryTags } from "@shared/schema";
+import { buildOrderAttributionReport, parseOrderAttribution, unrecordedOrderLines, type ShopifyOrderPayload } from "./order-attribution";
+
+// A recorded orders/create delivery for a shop selling in USD to a customer paying in CAD
+const order: ShopifyOrderPayload = JSON.parse(readFileSync(new URL("./fixtures/orders-create.json", import.meta.url), "utf8"));
+
+const context = {
+  motorcycles: [
+    { recid: 1, bikemake: "Yamaha", bikemodel: "YZ250F", firstyear: 2010, lastyear: 2013 },
+    { recid: 9, bikemake: "Kawasaki", bikemodel: "KX450F", firstyear: 2009, lastyear: 2015 },
+  ] as Motorcycle[],
+  partsByRecid: new Map([[1, { oe_chain: "DID-520VX3-120", oe_fcw: "JTF1590.13" }]]),
+};
+
+const categoryTags = [{ categoryValue: "oe_chain", categoryLabel: "Chain" }] as PartCategoryTags[];
+
+describe("parseOrderAttribution", () => {
+  const lines = parseOrderAttribution(order, context);
+  const line = (lineItemId: string) => lines.find(entry => entry.lineItemId === lineItemId);
+
+  it("keeps only lines bought for a motorcycle, with units", () => {
+    assert.deepEqual(lines.map(entry => entry.lineItemId), ["13579000001", "13579000002", "13579000005", "13579000006"]);
+    assert.equal(line("13579000003"), undefined, "no Motorcycle ID property");
+    assert.equal(line("13579000004"), undefined, "quantity 0");
+  });
+
+  it("records an attributed line with the bike as it was when ordered", () => {
+    assert.deepEqual(line("13579000001"), {
+      orderId: "5678901234567",
+      orderName: "#1042",
+      lineItemId: "13579000001",
+      motorcycleRecid: 1,
+      bikemake: "Yamaha",
+      bikemodel: "YZ250F",
+      fitsLabel: "Yamaha YZ250F 2010-2013",
+      partCategory: "oe_chain",
+      sku: "DID-520VX3-120",
+      variantId: "44000000001",
+      quantity: 2,
+      revenueCents: 17990,
+      currency: "USD",
+      orderedAt: "2026-10-02T13:15:00.000Z",
+    });
+  });
+
+  it("takes line discounts off the revenue", () => {
+    assert.equal(line("13579000002")?.revenueCents, 1999);
+  });
+
+  it("falls back to the category the bike's fitment lists the SKU under", () => {
+    assert.equal(line("13579000002")?.partCategory, "oe_fcw");
+  });
+
+  it("counts shop money, not the customer's presentment currency", () => {
+    assert.equal(line("13579000005")?.revenueCents, 5850);
+    assert.equal(line("13579000005")?.currency, "USD");
+  });
+
+  it("keeps lines for a bike that is no longer in the catalog", () => {
+    assert.equal(line("13579000006")?.motorcycleRecid, 999);
+    assert.equal(line("13579000006")?.bikemake, null);
+  });
+});
+
+describe("unrecordedOrderLines", () => {
+  const lines = parseOrderAttribution(order, context);
+
+  it("records a redelivered order once", () => {
+    const first = unrecordedOrderLines(lines, new Set());
+    assert.equal(first.length, 4);
+    assert.deepEqual(unrecordedOrderLines(lines, new Set(first.map(line => line.lineItemId))), []);
+  });
+
+  it("drops a line item repeated within a delivery", () => {
+    assert.deepEqual(unrecordedOrderLines([...lines, lines[0]], new Set()).map(line => line.lineItemId), lines.map(line => line.lineItemId));
+  });
+});
+
+describe("buildOrderAttributionReport", () => {
+  const lines = parseOrderAttribution(order, context);
+  const secondOrder = parseOrderAttribution({
+    id: 5678901239999,
+    created_at: "2026-10-03T10:00:00Z",
+    currency: "USD",
+    line_items: [
+      { id: 13579000100, sku: "EBC-FA185", quantity: 1, price: "19.50", properties: [{ name: "Motorcycle ID", value: "9" }] },
+    ],
+  }, context);
+  const report = buildOrderAttributionReport([...lines, ...secondOrder], categoryTags, 50);
+
+  it("totals attributed units, revenue and orders", () => {
+    assert.equal(report.currency, "USD");
+    assert.deepEqual(report.totals, { orders: 2, units: 8, revenueCents: 31789 });
+  });
+
+  it("ranks motorcycles by revenue", () => {
+    assert.deepEqual(report.motorcycles, [
+      { orders: 1, units: 3, revenueCents: 19989, motorcycleRecid: 1, bikemake: "Yamaha", bikemodel: "YZ250F" },
+      { orders: 2, units: 4, revenueCents: 7800, motorcycleRecid: 9, bikemake: "Kawasaki", bikemodel: "KX450F" },
+      { orders: 1, units: 1, revenueCents: 4000, motorcycleRecid: 999, bikemake: null, bikemodel: null },
+    ]);
+  });
+
+  it("totals by make, leaving out bikes with no known make", () => {
+    assert.deepEqual(report.makes, [
+      { orders: 1, units: 3, revenueCents: 19989, bikemake: "Yamaha" },
+      { orders: 2, units: 4, revenueCents: 7800, bikemake: "Kawasaki" },
+    ]);
+  });
+
+  it("totals by part category with the shop's labels", () => {
+    assert.deepEqual(report.categories, [
+      { orders: 1, units: 3, revenueCents: 21990, partCategory: "oe_chain", label: "Chain" },
+      { orders: 1, units: 3, revenueCents: 5850, partCategory: "front_brakepads", label: "Front Brakepads" },
+      { orders: 1, units: 1, revenueCents: 1999, partCategory: "oe_fcw", label: "Oe Fcw" },
+      { orders: 1, units: 1, revenueCents: 1950, partCategory: null, label: "Uncategorized" },
+    ]);
+  });
+
+  it("limits the motorcycles listed", () => {
+    assert.deepEqual(buildOrderAttributionReport(lines, categoryTags, 1).motorcycles.map(entry => entry.motorcycleRecid), [1]);
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  defaultCategoryLabel,
+  ORDER_LINE_PROPERTIES,
+  TOOTH_RANGE_CATEGORIES,
+  type InsertOrderLineAttribution,
+  type Motorcycle,
+  type MotorcycleParts,
+  type OrderAttributionReport,
+  type OrderAttributionTotals,
+  type OrderLineAttribution,
+  type PartCategoryTags
+} from "@shared/schema";
+
+// The parts of a Shopify orders/create payload the attribution reads
+type ShopifyMoney = { amount?: string; currency_code?: string };
+type ShopifyMoneySet = { shop_money?: ShopifyMoney; presentment_money?: ShopifyMoney };
+
+export type ShopifyOrderLineItem = {
+  id: number | string;
+  variant_id?: number | string | null;
+  sku?: string | null;
+  quantity: number;
+  price: string;
+  price_set?: ShopifyMoneySet;
+  total_discount?: string;
+  total_discount_set?: ShopifyMoneySet;
+  properties?: { name: string; value: string | number | null }[] | null;
+};
+
+export type ShopifyOrderPayload = {
+  id: number | string;
+  name?: string;
+  created_at?: string;
+  currency?: string;
+  line_items?: ShopifyOrderLineItem[];
+};
+
+type AttributionContext = {
+  motorcycles: Motorcycle[];
+  partsByRecid: Map<number, MotorcycleParts>;
+};
+
+const toCents = (amount: string | undefined) => Math.round(parseFloat(amount || '0') * 100) || 0;
+
+const propertyValue = (item: ShopifyOrderLineItem, name: string) => {
+  const value = item.properties?.find(property => property.name === name)?.value;
+  return value === undefined || value === null || value === '' ? null : String(value);
+};
+
+// The order's lines that were bought for a motorcycle, with make and model snapshotted from the catalog. Lines
+// added before the storefront sent a category fall back to whichever category the bike's fitment lists the SKU under.
+export function parseOrderAttribution(order: ShopifyOrderPayload, context: AttributionContext): InsertOrderLineAttribution[] {
+  const motorcyclesByRecid = new Map(context.motorcycles.map(motorcycle => [motorcycle.recid, motorcycle]));
+  const orderedAt = order.created_at ? new Date(order.created_at).toISOString() : new Date().toISOString();
+
+  const lines: InsertOrderLineAttribution[] = [];
+  for (const item of order.line_items || []) {
+    const recid = parseInt(propertyValue(item, ORDER_LINE_PROPERTIES.recid) || '');
+    if (isNaN(recid) || item.quantity <= 0) continue;
+
+    const motorcycle = motorcyclesByRecid.get(recid);
+    const sku = item.sku || null;
+    const fittedCategory = sku
+      ? Object.entries(context.partsByRecid.get(recid) || {})
+        .find(([partCategory, partSku]) => partSku === sku && !TOOTH_RANGE_CATEGORIES.includes(partCategory))?.[0]
+      : undefined;
+    // Shop money so a report never mixes presentment currencies
+    const unitCents = toCents(item.price_set?.shop_money?.amount ?? item.price);
+    const discountCents = toCents(item.total_discount_set?.shop_money?.amount ?? item.total_discount);
+
+    lines.push({
+      orderId: String(order.id),
+      orderName: order.name || null,
+      lineItemId: String(item.id),
+      motorcycleRecid: recid,
+      bikemake: motorcycle?.bikemake ?? null,
+      bikemodel: motorcycle?.bikemodel ?? null,
+      fitsLabel: propertyValue(item, ORDER_LINE_PROPERTIES.fits),
+      partCategory: propertyValue(item, ORDER_LINE_PROPERTIES.partCategory) ?? fittedCategory ?? null,
+      sku,
+      variantId: item.variant_id ? String(item.variant_id) : null,
+      quantity: item.quantity,
+      revenueCents: Math.max(0, unitCents * item.quantity - discountCents),
+      currency: item.price_set?.shop_money?.currency_code || order.currency || null,
+      orderedAt,
+    });
+  }
+  return lines;
+}
+
+// The lines whose line item isn't recorded yet, each once: Shopify retries deliveries until one is acknowledged
+export function unrecordedOrderLines<T extends Pick<InsertOrderLineAttribution, 'lineItemId'>>(lines: T[], recordedLineItemIds: Set<string>): T[] {
+  const seen = new Set(recordedLineItemIds);
+  return lines.filter(line => {
+    if (seen.has(line.lineItemId)) return false;
+    seen.add(line.lineItemId);
+    return true;
+  });
+}
+
+type Tally = { orderIds: Set<string>; units: number; revenueCents: number };
+
+const toTotals = ({ orderIds, units, revenueCents }: Tally): OrderAttributionTotals =>
+  ({ orders: orderIds.size, units, revenueCents });
+
+// Highest revenue first, then units
+const byRevenue = (a: OrderAttributionTotals, b: OrderAttributionTotals) =>
+  b.revenueCents - a.revenueCents || b.units - a.units;
+
+// Revenue, units and orders per motorcycle, make and part category. A bike's make and model are those it had when
+// ordered; lines without a known make still count toward the totals.
+export function buildOrderAttributionReport(
+  lines: Pick<OrderLineAttribution, 'orderId' | 'motorcycleRecid' | 'bikemake' | 'bikemodel' | 'partCategory' | 'quantity' | 'revenueCents' | 'currency'>[],
+  categoryTags: PartCategoryTags[],
+  limit: number
+): OrderAttributionReport {
+  const total: Tally = { orderIds: new Set(), units: 0, revenueCents: 0 };
+  const byMotorcycle = new Map<number, Tally & { bikemake: string | null; bikemodel: string | null }>();
+  const byMake = new Map<string, Tally>();
+  const byCategory = new Map<string | null, Tally>();
+  const tallyFor = <K, T extends Tally>(tallies: Map<K, T>, key: K, create: () => T) => {
+    const existing = tallies.get(key);
+    if (existing) return existing;
+    const created = create();
+    tallies.set(key, created);
+    return created;
+  };
+  const emptyTally = (): Tally => ({ orderIds: new Set(), units: 0, revenueCents: 0 });
+  const add = (tally: Tally, line: typeof lines[number]) => {
+    tally.orderIds.add(line.orderId);
+    tally.units += line.quantity;
+    tally.revenueCents += line.revenueCents;
+  };
+
+  for (const line of lines) {
+    add(total, line);
+    add(tallyFor(byMotorcycle, line.motorcycleRecid, () => ({ ...emptyTally(), bikemake: line.bikemake, bikemodel: line.bikemodel })), line);
+    if (line.bikemake) add(tallyFor(byMake, line.bikemake, emptyTally), line);
+    add(tallyFor(byCategory, line.partCategory, emptyTally), line);
+  }
+
+  const labels = new Map(categoryTags.map(tag => [tag.categoryValue, tag.categoryLabel]));
+  return {
+    currency: lines.find(line => line.currency)?.currency ?? null,
+    totals: toTotals(total),
+    motorcycles: Array.from(byMotorcycle)
+      .map(([motorcycleRecid, tally]) => ({ ...toTotals(tally), motorcycleRecid, bikemake: tally.bikemake, bikemodel: tally.bikemodel }))
+      .sort(byRevenue)
+      .slice(0, limit),
+    makes: Array.from(byMake)
+      .map(([bikemake, tally]) => ({ ...toTotals(tally), bikemake }))
+      .sort(byRevenue),
+    categories: Array.from(byCategory)
+      .map(([partCategory, tally]) => ({
+        ...toTotals(tally),
+        partCategory,
+        label: partCategory ? labels.get(partCategory) ?? defaultCategoryLabel(partCategory) : 'Uncategorized',
+      }))
+      .sort(byRevenue),
+  };
+}
@@ -1,9 +1,16 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertMotorcycleSchema, insertPartMappingSchema, insertImportHistorySchema, insertPartCategoryTagsSchema, insertPartSectionSchema } from "@shared/schema";
+import { insertMotorcycleSchema, insertPartMappingSchema, insertImportHistorySchema, insertPartCategoryTagsSchema, insertPartSectionSchema, bulkAssignmentSchema, motorcycleListQuerySchema, cloneFitmentSchema, insertFitmentRuleSchema, fitmentRuleConditionsSchema, insertSkuSupersessionSchema, fitmentDetailsSchema, toMotorcycleFitmentDetails, formatFitmentQualifiers, updateScheduledJobSchema, SCHEDULED_JOB_TYPES, DEFAULT_JOB_SCHEDULES, type ScheduledJob, type BulkAssignmentPreview, type CloneFitmentPreview, type Motorcycle, type MotorcycleParts, type CsvImportType, type ImportHistory, insertMotorcycleAliasSchema, motorcycleNameKey, type InsertMotorcycleAlias, unmetSearchQuerySchema, storefrontEventSchema, storefrontFunnelQuerySchema, orderAttributionQuerySchema } from "@shared/schema";
 import { z } from "zod";
-import { getAuthUrl, validateAuthCallback, verifyShop, fetchShopifyProducts, inMemorySessionStorage, shopify } from "./shopify-auth";
+import { setupAuth, requireRole } from "./auth";
+import { startJobScheduler, runScheduledJob, isScheduledJobType } from "./job-scheduler";
+import { nextCronRun } from "./cron";
+import { createSkuResolver, resolveMotorcycleParts } from "./sku-supersession";
+import { decodeMotorcycleCursor } from "./motorcycle-listing";
+import { createMotorcycleProxyHandler } from "./storefront-motorcycles";
+import { planCsvImport, runCsvImport, saveCsvImportPreview, getCsvImportPreview, discardCsvImportPreview, CSV_IMPORT_LOCK_ID, csvRecordsSchema } from "./csv-import";
+import { getAuthUrl, validateAuthCallback, verifyShop, verifyWebhook, inMemorySessionStorage, shopify, requireShop, requireStorefrontShop, getShopSession, getInstalledShops, setShopCookie } from "./shopify-auth";
 import multer from 'multer';
 import { parse as parseCsv } from 'csv-parse';
 import { Readable } from 'stream';
@@ -178,14 +185,13 @@ function createAppProxySecurityMiddleware() {
       console.log(`✅ Proxy request validated for shop: ${shop} (HMAC + timestamp + session check)`);
       
       // Verify shop has an active session (is installed)
-      const sessions = Array.from(inMemorySessionStorage.values());
-      const shopSession = sessions.find((session: any) => session?.shop === shop);
+      const shopSession = getShopSession(shop as string);
       if (!shopSession) {
         console.error(`No active session found for shop: ${shop}`);
         return res.status(403).send("App not installed for this shop");
       }
       
-      // Store shop in request for later use
+      // The signed shop parameter scopes all data for this request
       req.shopifyShop = shop;
       req.shopifySession = shopSession;
       next();
@@ -196,6 +202,33 @@ function createAppProxySecurityMiddleware() {
   };
 }
 
+// Fixed-window rate limit per shop and client IP, for public endpoints that write (storefront events).
+// Kept in memory, so each server counts on its own.
+function createRateLimitMiddleware(maxRequests: number, windowMs: number) {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    if (windows.size > 10000) {
+      windows.forEach((window, key) => {
+        if (now - window.startedAt >= windowMs) windows.delete(key);
+      });
+    }
+
+    const key = `${req.shopifyShop}:${req.ip}`;
+    const window = windows.get(key);
+    if (!window || now - window.startedAt >= windowMs) {
+      windows.set(key, { startedAt: now, count: 1 });
+      return next();
+    }
+    if (++window.count > maxRequests) {
+      res.set('Retry-After', String(Math.ceil((window.startedAt + windowMs - now) / 1000)));
+      return res.status(429).json({ message: "Too many requests" });
+    }
+    next();
+  };
+}
+
 // ==========================================
 // SHOPIFY THEME INTEGRATION
 // ==========================================
@@ -764,10 +797,12 @@ async function generateMotorcyclePage(motorcycle: any, compatibleParts: any[], s
       ${compatibleParts.length > 0 ? `
         <div class="parts-grid">
           ${compatibleParts.map(part => {
+            const variant = part.variants?.find((v: any) => part.matchedVariantId && v.id?.toString() === part.matchedVariantId) || part.variants?.[0];
             const partTitle = escapeHtml(part.title || 'Unnamed Product');
-            const partPrice = escapeHtml(part.variants?.[0]?.price || '0.00');
-            const partSku = escapeHtml(part.variants?.[0]?.sku || 'N/A');
+            const partPrice = escapeHtml(variant?.price || '0.00');
+            const partSku = escapeHtml(variant?.sku || 'N/A');
             const partHandle = escapeHtml(part.handle || '');
+            const variantQuery = part.matchedVariantId ? `?variant=${encodeURIComponent(part.matchedVariantId)}` : '';
             const imageUrl = part.images?.[0]?.src ? escapeHtml(part.images[0].src) : '';
             
             return `
@@ -783,7 +818,7 @@ async function generateMotorcyclePage(motorcycle: any, compatibleParts: any[], s
                 ${part.variants && part.variants.length > 1 ? 
                   `<div class="part-variants">${part.variants.length} variants available</div>` : ''
                 }
-                <a href="${escapeHtml(shop)}/products/${partHandle}" class="view-product" target="_top">View Product</a>
+                <a href="${escapeHtml(shop)}/products/${partHandle}${variantQuery}" class="view-product" target="_top">View Product</a>
               </div>
             </div>
           `;}).join('')}
@@ -1699,6 +1734,15 @@ async function generateSearchPage(shop: string): Promise<string> {
   `;
 }
 
+// Returned when another import holds the import advisory lock
+const importInProgressResult = {
+  success: false,
+  totalRows: 0,
+  successCount: 0,
+  errorCount: 1,
+  errors: [{ row: 0, field: 'system', message: 'Another import is in progress. Please wait and try again.' }]
+};
+
 // Configure multer for file uploads
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -1715,20 +1759,72 @@ const upload = multer({
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Admin login sessions. Storefront reads (motorcycle lists, category tags, /api/customer/*)
+  // stay public for the theme widgets; every other /api route requires a role.
+  setupAuth(app);
+
+  // Copy any part assignments still held in the legacy motorcycle columns into motorcycle_fitments
+  storage.migrateLegacyPartAssignments()
+    .then(({ motorcycles, fitments }) => {
+      if (motorcycles > 0) {
+        console.log(`🔧 Migrated ${fitments} legacy part assignments from ${motorcycles} motorcycles into fitments`);
+      }
+    })
+    .catch(error => {
+      console.error('Failed to migrate legacy part assignments:', error);
+    });
+
+  // Scheduled mapping validation, auto-heal and metadata jobs (configured per shop in the admin dashboard)
+  startJobScheduler();
+
   // Motorcycles routes
-  app.get("/api/motorcycles", async (req, res) => {
+  app.get("/api/motorcycles", requireRole("viewer"), requireShop, async (req, res) => {
     try {
+      // Paginated listing when a page is asked for; otherwise the whole (filtered) list, as older clients expect
+      if (req.query.limit !== undefined || req.query.offset !== undefined || req.query.cursor !== undefined) {
+        const query = motorcycleListQuerySchema.parse(req.query);
+        if (query.cursor && !decodeMotorcycleCursor(query.cursor, query)) {
+          return res.status(400).json({ message: "Invalid cursor for this sort" });
+        }
+
+        const page = await storage.listMotorcycles(req.shopifyShop!, query);
+
+        // Track the search once, on its first page
+        if (query.search && !query.cursor && !query.offset) {
+          try {
+            await storage.createSearchAnalytics(req.shopifyShop!, {
+              searchQuery: query.search,
+              resultsCount: page.total,
+              topResultRecid: query.sort === 'relevance' ? page.motorcycles[0]?.recid ?? null : null,
+              ipAddress: req.ip || null,
+              userAgent: req.get('User-Agent') || null
+            });
+          } catch (analyticsError) {
+            console.error('Failed to track search analytics:', analyticsError);
+          }
+        }
+
+        const motorcyclesWithCounts = await storage.addPartsCountToMotorcycles(req.shopifyShop!, page.motorcycles);
+        res.set({
+          'Cache-Control': 'no-store, no-cache, must-revalidate, proxy-revalidate',
+          'Pragma': 'no-cache',
+          'Expires': '0'
+        });
+        return res.json({ ...page, motorcycles: motorcyclesWithCounts });
+      }
+
       const { search, bikemake, firstyear, lastyear, bikeCategory, bikeSubcategory } = req.query;
       
       let motorcycles;
       if (search) {
-        motorcycles = await storage.searchMotorcycles(search as string);
+        motorcycles = await storage.searchMotorcycles(req.shopifyShop!, search as string);
         
         // Track search analytics (only for search queries, not filters)
         try {
-          await storage.createSearchAnalytics({
+          await storage.createSearchAnalytics(req.shopifyShop!, {
             searchQuery: search as string,
             resultsCount: motorcycles.length,
+            topResultRecid: motorcycles[0]?.recid ?? null,
             ipAddress: req.ip || null,
             userAgent: req.get('User-Agent') || null
           });
@@ -1737,7 +1833,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           console.error('Failed to track search analytics:', analyticsError);
         }
       } else if (bikemake || firstyear || lastyear || bikeCategory || bikeSubcategory) {
-        motorcycles = await storage.filterMotorcycles({
+        motorcycles = await storage.filterMotorcycles(req.shopifyShop!, {
           bikemake: bikemake as string,
           firstyear: firstyear ? parseInt(firstyear as string) : undefined,
           lastyear: lastyear ? parseInt(lastyear as string) : undefined,
@@ -1745,11 +1841,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           bikeSubcategory: bikeSubcategory as string,
         });
       } else {
-        motorcycles = await storage.getMotorcycles();
+        motorcycles = await storage.getMotorcycles(req.shopifyShop!);
       }
       
       // Fetch Shopify products once and count parts for all motorcycles
-      const motorcyclesWithCounts = await storage.addPartsCountToMotorcycles(motorcycles);
+      const motorcyclesWithCounts = await storage.addPartsCountToMotorcycles(req.shopifyShop!, motorcycles);
       
       // Prevent caching to ensure fresh data
       res.set({
@@ -1759,13 +1855,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       res.json(motorcyclesWithCounts);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid motorcycle query", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch motorcycles" });
     }
   });
 
-  app.get("/api/motorcycles/makes", async (req, res) => {
+  app.get("/api/motorcycles/makes", requireRole("viewer"), requireShop, async (req, res) => {
     try {
-      const makes = await storage.getDistinctMotorcycleMakes();
+      const makes = await storage.getDistinctMotorcycleMakes(req.shopifyShop!);
       // Prevent caching to ensure fresh data
       res.set({
         'Cache-Control': 'no-store, no-cache, must-revalidate, proxy-revalidate',
@@ -1778,9 +1877,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/motorcycles/years", async (req, res) => {
+  app.get("/api/motorcycles/years", requireRole("viewer"), requireShop, async (req, res) => {
     try {
-      const years = await storage.getDistinctMotorcycleYears();
+      const years = await storage.getDistinctMotorcycleYears(req.shopifyShop!);
       // Prevent caching to ensure fresh data
       res.set({
         'Cache-Control': 'no-store, no-cache, must-revalidate, proxy-revalidate',
@@ -1793,9 +1892,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/motorcycles/category-usage", async (req, res) => {
+  app.get("/api/motorcycles/category-usage", requireRole("viewer"), requireShop, async (req, res) => {
     try {
-      const categoryUsage = await storage.getCategoryUsage();
+      const categoryUsage = await storage.getCategoryUsage(req.shopifyShop!);
       res.set({
         'Cache-Control': 'no-store, no-cache, must-revalidate, proxy-revalidate',
         'Pragma': 'no-cache',
@@ -1808,19 +1907,334 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/motorcycles/next-recid", async (req, res) => {
+  // Category promotion: move a category's legacy values into fitments and register it, without hand-run SQL
+  app.get("/api/category-promotions", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      const promotions = await storage.getCategoryPromotions(req.shopifyShop!);
+      res.json(promotions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch category promotions" });
+    }
+  });
+
+  app.post("/api/category-promotions", requireRole("admin"), requireShop, async (req, res) => {
+    try {
+      const { partCategory } = z.object({ partCategory: z.string().min(1) }).parse(req.body);
+
+      const result = await storage.promotePartCategory(req.shopifyShop!, partCategory, req.user!.username);
+      if (!result.success) {
+        return res.status(409).json(result);
+      }
+
+      console.log(`⬆️ Category ${partCategory} promoted by ${req.user!.username}: ${result.message}`);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Part category is required", errors: error.errors });
+      }
+      console.error('Category promotion error:', error);
+      res.status(500).json({ message: "Failed to promote category" });
+    }
+  });
+
+  app.post("/api/category-promotions/:id/rollback", requireRole("admin"), requireShop, async (req, res) => {
+    try {
+      const result = await storage.rollbackCategoryPromotion(req.shopifyShop!, req.params.id, req.user!.username);
+      if (!result.success) {
+        return res.status(409).json({ message: result.message });
+      }
+
+      console.log(`↩️ Category promotion ${req.params.id} rolled back by ${req.user!.username}: ${result.message}`);
+      res.json(result);
+    } catch (error) {
+      console.error('Category promotion rollback error:', error);
+      res.status(500).json({ message: "Failed to roll back category promotion" });
+    }
+  });
+
+  // Fitment rules: conditions on the bike and its explicit assignments -> SKUs for the bikes that match
+  app.get("/api/fitment-rules", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      res.json(await storage.getFitmentRules(req.shopifyShop!));
+    } catch (error) {
+      console.error('Fitment rules error:', error);
+      res.status(500).json({ message: "Failed to fetch fitment rules" });
+    }
+  });
+
+  app.post("/api/fitment-rules/preview", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      const conditions = fitmentRuleConditionsSchema.parse(req.body.conditions);
+      res.json(await storage.getFitmentRuleMatches(req.shopifyShop!, conditions));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid rule conditions", errors: error.errors });
+      }
+      console.error('Fitment rule preview error:', error);
+      res.status(500).json({ message: "Failed to preview fitment rule" });
+    }
+  });
+
+  app.post("/api/fitment-rules", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const rule = insertFitmentRuleSchema.parse(req.body);
+      const created = await storage.createFitmentRule(req.shopifyShop!, rule, req.user!.username);
+      console.log(`📐 Fitment rule "${created.name}" created by ${req.user!.username}`);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid fitment rule", errors: error.errors });
+      }
+      console.error('Fitment rule create error:', error);
+      res.status(500).json({ message: "Failed to create fitment rule" });
+    }
+  });
+
+  app.put("/api/fitment-rules/:id", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const updates = insertFitmentRuleSchema.partial().parse(req.body);
+      const updated = await storage.updateFitmentRule(req.shopifyShop!, req.params.id, updates, req.user!.username);
+      if (!updated) {
+        return res.status(404).json({ message: "Fitment rule not found" });
+      }
+      console.log(`📐 Fitment rule "${updated.name}" updated by ${req.user!.username}`);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid fitment rule", errors: error.errors });
+      }
+      console.error('Fitment rule update error:', error);
+      res.status(500).json({ message: "Failed to update fitment rule" });
+    }
+  });
+
+  app.delete("/api/fitment-rules/:id", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const success = await storage.deleteFitmentRule(req.shopifyShop!, req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Fitment rule not found" });
+      }
+      console.log(`📐 Fitment rule ${req.params.id} deleted by ${req.user!.username}`);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Fitment rule delete error:', error);
+      res.status(500).json({ message: "Failed to delete fitment rule" });
+    }
+  });
+
+  app.get("/api/sku-supersessions", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      res.json(await storage.getSkuSupersessions(req.shopifyShop!));
+    } catch (error) {
+      console.error('SKU supersessions error:', error);
+      res.status(500).json({ message: "Failed to fetch SKU supersessions" });
+    }
+  });
+
+  // Only one entry per old SKU, compared case-insensitively like the resolver does
+  const findSupersessionForSku = async (shop: string, oldSku: string, exceptId?: string) =>
+    (await storage.getSkuSupersessions(shop))
+      .find(entry => entry.id !== exceptId && entry.oldSku.toLowerCase() === oldSku.toLowerCase());
+
+  app.post("/api/sku-supersessions", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const supersession = insertSkuSupersessionSchema.parse(req.body);
+      if (await findSupersessionForSku(req.shopifyShop!, supersession.oldSku)) {
+        return res.status(409).json({ message: `${supersession.oldSku} already has a supersession` });
+      }
+      const created = await storage.createSkuSupersession(req.shopifyShop!, supersession, req.user!.username);
+      console.log(`🔁 SKU ${created.oldSku} -> ${created.newSku ?? 'discontinued'} added by ${req.user!.username}`);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid SKU supersession", errors: error.errors });
+      }
+      console.error('SKU supersession create error:', error);
+      res.status(500).json({ message: "Failed to create SKU supersession" });
+    }
+  });
+
+  app.put("/api/sku-supersessions/:id", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const supersession = insertSkuSupersessionSchema.parse(req.body);
+      if (await findSupersessionForSku(req.shopifyShop!, supersession.oldSku, req.params.id)) {
+        return res.status(409).json({ message: `${supersession.oldSku} already has a supersession` });
+      }
+      const updated = await storage.updateSkuSupersession(req.shopifyShop!, req.params.id, supersession, req.user!.username);
+      if (!updated) {
+        return res.status(404).json({ message: "SKU supersession not found" });
+      }
+      console.log(`🔁 SKU ${updated.oldSku} -> ${updated.newSku ?? 'discontinued'} updated by ${req.user!.username}`);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid SKU supersession", errors: error.errors });
+      }
+      console.error('SKU supersession update error:', error);
+      res.status(500).json({ message: "Failed to update SKU supersession" });
+    }
+  });
+
+  app.delete("/api/sku-supersessions/:id", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const success = await storage.deleteSkuSupersession(req.shopifyShop!, req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "SKU supersession not found" });
+      }
+      console.log(`🔁 SKU supersession ${req.params.id} deleted by ${req.user!.username}`);
+      res.status(204).send();
+    } catch (error) {
+      console.error('SKU supersession delete error:', error);
+      res.status(500).json({ message: "Failed to delete SKU supersession" });
+    }
+  });
+
+  // Stored fitments that still name a superseded SKU - what the rewrite below would change
+  app.get("/api/sku-supersessions/superseded-fitments", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      res.json(await storage.getSupersededFitments(req.shopifyShop!));
+    } catch (error) {
+      console.error('Superseded fitments error:', error);
+      res.status(500).json({ message: "Failed to fetch superseded fitments" });
+    }
+  });
+
+  // Rewrite stored fitments to their resolved SKU. fitmentIds limits it to what was previewed; omit to rewrite all.
+  app.post("/api/sku-supersessions/rewrite", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const { fitmentIds } = z.object({ fitmentIds: z.array(z.string()).optional() }).parse(req.body);
+      const result = await storage.rewriteSupersededFitments(req.shopifyShop!, fitmentIds, {
+        source: 'supersession',
+        changedBy: req.user!.username,
+      });
+      console.log(`🔁 Rewrote ${result.changed} superseded fitments (${result.unchanged} unchanged) for ${req.user!.username}`);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid rewrite request", errors: error.errors });
+      }
+      console.error('Superseded fitment rewrite error:', error);
+      res.status(500).json({ message: "Failed to rewrite superseded fitments" });
+    }
+  });
+
+  app.get("/api/sku-supersessions/discontinued", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      res.json(await storage.getDiscontinuedSkuReport(req.shopifyShop!));
+    } catch (error) {
+      console.error('Discontinued SKU report error:', error);
+      res.status(500).json({ message: "Failed to build discontinued SKU report" });
+    }
+  });
+
+  app.get("/api/motorcycle-aliases", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      res.json(await storage.getMotorcycleAliases(req.shopifyShop!));
+    } catch (error) {
+      console.error('Motorcycle aliases error:', error);
+      res.status(500).json({ message: "Failed to fetch motorcycle aliases" });
+    }
+  });
+
+  // One alias per spelling: the same kind and letters/digits, and for models the same make (or any make)
+  const findConflictingAlias = async (shop: string, alias: InsertMotorcycleAlias, exceptId?: string) =>
+    (await storage.getMotorcycleAliases(shop)).find(entry =>
+      entry.id !== exceptId &&
+      entry.kind === alias.kind &&
+      entry.aliasKey === motorcycleNameKey(alias.alias) &&
+      motorcycleNameKey(entry.bikemake ?? '') === motorcycleNameKey(alias.bikemake ?? '')
+    );
+
+  app.post("/api/motorcycle-aliases", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const alias = insertMotorcycleAliasSchema.parse(req.body);
+      const conflict = await findConflictingAlias(req.shopifyShop!, alias);
+      if (conflict) {
+        return res.status(409).json({ message: `"${alias.alias}" is already an alias for ${conflict.canonical}` });
+      }
+      const created = await storage.createMotorcycleAlias(req.shopifyShop!, alias, req.user!.username);
+      console.log(`🏷️ ${created.kind} alias ${created.alias} -> ${created.canonical} added by ${req.user!.username}`);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid motorcycle alias", errors: error.errors });
+      }
+      console.error('Motorcycle alias create error:', error);
+      res.status(500).json({ message: "Failed to create motorcycle alias" });
+    }
+  });
+
+  app.put("/api/motorcycle-aliases/:id", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const alias = insertMotorcycleAliasSchema.parse(req.body);
+      const conflict = await findConflictingAlias(req.shopifyShop!, alias, req.params.id);
+      if (conflict) {
+        return res.status(409).json({ message: `"${alias.alias}" is already an alias for ${conflict.canonical}` });
+      }
+      const updated = await storage.updateMotorcycleAlias(req.shopifyShop!, req.params.id, alias);
+      if (!updated) {
+        return res.status(404).json({ message: "Motorcycle alias not found" });
+      }
+      console.log(`🏷️ ${updated.kind} alias ${updated.alias} -> ${updated.canonical} updated by ${req.user!.username}`);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid motorcycle alias", errors: error.errors });
+      }
+      console.error('Motorcycle alias update error:', error);
+      res.status(500).json({ message: "Failed to update motorcycle alias" });
+    }
+  });
+
+  app.delete("/api/motorcycle-aliases/:id", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const success = await storage.deleteMotorcycleAlias(req.shopifyShop!, req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Motorcycle alias not found" });
+      }
+      console.log(`🏷️ Motorcycle alias ${req.params.id} deleted by ${req.user!.username}`);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Motorcycle alias delete error:', error);
+      res.status(500).json({ message: "Failed to delete motorcycle alias" });
+    }
+  });
+
+  // Makes and models stored under several spellings, e.g. "Husqvarna" and "HUSQVARNA"
+  app.get("/api/motorcycle-aliases/duplicates", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      res.json(await storage.getMotorcycleNameDuplicates(req.shopifyShop!));
+    } catch (error) {
+      console.error('Motorcycle name duplicates error:', error);
+      res.status(500).json({ message: "Failed to find duplicate motorcycle names" });
+    }
+  });
+
+  // Adds an alias to the most used spelling for every duplicate no alias covers yet
+  app.post("/api/motorcycle-aliases/seed", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const seeded = await storage.seedMotorcycleAliases(req.shopifyShop!, req.user!.username);
+      console.log(`🏷️ ${seeded.length} motorcycle aliases seeded by ${req.user!.username}`);
+      res.json({ seeded: seeded.length, aliases: seeded });
+    } catch (error) {
+      console.error('Motorcycle alias seed error:', error);
+      res.status(500).json({ message: "Failed to seed motorcycle aliases" });
+    }
+  });
+
+  app.get("/api/motorcycles/next-recid", requireRole("viewer"), requireShop, async (req, res) => {
     try {
-      const nextRecid = await storage.getNextMotorcycleRecid();
+      const nextRecid = await storage.getNextMotorcycleRecid(req.shopifyShop!);
       res.json({ nextRecid });
     } catch (error) {
       res.status(500).json({ message: "Failed to get next RECID" });
     }
   });
 
-  app.get("/api/motorcycles/:recid(\\d+)", async (req, res) => {
+  app.get("/api/motorcycles/:recid(\\d+)", requireRole("viewer"), requireShop, async (req, res) => {
     try {
       const recid = parseInt(req.params.recid);
-      const motorcycle = await storage.getMotorcycle(recid);
+      const motorcycle = await storage.getMotorcycle(req.shopifyShop!, recid);
       if (!motorcycle) {
         return res.status(404).json({ message: "Motorcycle not found" });
       }
@@ -1830,16 +2244,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/motorcycles", async (req, res) => {
+  app.post("/api/motorcycles", requireRole("editor"), requireShop, async (req, res) => {
     try {
       // If no recid provided, get the next available one
       if (!req.body.recid) {
-        const nextRecid = await storage.getNextMotorcycleRecid();
+        const nextRecid = await storage.getNextMotorcycleRecid(req.shopifyShop!);
         req.body.recid = nextRecid;
       }
       
       const validatedData = insertMotorcycleSchema.parse(req.body);
-      const motorcycle = await storage.createMotorcycle(validatedData);
+      const motorcycle = await storage.createMotorcycle(req.shopifyShop!, validatedData);
       res.status(201).json(motorcycle);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1849,11 +2263,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/motorcycles/:recid", async (req, res) => {
+  // Bulk assignment: preview which motorcycles a filter matches and what would change, without writing
+  app.post("/api/motorcycles/bulk-assign/preview", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const { filter, partCategory, productVariant } = bulkAssignmentSchema.parse(req.body);
+      const newValue = productVariant || null;
+
+      const [matched, partsByRecid] = await Promise.all([
+        storage.filterMotorcyclesForBulkAssignment(req.shopifyShop!, filter),
+        storage.getMotorcyclePartsByRecid(req.shopifyShop!)
+      ]);
+
+      const motorcycles = matched.map(motorcycle => {
+        const currentValue = partsByRecid.get(motorcycle.recid)?.[partCategory] ?? null;
+        return { motorcycle, currentValue, willChange: currentValue !== newValue };
+      });
+
+      const preview: BulkAssignmentPreview = {
+        partCategory,
+        productVariant: newValue,
+        motorcycles,
+        changeCount: motorcycles.filter(row => row.willChange).length,
+      };
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bulk assignment", errors: error.errors });
+      }
+      console.error("Bulk assignment preview error:", error);
+      res.status(500).json({ message: "Failed to preview bulk assignment" });
+    }
+  });
+
+  // Bulk assignment: set or clear one category on every matching motorcycle in one transaction
+  app.post("/api/motorcycles/bulk-assign", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const { filter, partCategory, productVariant, expectedRecids } = bulkAssignmentSchema.parse(req.body);
+
+      const matched = await storage.filterMotorcyclesForBulkAssignment(req.shopifyShop!, filter);
+      const recids = matched.map(motorcycle => motorcycle.recid);
+
+      // Only apply to exactly the motorcycles the user previewed
+      if (expectedRecids) {
+        const expected = new Set(expectedRecids);
+        if (expected.size !== recids.length || recids.some(recid => !expected.has(recid))) {
+          return res.status(409).json({ message: "The motorcycles matching this filter changed since the preview. Please preview again." });
+        }
+      }
+
+      const result = await storage.bulkAssignMotorcyclePart(req.shopifyShop!, recids, partCategory, productVariant || null, {
+        source: 'bulk_assign',
+        changedBy: req.user!.username
+      });
+
+      console.log(`📦 Bulk ${productVariant ? `assigned ${productVariant} to` : 'cleared'} ${partCategory} on ${result.changed} motorcycles by ${req.user!.username}`);
+      res.json({
+        ...result,
+        message: `${productVariant ? 'Assigned' : 'Cleared'} ${partCategory} on ${result.changed} motorcycles${result.unchanged ? ` (${result.unchanged} already up to date)` : ''}`
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bulk assignment", errors: error.errors });
+      }
+      console.error("Bulk assignment error:", error);
+      res.status(500).json({ message: "Failed to apply bulk assignment" });
+    }
+  });
+
+  app.put("/api/motorcycles/:recid", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const recid = parseInt(req.params.recid);
       const validatedData = insertMotorcycleSchema.partial().parse(req.body);
-      const motorcycle = await storage.updateMotorcycle(recid, validatedData);
+      const motorcycle = await storage.updateMotorcycle(req.shopifyShop!, recid, validatedData);
       if (!motorcycle) {
         return res.status(404).json({ message: "Motorcycle not found" });
       }
@@ -1866,10 +2347,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/motorcycles/:recid", async (req, res) => {
+  app.delete("/api/motorcycles/:recid", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const recid = parseInt(req.params.recid);
-      const success = await storage.deleteMotorcycle(recid);
+      const success = await storage.deleteMotorcycle(req.shopifyShop!, recid);
       if (!success) {
         return res.status(404).json({ message: "Motorcycle not found" });
       }
@@ -1880,7 +2361,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update tooth range for FCW/RCW groups
-  app.patch("/api/motorcycles/:recid/tooth-range", async (req, res) => {
+  app.patch("/api/motorcycles/:recid/tooth-range", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const recid = parseInt(req.params.recid);
       const { rangeType, rangeValue } = req.body;
@@ -1899,11 +2380,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      const updateData = {
-        [rangeType]: rangeValue && rangeValue.trim() ? rangeValue.trim() : null
-      };
-      
-      const motorcycle = await storage.updateMotorcycle(recid, updateData);
+      const motorcycle = await storage.assignMotorcyclePart(
+        req.shopifyShop!,
+        recid,
+        rangeType,
+        rangeValue && rangeValue.trim() ? rangeValue.trim() : null,
+        { source: 'manual', changedBy: req.user!.username }
+      );
       if (!motorcycle) {
         return res.status(404).json({ message: "Motorcycle not found" });
       }
@@ -1916,7 +2399,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Part Assignment routes
-  app.patch("/api/motorcycles/:recid/parts", async (req, res) => {
+  app.patch("/api/motorcycles/:recid/parts", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const recid = parseInt(req.params.recid);
       const { partCategory, productVariant } = req.body;
@@ -1925,118 +2408,211 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Part category is required" });
       }
       
-      // List of hardcoded column names in the motorcycles table
-      const hardcodedColumns = [
-        'oe_handlebar', 'oe_fcw', 'oe_rcw', 'front_brakepads', 'rear_brakepads',
-        'handlebars_78', 'twinwall', 'fatbar', 'fatbar36', 'grips', 'cam',
-        'oe_barmount', 'barmount28', 'barmount36', 'fcwgroup', 'fcwgroup_range', 'fcwconv',
-        'rcwconv', 'rcwgroup', 'rcwgroup_range', 'twinring', 'oe_chain',
-        'chainconv', 'r1_chain', 'r3_chain', 'r4_chain', 'rr4_chain',
-        'clipon', 'rcwcarrier', 'active_handlecompare', 'other_fcw'
-      ];
-      
-      // Check if this is a hardcoded column or a custom category
-      if (hardcodedColumns.includes(partCategory)) {
-        // Use direct column update for hardcoded categories
-        const updateData = {
-          [partCategory]: productVariant || null
-        };
-        const motorcycle = await storage.updateMotorcycle(recid, updateData);
-        if (!motorcycle) {
-          return res.status(404).json({ message: "Motorcycle not found" });
-        }
-        res.json(motorcycle);
-      } else {
-        // Use customParts JSONB for dynamic categories
-        const motorcycle = await storage.getMotorcycle(recid);
-        if (!motorcycle) {
-          return res.status(404).json({ message: "Motorcycle not found" });
-        }
-        
-        // Get existing customParts or initialize empty object
-        const customParts = (motorcycle.customParts as Record<string, string | null>) || {};
-        
-        // Update or remove the category
-        if (productVariant) {
-          customParts[partCategory] = productVariant;
-        } else {
-          delete customParts[partCategory];
-        }
-        
-        // Save back to database
-        const updated = await storage.updateMotorcycle(recid, { customParts });
-        res.json(updated);
+      // Every category is stored (and audited) as a fitment by storage
+      const motorcycle = await storage.assignMotorcyclePart(req.shopifyShop!, recid, partCategory, productVariant || null, {
+        source: 'manual',
+        changedBy: req.user!.username
+      });
+      if (!motorcycle) {
+        return res.status(404).json({ message: "Motorcycle not found" });
       }
+      res.json(motorcycle);
     } catch (error) {
       console.error("Error assigning part:", error);
       res.status(500).json({ message: "Failed to assign part to motorcycle" });
     }
   });
 
-  // Get part categories for a motorcycle
-  app.get("/api/motorcycles/:recid/parts", async (req, res) => {
+  // Part assignment history for a motorcycle (newest first)
+  app.get("/api/motorcycles/:recid/parts/history", requireRole("viewer"), requireShop, async (req, res) => {
     try {
       const recid = parseInt(req.params.recid);
-      const motorcycle = await storage.getMotorcycle(recid);
-      if (!motorcycle) {
-        return res.status(404).json({ message: "Motorcycle not found" });
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
+      const history = await storage.getPartAssignmentHistory(req.shopifyShop!, recid, limit);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching part assignment history:", error);
+      res.status(500).json({ message: "Failed to fetch part assignment history" });
+    }
+  });
+
+  // Revert one part assignment change back to its previous value
+  app.post("/api/motorcycles/:recid/parts/history/:id/revert", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const recid = parseInt(req.params.recid);
+      const entry = await storage.getPartAssignmentAuditEntry(req.shopifyShop!, req.params.id);
+      if (!entry || entry.motorcycleRecid !== recid) {
+        return res.status(404).json({ message: "History entry not found" });
       }
-      
-      // Extract all part category assignments from hardcoded columns
-      const partCategories: Record<string, string | null> = {
-        oe_handlebar: motorcycle.oe_handlebar,
-        oe_fcw: motorcycle.oe_fcw,
-        oe_rcw: motorcycle.oe_rcw,
-        front_brakepads: motorcycle.front_brakepads,
-        rear_brakepads: motorcycle.rear_brakepads,
-        handlebars_78: motorcycle.handlebars_78,
-        twinwall: motorcycle.twinwall,
-        fatbar: motorcycle.fatbar,
-        fatbar36: motorcycle.fatbar36,
-        grips: motorcycle.grips,
-        cam: motorcycle.cam,
-        oe_barmount: motorcycle.oe_barmount,
-        barmount28: motorcycle.barmount28,
-        barmount36: motorcycle.barmount36,
-        fcwgroup: motorcycle.fcwgroup,
-        fcwconv: motorcycle.fcwconv,
-        rcwconv: motorcycle.rcwconv,
-        rcwgroup: motorcycle.rcwgroup,
-        rcwgroup_range: motorcycle.rcwgroup_range,
-        twinring: motorcycle.twinring,
-        oe_chain: motorcycle.oe_chain,
-        chainconv: motorcycle.chainconv,
-        r1_chain: motorcycle.r1_chain,
-        r3_chain: motorcycle.r3_chain,
-        r4_chain: motorcycle.r4_chain,
-        rr4_chain: motorcycle.rr4_chain,
-        clipon: motorcycle.clipon,
-        rcwcarrier: motorcycle.rcwcarrier,
-        active_handlecompare: motorcycle.active_handlecompare,
-        other_fcw: motorcycle.other_fcw
-      };
-      
-      // Merge in custom parts from JSONB column
-      if (motorcycle.customParts) {
-        const customParts = motorcycle.customParts as Record<string, string | null>;
-        Object.assign(partCategories, customParts);
+
+      const result = await storage.revertPartAssignment(req.shopifyShop!, entry.id, req.user!.username);
+      if (!result.success) {
+        return res.status(409).json({ message: result.message });
       }
-      
-      res.json(partCategories);
+      res.json(result);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch motorcycle parts" });
+      console.error("Error reverting part assignment:", error);
+      res.status(500).json({ message: "Failed to revert part assignment" });
     }
   });
 
-  // Simple debug endpoint
-  app.get("/api/debug/sessions", async (req, res) => {
-    res.setHeader('Content-Type', 'application/json');
-    
+  // Copy fitment: compare the source motorcycle's assignments with each target, without writing
+  app.post("/api/motorcycles/:recid/clone-fitment/preview", requireRole("editor"), requireShop, async (req, res) => {
     try {
-      const sessionCount = inMemorySessionStorage.size;
-      const sessionKeys = Array.from(inMemorySessionStorage.keys());
-      const hasGlobalToken = !!global.LATEST_SHOPIFY_ACCESS_TOKEN;
-      
+      const sourceRecid = parseInt(req.params.recid);
+      const { targetRecids } = cloneFitmentSchema.parse(req.body);
+      if (targetRecids.includes(sourceRecid)) {
+        return res.status(400).json({ message: "A motorcycle can't be copied onto itself" });
+      }
+
+      const source = await storage.getMotorcycle(req.shopifyShop!, sourceRecid);
+      if (!source) {
+        return res.status(404).json({ message: "Source motorcycle not found" });
+      }
+
+      const targets: { motorcycle: Motorcycle, parts: MotorcycleParts }[] = [];
+      for (const recid of targetRecids) {
+        const target = await storage.getMotorcycle(req.shopifyShop!, recid);
+        if (!target) {
+          return res.status(404).json({ message: `Target motorcycle ${recid} not found` });
+        }
+        targets.push({ motorcycle: target, parts: await storage.getMotorcycleParts(req.shopifyShop!, recid) });
+      }
+
+      const sourceParts = await storage.getMotorcycleParts(req.shopifyShop!, sourceRecid);
+      const preview: CloneFitmentPreview = {
+        source,
+        targets: targets.map(target => target.motorcycle),
+        categories: Object.entries(sourceParts).map(([partCategory, sourceValue]) => ({
+          partCategory,
+          sourceValue,
+          targets: targets.map(({ motorcycle, parts }) => {
+            const currentValue = parts[partCategory] ?? null;
+            return {
+              recid: motorcycle.recid,
+              currentValue,
+              status: currentValue === sourceValue ? 'same' as const : currentValue ? 'conflict' as const : 'new' as const,
+            };
+          }),
+        })),
+      };
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid copy request", errors: error.errors });
+      }
+      console.error("Copy fitment preview error:", error);
+      res.status(500).json({ message: "Failed to preview fitment copy" });
+    }
+  });
+
+  // Copy fitment: apply the chosen categories of the source onto every target in one transaction
+  app.post("/api/motorcycles/:recid/clone-fitment", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const sourceRecid = parseInt(req.params.recid);
+      const { targetRecids, categories } = cloneFitmentSchema.parse(req.body);
+      if (!categories) {
+        return res.status(400).json({ message: "Choose at least one category to copy" });
+      }
+      if (targetRecids.includes(sourceRecid)) {
+        return res.status(400).json({ message: "A motorcycle can't be copied onto itself" });
+      }
+
+      const result = await storage.cloneMotorcycleFitments(req.shopifyShop!, sourceRecid, targetRecids, categories, {
+        source: 'clone',
+        changedBy: req.user!.username
+      });
+      if (!result) {
+        return res.status(404).json({ message: "The source motorcycle has none of the chosen categories assigned" });
+      }
+
+      console.log(`📋 Copied ${categories.length} categories from motorcycle ${sourceRecid} to ${targetRecids.join(', ')} by ${req.user!.username}`);
+      res.json({
+        ...result,
+        message: `Copied ${result.changed} assignments to ${targetRecids.length} motorcycles${result.unchanged ? ` (${result.unchanged} already matched)` : ''}`
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid copy request", errors: error.errors });
+      }
+      console.error("Copy fitment error:", error);
+      res.status(500).json({ message: "Failed to copy fitment" });
+    }
+  });
+
+  // Get part categories for a motorcycle
+  app.get("/api/motorcycles/:recid/parts", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      const recid = parseInt(req.params.recid);
+      const motorcycle = await storage.getMotorcycle(req.shopifyShop!, recid);
+      if (!motorcycle) {
+        return res.status(404).json({ message: "Motorcycle not found" });
+      }
+      
+      res.json(await storage.getMotorcycleParts(req.shopifyShop!, recid));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch motorcycle parts" });
+    }
+  });
+
+  // Explicit assignments merged with fitment rule values, plus which rule supplied each one
+  app.get("/api/motorcycles/:recid/parts/effective", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      const recid = parseInt(req.params.recid);
+      const motorcycle = await storage.getMotorcycle(req.shopifyShop!, recid);
+      if (!motorcycle) {
+        return res.status(404).json({ message: "Motorcycle not found" });
+      }
+
+      res.json(await storage.getEffectiveMotorcycleParts(req.shopifyShop!, recid));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch motorcycle parts" });
+    }
+  });
+
+  // Notes and qualifiers on the motorcycle's assignments, by category
+  app.get("/api/motorcycles/:recid/parts/details", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      const recid = parseInt(req.params.recid);
+      const motorcycle = await storage.getMotorcycle(req.shopifyShop!, recid);
+      if (!motorcycle) {
+        return res.status(404).json({ message: "Motorcycle not found" });
+      }
+
+      res.json(toMotorcycleFitmentDetails(await storage.getMotorcycleFitments(req.shopifyShop!, recid)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch fitment details" });
+    }
+  });
+
+  app.put("/api/motorcycles/:recid/parts/:partCategory/details", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const recid = parseInt(req.params.recid);
+      const details = fitmentDetailsSchema.parse(req.body);
+      const fitment = await storage.updateFitmentDetails(req.shopifyShop!, recid, req.params.partCategory, details);
+      if (!fitment) {
+        return res.status(404).json({ message: "No part is assigned to this category" });
+      }
+      console.log(`📝 Fitment details for ${recid}/${req.params.partCategory} updated by ${req.user!.username}`);
+      res.json({ notes: fitment.notes, qualifiers: fitment.qualifiers });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid fitment details", errors: error.errors });
+      }
+      console.error("Error updating fitment details:", error);
+      res.status(500).json({ message: "Failed to update fitment details" });
+    }
+  });
+
+  // Simple debug endpoint
+  app.get("/api/debug/sessions", requireRole("admin"), async (req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    
+    try {
+      const sessionCount = inMemorySessionStorage.size;
+      const sessionKeys = Array.from(inMemorySessionStorage.keys());
+      const hasGlobalToken = !!global.LATEST_SHOPIFY_ACCESS_TOKEN;
+      
       // Collect debug session info
       
       // Get actual session data
@@ -2105,42 +2681,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Test endpoint to get session info and live products
-  app.get("/api/shopify/test", async (req, res) => {
+  app.get("/api/shopify/test", requireRole("admin"), requireShop, async (req, res) => {
     try {
-      // Check current session status
-      
-      // Try all methods to get a session
-      const currentSession = inMemorySessionStorage.get('current');
-      // Check for current session
-      
-      const allSessions = Array.from(inMemorySessionStorage.values());
-      // Check all available sessions
-      
-      let workingSession = null;
-      for (const session of allSessions) {
-        if (session && session.accessToken) {
-          workingSession = session;
-          // Found working session
-          break;
-        }
-      }
-      
-      if (!workingSession && global.LATEST_SHOPIFY_ACCESS_TOKEN) {
-        workingSession = {
-          id: 'test-session',
-          shop: 'renthal-offical.myshopify.com',
-          accessToken: global.LATEST_SHOPIFY_ACCESS_TOKEN,
-          state: 'test',
-          isOnline: false
-        };
-        // Using global token for test session
-      }
+      // Use the session of the shop this request acts on
+      const workingSession = req.shopifySession;
       
       if (!workingSession) {
         return res.json({
-          error: 'No working session found',
-          sessionCount: inMemorySessionStorage.size,
-          globalToken: !!global.LATEST_SHOPIFY_ACCESS_TOKEN
+          error: `No working session found for ${req.shopifyShop}`,
+          sessionCount: inMemorySessionStorage.size
         });
       }
       
@@ -2190,32 +2739,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Force refresh variants from Shopify
-  app.get("/api/products/force-refresh", async (req, res) => {
+  app.get("/api/products/force-refresh", requireRole("admin"), requireShop, async (req, res) => {
     try {
-      console.log('FORCE REFRESH: Creating direct Shopify connection');
-      
-      // Create a new Shopify session directly 
-      const directSession = {
-        id: 'direct-session',
-        shop: 'renthal-offical.myshopify.com',
-        accessToken: global.LATEST_SHOPIFY_ACCESS_TOKEN || process.env.SHOPIFY_ACCESS_TOKEN || '',
-        state: 'direct',
-        isOnline: false
-      };
+      console.log(`FORCE REFRESH: Reloading catalog for ${req.shopifyShop}`);
       
-      if (!directSession.accessToken) {
-        return res.status(400).json({ error: 'No Shopify access token available' });
+      if (!req.shopifySession) {
+        return res.status(400).json({ error: `No Shopify access token available for ${req.shopifyShop}` });
       }
       
-      const client = new shopify.clients.Rest({ session: directSession as any });
-      
-      const response = await client.get({
-        path: 'products',
-        query: { limit: 250 }
-      });
-      
-      const productsData = response.body as any;
-      const products = (productsData.products || []).map((product: any) => ({
+      // Walk every catalog page and replace the local product cache with the result
+      const catalog = await storage.syncProductCache(req.shopifySession);
+      const { products: cachedProducts } = await storage.getCachedShopifyProducts(req.shopifyShop!);
+      const products = cachedProducts.map((product: any) => ({
         id: product.id.toString(),
         title: product.title,
         description: product.body_html || null,
@@ -2237,9 +2772,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })) || []
       }));
       
-      console.log(`FORCE REFRESH: Fetched ${products.length} products with variants`);
+      console.log(`FORCE REFRESH: Fetched ${catalog.productCount} products (${catalog.variantCount} variants) across ${catalog.pageCount} page(s)`);
       console.log(`FORCE REFRESH: Sample product variants:`, products.find(p => p.variants.length > 0)?.variants?.length || 0);
       
+      res.set({
+        'X-Catalog-Pages': catalog.pageCount.toString(),
+        'X-Catalog-Products': catalog.productCount.toString(),
+        'X-Catalog-Variants': catalog.variantCount.toString()
+      });
       res.json(products);
       
     } catch (error) {
@@ -2248,40 +2788,130 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Shopify Products routes - fetch live data from Shopify
-  app.get("/api/products", async (req, res) => {
+  // Product cache freshness - counts plus last full sync and last webhook
+  app.get("/api/products/cache-status", requireRole("viewer"), requireShop, async (req, res) => {
     try {
-      const { search } = req.query;
-      
-      // Check what sessions we have
-      const sessions = Array.from(inMemorySessionStorage.values());
-      
-      // Find working session
-      let activeSession = inMemorySessionStorage.get('current');
-      if (!activeSession || !activeSession.accessToken) {
-        activeSession = sessions.find((session: any) => session?.accessToken);
+      const status = await storage.getProductCacheStatus(req.shopifyShop!);
+      res.json(status);
+    } catch (error) {
+      console.error('Error fetching product cache status:', error);
+      res.status(500).json({ message: "Failed to fetch product cache status" });
+    }
+  });
+
+  // Manually rebuild the product cache from a full Shopify catalog fetch
+  app.post("/api/products/cache/sync", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      if (!req.shopifySession) {
+        return res.status(400).json({ message: "Shopify session not available. Please authenticate first." });
       }
-      
-      // Use active session if found
-      
-      // If no session but we have a global token, create a direct session
-      if (!activeSession && global.LATEST_SHOPIFY_ACCESS_TOKEN) {
-        // Using global access token directly
-        activeSession = {
-          id: 'direct-global-session',
-          shop: 'renthal-offical.myshopify.com',
-          accessToken: global.LATEST_SHOPIFY_ACCESS_TOKEN,
-          state: 'direct',
-          isOnline: false
-        } as any;
+
+      const result = await storage.syncProductCache(req.shopifySession);
+      const status = await storage.getProductCacheStatus(req.shopifyShop!);
+      res.json({ ...result, status });
+    } catch (error) {
+      console.error('Error syncing product cache:', error);
+      res.status(500).json({ message: "Failed to sync product cache" });
+    }
+  });
+
+  // Shopify product webhooks - keep the local product cache current
+  app.post("/api/webhooks/products", async (req, res) => {
+    try {
+      const hmacHeader = req.get('X-Shopify-Hmac-Sha256') || '';
+      const topic = req.get('X-Shopify-Topic') || '';
+      const shop = req.get('X-Shopify-Shop-Domain') || '';
+
+      if (!req.rawBody || !verifyWebhook(req.rawBody, hmacHeader)) {
+        console.warn(`⚠️ Rejected product webhook with invalid HMAC (topic: ${topic || 'unknown'})`);
+        return res.status(401).json({ message: "Invalid webhook signature" });
+      }
+
+      const product = req.body;
+      if (!shop || !product?.id) {
+        return res.status(400).json({ message: "Webhook is missing the shop domain or product id" });
+      }
+
+      // A delivery the app secret verifies can still come from a shop that uninstalled us; acknowledge it so
+      // Shopify stops retrying, but cache nothing
+      if (!getInstalledShops().includes(shop)) {
+        console.log(`🔔 Ignoring ${topic} for ${shop}: shop is not installed`);
+        return res.status(200).json({ received: true });
+      }
+
+      switch (topic) {
+        case 'products/create':
+        case 'products/update':
+          if (await storage.upsertCachedProduct(shop, product, topic)) {
+            console.log(`🔔 ${topic} (${shop}): cached product ${product.id} (${product.variants?.length || 0} variants)`);
+          } else {
+            console.log(`🔔 ${topic} (${shop}): ignored stale update for product ${product.id} (newer version cached or product deleted)`);
+          }
+          break;
+        case 'products/delete':
+          await storage.deleteCachedProduct(shop, String(product.id), topic);
+          console.log(`🔔 ${topic} (${shop}): removed product ${product.id} from cache`);
+          break;
+        default:
+          console.log(`🔔 Ignoring unsupported product webhook topic: ${topic}`);
+      }
+
+      res.status(200).json({ received: true });
+    } catch (error) {
+      console.error('Error processing product webhook:', error);
+      res.status(500).json({ message: "Failed to process product webhook" });
+    }
+  });
+
+  // Shopify order webhooks - attribute order lines to the motorcycle they were bought for
+  app.post("/api/webhooks/orders", async (req, res) => {
+    try {
+      const hmacHeader = req.get('X-Shopify-Hmac-Sha256') || '';
+      const topic = req.get('X-Shopify-Topic') || '';
+      const shop = req.get('X-Shopify-Shop-Domain') || '';
+
+      if (!req.rawBody || !verifyWebhook(req.rawBody, hmacHeader)) {
+        console.warn(`⚠️ Rejected order webhook with invalid HMAC (topic: ${topic || 'unknown'})`);
+        return res.status(401).json({ message: "Invalid webhook signature" });
+      }
+
+      const order = req.body;
+      if (!shop || !order?.id) {
+        return res.status(400).json({ message: "Webhook is missing the shop domain or order id" });
+      }
+
+      if (!getInstalledShops().includes(shop)) {
+        console.log(`🔔 Ignoring ${topic} for ${shop}: shop is not installed`);
+        return res.status(200).json({ received: true });
+      }
+
+      switch (topic) {
+        case 'orders/create': {
+          const recorded = await storage.recordOrderAttribution(shop, order);
+          console.log(`🔔 ${topic} (${shop}): attributed ${recorded} of ${order.line_items?.length || 0} lines in order ${order.name || order.id}`);
+          break;
+        }
+        default:
+          console.log(`🔔 Ignoring unsupported order webhook topic: ${topic}`);
       }
+
+      res.status(200).json({ received: true });
+    } catch (error) {
+      console.error('Error processing order webhook:', error);
+      res.status(500).json({ message: "Failed to process order webhook" });
+    }
+  });
+
+  // Shopify Products routes - served from the local product cache
+  app.get("/api/products", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      const { search } = req.query;
       
-      // Try to get live data from Shopify first
+      // Read products from the local cache (kept current by product webhooks)
       try {
+        const shopifyData = await storage.getCachedShopifyProducts(req.shopifyShop!);
         
-        if (activeSession) {
-          // Fetch live products from Shopify
-          const shopifyData = await fetchShopifyProducts(activeSession);
+        if (shopifyData.products.length > 0) {
           let liveProducts = (shopifyData.products || []).map((product: any) => ({
             id: product.id.toString(),
             title: product.title,
@@ -2314,60 +2944,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
             );
           }
           
-          console.log(`Fetched ${liveProducts.length} live products from Shopify`);
-          console.log(`Product titles: ${liveProducts.map(p => p.title).join(', ')}`);
-          console.log(`Variants found in first product:`, liveProducts[0]?.variants?.length || 0);
-          console.log(`Sample product with variants:`, JSON.stringify(liveProducts.find(p => p.variants && p.variants.length > 0), null, 2));
+          console.log(`Loaded ${liveProducts.length} products from product cache`);
           return res.json(liveProducts);
         }
-      } catch (shopifyError) {
-        console.log("Shopify fetch failed:", shopifyError);
+      } catch (cacheError) {
+        console.log("Product cache read failed:", cacheError);
       }
       
-      // No local database fallback - return empty array (Option A implementation)
-      console.log("No active Shopify session found, returning empty inventory");
+      // Cache is empty and could not be filled - no Shopify session has been established yet
+      console.log("Product cache is empty, returning empty inventory");
       res.json([]);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch products" });
     }
   });
 
-  app.get("/api/products/:id", async (req, res) => {
+  app.get("/api/products/:id", requireRole("viewer"), requireShop, async (req, res) => {
     try {
-      // Try to get live data from Shopify first
+      // Look the product up in the local product cache
       try {
-        const sessions = Array.from(inMemorySessionStorage.values());
-        const activeSession = sessions.find((session: any) => session?.accessToken);
+        const shopifyData = await storage.getCachedShopifyProductsByIds(req.shopifyShop!, [req.params.id]);
+        const liveProduct = shopifyData.products[0];
         
-        if (activeSession) {
-          const shopifyData = await fetchShopifyProducts(activeSession);
-          const liveProduct = (shopifyData.products || []).find((product: any) => 
-            product.id.toString() === req.params.id
-          );
-          
-          if (liveProduct) {
-            const formattedProduct = {
-              id: liveProduct.id.toString(),
-              title: liveProduct.title,
-              description: liveProduct.body_html || null,
-              price: liveProduct.variants?.[0]?.price || "0",
-              sku: liveProduct.variants?.[0]?.sku || null,
-              imageUrl: liveProduct.images?.[0]?.src || null,
-              category: liveProduct.product_type || null,
-              tags: liveProduct.tags ? JSON.stringify(liveProduct.tags.split(',').map((tag: string) => tag.trim()).filter((tag: string) => tag.length > 0)) : null,
-            };
-            return res.json(formattedProduct);
-          }
+        if (liveProduct) {
+          const formattedProduct = {
+            id: liveProduct.id.toString(),
+            title: liveProduct.title,
+            description: liveProduct.body_html || null,
+            price: liveProduct.variants?.[0]?.price || "0",
+            sku: liveProduct.variants?.[0]?.sku || null,
+            imageUrl: liveProduct.images?.[0]?.src || null,
+            category: liveProduct.product_type || null,
+            tags: liveProduct.tags ? JSON.stringify(liveProduct.tags.split(',').map((tag: string) => tag.trim()).filter((tag: string) => tag.length > 0)) : null,
+          };
+          return res.json(formattedProduct);
         }
-      } catch (shopifyError) {
-        console.log("Shopify fetch failed for individual product:", shopifyError);
+      } catch (cacheError) {
+        console.log("Product cache read failed for individual product:", cacheError);
       }
       
-      // No local database fallback - return 404 with helpful message
-      console.log(`Product ${req.params.id} not found in Shopify, no local fallback`);
+      // Not in the product cache - return 404 with helpful message
+      console.log(`Product ${req.params.id} not found in product cache`);
       return res.status(404).json({ 
         message: "Product not found in Shopify store",
-        needsAuth: !inMemorySessionStorage.has('current'),
+        needsAuth: !req.shopifySession,
         productId: req.params.id
       });
     } catch (error) {
@@ -2376,17 +2996,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Part Mappings routes
-  app.get("/api/mappings", async (req, res) => {
+  app.get("/api/mappings", requireRole("viewer"), requireShop, async (req, res) => {
     try {
       const { motorcycleRecid, productId } = req.query;
       
       let mappings;
       if (motorcycleRecid) {
-        mappings = await storage.getPartMappingsByMotorcycle(parseInt(motorcycleRecid as string));
+        mappings = await storage.getPartMappingsByMotorcycle(req.shopifyShop!, parseInt(motorcycleRecid as string));
       } else if (productId) {
-        mappings = await storage.getPartMappingsByProduct(productId as string);
+        mappings = await storage.getPartMappingsByProduct(req.shopifyShop!, productId as string);
       } else {
-        mappings = await storage.getPartMappings();
+        mappings = await storage.getPartMappings(req.shopifyShop!);
       }
       
       res.json(mappings);
@@ -2395,10 +3015,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/mappings", async (req, res) => {
+  app.post("/api/mappings", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const validatedData = insertPartMappingSchema.parse(req.body);
-      const mapping = await storage.createPartMapping(validatedData);
+      const mapping = await storage.createPartMapping(req.shopifyShop!, validatedData);
       res.status(201).json(mapping);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -2408,7 +3028,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/mappings/bulk", async (req, res) => {
+  app.post("/api/mappings/bulk", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const { mappings } = req.body;
       if (!Array.isArray(mappings)) {
@@ -2416,7 +3036,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const validatedMappings = mappings.map(mapping => insertPartMappingSchema.parse(mapping));
-      const results = await storage.bulkCreatePartMappings(validatedMappings);
+      const results = await storage.bulkCreatePartMappings(req.shopifyShop!, validatedMappings);
       res.status(201).json(results);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -2426,9 +3046,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/mappings/:id", async (req, res) => {
+  app.delete("/api/mappings/:id", requireRole("editor"), requireShop, async (req, res) => {
     try {
-      const success = await storage.deletePartMapping(req.params.id);
+      const success = await storage.deletePartMapping(req.shopifyShop!, req.params.id);
       if (!success) {
         return res.status(404).json({ message: "Mapping not found" });
       }
@@ -2438,41 +3058,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Reverse fitment lookup: which motorcycles does a SKU or product fit
+  app.get("/api/fitments/lookup", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      const sku = typeof req.query.sku === 'string' ? req.query.sku.trim() : '';
+      const productId = typeof req.query.productId === 'string' ? req.query.productId.trim() : '';
+      if (!sku && !productId) {
+        return res.status(400).json({ message: "A sku or productId is required" });
+      }
+
+      const lookup = await storage.getReverseFitments(req.shopifyShop!, productId ? { productId } : { sku });
+      res.json(lookup);
+    } catch (error) {
+      console.error('Reverse fitment lookup error:', error);
+      res.status(500).json({ message: "Failed to look up fitments" });
+    }
+  });
+
   // Compatible Parts route
-  app.get("/api/motorcycles/:recid/compatible-parts", async (req, res) => {
+  app.get("/api/motorcycles/:recid/compatible-parts", requireRole("viewer"), requireShop, async (req, res) => {
     try {
       const recid = parseInt(req.params.recid);
-      const parts = await storage.getCompatibleParts(recid);
+      const parts = await storage.getCompatibleParts(req.shopifyShop!, recid);
       res.json(parts);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch compatible parts" });
     }
   });
 
+  // Why each compatible part matched (rule, triggering value, filtered variants, category choice)
+  app.get("/api/motorcycles/:recid/compatible-parts/explain", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      const recid = parseInt(req.params.recid);
+      const explanation = await storage.explainCompatibleParts(req.shopifyShop!, recid);
+      if (!explanation) {
+        return res.status(404).json({ message: "Motorcycle not found" });
+      }
+      res.json(explanation);
+    } catch (error) {
+      console.error('Compatible parts explanation error:', error);
+      res.status(500).json({ message: "Failed to explain compatible parts" });
+    }
+  });
+
   // Import History routes
-  app.get("/api/import-history", async (req, res) => {
+  app.get("/api/import-history", requireRole("viewer"), requireShop, async (req, res) => {
     try {
-      const history = await storage.getImportHistory();
+      const history = await storage.getImportHistory(req.shopifyShop!);
       res.json(history);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch import history" });
     }
   });
 
+  // Restore every row an import touched to its pre-import value
+  app.post("/api/import-history/:id/rollback", requireRole("admin"), requireShop, async (req, res) => {
+    try {
+      // Don't roll back underneath an import that is still writing
+      const lockAcquired = await storage.acquireAdvisoryLock(CSV_IMPORT_LOCK_ID);
+      if (!lockAcquired) {
+        return res.status(503).json({ message: "An import is in progress. Please try again in a few moments." });
+      }
+
+      let result;
+      try {
+        result = await storage.rollbackImport(req.shopifyShop!, req.params.id, req.user!.username);
+      } finally {
+        await storage.releaseAdvisoryLock(CSV_IMPORT_LOCK_ID);
+      }
+
+      if (!result.success) {
+        return res.status(409).json({ message: result.message });
+      }
+
+      console.log(`↩️ Import ${req.params.id} rolled back by ${req.user!.username}: ${result.message}`);
+      res.json(result);
+    } catch (error) {
+      console.error('Import rollback error:', error);
+      res.status(500).json({ message: "Failed to roll back import" });
+    }
+  });
+
   // Part Category Tags routes
-  app.get("/api/part-category-tags", async (req, res) => {
+  app.get("/api/part-category-tags", requireRole("viewer"), requireShop, async (req, res) => {
     try {
-      const tags = await storage.getPartCategoryTags();
+      const tags = await storage.getPartCategoryTags(req.shopifyShop!);
       res.json(tags);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch part category tags" });
     }
   });
 
-  app.post("/api/part-category-tags", async (req, res) => {
+  app.post("/api/part-category-tags", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const validatedData = insertPartCategoryTagsSchema.parse(req.body);
-      const tag = await storage.createPartCategoryTag(validatedData);
+      const tag = await storage.createPartCategoryTag(req.shopifyShop!, validatedData);
       res.status(201).json(tag);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -2482,11 +3162,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/part-category-tags/:categoryValue", async (req, res) => {
+  app.put("/api/part-category-tags/:categoryValue", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const { categoryValue } = req.params;
       const validatedData = insertPartCategoryTagsSchema.partial().parse(req.body);
-      const tag = await storage.updatePartCategoryTag(categoryValue, validatedData);
+      const tag = await storage.updatePartCategoryTag(req.shopifyShop!, categoryValue, validatedData);
       if (!tag) {
         return res.status(404).json({ message: "Part category tag not found" });
       }
@@ -2499,10 +3179,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/part-category-tags/:categoryValue", async (req, res) => {
+  app.delete("/api/part-category-tags/:categoryValue", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const { categoryValue } = req.params;
-      const success = await storage.deletePartCategoryTag(categoryValue);
+      const success = await storage.deletePartCategoryTag(req.shopifyShop!, categoryValue);
       if (!success) {
         return res.status(404).json({ message: "Part category tag not found" });
       }
@@ -2513,7 +3193,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Part Sections routes
-  app.get("/api/part-sections", async (req, res) => {
+  app.get("/api/part-sections", requireRole("viewer"), requireShop, async (req, res) => {
     try {
       const sections = await storage.getPartSections();
       res.json(sections);
@@ -2522,7 +3202,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/part-sections", async (req, res) => {
+  app.post("/api/part-sections", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const validatedData = insertPartSectionSchema.parse(req.body);
       const section = await storage.createPartSection(validatedData);
@@ -2535,7 +3215,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/part-sections/:sectionKey", async (req, res) => {
+  app.put("/api/part-sections/:sectionKey", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const { sectionKey } = req.params;
       const validatedData = insertPartSectionSchema.partial().parse(req.body);
@@ -2552,7 +3232,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/part-sections/:sectionKey", async (req, res) => {
+  app.delete("/api/part-sections/:sectionKey", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const { sectionKey } = req.params;
       const success = await storage.deletePartSection(sectionKey);
@@ -2566,7 +3246,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Initialize default part sections
-  app.post("/api/part-sections/initialize", async (req, res) => {
+  app.post("/api/part-sections/initialize", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const sections = await storage.initializeDefaultPartSections();
       res.status(201).json(sections);
@@ -2577,7 +3257,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Batch update sortOrder for part sections
-  app.post("/api/part-sections/batch-update-sort-order", async (req, res) => {
+  app.post("/api/part-sections/batch-update-sort-order", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const updates = z.array(z.object({ 
         sectionKey: z.string(), 
@@ -2599,10 +3279,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/import-history", async (req, res) => {
+  app.post("/api/import-history", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const validatedData = insertImportHistorySchema.parse(req.body);
-      const history = await storage.createImportHistory(validatedData);
+      const history = await storage.createImportHistory(req.shopifyShop!, validatedData);
       res.status(201).json(history);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -2613,7 +3293,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // CSV Import routes
-  app.post("/api/import/motorcycles", async (req, res) => {
+  app.post("/api/import/motorcycles", requireRole("editor"), requireShop, async (req, res) => {
+    let batch: ImportHistory | undefined;
     try {
       const { data } = req.body; // Expecting parsed CSV data
       if (!Array.isArray(data)) {
@@ -2627,47 +3308,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         firstyear: parseInt(row.FIRSTYEAR),
         lastyear: parseInt(row.LASTYEAR),
         capacity: row.CAPACITY ? parseInt(row.CAPACITY) : null,
-        oe_handlebar: row.OE_HANDLEBAR || null,
-        oe_fcw: row.OE_FCW || null,
-        oe_rcw: row.OE_RCW || null,
-        front_brakepads: row.FRONT_BRAKEPADS || null,
-        rear_brakepads: row.REAR_BRAKEPADS || null,
-        handlebars_78: row['78_HANDLEBARS'] || null,
-        twinwall: row.TWINWALL || null,
-        fatbar: row.FATBAR || null,
-        fatbar36: row.FATBAR36 || null,
-        grips: row.GRIPS || null,
-        cam: row.CAM || null,
-        oe_barmount: row.OE_BARMOUNT || null,
-        barmount28: row.BARMOUNT28 || null,
-        barmount36: row.BARMOUNT36 || null,
-        fcwgroup: row.FCWGROUP || null,
-        fcwconv: row.FCWCONV || null,
-        rcwconv: row.RCWCONV || null,
-        rcwgroup: row.RCWGROUP || null,
-        rcwgroup_range: row.RCWGROUP_RANGE || null,
-        twinring: row.TWINRING || null,
-        oe_chain: row.OE_CHAIN || null,
-        chainconv: row.CHAINCONV || null,
-        r1_chain: row.R1_CHAIN || null,
-        r3_chain: row.R3_CHAIN || null,
-        r4_chain: row.R4_CHAIN || null,
-        rr4_chain: row.RR4_CHAIN || null,
-        clipon: row.CLIPON || null,
-        rcwcarrier: row.RCWCARRIER || null,
-        active_handlecompare: row.ACTIVE_HANDLECOMPARE || null,
       }));
 
       const validatedMotorcycles = motorcycles.map(motorcycle => 
         insertMotorcycleSchema.parse(motorcycle)
       );
 
-      const results = await storage.bulkCreateMotorcycles(validatedMotorcycles);
-      
-      // Create import history record
-      await storage.createImportHistory({
+      batch = await storage.createImportHistory(req.shopifyShop!, {
         type: "motorcycles",
         filename: req.body.filename || "upload.csv",
+        recordsCount: 0,
+        status: "running",
+      });
+      for (const motorcycle of validatedMotorcycles) {
+        await storage.recordImportBatchRow(req.shopifyShop!, batch.id, "motorcycle", String(motorcycle.recid), null);
+      }
+
+      const results = await storage.bulkCreateMotorcycles(req.shopifyShop!, validatedMotorcycles);
+
+      // Part columns are named after the registered categories (e.g. OE_HANDLEBAR) and become fitments
+      const partCategoryTags = await storage.getPartCategoryTags(req.shopifyShop!);
+      for (const row of data) {
+        for (const tag of partCategoryTags) {
+          const sku = row[tag.categoryValue.toUpperCase()];
+          if (sku) {
+            await storage.assignMotorcyclePart(req.shopifyShop!, parseInt(row.RECID), tag.categoryValue, sku, {
+              source: "csv_import",
+              changedBy: req.user!.username,
+            });
+          }
+        }
+      }
+      
+      await storage.updateImportHistory(req.shopifyShop!, batch.id, {
         recordsCount: results.length,
         status: "success",
       });
@@ -2677,13 +3350,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         motorcycles: results 
       });
     } catch (error) {
-      // Create failed import history record
-      await storage.createImportHistory({
-        type: "motorcycles",
-        filename: req.body.filename || "upload.csv",
-        recordsCount: 0,
-        status: "error",
-      });
+      // Record the failed import
+      if (batch) {
+        await storage.updateImportHistory(req.shopifyShop!, batch.id, { status: "error" });
+      } else {
+        await storage.createImportHistory(req.shopifyShop!, {
+          type: "motorcycles",
+          filename: req.body.filename || "upload.csv",
+          recordsCount: 0,
+          status: "error",
+        });
+      }
 
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid CSV data", errors: error.errors });
@@ -2692,7 +3369,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/import/mappings", async (req, res) => {
+  app.post("/api/import/mappings", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const { data } = req.body; // Expecting parsed CSV data
       if (!Array.isArray(data)) {
@@ -2709,15 +3386,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         insertPartMappingSchema.parse(mapping)
       );
 
-      const results = await storage.bulkCreatePartMappings(validatedMappings);
+      const results = await storage.bulkCreatePartMappings(req.shopifyShop!, validatedMappings);
       
-      // Create import history record
-      await storage.createImportHistory({
+      // Mapping IDs are generated on insert, so the batch rows are recorded afterwards
+      const batch = await storage.createImportHistory(req.shopifyShop!, {
         type: "mappings",
         filename: req.body.filename || "upload.csv",
         recordsCount: results.length,
         status: "success",
       });
+      for (const mapping of results) {
+        await storage.recordImportBatchRow(req.shopifyShop!, batch.id, "part_mapping", mapping.id, null);
+      }
 
       res.status(201).json({ 
         message: `Successfully imported ${results.length} part mappings`,
@@ -2725,7 +3405,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     } catch (error) {
       // Create failed import history record
-      await storage.createImportHistory({
+      await storage.createImportHistory(req.shopifyShop!, {
         type: "mappings",
         filename: req.body.filename || "upload.csv",
         recordsCount: 0,
@@ -2740,7 +3420,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // New simplified CSV import and template endpoints
-  app.get("/api/import/template", async (req, res) => {
+  app.get("/api/import/template", requireRole("viewer"), requireShop, async (req, res) => {
     const type = req.query.type || 'motorcycles';
     
     if (type === 'parts') {
@@ -2765,7 +3445,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } else if (type === 'combined') {
       try {
         // Get all part category tags from database to create dynamic headers
-        const categoryTags = await storage.getPartCategoryTags();
+        const categoryTags = await storage.getPartCategoryTags(req.shopifyShop!);
         
         // Base motorcycle headers
         const motorcycleHeaders = [
@@ -2824,12 +3504,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Export combined motorcycle and parts data
-  app.get("/api/export/combined-data", async (req, res) => {
+  app.get("/api/export/combined-data", requireRole("viewer"), requireShop, async (req, res) => {
     try {
       // Get all motorcycles and part category tags
-      const [motorcycles, categoryTags] = await Promise.all([
-        storage.getMotorcycles(),
-        storage.getPartCategoryTags()
+      const [motorcycles, categoryTags, partsByRecid, detailsByRecid] = await Promise.all([
+        storage.getMotorcycles(req.shopifyShop!),
+        storage.getPartCategoryTags(req.shopifyShop!),
+        storage.getMotorcyclePartsByRecid(req.shopifyShop!),
+        storage.getFitmentDetailsByRecid(req.shopifyShop!)
       ]);
 
       // Base motorcycle headers
@@ -2844,9 +3526,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Convert category values to uppercase headers for CSV
       const partHeaders = categoryTags.map(tag => tag.categoryValue.toUpperCase());
+
+      // Notes and qualifier columns (e.g. OE_HANDLEBAR_NOTES) only for categories where some bike has them
+      const detailCategories = categoryTags
+        .map(tag => tag.categoryValue)
+        .filter(category => Array.from(detailsByRecid.values()).some(details => details[category]));
+      const detailHeaders = detailCategories.flatMap(category => [`${category.toUpperCase()}_NOTES`, `${category.toUpperCase()}_QUALIFIERS`]);
       
       // Combine all headers
-      const csvHeaders = [...motorcycleHeaders, ...partHeaders];
+      const csvHeaders = [...motorcycleHeaders, ...partHeaders, ...detailHeaders];
+
+      // Notes are free text, so cells with commas, quotes or line breaks are quoted
+      const csvCell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
 
       // Build CSV rows with actual data
       const csvRows = [];
@@ -2862,16 +3553,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
           motorcycle.lastyear?.toString() || ''
         ];
         
-        // Add part data for each category - get from motorcycle columns directly
-        const partData = partHeaders.map(header => {
-          const columnName = header.toLowerCase();
-          // Access the motorcycle property dynamically
-          return (motorcycle as any)[columnName] || '';
-        });
+        // Add part data for each category from the motorcycle's fitments
+        const parts = partsByRecid.get(motorcycle.recid) || {};
+        const partData = categoryTags.map(tag => parts[tag.categoryValue] || '');
+        const details = detailsByRecid.get(motorcycle.recid) || {};
+        const detailData = detailCategories.flatMap(category => [
+          details[category]?.notes || '',
+          formatFitmentQualifiers(details[category]?.qualifiers)
+        ]);
         
         // Combine motorcycle and part data
-        const fullRow = [...motorcycleData, ...partData];
-        csvRows.push(fullRow.join(','));
+        const fullRow = [...motorcycleData, ...partData, ...detailData];
+        csvRows.push(fullRow.map(csvCell).join(','));
       }
 
       const csvContent = [csvHeaders.join(','), ...csvRows].join('\n');
@@ -2885,7 +3578,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/import/csv", upload.single('csvFile'), async (req, res) => {
+  app.post("/api/import/csv", requireRole("editor"), requireShop, upload.single('csvFile'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ 
@@ -2894,19 +3587,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const importType = req.body.type || 'motorcycles';
+      const importType: CsvImportType = ['motorcycles', 'parts', 'combined'].includes(req.body.type) ? req.body.type : 'motorcycles';
       const csvBuffer = req.file.buffer;
       const csvString = csvBuffer.toString('utf-8');
 
       // Parse CSV with error handling
       const parsePromise = promisify(parseCsv);
-      const records = await parsePromise(csvString, {
+      const parsed = csvRecordsSchema.safeParse(await parsePromise(csvString, {
         columns: true,
         skip_empty_lines: true,
         trim: true,
-      });
+      }));
 
-      if (!Array.isArray(records) || records.length === 0) {
+      if (!parsed.success || parsed.data.length === 0) {
         return res.status(400).json({
           success: false,
           totalRows: 0,
@@ -2916,363 +3609,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const errors: Array<{ row: number; field: string; message: string }> = [];
-      let savedRecords: any[] = [];
-      let rowNumber = 2; // Start at 2 (accounting for header row)
-
-      if (importType === 'parts') {
-        // Handle parts mapping import
-        const validMappings: any[] = [];
-
-        for (const row of records) {
-          const rowErrors: Array<{ field: string; message: string }> = [];
-
-          try {
-            // Basic validation for parts mapping
-            if (!row.MOTORCYCLE_RECID) {
-              rowErrors.push({ field: 'MOTORCYCLE_RECID', message: 'MOTORCYCLE_RECID is required' });
-            } else if (isNaN(parseInt(row.MOTORCYCLE_RECID))) {
-              rowErrors.push({ field: 'MOTORCYCLE_RECID', message: 'MOTORCYCLE_RECID must be a number' });
-            }
-
-            if (!row.PART_CATEGORY?.trim()) {
-              rowErrors.push({ field: 'PART_CATEGORY', message: 'PART_CATEGORY is required' });
-            }
-
-            if (!row.PRODUCT_VARIANT?.trim()) {
-              rowErrors.push({ field: 'PRODUCT_VARIANT', message: 'PRODUCT_VARIANT is required' });
-            }
-
-            // If validation passed, create the mapping
-            if (rowErrors.length === 0) {
-              const motorcycleRecid = parseInt(row.MOTORCYCLE_RECID);
-              const partCategory = row.PART_CATEGORY.trim();
-              const productVariant = row.PRODUCT_VARIANT.trim();
-
-              // Apply the part mapping directly using the same logic as the individual assignment
-              const updateData = {
-                [partCategory]: productVariant
-              };
-
-              const motorcycle = await storage.updateMotorcycle(motorcycleRecid, updateData);
-              if (motorcycle) {
-                validMappings.push({ motorcycleRecid, partCategory, productVariant });
-              } else {
-                rowErrors.push({ field: 'MOTORCYCLE_RECID', message: 'Motorcycle not found' });
-              }
-            }
-
-            // Add row errors to main errors array
-            rowErrors.forEach(error => {
-              errors.push({ 
-                row: rowNumber, 
-                field: error.field, 
-                message: error.message 
-              });
-            });
-
-          } catch (error) {
-            errors.push({
-              row: rowNumber,
-              field: 'general',
-              message: error instanceof Error ? error.message : 'Unknown error'
-            });
-          }
-
-          rowNumber++;
-        }
-
-        savedRecords = validMappings;
-
-        // Create import history record
-        await storage.createImportHistory({
-          type: "parts",
-          filename: req.file.originalname,
-          recordsCount: savedRecords.length,
-          status: savedRecords.length > 0 ? "success" : "error",
-        });
-
-      } else if (importType === 'combined') {
-        // Handle combined motorcycles + parts import
-        const validCombined: any[] = [];
-        
-        // Acquire advisory lock to prevent concurrent RECID allocation
-        // Lock ID: 1234567890 (same as motorcycle-only import for consistency)
-        const lockAcquired = await storage.acquireAdvisoryLock(1234567890);
-        if (!lockAcquired) {
-          return res.status(503).json({
-            success: false,
-            totalRows: 0,
-            successCount: 0,
-            errorCount: 1,
-            errors: [{ row: 0, field: 'system', message: 'Another import is in progress. Please wait and try again.' }]
-          });
-        }
-        
-        try {
-          // Pre-allocate RECID range for auto-assignment (protected by advisory lock)
-          let nextRecid = await storage.getNextMotorcycleRecid();
-
-        // Define the parts columns mapping (ALL available categories)
-        const partsColumnMap: Record<string, string> = {
-          'OE_HANDLEBAR': 'oe_handlebar',
-          'OE_FCW': 'oe_fcw',
-          'OE_RCW': 'oe_rcw',
-          'FRONT_BRAKEPADS': 'front_brakepads',
-          'REAR_BRAKEPADS': 'rear_brakepads',
-          'HANDLEBARS_78': 'handlebars_78',
-          'TWINWALL': 'twinwall',
-          'FATBAR': 'fatbar',
-          'FATBAR36': 'fatbar36',
-          'GRIPS': 'grips',
-          'CAM': 'cam',
-          'OE_BARMOUNT': 'oe_barmount',
-          'BARMOUNT28': 'barmount28',
-          'BARMOUNT36': 'barmount36',
-          'FCWGROUP': 'fcwgroup',
-          'FCWCONV': 'fcwconv',
-          'RCWCONV': 'rcwconv',
-          'RCWGROUP': 'rcwgroup',
-          'RCWGROUP_RANGE': 'rcwgroup_range',
-          'TWINRING': 'twinring',
-          'OE_CHAIN': 'oe_chain',
-          'CHAINCONV': 'chainconv',
-          'R1_CHAIN': 'r1_chain',
-          'R3_CHAIN': 'r3_chain',
-          'R4_CHAIN': 'r4_chain',
-          'RR4_CHAIN': 'rr4_chain',
-          'CLIPON': 'clipon',
-          'RCWCARRIER': 'rcwcarrier',
-          'ACTIVE_HANDLECOMPARE': 'active_handlecompare'
-        };
-
-        for (const row of records) {
-          const rowErrors: Array<{ field: string; message: string }> = [];
-
-          try {
-            // Validate motorcycle fields - RECID is now optional
-            let assignedRecid: number;
-            
-            if (!row.RECID || row.RECID.toString().trim() === '') {
-              // Auto-assign RECID if not provided
-              assignedRecid = nextRecid++;
-            } else if (isNaN(parseInt(row.RECID))) {
-              rowErrors.push({ field: 'RECID', message: 'RECID must be a number if provided' });
-              // Auto-assign RECID on error
-              assignedRecid = nextRecid++;
-            } else {
-              assignedRecid = parseInt(row.RECID);
-            }
-
-            if (!row.BIKEMAKE?.trim()) {
-              rowErrors.push({ field: 'BIKEMAKE', message: 'BIKEMAKE is required' });
-            }
-
-            if (!row.BIKEMODEL?.trim()) {
-              rowErrors.push({ field: 'BIKEMODEL', message: 'BIKEMODEL is required' });
-            }
-
-            // If validation passed, create motorcycle and assign parts
-            if (rowErrors.length === 0) {
-              // Create motorcycle data
-              const motorcycleData = {
-                recid: assignedRecid,
-                bikemake: row.BIKEMAKE.trim(),
-                bikemodel: row.BIKEMODEL.trim(),
-                capacity: row.CAPACITY ? parseInt(row.CAPACITY) : null,
-                firstyear: row.FIRSTYEAR ? parseInt(row.FIRSTYEAR) : null,
-                lastyear: row.LASTYEAR ? parseInt(row.LASTYEAR) : null
-              };
-
-              // Create motorcycle
-              const motorcycle = await storage.createMotorcycle(motorcycleData);
-              
-              // Assign parts (columns 8+)
-              const partsAssigned: string[] = [];
-              for (const [columnName, partCategory] of Object.entries(partsColumnMap)) {
-                const partValue = row[columnName];
-                if (partValue && partValue.trim()) {
-                  try {
-                    const updateData = {
-                      [partCategory]: partValue.trim()
-                    };
-                    await storage.updateMotorcycle(motorcycle.recid, updateData);
-                    partsAssigned.push(columnName);
-                  } catch (partError) {
-                    rowErrors.push({ 
-                      field: columnName, 
-                      message: `Failed to assign part: ${partError instanceof Error ? partError.message : 'Unknown error'}` 
-                    });
-                  }
-                }
-              }
-
-              validCombined.push({ 
-                motorcycle: motorcycleData, 
-                partsAssigned 
-              });
-            }
-
-            // Add row errors to main errors array
-            rowErrors.forEach(error => {
-              errors.push({ 
-                row: rowNumber, 
-                field: error.field, 
-                message: error.message 
-              });
-            });
-
-          } catch (error) {
-            errors.push({
-              row: rowNumber,
-              field: 'general',
-              message: error instanceof Error ? error.message : 'Unknown error'
-            });
-          }
-
-          rowNumber++;
-        }
-
-          savedRecords = validCombined;
-
-          // Create import history record
-          await storage.createImportHistory({
-            type: "combined",
-            filename: req.file.originalname,
-            recordsCount: savedRecords.length,
-            status: savedRecords.length > 0 ? "success" : "error",
-          });
-        } finally {
-          // Always release the advisory lock
-          await storage.releaseAdvisoryLock(1234567890);
-        }
-
-      } else {
-        // Handle motorcycles import
-        const validMotorcycles: any[] = [];
-        
-        // Acquire advisory lock to prevent concurrent RECID allocation
-        // Lock ID: 1234567890 (arbitrary unique identifier for motorcycle imports)
-        const lockAcquired = await storage.acquireAdvisoryLock(1234567890);
-        if (!lockAcquired) {
-          return res.status(503).json({
-            success: false,
-            totalRows: 0,
-            successCount: 0,
-            errorCount: 1,
-            errors: [{ row: 0, field: 'system', message: 'Another import is in progress. Please wait and try again.' }]
-          });
-        }
-        
-        try {
-          // Pre-allocate RECID range for auto-assignment (protected by advisory lock)
-          let nextRecid = await storage.getNextMotorcycleRecid();
-
-        for (const row of records) {
-          const rowErrors: Array<{ field: string; message: string }> = [];
-
-          try {
-            // Basic validation for motorcycles - RECID is now optional
-            let assignedRecid: number;
-            
-            if (!row.RECID || row.RECID.toString().trim() === '') {
-              // Auto-assign RECID if not provided
-              assignedRecid = nextRecid++;
-            } else if (isNaN(parseInt(row.RECID))) {
-              rowErrors.push({ field: 'RECID', message: 'RECID must be a number if provided' });
-              // Auto-assign RECID on error
-              assignedRecid = nextRecid++;
-            } else {
-              assignedRecid = parseInt(row.RECID);
-            }
-
-            if (!row.BIKEMAKE?.trim()) {
-              rowErrors.push({ field: 'BIKEMAKE', message: 'BIKEMAKE is required' });
-            }
-
-            if (!row.BIKEMODEL?.trim()) {
-              rowErrors.push({ field: 'BIKEMODEL', message: 'BIKEMODEL is required' });
-            }
-
-            // If validation passed, create the motorcycle object
-            if (rowErrors.length === 0) {
-              const motorcycleData = {
-                recid: assignedRecid,
-                bikemake: row.BIKEMAKE.trim(),
-                bikemodel: row.BIKEMODEL.trim(),
-                capacity: row.CAPACITY ? parseInt(row.CAPACITY) : null,
-                firstyear: row.FIRSTYEAR ? parseInt(row.FIRSTYEAR) : null,
-                lastyear: row.LASTYEAR ? parseInt(row.LASTYEAR) : null
-              };
-
-              // Validate with Zod schema
-              const validatedData = insertMotorcycleSchema.parse(motorcycleData);
-              validMotorcycles.push(validatedData);
-            } else {
-              // Add row errors to main errors array
-              rowErrors.forEach(error => {
-                errors.push({ 
-                  row: rowNumber, 
-                  field: error.field, 
-                  message: error.message 
-                });
-              });
-            }
-          } catch (error) {
-            if (error instanceof z.ZodError) {
-              error.errors.forEach(zodError => {
-                errors.push({
-                  row: rowNumber,
-                  field: zodError.path.join('.'),
-                  message: zodError.message
-                });
-              });
-            } else {
-              errors.push({
-                row: rowNumber,
-                field: 'general',
-                message: error instanceof Error ? error.message : 'Unknown error'
-              });
-            }
-          }
-
-          rowNumber++;
-        }
+      const preview = await planCsvImport(req.shopifyShop!, importType, req.file.originalname, parsed.data);
 
-        // Attempt to save valid motorcycles
-        if (validMotorcycles.length > 0) {
-          try {
-            savedRecords = await storage.bulkCreateMotorcycles(validMotorcycles);
-          } catch (error) {
-            // Handle database errors
-            errors.push({
-              row: 0,
-              field: 'database',
-              message: error instanceof Error ? error.message : 'Database error occurred'
-            });
-          }
-        }
+      // Dry run: return the per-row diff and keep it so exactly this changeset can be committed
+      if (req.body.mode === 'preview') {
+        return res.json(saveCsvImportPreview(req.shopifyShop!, preview));
+      }
 
-          // Create import history record
-          await storage.createImportHistory({
-            type: "motorcycles",
-            filename: req.file.originalname,
-            recordsCount: savedRecords.length,
-            status: savedRecords.length > 0 ? "success" : "error",
-          });
-        } finally {
-          // Always release the advisory lock
-          await storage.releaseAdvisoryLock(1234567890);
-        }
+      const lockAcquired = await storage.acquireAdvisoryLock(CSV_IMPORT_LOCK_ID);
+      if (!lockAcquired) {
+        return res.status(503).json(importInProgressResult);
       }
 
-      const result = {
-        success: errors.length === 0 && savedRecords.length > 0,
-        totalRows: records.length,
-        successCount: savedRecords.length,
-        errorCount: records.length - savedRecords.length,
-        errors: errors.slice(0, 50) // Limit errors to first 50 for UI
-      };
+      let result;
+      try {
+        result = await runCsvImport(req.shopifyShop!, preview, req.user!.username);
+      } finally {
+        // Always release the advisory lock
+        await storage.releaseAdvisoryLock(CSV_IMPORT_LOCK_ID);
+      }
 
       res.json(result);
 
@@ -3280,7 +3635,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.error('CSV import error:', error);
       
       // Create failed import history record
-      await storage.createImportHistory({
+      await storage.createImportHistory(req.shopifyShop!, {
         type: req.body.type || "motorcycles",
         filename: req.file?.originalname || "unknown.csv",
         recordsCount: 0,
@@ -3297,14 +3652,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Commit a previewed CSV import. Rows that changed since the preview are skipped as conflicts.
+  app.post("/api/import/csv/commit", requireRole("editor"), requireShop, async (req, res) => {
+    try {
+      const { previewId } = z.object({ previewId: z.string() }).parse(req.body);
+      const preview = getCsvImportPreview(req.shopifyShop!, previewId);
+      if (!preview) {
+        return res.status(404).json({ message: "Preview not found or expired - upload the file again" });
+      }
+
+      const lockAcquired = await storage.acquireAdvisoryLock(CSV_IMPORT_LOCK_ID);
+      if (!lockAcquired) {
+        return res.status(503).json(importInProgressResult);
+      }
+
+      let result;
+      try {
+        // A preview can only be committed once
+        discardCsvImportPreview(previewId);
+        result = await runCsvImport(req.shopifyShop!, preview, req.user!.username);
+      } finally {
+        await storage.releaseAdvisoryLock(CSV_IMPORT_LOCK_ID);
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "previewId is required" });
+      }
+      console.error('CSV import commit error:', error);
+      res.status(500).json({
+        success: false,
+        totalRows: 0,
+        successCount: 0,
+        errorCount: 1,
+        errors: [{ row: 0, field: 'system', message: 'Server error committing CSV import' }]
+      });
+    }
+  });
+
   // Statistics endpoint for dashboard
-  app.get("/api/stats", async (req, res) => {
+  app.get("/api/stats", requireRole("viewer"), requireShop, async (req, res) => {
     try {
-      const [motorcycles, mappings, importHistory, categoryTags] = await Promise.all([
-        storage.getMotorcycles(),
-        storage.getPartMappings(),
-        storage.getImportHistory(),
-        storage.getPartCategoryTags()
+      const [motorcycles, mappings, importHistory, categoryTags, partsByRecid] = await Promise.all([
+        storage.getMotorcycles(req.shopifyShop!),
+        storage.getPartMappings(req.shopifyShop!),
+        storage.getImportHistory(req.shopifyShop!),
+        storage.getPartCategoryTags(req.shopifyShop!),
+        storage.getMotorcyclePartsByRecid(req.shopifyShop!)
       ]);
 
       // Calculate coverage metrics
@@ -3315,8 +3710,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Category breakdown - count how many motorcycles have each category mapped
       const categoryBreakdown: { [key: string]: number } = {};
       categoryTags.forEach(tag => {
-        const columnName = tag.categoryValue.toLowerCase();
-        const count = motorcycles.filter(m => (m as any)[columnName] && (m as any)[columnName].trim() !== '').length;
+        const count = motorcycles.filter(m => partsByRecid.get(m.recid)?.[tag.categoryValue]).length;
         categoryBreakdown[tag.categoryLabel] = count;
       });
 
@@ -3375,10 +3769,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin endpoint to populate part mapping metadata for SKU-based healing
-  app.post("/api/admin/populate-mapping-metadata", async (req, res) => {
+  app.post("/api/admin/populate-mapping-metadata", requireRole("admin"), requireShop, async (req, res) => {
     try {
       console.log('🔧 Starting part mapping metadata population...');
-      const result = await storage.populatePartMappingMetadata();
+      const result = await storage.populatePartMappingMetadata(req.shopifyShop!);
       
       console.log(`✅ Metadata population completed: ${result.updated} updated, ${result.failed} failed`);
       
@@ -3398,10 +3792,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin endpoint to validate and heal all stale part mappings
-  app.post("/api/admin/heal-stale-mappings", async (req, res) => {
+  app.post("/api/admin/heal-stale-mappings", requireRole("admin"), requireShop, async (req, res) => {
     try {
       console.log('🔧 Starting auto-heal of stale part mappings...');
-      const result = await storage.autoHealAllStalePartMappings();
+      const result = await storage.autoHealAllStalePartMappings(req.shopifyShop!, req.user!.username);
       
       console.log(`✅ Auto-heal completed: ${result.healed} healed, ${result.failed} failed`);
       
@@ -3421,10 +3815,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin endpoint to validate part mappings health
-  app.get("/api/admin/validate-mappings", async (req, res) => {
+  app.get("/api/admin/validate-mappings", requireRole("admin"), requireShop, async (req, res) => {
     try {
       console.log('🔍 Validating part mappings health...');
-      const result = await storage.validatePartMappings();
+      const result = await storage.validatePartMappings(req.shopifyShop!);
       
       console.log(`✅ Validation completed: ${result.healthy.length} healthy, ${result.stale.length} stale, ${result.missing.length} missing SKUs`);
       
@@ -3444,8 +3838,124 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Scheduled mapping jobs: every job type, with defaults for the ones this shop hasn't configured
+  app.get("/api/scheduled-jobs", requireRole("admin"), requireShop, async (req, res) => {
+    try {
+      const shop = req.shopifyShop!;
+      const saved = await storage.getScheduledJobs(shop);
+      const jobs = SCHEDULED_JOB_TYPES.map((jobType): Pick<ScheduledJob, 'jobType' | 'schedule' | 'enabled' | 'nextRunAt' | 'updatedBy' | 'updatedAt'> =>
+        saved.find(job => job.jobType === jobType) ||
+        { jobType, schedule: DEFAULT_JOB_SCHEDULES[jobType], enabled: false, nextRunAt: null, updatedBy: null, updatedAt: '' }
+      );
+      res.json(jobs);
+    } catch (error) {
+      console.error('Error fetching scheduled jobs:', error);
+      res.status(500).json({ message: "Failed to fetch scheduled jobs" });
+    }
+  });
+
+  app.get("/api/scheduled-jobs/runs", requireRole("admin"), requireShop, async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      res.json(await storage.getScheduledJobRuns(req.shopifyShop!, limit));
+    } catch (error) {
+      console.error('Error fetching scheduled job runs:', error);
+      res.status(500).json({ message: "Failed to fetch scheduled job runs" });
+    }
+  });
+
+  app.put("/api/scheduled-jobs/:jobType", requireRole("admin"), requireShop, async (req, res) => {
+    try {
+      const { jobType } = req.params;
+      if (!isScheduledJobType(jobType)) {
+        return res.status(404).json({ message: "Unknown job type" });
+      }
+
+      const { schedule, enabled } = updateScheduledJobSchema.parse(req.body);
+
+      let nextRun: Date | null;
+      try {
+        nextRun = nextCronRun(schedule);
+      } catch (error) {
+        return res.status(400).json({ message: `Invalid schedule: ${(error as Error).message}` });
+      }
+      if (!nextRun) {
+        return res.status(400).json({ message: "Invalid schedule: it never runs" });
+      }
+
+      const job = await storage.saveScheduledJob(req.shopifyShop!, jobType, {
+        schedule,
+        enabled,
+        nextRunAt: enabled ? nextRun.toISOString() : null,
+      }, req.user!.username);
+      console.log(`⏱️ ${jobType} schedule set to "${schedule}" (${enabled ? `next run ${job.nextRunAt}` : 'disabled'})`);
+      res.json(job);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid schedule data", errors: error.errors });
+      }
+      console.error('Error saving scheduled job:', error);
+      res.status(500).json({ message: "Failed to save scheduled job" });
+    }
+  });
+
+  // Run a job now; waits for it to finish and returns the recorded run
+  app.post("/api/scheduled-jobs/:jobType/run", requireRole("admin"), requireShop, async (req, res) => {
+    try {
+      const { jobType } = req.params;
+      if (!isScheduledJobType(jobType)) {
+        return res.status(404).json({ message: "Unknown job type" });
+      }
+
+      const run = await runScheduledJob(req.shopifyShop!, jobType, 'manual', req.user!.username);
+      res.json(run);
+    } catch (error) {
+      console.error('Error running scheduled job:', error);
+      res.status(500).json({ message: "Failed to run job" });
+    }
+  });
+
+  // Fitment data quality: values that don't resolve to a live product or don't fit their category
+  app.get("/api/data-quality/fitments", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      const report = await storage.getFitmentQualityReport(req.shopifyShop!);
+      console.log(`🔍 Fitment quality: ${report.issues.length} issues in ${report.fitmentCount} fitments`);
+      res.json(report);
+    } catch (error) {
+      console.error('Fitment quality report error:', error);
+      res.status(500).json({ message: "Failed to build fitment quality report" });
+    }
+  });
+
+  app.get("/api/data-quality/fitments/export", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      const report = await storage.getFitmentQualityReport(req.shopifyShop!);
+      const csvCell = (value: string | number | null) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+      const csvHeaders = ['PART_CATEGORY', 'BIKEMAKE', 'BIKEMODEL', 'FIRSTYEAR', 'LASTYEAR', 'RECID', 'VALUE', 'ISSUE', 'DETAIL'];
+      const csvRows = report.issues.map(issue => [
+        issue.partCategory,
+        issue.motorcycle.bikemake,
+        issue.motorcycle.bikemodel,
+        issue.motorcycle.firstyear,
+        issue.motorcycle.lastyear,
+        issue.motorcycle.recid,
+        issue.value,
+        issue.issue,
+        issue.detail,
+      ].map(csvCell).join(','));
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', 'attachment; filename="fitment-quality-report.csv"');
+      res.send([csvHeaders.join(','), ...csvRows].join('\n'));
+    } catch (error) {
+      console.error('Fitment quality export error:', error);
+      res.status(500).json({ message: 'Failed to export fitment quality report' });
+    }
+  });
+
   // Debug endpoint to check Shopify authentication status
-  app.get("/api/debug/shopify-status", async (req, res) => {
+  app.get("/api/debug/shopify-status", requireRole("admin"), async (req, res) => {
     try {
       const sessions = Array.from(inMemorySessionStorage.values());
       const activeSession = sessions.find((session: any) => session?.accessToken);
@@ -3464,11 +3974,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Top searches endpoint for analytics
-  app.get("/api/analytics/top-searches", async (req, res) => {
+  app.get("/api/analytics/top-searches", requireRole("viewer"), requireShop, async (req, res) => {
     try {
       const { dateFrom, dateTo, limit } = req.query;
       
-      const topSearches = await storage.getTopSearches(
+      const topSearches = await storage.getTopSearches(req.shopifyShop!, 
         dateFrom as string,
         dateTo as string,
         limit ? parseInt(limit as string) : 25
@@ -3481,8 +3991,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Searches that found no motorcycle, or whose best match has no parts - the fitment team's backlog
+  app.get("/api/analytics/unmet-searches", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      const { dateFrom, dateTo, limit } = unmetSearchQuerySchema.parse(req.query);
+      res.json(await storage.getUnmetSearchDemand(req.shopifyShop!, dateFrom, dateTo, limit));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid unmet search query", errors: error.errors });
+      }
+      console.error('Unmet searches error:', error);
+      res.status(500).json({ message: "Failed to fetch unmet searches" });
+    }
+  });
+
+  // Searches -> bike views -> category expansions -> add-to-cart clicks, per motorcycle and per part category
+  app.get("/api/analytics/storefront-funnel", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      const { dateFrom, dateTo, limit } = storefrontFunnelQuerySchema.parse(req.query);
+      res.json(await storage.getStorefrontFunnel(req.shopifyShop!, dateFrom, dateTo, limit));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid storefront funnel query", errors: error.errors });
+      }
+      console.error('Storefront funnel error:', error);
+      res.status(500).json({ message: "Failed to fetch storefront funnel" });
+    }
+  });
+
+  // Revenue and units from attributed order lines, per motorcycle, make and part category
+  app.get("/api/analytics/order-attribution", requireRole("viewer"), requireShop, async (req, res) => {
+    try {
+      const { dateFrom, dateTo, limit } = orderAttributionQuerySchema.parse(req.query);
+      res.json(await storage.getOrderAttributionReport(req.shopifyShop!, dateFrom, dateTo, limit));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid order attribution query", errors: error.errors });
+      }
+      console.error('Order attribution error:', error);
+      res.status(500).json({ message: "Failed to fetch order attribution" });
+    }
+  });
+
+  // Storefront events from the theme widgets (the app proxy route below serves the native finder block)
+  const recordStorefrontEvent = async (req: Request, res: Response) => {
+    try {
+      const event = storefrontEventSchema.parse(req.body);
+      if (!(await storage.getMotorcycle(req.shopifyShop!, event.recid))) {
+        return res.status(404).json({ message: "Motorcycle not found" });
+      }
+      await storage.recordStorefrontEvent(req.shopifyShop!, event);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid storefront event", errors: error.errors });
+      }
+      console.error('Storefront event error:', error);
+      res.status(500).json({ message: "Failed to record storefront event" });
+    }
+  };
+
+  // The widget isn't signed by the app proxy: the shop must be installed and each shopper is throttled
+  app.post("/api/customer/analytics/events", requireStorefrontShop, createRateLimitMiddleware(60, 60 * 1000), recordStorefrontEvent);
+
+  // Customer API: the motorcycle list behind the widget's make/model/year selectors
+  app.get("/api/customer/motorcycles", requireStorefrontShop, async (req, res) => {
+    try {
+      res.json(await storage.getMotorcycles(req.shopifyShop!));
+    } catch (error) {
+      console.error("Error fetching customer motorcycles:", error);
+      res.status(500).json({ message: "Failed to fetch motorcycles" });
+    }
+  });
+
   // Customer API: Get compatible parts by make/model/year
-  app.get("/api/customer/motorcycle-parts", async (req, res) => {
+  app.get("/api/customer/motorcycle-parts", requireStorefrontShop, async (req, res) => {
     try {
       const { make, model, year } = req.query;
       
@@ -3501,7 +4084,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Find motorcycles matching the make, model, and year
-      const motorcycles = await storage.getMotorcycles();
+      const motorcycles = await storage.getMotorcycles(req.shopifyShop!);
       const matchingMotorcycles = motorcycles.filter(m => 
         m.bikemake === make && 
         m.bikemodel === model &&
@@ -3516,20 +4099,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Get all products from Shopify live and category tags
-      const [categoryTags] = await Promise.all([
-        storage.getPartCategoryTags()
+      // Get all products from the local product cache, category tags and SKU supersessions
+      const [categoryTags, shopifyResponse, supersessions] = await Promise.all([
+        storage.getPartCategoryTags(req.shopifyShop!),
+        storage.getCachedShopifyProducts(req.shopifyShop!),
+        storage.getSkuSupersessions(req.shopifyShop!)
       ]);
+      const skuResolver = createSkuResolver(supersessions);
       
-      // Fetch live products from Shopify
-      const session = inMemorySessionStorage.get('current');
-      if (!session) {
-        return res.status(500).json({ 
-          message: "Shopify session not available. Please authenticate first." 
-        });
-      }
-      
-      const shopifyResponse = await fetchShopifyProducts(session);
       const allProducts = shopifyResponse.products?.map((product: any) => ({
         id: product.id.toString(),
         title: product.title,
@@ -3548,10 +4125,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Check each matching motorcycle for specifically assigned parts only
       for (const motorcycle of matchingMotorcycles) {
+        // Superseded SKUs are shown as their successor; discontinued ones are left out
+        const parts = resolveMotorcycleParts((await storage.getEffectiveMotorcycleParts(req.shopifyShop!, motorcycle.recid)).parts, skuResolver);
         // Check each part category for assigned products
         for (const category of categoryTags) {
-          const columnName = category.categoryValue.toLowerCase();
-          const assignedSku = (motorcycle as any)[columnName];
+          const assignedSku = parts[category.categoryValue];
           
           // Only include parts that have been specifically assigned in admin
           if (assignedSku && assignedSku.trim() !== '') {
@@ -3620,7 +4198,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Customer API: Get compatible parts for a motorcycle (using admin categories)
-  app.get("/api/customer/motorcycles/:recid/compatible-parts", async (req, res) => {
+  app.get("/api/customer/motorcycles/:recid/compatible-parts", requireStorefrontShop, async (req, res) => {
     try {
       const recid = parseInt(req.params.recid);
       if (isNaN(recid)) {
@@ -3628,13 +4206,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get the motorcycle first to verify it exists
-      const motorcycle = await storage.getMotorcycle(recid);
+      const motorcycle = await storage.getMotorcycle(req.shopifyShop!, recid);
       if (!motorcycle) {
         return res.status(404).json({ message: "Motorcycle not found" });
       }
 
       // Use the updated getCompatibleParts method that includes admin category information
-      const parts = await storage.getCompatibleParts(recid);
+      const parts = await storage.getCompatibleParts(req.shopifyShop!, recid);
       
       console.log(`✅ ADMIN CATEGORIES: Found ${parts.length} compatible parts for motorcycle ${motorcycle.recid}: ${motorcycle.bikemake} ${motorcycle.bikemodel}`);
       console.log('📂 Part categories:', parts.map(p => ({ sku: p.sku, adminCategory: p.adminCategory, adminCategoryLabel: p.adminCategoryLabel })));
@@ -3699,7 +4277,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           // Store in memory for current session
           inMemorySessionStorage.set(callback.session.id, callback.session);
-          inMemorySessionStorage.set('current', callback.session);
           
           if (stored) {
             console.log(`✅ MANUAL: Successfully stored session for ${shop} in DATABASE`);
@@ -3721,9 +4298,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           console.log(`WARNING: No access token in callback session!`);
         }
         
-        // Products are now fetched live from Shopify, no caching needed
+        // The shop's product cache fills on first read
         console.log(`Shopify app installed successfully on ${shop}`);
         
+        // Admin requests from this browser now act on this shop
+        setShopCookie(res, shop);
+        
         // Redirect to success page
         const devUrl = process.env.REPLIT_DOMAINS ? `https://${process.env.REPLIT_DOMAINS}` : 'https://rest-express.replit.app';
         res.redirect(`${devUrl}/?shop=${shop}&installed=true`);
@@ -3736,6 +4316,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Shop the admin is currently acting on
+  app.get("/api/auth/shop", requireRole("viewer"), requireShop, (req, res) => {
+    res.json({
+      shop: req.shopifyShop,
+      installed: !!req.shopifySession,
+      installedShops: getInstalledShops()
+    });
+  });
+
   // Get app installation status
   app.get("/api/auth/status", (req, res) => {
     const shop = req.query.shop as string;
@@ -3762,9 +4351,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Shop domain required' });
       }
 
+      // Only serve stores that have installed the app
+      if (!getShopSession(shop)) {
+        return res.status(403).json({ error: 'App not installed for this shop' });
+      }
+
       // If bikeid is provided, generate specific motorcycle page
       if (bikeid) {
-        const motorcycle = await storage.getMotorcycle(parseInt(bikeid));
+        const motorcycle = await storage.getMotorcycle(shop, parseInt(bikeid));
         if (!motorcycle) {
           return res.status(404).json({ error: 'Motorcycle not found' });
         }
@@ -3824,8 +4418,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (bikeid) {
         // Show specific motorcycle compatibility page
         try {
-          const motorcycle = await storage.getMotorcycle(parseInt(bikeid as string));
-          const compatibleParts = await storage.getCompatibleParts(parseInt(bikeid as string));
+          const motorcycle = await storage.getMotorcycle(req.shopifyShop!, parseInt(bikeid as string));
+          const compatibleParts = await storage.getCompatibleParts(req.shopifyShop!, parseInt(bikeid as string));
           
           if (!motorcycle) {
             return res.status(404).send(`
@@ -3844,26 +4438,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
             `);
           }
           
-          // Get live Shopify products for the compatible parts
-          let shopifyProducts = [];
+          // Get cached Shopify products for the compatible parts
+          let shopifyProducts: any[] = [];
           try {
-            const sessions = Array.from(inMemorySessionStorage.values());
-            const activeSession = sessions.find((session: any) => session?.accessToken);
-            
-            if (activeSession) {
-              const shopifyData = await fetchShopifyProducts(activeSession);
-              shopifyProducts = shopifyData.products || [];
-            }
+            const shopifyData = await storage.getCachedShopifyProducts(req.shopifyShop!);
+            shopifyProducts = shopifyData.products;
           } catch (error) {
-            console.error('Failed to fetch live Shopify products for proxy:', error);
+            console.error('Failed to load cached Shopify products for proxy:', error);
           }
           
-          // Map compatible parts to Shopify products
+          // Map compatible parts to Shopify products, keeping the variant the match (or a variant-level mapping) chose
           const compatibleShopifyProducts = compatibleParts
-            .map(mapping => shopifyProducts.find(p => p.id.toString() === mapping.shopifyProductId))
+            .map((part: any) => {
+              const product = shopifyProducts.find(p => p.id.toString() === part.id);
+              return product && { ...product, matchedVariantId: part.matchedVariantId || null };
+            })
             .filter(Boolean);
           
           const motorcyclePage = await generateMotorcyclePage(motorcycle, compatibleShopifyProducts, shop as string);
+
+          try {
+            await storage.recordStorefrontEvent(req.shopifyShop!, { type: 'bike_view', source: 'proxy_page', recid: motorcycle.recid, partCategory: null, sku: null });
+          } catch (analyticsError) {
+            console.error('Failed to track bike view:', analyticsError);
+          }
+
           return res.send(motorcyclePage);
         } catch (error) {
           console.error('Error loading motorcycle page:', error);
@@ -3891,19 +4490,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         case 'years':
           if (make && model) {
             // Get years for specific make+model combination
-            data = await storage.getDistinctYearsByMakeModel(make as string, model as string);
+            data = await storage.getDistinctYearsByMakeModel(req.shopifyShop!, make as string, model as string);
           } else {
             // Get all years (backward compatibility)
-            data = await storage.getDistinctMotorcycleYears();
+            data = await storage.getDistinctMotorcycleYears(req.shopifyShop!);
           }
           break;
         case 'makes':
-          data = await storage.getDistinctMotorcycleMakes();
+          data = await storage.getDistinctMotorcycleMakes(req.shopifyShop!);
           break;
         case 'models':
           if (make) {
             // Get models for specific make
-            data = await storage.getDistinctMotorcycleModelsByMake(make as string);
+            data = await storage.getDistinctMotorcycleModelsByMake(req.shopifyShop!, make as string);
           } else {
             data = [];
           }
@@ -3929,19 +4528,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         case 'years':
           if (make && model) {
             // Get years for specific make+model combination
-            data = await storage.getDistinctYearsByMakeModel(make as string, model as string);
+            data = await storage.getDistinctYearsByMakeModel(req.shopifyShop!, make as string, model as string);
           } else {
             // Get all years (backward compatibility)
-            data = await storage.getDistinctMotorcycleYears();
+            data = await storage.getDistinctMotorcycleYears(req.shopifyShop!);
           }
           break;
         case 'makes':
-          data = await storage.getDistinctMotorcycleMakes();
+          data = await storage.getDistinctMotorcycleMakes(req.shopifyShop!);
           break;
         case 'models':
           if (make) {
             // Get models for specific make
-            data = await storage.getDistinctMotorcycleModelsByMake(make as string);
+            data = await storage.getDistinctMotorcycleModelsByMake(req.shopifyShop!, make as string);
           } else {
             data = [];
           }
@@ -3982,19 +4581,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       let motorcycles = [];
       if (searchQuery) {
-        motorcycles = await storage.searchMotorcycles(searchQuery);
+        motorcycles = await storage.searchMotorcycles(req.shopifyShop!, searchQuery);
       } else if (make && model) {
         // New Make > Model > Year flow - handle year ranges
         const yearRange = parseYearRange(year);
         if (yearRange) {
           // For year ranges, find motorcycles that overlap with any part of the range
-          motorcycles = await storage.filterMotorcyclesByMakeModelYearRange(make, model, yearRange.startYear, yearRange.endYear);
+          motorcycles = await storage.filterMotorcyclesByMakeModelYearRange(req.shopifyShop!, make, model, yearRange.startYear, yearRange.endYear);
         } else {
-          motorcycles = await storage.filterMotorcyclesByMakeModelYear(make, model, undefined);
+          motorcycles = await storage.filterMotorcyclesByMakeModelYear(req.shopifyShop!, make, model, undefined);
         }
       } else if (year && make) {
         // Backward compatibility for old Year > Make flow
-        motorcycles = await storage.filterMotorcycles({
+        motorcycles = await storage.filterMotorcycles(req.shopifyShop!, {
           firstyear: parseInt(year),
           lastyear: parseInt(year),
           bikemake: make
@@ -4021,28 +4620,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       let motorcycles = [];
       if (searchQuery) {
-        motorcycles = await storage.searchMotorcycles(searchQuery);
+        motorcycles = await storage.searchMotorcycles(req.shopifyShop!, searchQuery);
       } else if (make && model) {
         // New Make > Model > Year flow - handle year ranges
         const yearRange = parseYearRange(year);
         if (yearRange) {
           // For year ranges, find motorcycles that overlap with any part of the range
-          motorcycles = await storage.filterMotorcyclesByMakeModelYearRange(make, model, yearRange.startYear, yearRange.endYear);
+          motorcycles = await storage.filterMotorcyclesByMakeModelYearRange(req.shopifyShop!, make, model, yearRange.startYear, yearRange.endYear);
         } else {
-          motorcycles = await storage.filterMotorcyclesByMakeModelYear(make, model, undefined);
+          motorcycles = await storage.filterMotorcyclesByMakeModelYear(req.shopifyShop!, make, model, undefined);
         }
       } else if (year && make) {
         // Backward compatibility for old Year > Make flow - handle year ranges
         const yearRange = parseYearRange(year);
         if (yearRange && yearRange.startYear === yearRange.endYear) {
-          motorcycles = await storage.filterMotorcycles({
+          motorcycles = await storage.filterMotorcycles(req.shopifyShop!, {
             firstyear: yearRange.startYear,
             lastyear: yearRange.startYear,
             bikemake: make
           });
         } else {
           // For year ranges in old flow, just use the start year for compatibility
-          motorcycles = await storage.filterMotorcycles({
+          motorcycles = await storage.filterMotorcycles(req.shopifyShop!, {
             firstyear: yearRange?.startYear || parseInt(year),
             lastyear: yearRange?.startYear || parseInt(year),
             bikemake: make
@@ -4069,47 +4668,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // These routes allow the Theme App Extension to make API calls through the app proxy
   
   // App proxy route for motorcycles data (used by Theme App Extension)
-  app.get("/api/proxy/api/motorcycles", appProxySecurityMiddleware, async (req, res) => {
-    try {
-      const { search, bikemake, firstyear, lastyear, recid } = req.query;
-      
-      if (recid) {
-        // Single motorcycle by recid
-        const motorcycle = await storage.getMotorcycle(parseInt(recid as string));
-        if (!motorcycle) {
-          return res.status(404).json({ error: "Motorcycle not found" });
-        }
-        res.json([motorcycle]); // Return as array for consistency with frontend expectations
-      } else {
-        // Multiple motorcycles with filters
-        if (bikemake || firstyear || lastyear) {
-          // Use filterMotorcycles for filtering by specific criteria
-          const results = await storage.filterMotorcycles({
-            bikemake: bikemake as string,
-            firstyear: firstyear ? parseInt(firstyear as string) : undefined,
-            lastyear: lastyear ? parseInt(lastyear as string) : undefined
-          });
-          res.json(results);
-        } else if (search) {
-          // Use searchMotorcycles for text search
-          const results = await storage.searchMotorcycles(search as string);
-          res.json(results);
-        } else {
-          // Get all motorcycles if no filters
-          const results = await storage.getMotorcycles();
-          res.json(results);
-        }
-      }
-    } catch (error) {
-      console.error("Error fetching motorcycles via app proxy:", error);
-      res.status(500).json({ error: "Failed to fetch motorcycles" });
-    }
-  });
+  app.get("/api/proxy/api/motorcycles", appProxySecurityMiddleware, createMotorcycleProxyHandler(storage));
 
   // App proxy route for motorcycle makes (used by finder page)
   app.get("/api/proxy/api/motorcycles/makes", appProxySecurityMiddleware, async (req, res) => {
     try {
-      const makes = await storage.getDistinctMotorcycleMakes();
+      const makes = await storage.getDistinctMotorcycleMakes(req.shopifyShop!);
       res.json(makes);
     } catch (error) {
       console.error("Error fetching motorcycle makes via app proxy:", error);
@@ -4126,13 +4690,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get the motorcycle first to verify it exists
-      const motorcycle = await storage.getMotorcycle(recid);
+      const motorcycle = await storage.getMotorcycle(req.shopifyShop!, recid);
       if (!motorcycle) {
         return res.status(404).json({ message: "Motorcycle not found" });
       }
 
       // Use the updated getCompatibleParts method that includes admin category information
-      const parts = await storage.getCompatibleParts(recid);
+      const parts = await storage.getCompatibleParts(req.shopifyShop!, recid);
       
       console.log(`🎯 PROXY ADMIN CATEGORIES: Found ${parts.length} compatible parts for motorcycle ${motorcycle.recid}: ${motorcycle.bikemake} ${motorcycle.bikemodel}`);
       console.log('📂 Proxy part categories:', parts.map(p => ({ sku: p.sku, adminCategory: p.adminCategory, adminCategoryLabel: p.adminCategoryLabel })));
@@ -4144,10 +4708,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // App proxy route for storefront events (used by Theme App Extension)
+  app.post("/api/proxy/api/analytics/events", appProxySecurityMiddleware, recordStorefrontEvent);
+
   // App proxy route for part category tags (used by Theme App Extension)
   app.get("/api/proxy/api/part-category-tags", appProxySecurityMiddleware, async (req, res) => {
     try {
-      const tags = await storage.getPartCategoryTags();
+      const tags = await storage.getPartCategoryTags(req.shopifyShop!);
       res.json(tags);
     } catch (error) {
       console.error("Error fetching part category tags via app proxy:", error);
@@ -4156,7 +4723,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Motorcycle Category Configuration routes
-  app.get("/api/motorcycle-category-config", async (req, res) => {
+  app.get("/api/motorcycle-category-config", requireRole("viewer"), requireShop, async (req, res) => {
     try {
       const categories = await storage.getMotorcycleCategoryConfig();
       res.json(categories);
@@ -4166,7 +4733,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/motorcycle-category-config", async (req, res) => {
+  app.post("/api/motorcycle-category-config", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const newCategory = await storage.createMotorcycleCategoryConfig(req.body);
       res.json(newCategory);
@@ -4176,7 +4743,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/motorcycle-category-config/:id", async (req, res) => {
+  app.put("/api/motorcycle-category-config/:id", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const updated = await storage.updateMotorcycleCategoryConfig(req.params.id, req.body);
       if (!updated) {
@@ -4189,7 +4756,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/motorcycle-category-config/:id", async (req, res) => {
+  app.delete("/api/motorcycle-category-config/:id", requireRole("editor"), requireShop, async (req, res) => {
     try {
       const deleted = await storage.deleteMotorcycleCategoryConfig(req.params.id);
       if (!deleted) {
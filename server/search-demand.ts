@@ -0,0 +1,109 @@
+import {
+  motorcycleNameKey,
+  TOOTH_RANGE_CATEGORIES,
+  type Motorcycle,
+  type MotorcycleAlias,
+  type MotorcycleParts,
+  type SearchAnalytics,
+  type UnmetSearchDemand,
+  type UnmetSearchReason
+} from "@shared/schema";
+import { createMotorcycleNormalizer, expandSearchAliases } from "./motorcycle-aliases";
+
+// A search counts half as much for every this many days since it was made
+export const SEARCH_DEMAND_HALF_LIFE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RecordedSearch = Pick<SearchAnalytics, 'searchQuery' | 'resultsCount' | 'topResultRecid' | 'createdAt'>;
+
+type SearchDemandContext = {
+  motorcycles: Motorcycle[];
+  partsByRecid: Map<number, MotorcycleParts>;
+  aliases: MotorcycleAlias[];
+  now: Date;
+};
+
+// Tooth ranges only narrow the sprocket groups, so on their own they're no part
+const hasAssignedParts = (parts: MotorcycleParts | undefined) =>
+  !!parts && Object.keys(parts).some(partCategory => !TOOTH_RANGE_CATEGORIES.includes(partCategory));
+
+// Make, model and year to prefill a new motorcycle with: a leading make we know (or an alias of one), a 4-digit year,
+// and the rest as the model
+function createMotorcycleSuggester(motorcycles: Motorcycle[], aliases: MotorcycleAlias[]) {
+  const normalizer = createMotorcycleNormalizer(aliases, motorcycles);
+  const knownMakes = new Set([
+    ...motorcycles.map(motorcycle => motorcycleNameKey(motorcycle.bikemake)),
+    ...aliases.filter(alias => alias.kind === 'make').map(alias => alias.aliasKey),
+  ]);
+
+  return (query: string): UnmetSearchDemand['suggestion'] => {
+    const yearMatch = query.match(/\b(19\d{2}|20\d{2})\b/);
+    const words = query.replace(/\b(19\d{2}|20\d{2})\b/g, ' ').trim().split(/\s+/).filter(word => word.length > 0);
+    const makeWords = [2, 1].find(length => words.length > length && knownMakes.has(motorcycleNameKey(words.slice(0, length).join(''))));
+    const bikemake = makeWords ? normalizer.make(words.slice(0, makeWords).join(' ')) : null;
+    const model = words.slice(makeWords ?? 0).join(' ');
+
+    return {
+      bikemake,
+      bikemodel: bikemake ? normalizer.model(bikemake, model) : model,
+      year: yearMatch ? parseInt(yearMatch[0]) : null,
+    };
+  };
+}
+
+// Clusters recorded searches by what they looked for and keeps the clusters whose latest search went unmet,
+// highest demand first. Whether the best match has parts is judged now, so assigning parts clears a cluster.
+export function buildUnmetSearchDemand(searches: RecordedSearch[], context: SearchDemandContext, limit: number): UnmetSearchDemand[] {
+  const motorcyclesByRecid = new Map(context.motorcycles.map(motorcycle => [motorcycle.recid, motorcycle]));
+  const suggestMotorcycle = createMotorcycleSuggester(context.motorcycles, context.aliases);
+  const unmetReason = (search: RecordedSearch): UnmetSearchReason | null => {
+    if (search.resultsCount === 0) return 'no_results';
+    const bestMatch = search.topResultRecid !== null ? motorcyclesByRecid.get(search.topResultRecid) : undefined;
+    return bestMatch && !hasAssignedParts(context.partsByRecid.get(bestMatch.recid)) ? 'no_parts' : null;
+  };
+
+  const clusters = new Map<string, RecordedSearch[]>();
+  for (const search of searches) {
+    const key = motorcycleNameKey(expandSearchAliases(search.searchQuery, context.aliases));
+    if (!key) continue;
+    clusters.set(key, [...(clusters.get(key) || []), search]);
+  }
+
+  const demand: UnmetSearchDemand[] = [];
+  for (const [key, clusterSearches] of Array.from(clusters)) {
+    const latest = clusterSearches.reduce((a, b) => b.createdAt > a.createdAt ? b : a);
+    const reason = unmetReason(latest);
+    if (!reason) continue;
+
+    const unmet = clusterSearches.filter(search => unmetReason(search) !== null);
+    const spellings = new Map<string, number>();
+    for (const search of unmet) {
+      const spelling = search.searchQuery.toLowerCase().trim();
+      spellings.set(spelling, (spellings.get(spelling) || 0) + 1);
+    }
+    const [query, ...variants] = Array.from(spellings.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([spelling]) => spelling);
+    const demandScore = unmet.reduce((score, search) => {
+      const ageDays = Math.max(0, context.now.getTime() - new Date(search.createdAt).getTime()) / DAY_MS;
+      return score + Math.pow(0.5, ageDays / SEARCH_DEMAND_HALF_LIFE_DAYS);
+    }, 0);
+
+    demand.push({
+      key,
+      query,
+      variants,
+      reason,
+      searchCount: unmet.length,
+      lastSearchedAt: new Date(latest.createdAt).toISOString(), // Postgres' CURRENT_TIMESTAMP text isn't ISO
+      demandScore: Math.round(demandScore * 100) / 100,
+      motorcycle: reason === 'no_parts' ? motorcyclesByRecid.get(latest.topResultRecid!) ?? null : null,
+      suggestion: suggestMotorcycle(query),
+    });
+  }
+
+  return demand
+    .sort((a, b) => b.demandScore - a.demandScore || b.lastSearchedAt.localeCompare(a.lastSearchedAt))
+    .slice(0, limit);
+}
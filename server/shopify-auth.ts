@@ -1,12 +1,21 @@
-import { shopifyApi, LATEST_API_VERSION, Session } from "@shopify/shopify-api";
+import { shopifyApi, LATEST_API_VERSION, Session, type RestRequestReturn } from "@shopify/shopify-api";
 import "@shopify/shopify-api/adapters/node";
 import { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
 import { storage } from './storage';
+import { LEGACY_SHOP } from "@shared/schema";
 
 // Extend global type for session persistence
 declare global {
   var PERSISTED_SHOPIFY_SESSIONS: string | undefined;
   var LATEST_SHOPIFY_ACCESS_TOKEN: string | undefined;
+
+  namespace Express {
+    interface Request {
+      shopifyShop?: string; // Shop this request acts on (set by requireShop or the app proxy middleware)
+      shopifySession?: Session; // Offline session for that shop, when the app is installed
+    }
+  }
 }
 
 // Initialize Shopify API  
@@ -15,7 +24,7 @@ const appUrl = process.env.SHOPIFY_APP_URL || process.env.REPLIT_DOMAINS ? `http
 export const shopify = shopifyApi({
   apiKey: process.env.SHOPIFY_API_KEY!,
   apiSecretKey: process.env.SHOPIFY_API_SECRET!,
-  scopes: process.env.SHOPIFY_SCOPES?.split(',') || ['read_products', 'write_products'],
+  scopes: process.env.SHOPIFY_SCOPES?.split(',') || ['read_products', 'write_products', 'read_orders'],
   hostName: new URL(appUrl).hostname,
   hostScheme: 'https',
   apiVersion: LATEST_API_VERSION,
@@ -31,7 +40,6 @@ export const shopify = shopifyApi({
         
         // Also keep in memory for compatibility during current session
         inMemorySessionStorage.set(session.id, session);
-        inMemorySessionStorage.set('current', session);
         
         if (stored) {
           console.log(`✅ PERMANENT: Stored Shopify session for ${session.shop} in DATABASE`);
@@ -95,10 +103,6 @@ const loadPersistedSessions = async () => {
     for (const sessionData of sessions) {
       if (sessionData && sessionData.id) {
         inMemorySessionStorage.set(sessionData.id, sessionData as Session);
-        // Store latest session as 'current' for easy access
-        if (sessionData.shop) {
-          inMemorySessionStorage.set('current', sessionData as Session);
-        }
       }
     }
     
@@ -123,9 +127,88 @@ export { loadPersistedSessions };
 // Export inMemorySessionStorage for use in other modules
 export { inMemorySessionStorage };
 
-// Get current session helper
-export const getCurrentSession = (): Session | undefined => {
-  return inMemorySessionStorage.get('current');
+// Get the offline session for a shop (falls back to any session with a token for that shop)
+export const getShopSession = (shop: string): Session | undefined => {
+  const offlineSession = inMemorySessionStorage.get(shopify.session.getOfflineId(shop));
+  if (offlineSession?.accessToken) {
+    return offlineSession;
+  }
+
+  return Array.from(inMemorySessionStorage.values())
+    .find(session => session.shop === shop && !!session.accessToken);
+};
+
+// Shops that have completed OAuth and hold an access token
+export const getInstalledShops = (): string[] => {
+  const shops = Array.from(inMemorySessionStorage.values())
+    .filter(session => !!session.accessToken)
+    .map(session => session.shop);
+  return Array.from(new Set(shops));
+};
+
+// Signed cookie naming the shop an admin logged in with through OAuth
+export const SHOP_COOKIE = 'fmb_shop';
+
+export const setShopCookie = (res: Response, shop: string) => {
+  res.cookie(SHOP_COOKIE, shop, {
+    signed: true,
+    httpOnly: true,
+    secure: true,
+    sameSite: 'none', // The admin runs inside the Shopify admin iframe
+    maxAge: 30 * 24 * 60 * 60 * 1000,
+  });
+};
+
+// Middleware to resolve the shop for admin and app requests.
+// Uses the logged-in shop; with a single connected store (or none yet) that store is used.
+export const requireShop = (req: Request, res: Response, next: NextFunction) => {
+  const cookieShop = req.signedCookies?.[SHOP_COOKIE];
+  let shop = typeof cookieShop === 'string' ? cookieShop : undefined;
+
+  if (!shop) {
+    const installedShops = getInstalledShops();
+    if (installedShops.length === 1) {
+      shop = installedShops[0];
+    } else if (installedShops.length === 0) {
+      shop = LEGACY_SHOP;
+    } else {
+      return res.status(401).json({
+        message: "Multiple stores are connected - log in through Shopify to choose a store",
+        installedShops,
+      });
+    }
+  }
+
+  req.shopifyShop = shop;
+  req.shopifySession = getShopSession(shop);
+  next();
+};
+
+// Middleware to resolve the shop for storefront requests outside the app proxy (the embeddable widget).
+// Shoppers carry no admin cookie, so the shop comes from the `shop` parameter and must be an installed store;
+// it may only be left out while a single store (or none yet) is connected.
+export const requireStorefrontShop = (req: Request, res: Response, next: NextFunction) => {
+  const installedShops = getInstalledShops();
+  const shopParam = typeof req.query.shop === 'string' ? req.query.shop.trim().toLowerCase() : '';
+  let shop: string;
+
+  if (shopParam) {
+    const shopDomain = shopParam.includes('.myshopify.com') ? shopParam : `${shopParam}.myshopify.com`;
+    if (!installedShops.includes(shopDomain)) {
+      return res.status(403).json({ message: "App not installed for this shop" });
+    }
+    shop = shopDomain;
+  } else if (installedShops.length === 1) {
+    shop = installedShops[0];
+  } else if (installedShops.length === 0) {
+    shop = LEGACY_SHOP;
+  } else {
+    return res.status(400).json({ message: "Missing shop parameter" });
+  }
+
+  req.shopifyShop = shop;
+  req.shopifySession = getShopSession(shop);
+  next();
 };
 
 // Middleware to verify shop parameter
@@ -173,8 +256,40 @@ export const validateAuthCallback = async (req: any, res: any) => {
   }
 };
 
-// Fetch products from Shopify store
-export const fetchShopifyProducts = async (session: ShopifySession) => {
+// Shopify REST caps page size at 250 products and 250 variants per request
+const SHOPIFY_PAGE_LIMIT = 250;
+
+// Products returned by the products endpoint only embed the first 100 variants
+const EMBEDDED_VARIANT_LIMIT = 100;
+
+export type ShopifyCatalogFetchResult = {
+  products: any[];
+  pageCount: number;
+  productCount: number;
+  variantCount: number;
+};
+
+// Fetch every variant of a single product, following cursor pagination
+const fetchAllProductVariants = async (client: InstanceType<typeof shopify.clients.Rest>, productId: string | number) => {
+  const variants: any[] = [];
+  let pageQuery: Record<string, any> | undefined = { limit: SHOPIFY_PAGE_LIMIT };
+  let path = `products/${productId}/variants`;
+
+  while (pageQuery) {
+    const response: RestRequestReturn = await client.get({ path, query: pageQuery });
+    const body = response.body as any;
+    variants.push(...(body.variants || []));
+
+    const nextPage = response.pageInfo?.nextPage;
+    path = nextPage?.path || path;
+    pageQuery = nextPage?.query;
+  }
+
+  return variants;
+};
+
+// Fetch products from Shopify store, walking every page of the catalog
+export const fetchShopifyProducts = async (session: ShopifySession): Promise<ShopifyCatalogFetchResult> => {
   if (!session.accessToken) {
     throw new Error('No access token available');
   }
@@ -184,29 +299,45 @@ export const fetchShopifyProducts = async (session: ShopifySession) => {
   });
   
   try {
-    const response = await client.get({
-      path: 'products',
-      query: { limit: 250 }, // Adjust as needed
-    });
-    
-    const productsData = response.body as any;
-    
-    // Log variant information for debugging
-    if (productsData.products) {
-      const totalVariants = productsData.products.reduce((sum: number, product: any) => {
-        return sum + (product.variants?.length || 0);
-      }, 0);
-      console.log(`Fetched ${productsData.products.length} products with ${totalVariants} total variants from Shopify`);
-      
-      // Log products with multiple variants
-      const productsWithVariants = productsData.products.filter((p: any) => p.variants && p.variants.length > 1);
-      console.log(`Found ${productsWithVariants.length} products with multiple variants`);
-      productsWithVariants.forEach((p: any) => {
-        console.log(`- ${p.title}: ${p.variants.length} variants`);
-      });
+    const products: any[] = [];
+    let pageCount = 0;
+    let path = 'products';
+    let pageQuery: Record<string, any> | undefined = { limit: SHOPIFY_PAGE_LIMIT };
+
+    // Follow the Link header cursors until Shopify stops returning a next page
+    while (pageQuery) {
+      const response: RestRequestReturn = await client.get({ path, query: pageQuery });
+      const pageProducts = (response.body as any).products || [];
+      pageCount++;
+
+      for (const product of pageProducts) {
+        // Large sprocket groups can exceed the embedded variant limit - load the rest separately
+        if (product.variants && product.variants.length >= EMBEDDED_VARIANT_LIMIT) {
+          product.variants = await fetchAllProductVariants(client, product.id);
+        }
+        products.push(product);
+      }
+
+      const nextPage = response.pageInfo?.nextPage;
+      path = nextPage?.path || path;
+      pageQuery = nextPage?.query;
     }
+
+    const variantCount = products.reduce((sum: number, product: any) => {
+      return sum + (product.variants?.length || 0);
+    }, 0);
+    console.log(`Fetched ${products.length} products with ${variantCount} total variants from Shopify across ${pageCount} page(s)`);
+
+    // Log products with multiple variants
+    const productsWithVariants = products.filter((p: any) => p.variants && p.variants.length > 1);
+    console.log(`Found ${productsWithVariants.length} products with multiple variants`);
     
-    return response.body;
+    return {
+      products,
+      pageCount,
+      productCount: products.length,
+      variantCount,
+    };
   } catch (error) {
     console.error('Failed to fetch products:', error);
     throw error;
@@ -228,17 +359,20 @@ export const fetchShopifyProductsByIds = async (session: ShopifySession, product
   });
   
   try {
-    // Shopify REST API allows fetching multiple products by IDs
-    const idsParam = productIds.join(',');
-    const response = await client.get({
-      path: 'products',
-      query: { ids: idsParam, limit: 250 },
-    });
+    // Shopify REST API allows fetching up to 250 products by IDs per request
+    const products: any[] = [];
+    for (let i = 0; i < productIds.length; i += SHOPIFY_PAGE_LIMIT) {
+      const idsParam = productIds.slice(i, i + SHOPIFY_PAGE_LIMIT).join(',');
+      const response = await client.get({
+        path: 'products',
+        query: { ids: idsParam, limit: SHOPIFY_PAGE_LIMIT },
+      });
+      products.push(...((response.body as any).products || []));
+    }
     
-    const productsData = response.body as any;
-    console.log(`Fetched ${productsData.products?.length || 0} live products from Shopify for ${productIds.length} requested IDs`);
+    console.log(`Fetched ${products.length} live products from Shopify for ${productIds.length} requested IDs`);
     
-    return productsData;
+    return { products };
   } catch (error) {
     console.error('Failed to fetch products by IDs:', error);
     throw error;
@@ -246,11 +380,17 @@ export const fetchShopifyProductsByIds = async (session: ShopifySession, product
 };
 
 // Verify request authenticity using HMAC
-export const verifyWebhook = (data: string, hmacHeader: string): boolean => {
-  const crypto = require('crypto');
-  const hmac = crypto.createHmac('sha256', process.env.SHOPIFY_API_SECRET!);
-  hmac.update(data, 'utf8');
-  const calculatedHmac = hmac.digest('base64');
-  
-  return calculatedHmac === hmacHeader;
+export const verifyWebhook = (data: string | Buffer, hmacHeader: string): boolean => {
+  if (!hmacHeader || !process.env.SHOPIFY_API_SECRET) {
+    return false;
+  }
+
+  const calculatedHmac = crypto
+    .createHmac('sha256', process.env.SHOPIFY_API_SECRET)
+    .update(data)
+    .digest();
+  const receivedHmac = Buffer.from(hmacHeader, 'base64');
+
+  return receivedHmac.length === calculatedHmac.length &&
+    crypto.timingSafeEqual(receivedHmac, calculatedHmac);
 };
\ No newline at end of file
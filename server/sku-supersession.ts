@@ -0,0 +1,131 @@
+import {
+  TOOTH_RANGE_CATEGORIES,
+  type Motorcycle,
+  type MotorcycleParts,
+  type SkuSupersession,
+  type SupersededFitment,
+  type DiscontinuedSkuReportEntry
+} from "@shared/schema";
+
+// Where a SKU ends up after following its supersessions. sku is null when the chain ends in a discontinuation.
+export type SkuResolution = {
+  sku: string | null;
+  chain: string[]; // The SKUs followed, starting with the one asked about
+  discontinuedBy?: SkuSupersession;
+};
+
+export type SkuResolver = {
+  resolve(sku: string): SkuResolution;
+  isDiscontinued(sku: string): boolean;
+  predecessors(sku: string): string[]; // Other SKUs that resolve to the same SKU as this one
+};
+
+// Today's date in the same YYYY-MM-DD form as effectiveDate
+export function supersessionDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+// Follows old -> new case-insensitively through every supersession effective on `asOf`; cycles stop where they repeat
+export function createSkuResolver(supersessions: SkuSupersession[], asOf: string = supersessionDate()): SkuResolver {
+  const byOldSku = new Map<string, SkuSupersession>();
+  for (const supersession of supersessions) {
+    if (supersession.effectiveDate && supersession.effectiveDate > asOf) continue;
+    byOldSku.set(supersession.oldSku.trim().toLowerCase(), supersession);
+  }
+
+  const resolve = (sku: string): SkuResolution => {
+    const chain = [sku];
+    const seen = new Set([sku.trim().toLowerCase()]);
+    let current = sku;
+
+    for (let next = byOldSku.get(current.trim().toLowerCase()); next; next = byOldSku.get(current.trim().toLowerCase())) {
+      if (next.newSku === null) {
+        return { sku: null, chain, discontinuedBy: next };
+      }
+      if (seen.has(next.newSku.trim().toLowerCase())) break;
+      seen.add(next.newSku.trim().toLowerCase());
+      chain.push(next.newSku);
+      current = next.newSku;
+    }
+
+    return { sku: current, chain };
+  };
+
+  return {
+    resolve,
+    isDiscontinued: (sku) => resolve(sku).sku === null,
+    predecessors: (sku) => {
+      const target = resolve(sku).sku?.trim().toLowerCase();
+      if (target === undefined) return [];
+      return supersessions
+        .map(supersession => supersession.oldSku)
+        .filter(oldSku => oldSku.trim().toLowerCase() !== sku.trim().toLowerCase() &&
+          resolve(oldSku).sku?.trim().toLowerCase() === target);
+    },
+  };
+}
+
+// A motorcycle's parts with superseded SKUs replaced by their successors and discontinued ones dropped.
+// Tooth ranges aren't SKUs and are left alone.
+export function resolveMotorcycleParts(parts: MotorcycleParts, resolver: SkuResolver): MotorcycleParts {
+  const resolved: MotorcycleParts = {};
+  for (const [partCategory, value] of Object.entries(parts)) {
+    if (TOOTH_RANGE_CATEGORIES.includes(partCategory)) {
+      resolved[partCategory] = value;
+      continue;
+    }
+    const { sku } = resolver.resolve(value);
+    if (sku !== null) {
+      resolved[partCategory] = sku;
+    }
+  }
+  return resolved;
+}
+
+type StoredFitment = { id: string, motorcycleRecid: number, partCategory: string, sku: string };
+
+// Fitments whose stored SKU has an effective successor - what the bulk rewrite changes
+export function findSupersededFitments(fitments: StoredFitment[], motorcycles: Motorcycle[], resolver: SkuResolver): SupersededFitment[] {
+  const motorcyclesByRecid = new Map(motorcycles.map(motorcycle => [motorcycle.recid, motorcycle]));
+  const superseded: SupersededFitment[] = [];
+
+  for (const fitment of fitments) {
+    const motorcycle = motorcyclesByRecid.get(fitment.motorcycleRecid);
+    if (!motorcycle || TOOTH_RANGE_CATEGORIES.includes(fitment.partCategory)) continue;
+
+    const { sku, chain } = resolver.resolve(fitment.sku);
+    if (sku === null || chain.length === 1) continue;
+    superseded.push({ fitmentId: fitment.id, motorcycle, partCategory: fitment.partCategory, sku: fitment.sku, resolvedSku: sku, chain });
+  }
+
+  return superseded.sort((a, b) =>
+    a.sku.localeCompare(b.sku) ||
+    a.motorcycle.bikemake.localeCompare(b.motorcycle.bikemake) ||
+    a.motorcycle.bikemodel.localeCompare(b.motorcycle.bikemodel)
+  );
+}
+
+// Every effective discontinuation, with the fitments whose SKU (directly or through successors) ends in it
+export function buildDiscontinuedSkuReport(fitments: StoredFitment[], motorcycles: Motorcycle[], resolver: SkuResolver, supersessions: SkuSupersession[]): DiscontinuedSkuReportEntry[] {
+  const motorcyclesByRecid = new Map(motorcycles.map(motorcycle => [motorcycle.recid, motorcycle]));
+  const entries = new Map<string, DiscontinuedSkuReportEntry>();
+
+  for (const supersession of supersessions) {
+    const { discontinuedBy } = resolver.resolve(supersession.oldSku);
+    if (discontinuedBy?.id === supersession.id) {
+      entries.set(supersession.id, { sku: supersession.oldSku, supersession, fitments: [] });
+    }
+  }
+
+  for (const fitment of fitments) {
+    const motorcycle = motorcyclesByRecid.get(fitment.motorcycleRecid);
+    if (!motorcycle || TOOTH_RANGE_CATEGORIES.includes(fitment.partCategory)) continue;
+
+    const { discontinuedBy } = resolver.resolve(fitment.sku);
+    if (discontinuedBy) {
+      entries.get(discontinuedBy.id)?.fitments.push({ fitmentId: fitment.id, motorcycle, partCategory: fitment.partCategory, sku: fitment.sku });
+    }
+  }
+
+  return Array.from(entries.values()).sort((a, b) => b.fitments.length - a.fitments.length || a.sku.localeCompare(b.sku));
+}
@@ -10,50 +10,161 @@ import {
   type InsertPartMapping,
   type ImportHistory,
   type InsertImportHistory,
+  type ImportBatchRow,
+  type ImportBatchEntityType,
   type PartCategoryTags,
   type InsertPartCategoryTags,
   type SearchAnalytics,
   type InsertSearchAnalytics,
+  type UnmetSearchDemand,
+  type StorefrontEvent,
+  type StorefrontEventInput,
+  type StorefrontFunnel,
+  type OrderAttributionReport,
+  type OrderLineAttribution,
   type PartSection,
-  type InsertPartSection
+  type InsertPartSection,
+  type AdminUser,
+  type PartAssignmentAudit,
+  type PartAssignmentChange,
+  type MotorcycleFitment,
+  type MotorcycleParts,
+  type MotorcycleFitmentDetails,
+  type FitmentDetails,
+  type CategoryPromotion,
+  type ReverseFitmentLookup,
+  type ReverseFitmentMatch,
+  type BulkAssignmentFilter,
+  type MotorcycleListQuery,
+  type MotorcycleListPage,
+  type FitmentRule,
+  type FitmentRuleConditions,
+  type InsertFitmentRule,
+  type EffectiveMotorcycleParts,
+  type CompatiblePartsExplanation,
+  type FitmentQualityReport,
+  type SkuSupersession,
+  type InsertSkuSupersession,
+  type SupersededFitment,
+  type DiscontinuedSkuReportEntry,
+  type MotorcycleAlias,
+  type InsertMotorcycleAlias,
+  type MotorcycleNameDuplicate,
+  type ScheduledJob,
+  type ScheduledJobType,
+  type ScheduledJobRun,
+  LEGACY_PART_COLUMNS,
+  TOOTH_RANGE_CATEGORIES,
+  toMotorcycleParts,
+  normalizeFitmentDetails,
+  defaultCategoryLabel,
+  motorcycleNameKey,
+  LEGACY_SHOP
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { applyFitmentRules, motorcycleMatchesFilter, motorcycleMatchesRule, sortFitmentRules } from "./fitment-rules";
+import { decodeMotorcycleCursor, motorcycleMatchesListQuery, motorcycleSearchScore, paginateMotorcycles, parseMotorcycleSearch, rankMotorcycleSearch, type ScoredMotorcycle } from "./motorcycle-listing";
+import { createSkuResolver, findSupersededFitments, buildDiscontinuedSkuReport } from "./sku-supersession";
+import { expandSearchAliases, findMotorcycleNameDuplicates, seedAliasesFromDuplicates } from "./motorcycle-aliases";
+import { buildUnmetSearchDemand } from "./search-demand";
+import { buildStorefrontFunnel } from "./storefront-funnel";
+import { buildOrderAttributionReport, parseOrderAttribution, unrecordedOrderLines, type ShopifyOrderPayload } from "./order-attribution";
 
+// Motorcycle, mapping, category tag and analytics data is scoped to a shop (myshopify domain)
 export interface IStorage {
   // Motorcycles
-  getMotorcycles(): Promise<Motorcycle[]>;
-  getMotorcycle(recid: number): Promise<Motorcycle | undefined>;
-  createMotorcycle(motorcycle: InsertMotorcycle): Promise<Motorcycle>;
-  updateMotorcycle(recid: number, motorcycle: Partial<InsertMotorcycle>): Promise<Motorcycle | undefined>;
-  deleteMotorcycle(recid: number): Promise<boolean>;
-  searchMotorcycles(query: string): Promise<Motorcycle[]>;
-  filterMotorcycles(filters: { bikemake?: string; firstyear?: number; lastyear?: number; bikeCategory?: string; bikeSubcategory?: string }): Promise<Motorcycle[]>;
-  getDistinctMotorcycleMakes(): Promise<string[]>;
-  getDistinctMotorcycleYears(): Promise<number[]>;
-  getDistinctMotorcycleModelsByMake(make: string): Promise<string[]>;
-  getDistinctYearsByMakeModel(make: string, model: string): Promise<string[]>;
-  filterMotorcyclesByMakeModelYear(make: string, model: string, year?: number): Promise<Motorcycle[]>;
-  filterMotorcyclesByMakeModelYearRange(make: string, model: string, startYear?: number, endYear?: number): Promise<Motorcycle[]>;
-  getNextMotorcycleRecid(): Promise<number>;
-  getCategoryUsage(): Promise<{ fixedColumns: string[], jsonbCategories: { category: string, count: number }[] }>;
+  getMotorcycles(shop: string): Promise<Motorcycle[]>;
+  getMotorcycle(shop: string, recid: number): Promise<Motorcycle | undefined>;
+  createMotorcycle(shop: string, motorcycle: InsertMotorcycle): Promise<Motorcycle>;
+  updateMotorcycle(shop: string, recid: number, motorcycle: Partial<InsertMotorcycle>): Promise<Motorcycle | undefined>;
+  deleteMotorcycle(shop: string, recid: number): Promise<boolean>;
+  searchMotorcycles(shop: string, query: string): Promise<Motorcycle[]>;
+  filterMotorcycles(shop: string, filters: { bikemake?: string; firstyear?: number; lastyear?: number; bikeCategory?: string; bikeSubcategory?: string }): Promise<Motorcycle[]>;
+  filterMotorcyclesForBulkAssignment(shop: string, filter: BulkAssignmentFilter): Promise<Motorcycle[]>;
+  listMotorcycles(shop: string, query: MotorcycleListQuery): Promise<MotorcycleListPage>;
+  getDistinctMotorcycleMakes(shop: string): Promise<string[]>;
+  getDistinctMotorcycleYears(shop: string): Promise<number[]>;
+  getDistinctMotorcycleModelsByMake(shop: string, make: string): Promise<string[]>;
+  getDistinctYearsByMakeModel(shop: string, make: string, model: string): Promise<string[]>;
+  filterMotorcyclesByMakeModelYear(shop: string, make: string, model: string, year?: number): Promise<Motorcycle[]>;
+  filterMotorcyclesByMakeModelYearRange(shop: string, make: string, model: string, startYear?: number, endYear?: number): Promise<Motorcycle[]>;
+  getNextMotorcycleRecid(shop: string): Promise<number>;
+  getCategoryUsage(shop: string): Promise<{ fixedColumns: string[], jsonbCategories: { category: string, count: number }[] }>;
+
+  // Fitments (one assigned SKU per motorcycle and part category)
+  getMotorcycleFitments(shop: string, recid: number): Promise<MotorcycleFitment[]>;
+  getMotorcycleParts(shop: string, recid: number): Promise<MotorcycleParts>;
+  getMotorcyclePartsByRecid(shop: string): Promise<Map<number, MotorcycleParts>>;
+  getFitmentDetailsByRecid(shop: string): Promise<Map<number, MotorcycleFitmentDetails>>;
+  updateFitmentDetails(shop: string, recid: number, partCategory: string, details: FitmentDetails): Promise<MotorcycleFitment | undefined>;
+  migrateLegacyPartAssignments(): Promise<{ motorcycles: number, fitments: number }>;
+
+  // Category Promotions (legacy values moved into fitments and the category registered)
+  getCategoryPromotions(shop: string): Promise<CategoryPromotion[]>;
+  promotePartCategory(shop: string, partCategory: string, promotedBy: string | null): Promise<{ success: boolean, message: string, promotion?: CategoryPromotion }>;
+  rollbackCategoryPromotion(shop: string, promotionId: string, rolledBackBy: string | null): Promise<{ success: boolean, message: string }>;
+
+  // Fitment Rules (applied wherever a bike has no explicit assignment for the category)
+  getFitmentRules(shop: string): Promise<FitmentRule[]>;
+  getFitmentRule(shop: string, id: string): Promise<FitmentRule | undefined>;
+  createFitmentRule(shop: string, rule: InsertFitmentRule, createdBy: string | null): Promise<FitmentRule>;
+  updateFitmentRule(shop: string, id: string, updates: Partial<InsertFitmentRule>, updatedBy: string | null): Promise<FitmentRule | undefined>;
+  deleteFitmentRule(shop: string, id: string): Promise<boolean>;
+  getFitmentRuleMatches(shop: string, conditions: FitmentRuleConditions): Promise<Motorcycle[]>;
+  getEffectiveMotorcycleParts(shop: string, recid: number): Promise<EffectiveMotorcycleParts>;
+
+  // SKU Supersessions (replaced and discontinued part numbers; resolved when matching compatible parts)
+  getSkuSupersessions(shop: string): Promise<SkuSupersession[]>;
+  createSkuSupersession(shop: string, supersession: InsertSkuSupersession, createdBy: string | null): Promise<SkuSupersession>;
+  updateSkuSupersession(shop: string, id: string, updates: Partial<InsertSkuSupersession>, updatedBy: string | null): Promise<SkuSupersession | undefined>;
+  deleteSkuSupersession(shop: string, id: string): Promise<boolean>;
+  getSupersededFitments(shop: string): Promise<SupersededFitment[]>;
+  rewriteSupersededFitments(shop: string, fitmentIds: string[] | undefined, change: PartAssignmentChange): Promise<{ changed: number, unchanged: number }>;
+  getDiscontinuedSkuReport(shop: string): Promise<DiscontinuedSkuReportEntry[]>;
+
+  // Motorcycle Aliases (other spellings of makes and models; applied by CSV imports and motorcycle search)
+  getMotorcycleAliases(shop: string): Promise<MotorcycleAlias[]>;
+  createMotorcycleAlias(shop: string, alias: InsertMotorcycleAlias, createdBy: string | null): Promise<MotorcycleAlias>;
+  updateMotorcycleAlias(shop: string, id: string, alias: InsertMotorcycleAlias): Promise<MotorcycleAlias | undefined>;
+  deleteMotorcycleAlias(shop: string, id: string): Promise<boolean>;
+  getMotorcycleNameDuplicates(shop: string): Promise<MotorcycleNameDuplicate[]>;
+  seedMotorcycleAliases(shop: string, createdBy: string | null): Promise<MotorcycleAlias[]>;
+
+  // Part Assignments (each change is recorded in the audit log)
+  assignMotorcyclePart(shop: string, recid: number, partCategory: string, productVariant: string | null, change: PartAssignmentChange): Promise<Motorcycle | undefined>;
+  bulkAssignMotorcyclePart(shop: string, recids: number[], partCategory: string, productVariant: string | null, change: PartAssignmentChange): Promise<{ changed: number, unchanged: number }>;
+  cloneMotorcycleFitments(shop: string, sourceRecid: number, targetRecids: number[], categories: string[], change: PartAssignmentChange): Promise<{ changed: number, unchanged: number } | undefined>;
+  getPartAssignmentHistory(shop: string, recid: number, limit?: number): Promise<PartAssignmentAudit[]>;
+  getPartAssignmentAuditEntry(shop: string, id: string): Promise<PartAssignmentAudit | undefined>;
+  revertPartAssignment(shop: string, auditId: string, changedBy: string | null): Promise<{ success: boolean, message: string }>;
 
   // Part Mappings
-  getPartMappings(): Promise<PartMapping[]>;
-  getPartMappingsByMotorcycle(motorcycleRecid: number): Promise<PartMapping[]>;
-  getPartMappingsByProduct(productId: string): Promise<PartMapping[]>;
-  createPartMapping(mapping: InsertPartMapping): Promise<PartMapping>;
-  deletePartMapping(id: string): Promise<boolean>;
+  getPartMappings(shop: string): Promise<PartMapping[]>;
+  getPartMappingsByMotorcycle(shop: string, motorcycleRecid: number): Promise<PartMapping[]>;
+  getPartMappingsByProduct(shop: string, productId: string): Promise<PartMapping[]>;
+  createPartMapping(shop: string, mapping: InsertPartMapping): Promise<PartMapping>;
+  deletePartMapping(shop: string, id: string): Promise<boolean>;
 
-  // Compatible Parts (fetches live from Shopify API, not from database)
-  getCompatibleParts(motorcycleRecid: number): Promise<ShopifyProductWithVariants[]>;
+  // Reverse Fitment Lookup (fitments and part mappings referencing a SKU or product)
+  getReverseFitments(shop: string, query: { sku?: string, productId?: string }): Promise<ReverseFitmentLookup>;
 
-  // Import History
-  getImportHistory(): Promise<ImportHistory[]>;
-  createImportHistory(history: InsertImportHistory): Promise<ImportHistory>;
+  // Compatible Parts (matched against the local Shopify product cache)
+  getCompatibleParts(shop: string, motorcycleRecid: number): Promise<ShopifyProductWithVariants[]>;
+  explainCompatibleParts(shop: string, motorcycleRecid: number): Promise<CompatiblePartsExplanation | undefined>;
+  getFitmentQualityReport(shop: string): Promise<FitmentQualityReport>;
+
+  // Import History (each import is a batch that records the before-state of every row it touched)
+  getImportHistory(shop: string): Promise<ImportHistory[]>;
+  getImportHistoryEntry(shop: string, id: string): Promise<ImportHistory | undefined>;
+  createImportHistory(shop: string, history: InsertImportHistory): Promise<ImportHistory>;
+  updateImportHistory(shop: string, id: string, updates: Partial<InsertImportHistory>): Promise<ImportHistory | undefined>;
+  recordImportBatchRow(shop: string, importId: string, entityType: ImportBatchEntityType, entityId: string, beforeState: object | null): Promise<void>;
+  getImportBatchRows(shop: string, importId: string): Promise<ImportBatchRow[]>;
+  rollbackImport(shop: string, importId: string, rolledBackBy: string | null): Promise<{ success: boolean, message: string }>;
 
   // Bulk operations
-  bulkCreateMotorcycles(motorcycles: InsertMotorcycle[]): Promise<Motorcycle[]>;
-  bulkCreatePartMappings(mappings: InsertPartMapping[]): Promise<PartMapping[]>;
+  bulkCreateMotorcycles(shop: string, motorcycles: InsertMotorcycle[]): Promise<Motorcycle[]>;
+  bulkCreatePartMappings(shop: string, mappings: InsertPartMapping[]): Promise<PartMapping[]>;
 
   // Shopify Sessions
   getShopifySession(id: string): Promise<any | undefined>;
@@ -62,11 +173,11 @@ export interface IStorage {
   getAllShopifySessions(): Promise<any[]>;
 
   // Part Category Tags
-  getPartCategoryTags(): Promise<PartCategoryTags[]>;
-  getPartCategoryTag(categoryValue: string): Promise<PartCategoryTags | undefined>;
-  createPartCategoryTag(partCategoryTag: InsertPartCategoryTags): Promise<PartCategoryTags>;
-  updatePartCategoryTag(categoryValue: string, updates: Partial<InsertPartCategoryTags>): Promise<PartCategoryTags | undefined>;
-  deletePartCategoryTag(categoryValue: string): Promise<boolean>;
+  getPartCategoryTags(shop: string): Promise<PartCategoryTags[]>;
+  getPartCategoryTag(shop: string, categoryValue: string): Promise<PartCategoryTags | undefined>;
+  createPartCategoryTag(shop: string, partCategoryTag: InsertPartCategoryTags): Promise<PartCategoryTags>;
+  updatePartCategoryTag(shop: string, categoryValue: string, updates: Partial<InsertPartCategoryTags>): Promise<PartCategoryTags | undefined>;
+  deletePartCategoryTag(shop: string, categoryValue: string): Promise<boolean>;
 
   // Part Sections
   getPartSections(): Promise<PartSection[]>;
@@ -77,12 +188,40 @@ export interface IStorage {
   initializeDefaultPartSections(): Promise<PartSection[]>;
 
   // Search Analytics
-  createSearchAnalytics(analytics: InsertSearchAnalytics): Promise<SearchAnalytics>;
-  getTopSearches(dateFrom?: string, dateTo?: string, limit?: number): Promise<{searchQuery: string, searchCount: number}[]>;
+  createSearchAnalytics(shop: string, analytics: InsertSearchAnalytics): Promise<SearchAnalytics>;
+  getTopSearches(shop: string, dateFrom?: string, dateTo?: string, limit?: number): Promise<{searchQuery: string, searchCount: number}[]>;
+  getUnmetSearchDemand(shop: string, dateFrom?: string, dateTo?: string, limit?: number): Promise<UnmetSearchDemand[]>;
+  recordStorefrontEvent(shop: string, event: StorefrontEventInput): Promise<StorefrontEvent>;
+  getStorefrontFunnel(shop: string, dateFrom?: string, dateTo?: string, limit?: number): Promise<StorefrontFunnel>;
+
+  // Order Attribution (orders/create webhook lines bought for a motorcycle)
+  recordOrderAttribution(shop: string, order: ShopifyOrderPayload): Promise<number>;
+  getOrderAttributionReport(shop: string, dateFrom?: string, dateTo?: string, limit?: number): Promise<OrderAttributionReport>;
   
+  // Scheduled Jobs (mapping maintenance run by server/job-scheduler.ts)
+  getScheduledJobs(shop: string): Promise<ScheduledJob[]>;
+  saveScheduledJob(shop: string, jobType: ScheduledJobType, job: Pick<ScheduledJob, 'schedule' | 'enabled' | 'nextRunAt'>, updatedBy: string | null): Promise<ScheduledJob>;
+  getDueScheduledJobs(now: string): Promise<ScheduledJob[]>;
+  claimScheduledJob(id: string, expectedNextRunAt: string, nextRunAt: string | null): Promise<boolean>;
+  createScheduledJobRun(shop: string, run: Pick<ScheduledJobRun, 'jobType' | 'trigger' | 'status' | 'triggeredBy'> & Partial<ScheduledJobRun>): Promise<ScheduledJobRun>;
+  updateScheduledJobRun(id: string, updates: Partial<ScheduledJobRun>): Promise<ScheduledJobRun | undefined>;
+  getScheduledJobRuns(shop: string, limit?: number): Promise<ScheduledJobRun[]>;
+
   // Advisory Locks (for preventing concurrent operations)
   acquireAdvisoryLock(lockId: number): Promise<boolean>;
   releaseAdvisoryLock(lockId: number): Promise<boolean>;
+  // Runs the task while holding the lock on (classId, key), or resolves to { acquired: false } without running it
+  // when another run holds it
+  withAdvisoryLock<T>(classId: number, key: string, task: () => Promise<T>): Promise<{ acquired: true; result: T } | { acquired: false }>;
+
+  // Admin Users (global - one login can switch between shops)
+  getAdminUsers(): Promise<AdminUser[]>;
+  getAdminUser(id: string): Promise<AdminUser | undefined>;
+  getAdminUserByUsername(username: string): Promise<AdminUser | undefined>;
+  countAdminUsers(): Promise<number>;
+  createAdminUser(user: Pick<AdminUser, 'username' | 'passwordHash' | 'role'>): Promise<AdminUser>;
+  updateAdminUser(id: string, updates: Partial<Pick<AdminUser, 'passwordHash' | 'role' | 'lastLoginAt'>>): Promise<AdminUser | undefined>;
+  deleteAdminUser(id: string): Promise<boolean>;
 
   // System Settings
   getSystemSetting(key: string): Promise<string | undefined>;
@@ -96,20 +235,51 @@ export interface IStorage {
   syncMotorcyclesToExtended(): Promise<number>;
 }
 
+// In-memory maps are keyed by shop so stores never see each other's rows
+function shopKey(shop: string, key: string | number): string {
+  return `${shop}:${key}`;
+}
+
 export class MemStorage implements IStorage {
-  private motorcycles: Map<number, Motorcycle>;
+  private motorcycles: Map<string, Motorcycle>;
   private partMappings: Map<string, PartMapping>;
   private importHistory: Map<string, ImportHistory>;
+  private importBatchRows: ImportBatchRow[];
   private partCategoryTags: Map<string, PartCategoryTags>;
   private searchAnalytics: Map<string, SearchAnalytics>;
+  private storefrontEvents: StorefrontEvent[];
+  private orderLineAttributions: OrderLineAttribution[];
+  private adminUsers: Map<string, AdminUser>;
+  private partAssignmentAudit: PartAssignmentAudit[];
+  private fitments: MotorcycleFitment[];
+  private categoryPromotions: CategoryPromotion[];
+  private fitmentRules: FitmentRule[];
+  private skuSupersessions: SkuSupersession[];
+  private motorcycleAliases: MotorcycleAlias[];
+  private scheduledJobs: ScheduledJob[];
+  private scheduledJobRuns: ScheduledJobRun[];
+  private heldLocks: Set<string>;
   private nextRecid: number;
 
   constructor() {
     this.motorcycles = new Map();
     this.partMappings = new Map();
     this.importHistory = new Map();
+    this.importBatchRows = [];
     this.partCategoryTags = new Map();
     this.searchAnalytics = new Map();
+    this.storefrontEvents = [];
+    this.orderLineAttributions = [];
+    this.adminUsers = new Map();
+    this.partAssignmentAudit = [];
+    this.fitments = [];
+    this.categoryPromotions = [];
+    this.fitmentRules = [];
+    this.skuSupersessions = [];
+    this.motorcycleAliases = [];
+    this.scheduledJobs = [];
+    this.scheduledJobRuns = [];
+    this.heldLocks = new Set();
     this.nextRecid = 10000; // Start with a higher number to match existing data
     
     // Initialize with some sample data
@@ -147,83 +317,59 @@ export class MemStorage implements IStorage {
 
     // Initialize sample motorcycles
     sampleMotorcycles.forEach(motorcycle => {
-      this.createMotorcycle(motorcycle);
+      this.createMotorcycle(LEGACY_SHOP, motorcycle);
     });
   }
 
+  private shopMotorcycles(shop: string): Motorcycle[] {
+    return Array.from(this.motorcycles.values()).filter(motorcycle => motorcycle.shop === shop);
+  }
+
   // Motorcycles
-  async getMotorcycles(): Promise<Motorcycle[]> {
-    return Array.from(this.motorcycles.values());
+  async getMotorcycles(shop: string): Promise<Motorcycle[]> {
+    return this.shopMotorcycles(shop);
   }
 
-  async getMotorcycle(recid: number): Promise<Motorcycle | undefined> {
-    return this.motorcycles.get(recid);
+  async getMotorcycle(shop: string, recid: number): Promise<Motorcycle | undefined> {
+    return this.motorcycles.get(shopKey(shop, recid));
   }
 
-  async createMotorcycle(insertMotorcycle: InsertMotorcycle): Promise<Motorcycle> {
+  async createMotorcycle(shop: string, insertMotorcycle: InsertMotorcycle): Promise<Motorcycle> {
     const recid = insertMotorcycle.recid || this.nextRecid++;
     const motorcycle: Motorcycle = { 
       ...insertMotorcycle,
+      shop,
       recid,
-      capacity: insertMotorcycle.capacity || null,
-      oe_handlebar: insertMotorcycle.oe_handlebar || null,
-      oe_fcw: insertMotorcycle.oe_fcw || null,
-      oe_rcw: insertMotorcycle.oe_rcw || null,
-      front_brakepads: insertMotorcycle.front_brakepads || null,
-      rear_brakepads: insertMotorcycle.rear_brakepads || null,
-      handlebars_78: insertMotorcycle.handlebars_78 || null,
-      twinwall: insertMotorcycle.twinwall || null,
-      fatbar: insertMotorcycle.fatbar || null,
-      fatbar36: insertMotorcycle.fatbar36 || null,
-      grips: insertMotorcycle.grips || null,
-      cam: insertMotorcycle.cam || null,
-      oe_barmount: insertMotorcycle.oe_barmount || null,
-      barmount28: insertMotorcycle.barmount28 || null,
-      barmount36: insertMotorcycle.barmount36 || null,
-      fcwgroup: insertMotorcycle.fcwgroup || null,
-      fcwconv: insertMotorcycle.fcwconv || null,
-      rcwconv: insertMotorcycle.rcwconv || null,
-      rcwgroup: insertMotorcycle.rcwgroup || null,
-      rcwgroup_range: insertMotorcycle.rcwgroup_range || null,
-      twinring: insertMotorcycle.twinring || null,
-      oe_chain: insertMotorcycle.oe_chain || null,
-      chainconv: insertMotorcycle.chainconv || null,
-      r1_chain: insertMotorcycle.r1_chain || null,
-      r3_chain: insertMotorcycle.r3_chain || null,
-      r4_chain: insertMotorcycle.r4_chain || null,
-      rr4_chain: insertMotorcycle.rr4_chain || null,
-      clipon: insertMotorcycle.clipon || null,
-      rcwcarrier: insertMotorcycle.rcwcarrier || null,
-      active_handlecompare: insertMotorcycle.active_handlecompare || null
+      bikeCategory: insertMotorcycle.bikeCategory || null,
+      bikeSubcategory: insertMotorcycle.bikeSubcategory || null,
+      capacity: insertMotorcycle.capacity || null
     };
-    this.motorcycles.set(recid, motorcycle);
+    this.motorcycles.set(shopKey(shop, recid), motorcycle);
     return motorcycle;
   }
 
-  async updateMotorcycle(recid: number, updates: Partial<InsertMotorcycle>): Promise<Motorcycle | undefined> {
-    const existing = this.motorcycles.get(recid);
+  async updateMotorcycle(shop: string, recid: number, updates: Partial<InsertMotorcycle>): Promise<Motorcycle | undefined> {
+    const existing = this.motorcycles.get(shopKey(shop, recid));
     if (!existing) return undefined;
     
     const updated = { ...existing, ...updates };
-    this.motorcycles.set(recid, updated);
+    this.motorcycles.set(shopKey(shop, recid), updated);
     return updated;
   }
 
-  async deleteMotorcycle(recid: number): Promise<boolean> {
-    return this.motorcycles.delete(recid);
+  async deleteMotorcycle(shop: string, recid: number): Promise<boolean> {
+    this.fitments = this.fitments.filter(fitment => fitment.shop !== shop || fitment.motorcycleRecid !== recid);
+    return this.motorcycles.delete(shopKey(shop, recid));
   }
 
-  async searchMotorcycles(query: string): Promise<Motorcycle[]> {
-    const searchTerm = query.toLowerCase();
-    return Array.from(this.motorcycles.values()).filter(
-      motorcycle =>
-        motorcycle.bikemake.toLowerCase().includes(searchTerm) ||
-        motorcycle.bikemodel.toLowerCase().includes(searchTerm)
-    );
+  async searchMotorcycles(shop: string, query: string): Promise<Motorcycle[]> {
+    if (!query.trim()) return [];
+    const search = expandSearchAliases(query, await this.getMotorcycleAliases(shop));
+    return rankMotorcycleSearch(this.shopMotorcycles(shop), parseMotorcycleSearch(search));
   }
 
-  async filterMotorcycles(filters: { bikemake?: string; firstyear?: number; lastyear?: number; bikeCategory?: string; bikeSubcategory?: string }): Promise<Motorcycle[]> {
-    return Array.from(this.motorcycles.values()).filter(motorcycle => {
+  async filterMotorcycles(shop: string, filters: { bikemake?: string; firstyear?: number; lastyear?: number; bikeCategory?: string; bikeSubcategory?: string }): Promise<Motorcycle[]> {
+    return this.shopMotorcycles(shop).filter(motorcycle => {
       if (filters.bikemake && motorcycle.bikemake.toLowerCase() !== filters.bikemake.toLowerCase()) return false;
       // If user selects a year like 2021, find bikes that were available in 2021
       // This means: firstyear <= 2021 AND lastyear >= 2021  
@@ -235,14 +381,36 @@ export class MemStorage implements IStorage {
     });
   }
 
-  async getDistinctMotorcycleMakes(): Promise<string[]> {
-    const motorcycles = Array.from(this.motorcycles.values());
+  async filterMotorcyclesForBulkAssignment(shop: string, filter: BulkAssignmentFilter): Promise<Motorcycle[]> {
+    return this.shopMotorcycles(shop).filter(motorcycle => motorcycleMatchesFilter(motorcycle, filter));
+  }
+
+  async listMotorcycles(shop: string, query: MotorcycleListQuery): Promise<MotorcycleListPage> {
+    const categoriesByRecid = new Map<number, Set<string>>();
+    for (const fitment of this.fitments.filter(fitment => fitment.shop === shop)) {
+      const categories = categoriesByRecid.get(fitment.motorcycleRecid) || new Set<string>();
+      categories.add(fitment.partCategory);
+      categoriesByRecid.set(fitment.motorcycleRecid, categories);
+    }
+
+    const search = query.search ? parseMotorcycleSearch(expandSearchAliases(query.search, await this.getMotorcycleAliases(shop))) : null;
+    const matching: ScoredMotorcycle[] = [];
+    for (const motorcycle of this.shopMotorcycles(shop)) {
+      if (!motorcycleMatchesListQuery(motorcycle, query, categoriesByRecid.get(motorcycle.recid) || new Set())) continue;
+      const score = search ? motorcycleSearchScore(motorcycle, search) : 0;
+      if (score !== null) matching.push({ motorcycle, score });
+    }
+    return paginateMotorcycles(matching, query, query.cursor ? decodeMotorcycleCursor(query.cursor, query) : null);
+  }
+
+  async getDistinctMotorcycleMakes(shop: string): Promise<string[]> {
+    const motorcycles = this.shopMotorcycles(shop);
     const makes = Array.from(new Set(motorcycles.map(m => m.bikemake)));
     return makes.sort();
   }
 
-  async getDistinctMotorcycleYears(): Promise<number[]> {
-    const motorcycles = Array.from(this.motorcycles.values());
+  async getDistinctMotorcycleYears(shop: string): Promise<number[]> {
+    const motorcycles = this.shopMotorcycles(shop);
     const allYears = new Set<number>();
     
     motorcycles.forEach(motorcycle => {
@@ -256,8 +424,8 @@ export class MemStorage implements IStorage {
     return Array.from(allYears).sort((a, b) => b - a);
   }
 
-  async getDistinctMotorcycleModelsByMake(make: string): Promise<string[]> {
-    const motorcycles = Array.from(this.motorcycles.values());
+  async getDistinctMotorcycleModelsByMake(shop: string, make: string): Promise<string[]> {
+    const motorcycles = this.shopMotorcycles(shop);
     const models = motorcycles
       .filter(m => m.bikemake.toLowerCase() === make.toLowerCase())
       .map(m => m.bikemodel);
@@ -265,8 +433,8 @@ export class MemStorage implements IStorage {
     return Array.from(new Set(models)).sort();
   }
 
-  async getDistinctYearsByMakeModel(make: string, model: string): Promise<string[]> {
-    const motorcycles = Array.from(this.motorcycles.values());
+  async getDistinctYearsByMakeModel(shop: string, make: string, model: string): Promise<string[]> {
+    const motorcycles = this.shopMotorcycles(shop);
     const allYears = new Set<number>();
     
     motorcycles
@@ -325,8 +493,8 @@ export class MemStorage implements IStorage {
     return ranges;
   }
 
-  async filterMotorcyclesByMakeModelYear(make: string, model: string, year?: number): Promise<Motorcycle[]> {
-    return Array.from(this.motorcycles.values()).filter(motorcycle => {
+  async filterMotorcyclesByMakeModelYear(shop: string, make: string, model: string, year?: number): Promise<Motorcycle[]> {
+    return this.shopMotorcycles(shop).filter(motorcycle => {
       // Make is required
       if (motorcycle.bikemake.toLowerCase() !== make.toLowerCase()) return false;
       
@@ -340,8 +508,8 @@ export class MemStorage implements IStorage {
     });
   }
 
-  async filterMotorcyclesByMakeModelYearRange(make: string, model: string, startYear?: number, endYear?: number): Promise<Motorcycle[]> {
-    return Array.from(this.motorcycles.values()).filter(motorcycle => {
+  async filterMotorcyclesByMakeModelYearRange(shop: string, make: string, model: string, startYear?: number, endYear?: number): Promise<Motorcycle[]> {
+    return this.shopMotorcycles(shop).filter(motorcycle => {
       // Make is required
       if (motorcycle.bikemake.toLowerCase() !== make.toLowerCase()) return false;
       
@@ -359,37 +527,23 @@ export class MemStorage implements IStorage {
     });
   }
 
-  async getNextMotorcycleRecid(): Promise<number> {
-    if (this.motorcycles.size === 0) {
+  async getNextMotorcycleRecid(shop: string): Promise<number> {
+    const motorcycles = this.shopMotorcycles(shop);
+    if (motorcycles.length === 0) {
       return 10000; // Default starting point
     }
-    const maxRecid = Math.max(...Array.from(this.motorcycles.keys()));
+    const maxRecid = Math.max(...motorcycles.map(m => m.recid));
     return maxRecid + 1;
   }
 
-  async getCategoryUsage(): Promise<{ fixedColumns: string[], jsonbCategories: { category: string, count: number }[] }> {
-    // Same fixed columns list as DatabaseStorage
-    const fixedColumns = [
-      'oe_handlebar', 'oe_fcw', 'oe_rcw', 'front_brakepads', 'rear_brakepads',
-      'handlebars_78', 'twinwall', 'fatbar', 'fatbar36', 'grips', 'cam',
-      'oe_barmount', 'barmount28', 'barmount36', 'fcwgroup', 'fcwconv',
-      'rcwconv', 'rcwgroup', 'rcwgroup_range', 'twinring', 'oe_chain',
-      'chainconv', 'r1_chain', 'r3_chain', 'r4_chain', 'rr4_chain',
-      'clipon', 'rcwcarrier', 'active_handlecompare', 'other_fcw'
-    ];
+  async getCategoryUsage(shop: string): Promise<{ fixedColumns: string[], jsonbCategories: { category: string, count: number }[] }> {
+    const fixedColumns: string[] = [...LEGACY_PART_COLUMNS];
 
-    // Count JSONB category usage from in-memory motorcycles
+    // Count usage of the categories beyond the original fixed columns
     const categoryCount = new Map<string, number>();
-    
-    for (const motorcycle of this.motorcycles.values()) {
-      if (motorcycle.customParts && typeof motorcycle.customParts === 'object') {
-        const customParts = motorcycle.customParts as Record<string, string | null>;
-        for (const category in customParts) {
-          const value = customParts[category];
-          if (value && value.trim() !== '') {
-            categoryCount.set(category, (categoryCount.get(category) || 0) + 1);
-          }
-        }
+    for (const fitment of this.fitments) {
+      if (fitment.shop === shop && !fixedColumns.includes(fitment.partCategory)) {
+        categoryCount.set(fitment.partCategory, (categoryCount.get(fitment.partCategory) || 0) + 1);
       }
     }
 
@@ -400,31 +554,367 @@ export class MemStorage implements IStorage {
     return { fixedColumns, jsonbCategories };
   }
 
+  // Fitments
+  async getMotorcycleFitments(shop: string, recid: number): Promise<MotorcycleFitment[]> {
+    return this.fitments.filter(fitment => fitment.shop === shop && fitment.motorcycleRecid === recid);
+  }
+
+  async getMotorcycleParts(shop: string, recid: number): Promise<MotorcycleParts> {
+    return toMotorcycleParts(await this.getMotorcycleFitments(shop, recid));
+  }
+
+  async getMotorcyclePartsByRecid(shop: string): Promise<Map<number, MotorcycleParts>> {
+    const partsByRecid = new Map<number, MotorcycleParts>();
+    for (const fitment of this.fitments.filter(fitment => fitment.shop === shop)) {
+      partsByRecid.set(fitment.motorcycleRecid, { ...partsByRecid.get(fitment.motorcycleRecid), [fitment.partCategory]: fitment.sku });
+    }
+    return partsByRecid;
+  }
+
+  async getFitmentDetailsByRecid(shop: string): Promise<Map<number, MotorcycleFitmentDetails>> {
+    const detailsByRecid = new Map<number, MotorcycleFitmentDetails>();
+    for (const fitment of this.fitments.filter(fitment => fitment.shop === shop && (fitment.notes || fitment.qualifiers))) {
+      detailsByRecid.set(fitment.motorcycleRecid, {
+        ...detailsByRecid.get(fitment.motorcycleRecid),
+        [fitment.partCategory]: { notes: fitment.notes, qualifiers: fitment.qualifiers },
+      });
+    }
+    return detailsByRecid;
+  }
+
+  async updateFitmentDetails(shop: string, recid: number, partCategory: string, details: FitmentDetails): Promise<MotorcycleFitment | undefined> {
+    const fitment = this.fitments.find(fitment =>
+      fitment.shop === shop && fitment.motorcycleRecid === recid && fitment.partCategory === partCategory
+    );
+    if (!fitment) return undefined;
+    Object.assign(fitment, normalizeFitmentDetails(details), { updatedAt: new Date().toISOString() });
+    return fitment;
+  }
+
+  // In-memory motorcycles never had legacy part columns
+  async migrateLegacyPartAssignments(): Promise<{ motorcycles: number, fitments: number }> {
+    return { motorcycles: 0, fitments: 0 };
+  }
+
+  // Category Promotions - there are no legacy values to move, so promoting only registers the category
+  async getCategoryPromotions(shop: string): Promise<CategoryPromotion[]> {
+    return this.categoryPromotions
+      .filter(promotion => promotion.shop === shop)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async promotePartCategory(shop: string, partCategory: string, promotedBy: string | null): Promise<{ success: boolean, message: string, promotion?: CategoryPromotion }> {
+    const fitmentCount = this.fitments.filter(fitment => fitment.shop === shop && fitment.partCategory === partCategory).length;
+    if (fitmentCount === 0) {
+      return { success: false, message: `Promotion of ${partCategory} failed: No motorcycles use ${partCategory}` };
+    }
+
+    const registeredTag = !(await this.getPartCategoryTag(shop, partCategory));
+    if (registeredTag) {
+      await this.createPartCategoryTag(shop, {
+        categoryValue: partCategory,
+        categoryLabel: defaultCategoryLabel(partCategory),
+        productTags: '[]',
+        sortOrder: this.partCategoryTags.size + 1,
+      });
+    }
+
+    const promotion: CategoryPromotion = {
+      id: randomUUID(),
+      shop,
+      partCategory,
+      status: 'success',
+      migratedCount: 0,
+      fitmentCount,
+      registeredTag,
+      errorMessage: null,
+      promotedBy,
+      rolledBackAt: null,
+      rolledBackBy: null,
+      createdAt: new Date().toISOString(),
+    };
+    this.categoryPromotions.push(promotion);
+
+    return { success: true, message: `Promoted ${partCategory}: ${fitmentCount} motorcycles assigned`, promotion };
+  }
+
+  async rollbackCategoryPromotion(shop: string, promotionId: string, rolledBackBy: string | null): Promise<{ success: boolean, message: string }> {
+    const promotion = this.categoryPromotions.find(promotion => promotion.shop === shop && promotion.id === promotionId);
+    if (!promotion) {
+      return { success: false, message: "Promotion not found" };
+    }
+    if (promotion.status !== 'success') {
+      return { success: false, message: "Only successful promotions can be rolled back" };
+    }
+
+    if (promotion.registeredTag) {
+      await this.deletePartCategoryTag(shop, promotion.partCategory);
+    }
+    Object.assign(promotion, { status: 'rolled_back', rolledBackAt: new Date().toISOString(), rolledBackBy });
+
+    return { success: true, message: `Rolled back the promotion of ${promotion.partCategory}` };
+  }
+
+  // Fitment Rules
+  async getFitmentRules(shop: string): Promise<FitmentRule[]> {
+    return sortFitmentRules(this.fitmentRules.filter(rule => rule.shop === shop));
+  }
+
+  async getFitmentRule(shop: string, id: string): Promise<FitmentRule | undefined> {
+    return this.fitmentRules.find(rule => rule.shop === shop && rule.id === id);
+  }
+
+  async createFitmentRule(shop: string, rule: InsertFitmentRule, createdBy: string | null): Promise<FitmentRule> {
+    const now = new Date().toISOString();
+    const created: FitmentRule = { ...rule, id: randomUUID(), shop, createdBy, updatedBy: createdBy, createdAt: now, updatedAt: now };
+    this.fitmentRules.push(created);
+    return created;
+  }
+
+  async updateFitmentRule(shop: string, id: string, updates: Partial<InsertFitmentRule>, updatedBy: string | null): Promise<FitmentRule | undefined> {
+    const rule = await this.getFitmentRule(shop, id);
+    if (!rule) return undefined;
+    return Object.assign(rule, updates, { updatedBy, updatedAt: new Date().toISOString() });
+  }
+
+  async deleteFitmentRule(shop: string, id: string): Promise<boolean> {
+    const index = this.fitmentRules.findIndex(rule => rule.shop === shop && rule.id === id);
+    if (index === -1) return false;
+    this.fitmentRules.splice(index, 1);
+    return true;
+  }
+
+  async getFitmentRuleMatches(shop: string, conditions: FitmentRuleConditions): Promise<Motorcycle[]> {
+    const partsByRecid = await this.getMotorcyclePartsByRecid(shop);
+    return this.shopMotorcycles(shop).filter(motorcycle =>
+      motorcycleMatchesRule({ conditions }, motorcycle, partsByRecid.get(motorcycle.recid) || {})
+    );
+  }
+
+  async getEffectiveMotorcycleParts(shop: string, recid: number): Promise<EffectiveMotorcycleParts> {
+    const parts = await this.getMotorcycleParts(shop, recid);
+    const motorcycle = await this.getMotorcycle(shop, recid);
+    if (!motorcycle) return { parts, ruleFitments: [] };
+    return applyFitmentRules(await this.getFitmentRules(shop), motorcycle, parts);
+  }
+
+  // SKU Supersessions
+  async getSkuSupersessions(shop: string): Promise<SkuSupersession[]> {
+    return this.skuSupersessions
+      .filter(supersession => supersession.shop === shop)
+      .sort((a, b) => a.oldSku.localeCompare(b.oldSku));
+  }
+
+  async createSkuSupersession(shop: string, supersession: InsertSkuSupersession, createdBy: string | null): Promise<SkuSupersession> {
+    const now = new Date().toISOString();
+    const created: SkuSupersession = { ...supersession, id: randomUUID(), shop, createdBy, updatedBy: createdBy, createdAt: now, updatedAt: now };
+    this.skuSupersessions.push(created);
+    return created;
+  }
+
+  async updateSkuSupersession(shop: string, id: string, updates: Partial<InsertSkuSupersession>, updatedBy: string | null): Promise<SkuSupersession | undefined> {
+    const supersession = this.skuSupersessions.find(entry => entry.shop === shop && entry.id === id);
+    if (!supersession) return undefined;
+    return Object.assign(supersession, updates, { updatedBy, updatedAt: new Date().toISOString() });
+  }
+
+  async deleteSkuSupersession(shop: string, id: string): Promise<boolean> {
+    const index = this.skuSupersessions.findIndex(entry => entry.shop === shop && entry.id === id);
+    if (index === -1) return false;
+    this.skuSupersessions.splice(index, 1);
+    return true;
+  }
+
+  async getSupersededFitments(shop: string): Promise<SupersededFitment[]> {
+    const resolver = createSkuResolver(await this.getSkuSupersessions(shop));
+    return findSupersededFitments(this.fitments.filter(fitment => fitment.shop === shop), this.shopMotorcycles(shop), resolver);
+  }
+
+  async rewriteSupersededFitments(shop: string, fitmentIds: string[] | undefined, change: PartAssignmentChange): Promise<{ changed: number, unchanged: number }> {
+    let changed = 0;
+    let unchanged = 0;
+    for (const fitment of await this.getSupersededFitments(shop)) {
+      if (fitmentIds && !fitmentIds.includes(fitment.fitmentId)) continue;
+      if (await this.assignMotorcyclePart(shop, fitment.motorcycle.recid, fitment.partCategory, fitment.resolvedSku, change)) changed++; else unchanged++;
+    }
+    return { changed, unchanged };
+  }
+
+  async getDiscontinuedSkuReport(shop: string): Promise<DiscontinuedSkuReportEntry[]> {
+    const supersessions = await this.getSkuSupersessions(shop);
+    return buildDiscontinuedSkuReport(this.fitments.filter(fitment => fitment.shop === shop), this.shopMotorcycles(shop), createSkuResolver(supersessions), supersessions);
+  }
+
+  // Motorcycle Aliases
+  async getMotorcycleAliases(shop: string): Promise<MotorcycleAlias[]> {
+    return this.motorcycleAliases
+      .filter(alias => alias.shop === shop)
+      .sort((a, b) => a.kind.localeCompare(b.kind) || a.canonical.localeCompare(b.canonical) || a.alias.localeCompare(b.alias));
+  }
+
+  async createMotorcycleAlias(shop: string, alias: InsertMotorcycleAlias, createdBy: string | null): Promise<MotorcycleAlias> {
+    const created: MotorcycleAlias = { ...alias, id: randomUUID(), shop, aliasKey: motorcycleNameKey(alias.alias), createdBy, createdAt: new Date().toISOString() };
+    this.motorcycleAliases.push(created);
+    return created;
+  }
+
+  async updateMotorcycleAlias(shop: string, id: string, alias: InsertMotorcycleAlias): Promise<MotorcycleAlias | undefined> {
+    const existing = this.motorcycleAliases.find(entry => entry.shop === shop && entry.id === id);
+    if (!existing) return undefined;
+    return Object.assign(existing, alias, { aliasKey: motorcycleNameKey(alias.alias) });
+  }
+
+  async deleteMotorcycleAlias(shop: string, id: string): Promise<boolean> {
+    const index = this.motorcycleAliases.findIndex(entry => entry.shop === shop && entry.id === id);
+    if (index === -1) return false;
+    this.motorcycleAliases.splice(index, 1);
+    return true;
+  }
+
+  async getMotorcycleNameDuplicates(shop: string): Promise<MotorcycleNameDuplicate[]> {
+    return findMotorcycleNameDuplicates(this.shopMotorcycles(shop), await this.getMotorcycleAliases(shop));
+  }
+
+  async seedMotorcycleAliases(shop: string, createdBy: string | null): Promise<MotorcycleAlias[]> {
+    const seeded: MotorcycleAlias[] = [];
+    for (const alias of seedAliasesFromDuplicates(await this.getMotorcycleNameDuplicates(shop))) {
+      seeded.push(await this.createMotorcycleAlias(shop, alias, createdBy));
+    }
+    return seeded;
+  }
+
+  // Part Assignments
+  async bulkAssignMotorcyclePart(shop: string, recids: number[], partCategory: string, productVariant: string | null, change: PartAssignmentChange): Promise<{ changed: number, unchanged: number }> {
+    let changed = 0;
+    let unchanged = 0;
+    for (const recid of recids) {
+      const before = (await this.getMotorcycleParts(shop, recid))[partCategory] ?? null;
+      if (!(await this.assignMotorcyclePart(shop, recid, partCategory, productVariant, change))) continue;
+      if (before === (productVariant || null)) unchanged++; else changed++;
+    }
+    return { changed, unchanged };
+  }
+
+  async cloneMotorcycleFitments(shop: string, sourceRecid: number, targetRecids: number[], categories: string[], change: PartAssignmentChange): Promise<{ changed: number, unchanged: number } | undefined> {
+    const sourceParts = await this.getMotorcycleParts(shop, sourceRecid);
+    const copied = categories.filter(partCategory => sourceParts[partCategory]);
+    if (copied.length === 0) return undefined;
+
+    let changed = 0;
+    let unchanged = 0;
+    for (const partCategory of copied) {
+      const result = await this.bulkAssignMotorcyclePart(shop, targetRecids, partCategory, sourceParts[partCategory], change);
+      changed += result.changed;
+      unchanged += result.unchanged;
+    }
+    return { changed, unchanged };
+  }
+
+  async assignMotorcyclePart(shop: string, recid: number, partCategory: string, productVariant: string | null, change: PartAssignmentChange): Promise<Motorcycle | undefined> {
+    const motorcycle = this.motorcycles.get(shopKey(shop, recid));
+    if (!motorcycle) return undefined;
+
+    const newValue = productVariant || null;
+    const existing = this.fitments.find(fitment =>
+      fitment.shop === shop && fitment.motorcycleRecid === recid && fitment.partCategory === partCategory
+    );
+    const previousValue = existing?.sku ?? null;
+
+    this.fitments = this.fitments.filter(fitment => fitment !== existing);
+    if (newValue) {
+      const now = new Date().toISOString();
+      this.fitments.push({
+        id: existing?.id ?? randomUUID(),
+        shop,
+        motorcycleRecid: recid,
+        partCategory,
+        sku: newValue,
+        shopifyProductId: null,
+        shopifyVariantId: null,
+        // Notes and qualifiers describe the assignment, so they survive a SKU change
+        notes: existing?.notes ?? null,
+        qualifiers: existing?.qualifiers ?? null,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+    }
+
+    if (previousValue !== newValue) {
+      this.partAssignmentAudit.push({
+        id: randomUUID(),
+        shop,
+        motorcycleRecid: recid,
+        partCategory,
+        partMappingId: null,
+        previousValue,
+        newValue,
+        source: change.source,
+        changedBy: change.changedBy ?? null,
+        revertOfId: change.revertOfId ?? null,
+        createdAt: new Date().toISOString(),
+      });
+    }
+
+    return motorcycle;
+  }
+
+  async getPartAssignmentHistory(shop: string, recid: number, limit: number = 100): Promise<PartAssignmentAudit[]> {
+    return this.partAssignmentAudit
+      .filter(entry => entry.shop === shop && entry.motorcycleRecid === recid)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async getPartAssignmentAuditEntry(shop: string, id: string): Promise<PartAssignmentAudit | undefined> {
+    return this.partAssignmentAudit.find(entry => entry.shop === shop && entry.id === id);
+  }
+
+  async revertPartAssignment(shop: string, auditId: string, changedBy: string | null): Promise<{ success: boolean, message: string }> {
+    const entry = await this.getPartAssignmentAuditEntry(shop, auditId);
+    if (!entry) {
+      return { success: false, message: "History entry not found" };
+    }
+
+    const motorcycle = await this.assignMotorcyclePart(shop, entry.motorcycleRecid, entry.partCategory, entry.previousValue, {
+      source: 'revert',
+      changedBy,
+      revertOfId: entry.id,
+    });
+    if (!motorcycle) {
+      return { success: false, message: "Motorcycle no longer exists" };
+    }
+
+    return { success: true, message: `Restored ${entry.partCategory}` };
+  }
+
   // Part Mappings
-  async getPartMappings(): Promise<PartMapping[]> {
-    return Array.from(this.partMappings.values());
+  async getPartMappings(shop: string): Promise<PartMapping[]> {
+    return Array.from(this.partMappings.values()).filter(mapping => mapping.shop === shop);
   }
 
-  async getPartMappingsByMotorcycle(motorcycleRecid: number): Promise<PartMapping[]> {
+  async getPartMappingsByMotorcycle(shop: string, motorcycleRecid: number): Promise<PartMapping[]> {
     return Array.from(this.partMappings.values()).filter(
-      mapping => mapping.motorcycleRecid === motorcycleRecid
+      mapping => mapping.shop === shop && mapping.motorcycleRecid === motorcycleRecid
     );
   }
 
-  async getPartMappingsByProduct(productId: string): Promise<PartMapping[]> {
+  async getPartMappingsByProduct(shop: string, productId: string): Promise<PartMapping[]> {
     return Array.from(this.partMappings.values()).filter(
-      mapping => mapping.shopifyProductId === productId
+      mapping => mapping.shop === shop && mapping.shopifyProductId === productId
     );
   }
 
-  async createPartMapping(mapping: InsertPartMapping): Promise<PartMapping> {
+  async createPartMapping(shop: string, mapping: InsertPartMapping): Promise<PartMapping> {
     const id = randomUUID();
     const partMapping: PartMapping = { 
       ...mapping, 
       id,
+      shop,
       compatible: mapping.compatible !== undefined ? mapping.compatible : true,
       status: mapping.status || 'active',
       expectedSku: mapping.expectedSku || null,
+      shopifyVariantId: mapping.shopifyVariantId || null,
+      variantSku: mapping.variantSku || null,
       productTitle: mapping.productTitle || null,
       lastSynced: mapping.lastSynced || new Date().toISOString()
     };
@@ -432,71 +922,110 @@ export class MemStorage implements IStorage {
     return partMapping;
   }
 
-  async deletePartMapping(id: string): Promise<boolean> {
+  async deletePartMapping(shop: string, id: string): Promise<boolean> {
+    const existing = this.partMappings.get(id);
+    if (!existing || existing.shop !== shop) return false;
     return this.partMappings.delete(id);
   }
 
+  // No product cache in memory, so only exact SKU and product ID matches are found
+  async getReverseFitments(shop: string, query: { sku?: string, productId?: string }): Promise<ReverseFitmentLookup> {
+    const sku = query.sku?.toLowerCase();
+    const matches: ReverseFitmentMatch[] = [];
+
+    for (const fitment of this.fitments) {
+      const motorcycle = this.motorcycles.get(shopKey(shop, fitment.motorcycleRecid));
+      if (fitment.shop !== shop || !motorcycle) continue;
+      if ((sku && fitment.sku.toLowerCase() === sku) || (query.productId && fitment.shopifyProductId === query.productId)) {
+        matches.push({ motorcycle, partCategory: fitment.partCategory, sku: fitment.sku, fitmentId: fitment.id, partMappingId: null });
+      }
+    }
+
+    for (const mapping of Array.from(this.partMappings.values())) {
+      const motorcycle = this.motorcycles.get(shopKey(shop, mapping.motorcycleRecid));
+      if (mapping.shop !== shop || !motorcycle) continue;
+      const mappingSkus = [mapping.expectedSku, mapping.variantSku].map(value => value?.toLowerCase());
+      if ((sku && mappingSkus.includes(sku)) || (query.productId && mapping.shopifyProductId === query.productId)) {
+        matches.push({ motorcycle, partCategory: 'part_mapping', sku: mapping.variantSku ?? mapping.expectedSku, fitmentId: null, partMappingId: mapping.id });
+      }
+    }
+
+    return {
+      skus: query.sku ? [query.sku] : [],
+      productIds: query.productId ? [query.productId] : [],
+      matches,
+    };
+  }
+
   // Compatible Parts - Uses motorcycle database fields for SKU matching (ignores admin part mappings)
-  async getCompatibleParts(motorcycleRecid: number): Promise<ShopifyProduct[]> {
+  // MemStorage keeps no product catalogue, so the explanation only shows the values matching would use
+  async explainCompatibleParts(shop: string, motorcycleRecid: number): Promise<CompatiblePartsExplanation | undefined> {
+    const motorcycle = await this.getMotorcycle(shop, motorcycleRecid);
+    if (!motorcycle) {
+      return undefined;
+    }
+
+    const { parts, ruleFitments } = await this.getEffectiveMotorcycleParts(shop, motorcycleRecid);
+    return {
+      motorcycle,
+      parts,
+      ruleFitments,
+      skuValues: Object.entries(parts)
+        .filter(([partCategory, sku]) => !TOOTH_RANGE_CATEGORIES.includes(partCategory) && sku.trim() !== '')
+        .map(([, sku]) => sku.trim()),
+      prefixValues: [],
+      toothRanges: { fcwgroup_range: null, rcwgroup_range: null },
+      products: [],
+    };
+  }
+
+  // Without a product catalogue no value can be checked, so the report is always clean
+  async getFitmentQualityReport(shop: string): Promise<FitmentQualityReport> {
+    const fitmentCount = this.fitments.filter(fitment => fitment.shop === shop).length;
+    return { generatedAt: new Date().toISOString(), fitmentCount, issues: [] };
+  }
+
+  async getCompatibleParts(shop: string, motorcycleRecid: number): Promise<ShopifyProduct[]> {
     console.log(`🔍 Using motorcycle database fields for compatibility matching (motorcycle ${motorcycleRecid})`);
     
     // Get the motorcycle details
-    const motorcycle = await this.getMotorcycle(motorcycleRecid);
+    const motorcycle = await this.getMotorcycle(shop, motorcycleRecid);
     if (!motorcycle) {
       return [];
     }
+    // Explicit assignments plus whatever the fitment rules supply
+    const { parts } = await this.getEffectiveMotorcycleParts(shop, motorcycleRecid);
     
     // Collect ALL motorcycle part values for SKU matching (not just OE fields)
-    const motorcyclePartValues = [];
+    const motorcyclePartValues: string[] = [];
     
     // Collect prefix match values for FCW/RCW groups when OE is empty
     const prefixMatchValues: string[] = [];
     
     // Check if fcwgroup is populated but oe_fcw is empty → add for prefix matching
-    if (motorcycle.fcwgroup && motorcycle.fcwgroup.trim() !== '' && 
-        (!motorcycle.oe_fcw || motorcycle.oe_fcw.trim() === '')) {
-      prefixMatchValues.push(motorcycle.fcwgroup.trim());
-      console.log(`🔧 FCW Group "${motorcycle.fcwgroup}" with no OE Front Sprocket → will match all variants with prefix`);
+    if (parts.fcwgroup && parts.fcwgroup.trim() !== '' && 
+        (!parts.oe_fcw || parts.oe_fcw.trim() === '')) {
+      prefixMatchValues.push(parts.fcwgroup.trim());
+      console.log(`🔧 FCW Group "${parts.fcwgroup}" with no OE Front Sprocket → will match all variants with prefix`);
     }
     
     // Check if rcwgroup is populated but oe_rcw is empty → add for prefix matching
-    if (motorcycle.rcwgroup && motorcycle.rcwgroup.trim() !== '' && 
-        (!motorcycle.oe_rcw || motorcycle.oe_rcw.trim() === '')) {
-      prefixMatchValues.push(motorcycle.rcwgroup.trim());
-      console.log(`🔧 RCW Group "${motorcycle.rcwgroup}" with no OE Rear Sprocket → will match all variants with prefix`);
+    if (parts.rcwgroup && parts.rcwgroup.trim() !== '' && 
+        (!parts.oe_rcw || parts.oe_rcw.trim() === '')) {
+      prefixMatchValues.push(parts.rcwgroup.trim());
+      console.log(`🔧 RCW Group "${parts.rcwgroup}" with no OE Rear Sprocket → will match all variants with prefix`);
     }
     
-    // Define all the motorcycle part fields that can contain SKU values
-    const partFieldsToCheck = [
-      // Original Equipment fields
-      'oe_handlebar', 'oe_fcw', 'oe_rcw', 'oe_barmount', 'oe_chain',
-      // Brake pad fields
-      'front_brakepads', 'rear_brakepads',
-      // Handlebar fields
-      'handlebars_78', 'twinwall', 'fatbar', 'fatbar36',
-      // Other part fields
-      'grips', 'cam',
-      // Bar mount fields
-      'barmount28', 'barmount36',
-      // Sprocket/chainwheel fields
-      'fcwgroup', 'fcwconv', 'rcwconv', 'rcwgroup', 'rcwgroup_range', 'twinring',
-      // Chain fields
-      'chainconv', 'r1_chain', 'r3_chain', 'r4_chain', 'rr4_chain',
-      // Other specialized fields
-      'clipon', 'rcwcarrier', 'active_handlecompare'
-    ];
-    
-    // Extract all non-empty part values from motorcycle database
-    for (const fieldName of partFieldsToCheck) {
-      const motorcycleValue = (motorcycle as any)[fieldName];
-      if (motorcycleValue && typeof motorcycleValue === 'string' && motorcycleValue.trim() !== '') {
-        motorcyclePartValues.push(motorcycleValue.trim());
+    // Every assigned SKU except the tooth ranges, which only narrow the sprocket groups
+    for (const [partCategory, sku] of Object.entries(parts)) {
+      if (!TOOTH_RANGE_CATEGORIES.includes(partCategory) && sku.trim() !== '') {
+        motorcyclePartValues.push(sku.trim());
       }
     }
     
     console.log(`🔍 Motorcycle ${motorcycleRecid} part values for SKU matching:`, motorcyclePartValues);
     console.log(`🔍 Motorcycle ${motorcycleRecid} prefix match values:`, prefixMatchValues);
-    console.log(`📋 Motorcycle ${motorcycleRecid} record:`, JSON.stringify(motorcycle, null, 2));
+    console.log(`📋 Motorcycle ${motorcycleRecid} fitments:`, JSON.stringify(parts, null, 2));
     
     let compatibleProducts: ShopifyProduct[] = [];
     
@@ -552,36 +1081,112 @@ export class MemStorage implements IStorage {
   }
 
   // Import History
-  async getImportHistory(): Promise<ImportHistory[]> {
-    return Array.from(this.importHistory.values()).sort(
+  async getImportHistory(shop: string): Promise<ImportHistory[]> {
+    return Array.from(this.importHistory.values()).filter(entry => entry.shop === shop).sort(
       (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
     );
   }
 
-  async createImportHistory(history: InsertImportHistory): Promise<ImportHistory> {
+  async getImportHistoryEntry(shop: string, id: string): Promise<ImportHistory | undefined> {
+    const entry = this.importHistory.get(id);
+    return entry && entry.shop === shop ? entry : undefined;
+  }
+
+  async createImportHistory(shop: string, history: InsertImportHistory): Promise<ImportHistory> {
     const id = randomUUID();
     const importRecord: ImportHistory = {
       ...history,
       id,
+      shop,
+      rolledBackAt: null,
+      rolledBackBy: null,
       createdAt: new Date().toISOString(),
     };
     this.importHistory.set(id, importRecord);
     return importRecord;
   }
 
+  async updateImportHistory(shop: string, id: string, updates: Partial<InsertImportHistory>): Promise<ImportHistory | undefined> {
+    const existing = await this.getImportHistoryEntry(shop, id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates };
+    this.importHistory.set(id, updated);
+    return updated;
+  }
+
+  async recordImportBatchRow(shop: string, importId: string, entityType: ImportBatchEntityType, entityId: string, beforeState: object | null): Promise<void> {
+    const alreadyRecorded = this.importBatchRows.some(row =>
+      row.importId === importId && row.entityType === entityType && row.entityId === entityId
+    );
+    if (alreadyRecorded) return;
+
+    this.importBatchRows.push({
+      id: randomUUID(),
+      importId,
+      shop,
+      entityType,
+      entityId,
+      action: beforeState ? 'updated' : 'created',
+      beforeState,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  async getImportBatchRows(shop: string, importId: string): Promise<ImportBatchRow[]> {
+    return this.importBatchRows.filter(row => row.shop === shop && row.importId === importId);
+  }
+
+  async rollbackImport(shop: string, importId: string, rolledBackBy: string | null): Promise<{ success: boolean, message: string }> {
+    const entry = await this.getImportHistoryEntry(shop, importId);
+    if (!entry) {
+      return { success: false, message: "Import not found" };
+    }
+    if (entry.rolledBackAt) {
+      return { success: false, message: "This import has already been rolled back" };
+    }
+
+    const rows = await this.getImportBatchRows(shop, importId);
+    for (const row of rows) {
+      if (row.entityType === 'part_mapping') {
+        if (row.action === 'created') {
+          this.partMappings.delete(row.entityId);
+        } else {
+          this.partMappings.set(row.entityId, row.beforeState as PartMapping);
+        }
+      } else if (row.action === 'created') {
+        await this.deleteMotorcycle(shop, parseInt(row.entityId));
+      } else {
+        const { fitments = [], ...motorcycle } = row.beforeState as Motorcycle & { fitments?: MotorcycleFitment[] };
+        this.motorcycles.set(shopKey(shop, row.entityId), motorcycle);
+        this.fitments = this.fitments
+          .filter(fitment => fitment.shop !== shop || fitment.motorcycleRecid !== motorcycle.recid)
+          .concat(fitments);
+      }
+    }
+
+    this.importHistory.set(importId, {
+      ...entry,
+      status: 'rolled_back',
+      rolledBackAt: new Date().toISOString(),
+      rolledBackBy,
+    });
+    return { success: true, message: `Rolled back ${rows.length} rows` };
+  }
+
   // Bulk operations
-  async bulkCreateMotorcycles(motorcycles: InsertMotorcycle[]): Promise<Motorcycle[]> {
+  async bulkCreateMotorcycles(shop: string, motorcycles: InsertMotorcycle[]): Promise<Motorcycle[]> {
     const results: Motorcycle[] = [];
     for (const motorcycle of motorcycles) {
-      results.push(await this.createMotorcycle(motorcycle));
+      results.push(await this.createMotorcycle(shop, motorcycle));
     }
     return results;
   }
 
-  async bulkCreatePartMappings(mappings: InsertPartMapping[]): Promise<PartMapping[]> {
+  async bulkCreatePartMappings(shop: string, mappings: InsertPartMapping[]): Promise<PartMapping[]> {
     const results: PartMapping[] = [];
     for (const mapping of mappings) {
-      results.push(await this.createPartMapping(mapping));
+      results.push(await this.createPartMapping(shop, mapping));
     }
     return results;
   }
@@ -604,30 +1209,31 @@ export class MemStorage implements IStorage {
   }
 
   // Part Category Tags (stub implementation for MemStorage)
-  async getPartCategoryTags(): Promise<PartCategoryTags[]> {
-    return Array.from(this.partCategoryTags.values());
+  async getPartCategoryTags(shop: string): Promise<PartCategoryTags[]> {
+    return Array.from(this.partCategoryTags.values()).filter(tag => tag.shop === shop);
   }
 
-  async getPartCategoryTag(categoryValue: string): Promise<PartCategoryTags | undefined> {
-    return this.partCategoryTags.get(categoryValue);
+  async getPartCategoryTag(shop: string, categoryValue: string): Promise<PartCategoryTags | undefined> {
+    return this.partCategoryTags.get(shopKey(shop, categoryValue));
   }
 
-  async createPartCategoryTag(partCategoryTag: InsertPartCategoryTags): Promise<PartCategoryTags> {
+  async createPartCategoryTag(shop: string, partCategoryTag: InsertPartCategoryTags): Promise<PartCategoryTags> {
     const id = randomUUID();
     const now = new Date().toISOString();
     const tag: PartCategoryTags = {
       id,
+      shop,
       ...partCategoryTag,
       assignedSection: partCategoryTag.assignedSection || null,
       createdAt: now,
       updatedAt: now,
     };
-    this.partCategoryTags.set(partCategoryTag.categoryValue, tag);
+    this.partCategoryTags.set(shopKey(shop, partCategoryTag.categoryValue), tag);
     return tag;
   }
 
-  async updatePartCategoryTag(categoryValue: string, updates: Partial<InsertPartCategoryTags>): Promise<PartCategoryTags | undefined> {
-    const existing = this.partCategoryTags.get(categoryValue);
+  async updatePartCategoryTag(shop: string, categoryValue: string, updates: Partial<InsertPartCategoryTags>): Promise<PartCategoryTags | undefined> {
+    const existing = this.partCategoryTags.get(shopKey(shop, categoryValue));
     if (!existing) return undefined;
     
     const updated: PartCategoryTags = {
@@ -635,22 +1241,24 @@ export class MemStorage implements IStorage {
       ...updates,
       updatedAt: new Date().toISOString(),
     };
-    this.partCategoryTags.set(categoryValue, updated);
+    this.partCategoryTags.set(shopKey(shop, categoryValue), updated);
     return updated;
   }
 
-  async deletePartCategoryTag(categoryValue: string): Promise<boolean> {
-    return this.partCategoryTags.delete(categoryValue);
+  async deletePartCategoryTag(shop: string, categoryValue: string): Promise<boolean> {
+    return this.partCategoryTags.delete(shopKey(shop, categoryValue));
   }
 
   // Search Analytics methods
-  async createSearchAnalytics(analytics: InsertSearchAnalytics): Promise<SearchAnalytics> {
+  async createSearchAnalytics(shop: string, analytics: InsertSearchAnalytics): Promise<SearchAnalytics> {
     const id = randomUUID();
     const now = new Date().toISOString();
     const searchAnalytics: SearchAnalytics = {
       id,
+      shop,
       ...analytics,
       resultsCount: analytics.resultsCount || 0,
+      topResultRecid: analytics.topResultRecid ?? null,
       ipAddress: analytics.ipAddress || null,
       userAgent: analytics.userAgent || null,
       createdAt: now,
@@ -659,8 +1267,8 @@ export class MemStorage implements IStorage {
     return searchAnalytics;
   }
 
-  async getTopSearches(dateFrom?: string, dateTo?: string, limit: number = 25): Promise<{searchQuery: string, searchCount: number}[]> {
-    const allSearches = Array.from(this.searchAnalytics.values());
+  async getTopSearches(shop: string, dateFrom?: string, dateTo?: string, limit: number = 25): Promise<{searchQuery: string, searchCount: number}[]> {
+    const allSearches = Array.from(this.searchAnalytics.values()).filter(search => search.shop === shop);
     
     // Filter by date range if provided
     let filteredSearches = allSearches;
@@ -685,6 +1293,124 @@ export class MemStorage implements IStorage {
       .slice(0, limit);
   }
 
+  async getUnmetSearchDemand(shop: string, dateFrom?: string, dateTo?: string, limit: number = 50): Promise<UnmetSearchDemand[]> {
+    const searches = Array.from(this.searchAnalytics.values()).filter(search =>
+      search.shop === shop && (!dateFrom || search.createdAt >= dateFrom) && (!dateTo || search.createdAt <= dateTo)
+    );
+    return buildUnmetSearchDemand(searches, {
+      motorcycles: this.shopMotorcycles(shop),
+      partsByRecid: await this.getMotorcyclePartsByRecid(shop),
+      aliases: await this.getMotorcycleAliases(shop),
+      now: new Date(),
+    }, limit);
+  }
+
+  async recordStorefrontEvent(shop: string, event: StorefrontEventInput): Promise<StorefrontEvent> {
+    const created: StorefrontEvent = {
+      id: randomUUID(),
+      shop,
+      eventType: event.type,
+      source: event.source,
+      motorcycleRecid: event.recid,
+      partCategory: event.partCategory,
+      sku: event.sku,
+      createdAt: new Date().toISOString(),
+    };
+    this.storefrontEvents.push(created);
+    return created;
+  }
+
+  async getStorefrontFunnel(shop: string, dateFrom?: string, dateTo?: string, limit: number = 50): Promise<StorefrontFunnel> {
+    const inRange = (entry: { shop: string, createdAt: string }) =>
+      entry.shop === shop && (!dateFrom || entry.createdAt >= dateFrom) && (!dateTo || entry.createdAt <= dateTo);
+    return buildStorefrontFunnel(
+      Array.from(this.searchAnalytics.values()).filter(inRange),
+      this.storefrontEvents.filter(inRange),
+      {
+        motorcycles: this.shopMotorcycles(shop),
+        partsByRecid: await this.getMotorcyclePartsByRecid(shop),
+        categoryTags: await this.getPartCategoryTags(shop),
+      },
+      limit
+    );
+  }
+
+  // Order Attribution
+  async recordOrderAttribution(shop: string, order: ShopifyOrderPayload): Promise<number> {
+    const lines = parseOrderAttribution(order, {
+      motorcycles: this.shopMotorcycles(shop),
+      partsByRecid: await this.getMotorcyclePartsByRecid(shop),
+    });
+    const recorded = unrecordedOrderLines(lines, new Set(this.orderLineAttributions
+      .filter(existing => existing.shop === shop)
+      .map(existing => existing.lineItemId)));
+    const createdAt = new Date().toISOString();
+    this.orderLineAttributions.push(...recorded.map(line => ({ ...line, id: randomUUID(), shop, createdAt })));
+    return recorded.length;
+  }
+
+  async getOrderAttributionReport(shop: string, dateFrom?: string, dateTo?: string, limit: number = 50): Promise<OrderAttributionReport> {
+    const lines = this.orderLineAttributions.filter(line =>
+      line.shop === shop && (!dateFrom || line.orderedAt >= dateFrom) && (!dateTo || line.orderedAt <= dateTo)
+    );
+    return buildOrderAttributionReport(lines, await this.getPartCategoryTags(shop), limit);
+  }
+
+  // Scheduled Jobs
+  async getScheduledJobs(shop: string): Promise<ScheduledJob[]> {
+    return this.scheduledJobs.filter(job => job.shop === shop);
+  }
+
+  async saveScheduledJob(shop: string, jobType: ScheduledJobType, job: Pick<ScheduledJob, 'schedule' | 'enabled' | 'nextRunAt'>, updatedBy: string | null): Promise<ScheduledJob> {
+    const now = new Date().toISOString();
+    const existing = this.scheduledJobs.find(entry => entry.shop === shop && entry.jobType === jobType);
+    if (existing) {
+      return Object.assign(existing, job, { updatedBy, updatedAt: now });
+    }
+    const created: ScheduledJob = { ...job, id: randomUUID(), shop, jobType, updatedBy, createdAt: now, updatedAt: now };
+    this.scheduledJobs.push(created);
+    return created;
+  }
+
+  async getDueScheduledJobs(now: string): Promise<ScheduledJob[]> {
+    return this.scheduledJobs.filter(job => job.enabled && job.nextRunAt !== null && job.nextRunAt <= now);
+  }
+
+  async claimScheduledJob(id: string, expectedNextRunAt: string, nextRunAt: string | null): Promise<boolean> {
+    const job = this.scheduledJobs.find(entry => entry.id === id && entry.nextRunAt === expectedNextRunAt);
+    if (!job) return false;
+    job.nextRunAt = nextRunAt;
+    return true;
+  }
+
+  async createScheduledJobRun(shop: string, run: Pick<ScheduledJobRun, 'jobType' | 'trigger' | 'status' | 'triggeredBy'> & Partial<ScheduledJobRun>): Promise<ScheduledJobRun> {
+    const created: ScheduledJobRun = {
+      summary: null,
+      result: null,
+      errorMessage: null,
+      durationMs: null,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      ...run,
+      id: randomUUID(),
+      shop,
+    };
+    this.scheduledJobRuns.push(created);
+    return created;
+  }
+
+  async updateScheduledJobRun(id: string, updates: Partial<ScheduledJobRun>): Promise<ScheduledJobRun | undefined> {
+    const run = this.scheduledJobRuns.find(entry => entry.id === id);
+    return run ? Object.assign(run, updates) : undefined;
+  }
+
+  async getScheduledJobRuns(shop: string, limit: number = 50): Promise<ScheduledJobRun[]> {
+    return this.scheduledJobRuns
+      .filter(run => run.shop === shop)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .slice(0, limit);
+  }
+
   // Advisory Locks - Stub implementation for in-memory storage
   async acquireAdvisoryLock(lockId: number): Promise<boolean> {
     // In-memory storage doesn't need locks (single-threaded)
@@ -695,6 +1421,61 @@ export class MemStorage implements IStorage {
     // In-memory storage doesn't need locks (single-threaded)
     return true;
   }
+
+  async withAdvisoryLock<T>(classId: number, key: string, task: () => Promise<T>): Promise<{ acquired: true; result: T } | { acquired: false }> {
+    // Tasks still interleave at every await, so held keys are tracked
+    const lockKey = `${classId}:${key}`;
+    if (this.heldLocks.has(lockKey)) return { acquired: false };
+    this.heldLocks.add(lockKey);
+    try {
+      return { acquired: true, result: await task() };
+    } finally {
+      this.heldLocks.delete(lockKey);
+    }
+  }
+
+  // Admin Users
+  async getAdminUsers(): Promise<AdminUser[]> {
+    return Array.from(this.adminUsers.values()).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async getAdminUser(id: string): Promise<AdminUser | undefined> {
+    return this.adminUsers.get(id);
+  }
+
+  async getAdminUserByUsername(username: string): Promise<AdminUser | undefined> {
+    return Array.from(this.adminUsers.values()).find(user => user.username === username);
+  }
+
+  async countAdminUsers(): Promise<number> {
+    return this.adminUsers.size;
+  }
+
+  async createAdminUser(user: Pick<AdminUser, 'username' | 'passwordHash' | 'role'>): Promise<AdminUser> {
+    const now = new Date().toISOString();
+    const adminUser: AdminUser = {
+      ...user,
+      id: randomUUID(),
+      lastLoginAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.adminUsers.set(adminUser.id, adminUser);
+    return adminUser;
+  }
+
+  async updateAdminUser(id: string, updates: Partial<Pick<AdminUser, 'passwordHash' | 'role' | 'lastLoginAt'>>): Promise<AdminUser | undefined> {
+    const existing = this.adminUsers.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates, updatedAt: new Date().toISOString() };
+    this.adminUsers.set(id, updated);
+    return updated;
+  }
+
+  async deleteAdminUser(id: string): Promise<boolean> {
+    return this.adminUsers.delete(id);
+  }
 }
 
 // Use database storage for persistent data
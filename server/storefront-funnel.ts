@@ -0,0 +1,79 @@
+import {
+  defaultCategoryLabel,
+  TOOTH_RANGE_CATEGORIES,
+  type Motorcycle,
+  type MotorcycleParts,
+  type PartCategoryTags,
+  type SearchAnalytics,
+  type StorefrontEvent,
+  type StorefrontFunnel,
+  type StorefrontFunnelCounts
+} from "@shared/schema";
+
+type FunnelContext = {
+  motorcycles: Motorcycle[];
+  partsByRecid: Map<number, MotorcycleParts>;
+  categoryTags: PartCategoryTags[];
+};
+
+const emptyCounts = (): StorefrontFunnelCounts => ({ searches: 0, views: 0, expansions: 0, addToCarts: 0 });
+
+const EVENT_COUNTS: Record<StorefrontEvent['eventType'], keyof StorefrontFunnelCounts | undefined> = {
+  bike_view: 'views',
+  category_expand: 'expansions',
+  add_to_cart: 'addToCarts',
+};
+
+// Busiest first: by views, then add-to-cart clicks, then searches
+const byActivity = (a: StorefrontFunnelCounts, b: StorefrontFunnelCounts) =>
+  b.views - a.views || b.addToCarts - a.addToCarts || b.searches - a.searches;
+
+// Funnel per motorcycle and per part category from recorded searches and storefront events
+export function buildStorefrontFunnel(
+  searches: Pick<SearchAnalytics, 'topResultRecid'>[],
+  events: Pick<StorefrontEvent, 'eventType' | 'motorcycleRecid' | 'partCategory'>[],
+  context: FunnelContext,
+  limit: number
+): StorefrontFunnel {
+  const motorcyclesByRecid = new Map(context.motorcycles.map(motorcycle => [motorcycle.recid, motorcycle]));
+  const byMotorcycle = new Map<number, StorefrontFunnelCounts>();
+  const byCategory = new Map<string, StorefrontFunnelCounts>();
+  const countFor = <K>(counts: Map<K, StorefrontFunnelCounts>, key: K) => {
+    const existing = counts.get(key);
+    if (existing) return existing;
+    const created = emptyCounts();
+    counts.set(key, created);
+    return created;
+  };
+  // The categories a bike offers now; tooth ranges only narrow the sprocket groups
+  const categoriesOf = (recid: number) => Object.keys(context.partsByRecid.get(recid) || {})
+    .filter(partCategory => !TOOTH_RANGE_CATEGORIES.includes(partCategory));
+
+  for (const search of searches) {
+    if (search.topResultRecid === null || !motorcyclesByRecid.has(search.topResultRecid)) continue;
+    countFor(byMotorcycle, search.topResultRecid).searches++;
+    for (const partCategory of categoriesOf(search.topResultRecid)) countFor(byCategory, partCategory).searches++;
+  }
+
+  for (const event of events) {
+    const counter = EVENT_COUNTS[event.eventType];
+    if (!counter || !motorcyclesByRecid.has(event.motorcycleRecid)) continue;
+    countFor(byMotorcycle, event.motorcycleRecid)[counter]++;
+    if (event.eventType === 'bike_view') {
+      for (const partCategory of categoriesOf(event.motorcycleRecid)) countFor(byCategory, partCategory).views++;
+    } else if (event.partCategory) {
+      countFor(byCategory, event.partCategory)[counter]++;
+    }
+  }
+
+  const labels = new Map(context.categoryTags.map(tag => [tag.categoryValue, tag.categoryLabel]));
+  return {
+    motorcycles: Array.from(byMotorcycle)
+      .map(([recid, counts]) => ({ ...counts, motorcycle: motorcyclesByRecid.get(recid)! }))
+      .sort(byActivity)
+      .slice(0, limit),
+    categories: Array.from(byCategory)
+      .map(([partCategory, counts]) => ({ ...counts, partCategory, label: labels.get(partCategory) ?? defaultCategoryLabel(partCategory) }))
+      .sort(byActivity),
+  };
+}
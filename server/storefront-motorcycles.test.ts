@@ -0,0 +1,99 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import type { Motorcycle } from "@shared/schema";
+import { decodeMotorcycleCursor, motorcycleMatchesListQuery, motorcycleSearchScore, paginateMotorcycles, parseMotorcycleSearch, type ScoredMotorcycle } from "./motorcycle-listing";
+import { createMotorcycleProxyHandler } from "./storefront-motorcycles";
+
+const bike = (recid: number, bikemake: string, bikemodel: string, firstyear: number, lastyear: number) =>
+  ({ recid, bikemake, bikemodel, firstyear, lastyear, capacity: null, bikeCategory: null, bikeSubcategory: null }) as unknown as Motorcycle;
+
+const catalog = [
+  bike(1, "Yamaha", "YZ250F", 2010, 2013),
+  bike(2, "Yamaha", "YZ250F", 2001, 2009),
+  bike(3, "Yamaha", "YZ450F", 2010, 2013),
+  bike(4, "Honda", "CRF450R", 2017, 2020),
+];
+
+// The in-memory listing, as MemStorage runs it without fitments or aliases
+const storage = {
+  async getMotorcycles() { return catalog; },
+  async getMotorcycle(_shop: string, recid: number) { return catalog.find(motorcycle => motorcycle.recid === recid); },
+  async searchMotorcycles() { return catalog; },
+  async filterMotorcycles(_shop: string, filters: { bikemake?: string }) {
+    return catalog.filter(motorcycle => !filters.bikemake || motorcycle.bikemake === filters.bikemake);
+  },
+  async listMotorcycles(_shop: string, query: Parameters<typeof paginateMotorcycles>[1]) {
+    const search = query.search ? parseMotorcycleSearch(query.search) : null;
+    const matching: ScoredMotorcycle[] = [];
+    for (const motorcycle of catalog) {
+      if (!motorcycleMatchesListQuery(motorcycle, query, new Set())) continue;
+      const score = search ? motorcycleSearchScore(motorcycle, search) : 0;
+      if (score !== null) matching.push({ motorcycle, score });
+    }
+    return paginateMotorcycles(matching, query, query.cursor ? decodeMotorcycleCursor(query.cursor, query) : null);
+  },
+};
+
+describe("GET /api/proxy/api/motorcycles", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    app.get("/api/proxy/api/motorcycles", (req, _res, next) => {
+      req.shopifyShop = "test-shop.myshopify.com";
+      next();
+    }, createMotorcycleProxyHandler(storage));
+    server = app.listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/proxy/api/motorcycles`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const get = async (query: string) => {
+    const response = await fetch(`${baseUrl}?${query}`);
+    return { status: response.status, body: await response.json() };
+  };
+
+  it("returns a page of search suggestions", async () => {
+    const { status, body } = await get("search=yz250f&limit=1");
+    assert.equal(status, 200);
+    assert.deepEqual(Object.keys(body).sort(), ["limit", "motorcycles", "nextCursor", "offset", "total"]);
+    assert.deepEqual(body.motorcycles.map((motorcycle: Motorcycle) => motorcycle.recid), [2]);
+    assert.equal(body.total, 2);
+    assert.equal(body.limit, 1);
+    assert.equal(body.offset, 0);
+    assert.equal(typeof body.nextCursor, "string");
+  });
+
+  it("filters a page by make and model", async () => {
+    const { body } = await get("bikemake=yamaha&bikemodel=YZ250F&limit=500");
+    assert.deepEqual(body.motorcycles.map((motorcycle: Motorcycle) => motorcycle.recid), [2, 1]);
+    assert.equal(body.nextCursor, null);
+  });
+
+  it("follows the next cursor", async () => {
+    const first = await get("search=yz250f&limit=1");
+    const { body } = await get(`search=yz250f&limit=1&cursor=${encodeURIComponent(first.body.nextCursor)}`);
+    assert.deepEqual(body.motorcycles.map((motorcycle: Motorcycle) => motorcycle.recid), [1]);
+    assert.equal(body.offset, null);
+  });
+
+  it("rejects an invalid page query", async () => {
+    assert.equal((await get("limit=5000")).status, 400);
+    assert.equal((await get("limit=10&cursor=not-a-cursor")).status, 400);
+  });
+
+  it("keeps returning an array when no page is asked for", async () => {
+    const { body } = await get("bikemake=Honda");
+    assert.ok(Array.isArray(body));
+    assert.deepEqual(body.map((motorcycle: Motorcycle) => motorcycle.recid), [4]);
+    assert.deepEqual((await get("recid=3")).body.map((motorcycle: Motorcycle) => motorcycle.recid), [3]);
+  });
+});
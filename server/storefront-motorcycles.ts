@@ -0,0 +1,51 @@
+import type { RequestHandler } from "express";
+import { z } from "zod";
+import { motorcycleListQuerySchema } from "@shared/schema";
+import { decodeMotorcycleCursor } from "./motorcycle-listing";
+import type { IStorage } from "./storage";
+
+type MotorcycleProxyStorage = Pick<IStorage, 'getMotorcycle' | 'getMotorcycles' | 'searchMotorcycles' | 'filterMotorcycles' | 'listMotorcycles'>;
+
+// Motorcycles for the Theme App Extension. Asking for a page (limit, offset or cursor) returns the same page shape
+// as the admin /api/motorcycles listing; otherwise a plain array, as older theme blocks expect.
+export function createMotorcycleProxyHandler(storage: MotorcycleProxyStorage): RequestHandler {
+  return async (req, res) => {
+    const shop = req.shopifyShop!;
+    try {
+      if (req.query.limit !== undefined || req.query.offset !== undefined || req.query.cursor !== undefined) {
+        const query = motorcycleListQuerySchema.parse(req.query);
+        if (query.cursor && !decodeMotorcycleCursor(query.cursor, query)) {
+          return res.status(400).json({ error: "Invalid cursor for this sort" });
+        }
+        return res.json(await storage.listMotorcycles(shop, query));
+      }
+
+      const { search, bikemake, firstyear, lastyear, recid } = req.query;
+
+      if (recid) {
+        // Single motorcycle by recid
+        const motorcycle = await storage.getMotorcycle(shop, parseInt(recid as string));
+        if (!motorcycle) {
+          return res.status(404).json({ error: "Motorcycle not found" });
+        }
+        res.json([motorcycle]); // Return as array for consistency with frontend expectations
+      } else if (bikemake || firstyear || lastyear) {
+        res.json(await storage.filterMotorcycles(shop, {
+          bikemake: bikemake as string,
+          firstyear: firstyear ? parseInt(firstyear as string) : undefined,
+          lastyear: lastyear ? parseInt(lastyear as string) : undefined
+        }));
+      } else if (search) {
+        res.json(await storage.searchMotorcycles(shop, search as string));
+      } else {
+        res.json(await storage.getMotorcycles(shop));
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid motorcycle query", errors: error.errors });
+      }
+      console.error("Error fetching motorcycles via app proxy:", error);
+      res.status(500).json({ error: "Failed to fetch motorcycles" });
+    }
+  };
+}
@@ -1,10 +1,19 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, boolean, jsonb } from "drizzle-orm/pg-core";
+import { sql, type AnyColumn, type SQL } from "drizzle-orm";
+import { pgTable, text, varchar, integer, decimal, boolean, jsonb, index, uniqueIndex, primaryKey, foreignKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Store that owned all data before multi-shop support - existing rows default to it
+export const LEGACY_SHOP = "renthal-offical.myshopify.com";
+
+// What the fuzzy motorcycle search matches against: make and model, plus the model with spaces and punctuation
+// removed so "crf 450r" and "CRF450R" find each other. Queries must use this exact expression to hit its index.
+export const motorcycleSearchText = (bikemake: AnyColumn, bikemodel: AnyColumn): SQL =>
+  sql`lower(${bikemake} || ' ' || ${bikemodel} || ' ' || regexp_replace(${bikemodel}, '[^a-zA-Z0-9]+', '', 'g'))`;
+
 export const motorcycles = pgTable("motorcycles", {
-  recid: integer("recid").primaryKey(),
+  shop: text("shop").notNull().default(LEGACY_SHOP), // Owning Shopify store (myshopify domain)
+  recid: integer("recid").notNull(),
   bikeCategory: text("bike_category"), // New: "Off-Road", "Street", "ATV"
   bikeSubcategory: text("bike_subcategory"), // New: "MX/Enduro", "Sportbike", "Dual Sport", etc.
   bikemake: text("bikemake").notNull(),
@@ -12,6 +21,8 @@ export const motorcycles = pgTable("motorcycles", {
   firstyear: integer("firstyear").notNull(),
   lastyear: integer("lastyear").notNull(),
   capacity: integer("capacity"), // Engine displacement
+  // Legacy part assignment storage (LEGACY_PART_COLUMNS + customParts). Assignments now live in
+  // motorcycle_fitments; these are only read by the startup backfill, which clears them once copied.
   // Original equipment specifications
   oe_handlebar: text("oe_handlebar"),
   oe_fcw: text("oe_fcw"), // Front chainwheel/sprocket
@@ -47,29 +58,359 @@ export const motorcycles = pgTable("motorcycles", {
   active_handlecompare: text("active_handlecompare"),
   other_fcw: text("other_fcw"),
   customParts: jsonb("custom_parts"), // Store dynamically created categories as {"category_value": "product_variant"}
-});
+}, (table) => ({
+  pk: primaryKey({ columns: [table.shop, table.recid] }), // RECIDs are unique per store so regional stores can share a bike database
+  // Trigram index for the fuzzy search; needs the pg_trgm extension before db:push. The server creates it on its first
+  // search; on a fresh database run CREATE EXTENSION IF NOT EXISTS pg_trgm yourself first.
+  searchIdx: index("motorcycles_search_trgm_idx").using("gin", sql`(${motorcycleSearchText(table.bikemake, table.bikemodel)}) gin_trgm_ops`),
+}));
 
 export const partMappings = pgTable("part_mappings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shop: text("shop").notNull().default(LEGACY_SHOP),
   shopifyProductId: varchar("shopify_product_id").notNull(), // Shopify product ID - fetched live from API
-  motorcycleRecid: integer("motorcycle_recid").notNull().references(() => motorcycles.recid),
+  shopifyVariantId: varchar("shopify_variant_id"), // Set when the mapping is to one variant (e.g. one sprocket size) rather than the whole product
+  motorcycleRecid: integer("motorcycle_recid").notNull(),
   compatible: boolean("compatible").notNull().default(true),
   // SKU-based resilience fields
   expectedSku: text("expected_sku"), // Expected SKU for this product (for validation and healing)
+  variantSku: text("variant_sku"), // SKU of the mapped variant; variant-level mappings heal by this
   productTitle: text("product_title"), // Product title for easier debugging
   lastSynced: text("last_synced").default(sql`CURRENT_TIMESTAMP`), // When this mapping was last verified
   status: text("status").default('active'), // 'active', 'stale', 'healing'
+}, (table) => ({
+  motorcycleFk: foreignKey({
+    columns: [table.shop, table.motorcycleRecid],
+    foreignColumns: [motorcycles.shop, motorcycles.recid],
+  }),
+}));
+
+// Legacy motorcycles columns that held part assignments before motorcycle_fitments
+export const LEGACY_PART_COLUMNS = [
+  'oe_handlebar', 'oe_fcw', 'oe_rcw', 'front_brakepads', 'rear_brakepads',
+  'handlebars_78', 'twinwall', 'fatbar', 'fatbar36', 'grips', 'cam',
+  'oe_barmount', 'barmount28', 'barmount36', 'fcwgroup', 'fcwgroup_range', 'fcwconv',
+  'rcwconv', 'rcwgroup', 'rcwgroup_range', 'twinring', 'oe_chain',
+  'chainconv', 'r1_chain', 'r3_chain', 'r4_chain', 'rr4_chain',
+  'clipon', 'rcwcarrier', 'active_handlecompare', 'other_fcw'
+] as const;
+
+export type LegacyPartField = typeof LEGACY_PART_COLUMNS[number] | 'customParts';
+
+const LEGACY_PART_FIELD_MASK = Object.fromEntries(
+  [...LEGACY_PART_COLUMNS, 'customParts'].map(field => [field, true])
+) as { [K in LegacyPartField]: true };
+
+// Tooth ranges that narrow the fcwgroup/rcwgroup sprocket groups - stored as fitments like any other category
+export const TOOTH_RANGE_CATEGORIES = ['fcwgroup_range', 'rcwgroup_range'];
+
+// Registry label for a category that has fitments but was never registered, e.g. "front_brakepads" -> "Front Brakepads"
+export const defaultCategoryLabel = (categoryValue: string) =>
+  categoryValue.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+// One part assignment per motorcycle and category. Every category, built-in or admin-created, is stored here.
+export const motorcycleFitments = pgTable("motorcycle_fitments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shop: text("shop").notNull().default(LEGACY_SHOP),
+  motorcycleRecid: integer("motorcycle_recid").notNull(),
+  partCategory: text("part_category").notNull(), // part_category_tags.categoryValue
+  sku: text("sku").notNull(), // Assigned SKU; a SKU prefix for fcwgroup/rcwgroup, a tooth range for their *_range categories
+  shopifyProductId: varchar("shopify_product_id"), // Resolved from the product cache when assigned, if the SKU was found
+  shopifyVariantId: varchar("shopify_variant_id"),
+  notes: text("notes"), // Free-text caveat shown with the part, e.g. "Requires longer throttle cable"
+  qualifiers: jsonb("qualifiers").$type<FitmentQualifiers>(), // Which versions of the bike the part fits
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  motorcycleFk: foreignKey({
+    columns: [table.shop, table.motorcycleRecid],
+    foreignColumns: [motorcycles.shop, motorcycles.recid],
+  }).onDelete("cascade"),
+  categoryIdx: uniqueIndex("motorcycle_fitments_category_idx").on(table.shop, table.motorcycleRecid, table.partCategory),
+  skuIdx: index("motorcycle_fitments_sku_idx").on(table.shop, table.sku),
+}));
+
+// Category -> assigned SKU for one motorcycle
+export type MotorcycleParts = Record<string, string>;
+
+export function toMotorcycleParts(fitments: { partCategory: string, sku: string }[]): MotorcycleParts {
+  return Object.fromEntries(fitments.map(fitment => [fitment.partCategory, fitment.sku]));
+}
+
+// Structured caveats on one assignment; an absent key means the part fits every version of the bike
+export const fitmentQualifiersSchema = z.object({
+  market: z.string().trim().min(1).optional(), // e.g. "EU"
+  abs: z.boolean().optional(), // true: ABS models only, false: non-ABS models only
+  trim: z.string().trim().min(1).optional(), // e.g. "Adventure"
+}).strict();
+
+export type FitmentQualifiers = z.infer<typeof fitmentQualifiersSchema>;
+
+export const fitmentDetailsSchema = z.object({
+  notes: z.string().trim().max(500).nullable().default(null),
+  qualifiers: fitmentQualifiersSchema.nullable().default(null),
+});
+
+export type FitmentDetails = z.infer<typeof fitmentDetailsSchema>;
+
+// Category -> notes and qualifiers, for the assignments that have any
+export type MotorcycleFitmentDetails = Record<string, FitmentDetails>;
+
+// Empty notes and qualifier objects are stored as null so "has details" is a null check
+export function normalizeFitmentDetails(details: FitmentDetails): FitmentDetails {
+  const qualifiers = Object.fromEntries(
+    Object.entries(details.qualifiers || {}).filter(([, value]) => value !== undefined && value !== '')
+  ) as FitmentQualifiers;
+  return {
+    notes: details.notes?.trim() || null,
+    qualifiers: Object.keys(qualifiers).length > 0 ? qualifiers : null,
+  };
+}
+
+export function toMotorcycleFitmentDetails(fitments: { partCategory: string, notes: string | null, qualifiers: FitmentQualifiers | null }[]): MotorcycleFitmentDetails {
+  return Object.fromEntries(fitments
+    .filter(fitment => fitment.notes || fitment.qualifiers)
+    .map(fitment => [fitment.partCategory, { notes: fitment.notes, qualifiers: fitment.qualifiers }]));
+}
+
+// Shopper-facing labels, e.g. ["EU market only", "ABS models only", "Adventure trim only"]
+export function describeFitmentQualifiers(qualifiers: FitmentQualifiers | null | undefined): string[] {
+  const labels: string[] = [];
+  if (qualifiers?.market) labels.push(`${qualifiers.market} market only`);
+  if (qualifiers?.abs !== undefined) labels.push(qualifiers.abs ? 'ABS models only' : 'Non-ABS models only');
+  if (qualifiers?.trim) labels.push(`${qualifiers.trim} trim only`);
+  return labels;
+}
+
+// CSV form of the qualifiers: "market=EU;abs=yes;trim=Adventure"
+export function formatFitmentQualifiers(qualifiers: FitmentQualifiers | null | undefined): string {
+  const pairs: string[] = [];
+  if (qualifiers?.market) pairs.push(`market=${qualifiers.market}`);
+  if (qualifiers?.abs !== undefined) pairs.push(`abs=${qualifiers.abs ? 'yes' : 'no'}`);
+  if (qualifiers?.trim) pairs.push(`trim=${qualifiers.trim}`);
+  return pairs.join(';');
+}
+
+// Inverse of formatFitmentQualifiers; throws with a message fit for an import error
+export function parseFitmentQualifiers(value: string): FitmentQualifiers | null {
+  const qualifiers: FitmentQualifiers = {};
+  for (const pair of value.split(';').map(pair => pair.trim()).filter(Boolean)) {
+    const [key, ...rest] = pair.split('=');
+    const pairValue = rest.join('=').trim();
+    switch (key.trim().toLowerCase()) {
+      case 'market':
+        if (pairValue) qualifiers.market = pairValue;
+        break;
+      case 'abs':
+        if (!['yes', 'no'].includes(pairValue.toLowerCase())) {
+          throw new Error(`abs must be yes or no, got "${pairValue}"`);
+        }
+        qualifiers.abs = pairValue.toLowerCase() === 'yes';
+        break;
+      case 'trim':
+        if (pairValue) qualifiers.trim = pairValue;
+        break;
+      default:
+        throw new Error(`Unknown qualifier "${key.trim()}" (use market, abs or trim)`);
+    }
+  }
+  return Object.keys(qualifiers).length > 0 ? qualifiers : null;
+}
+
+// Every change to a motorcycle's part assignment, for history and one-click revert
+export const PART_ASSIGNMENT_SOURCES = ["manual", "csv_import", "auto_heal", "revert", "bulk_assign", "clone", "supersession"] as const;
+
+export const partAssignmentAudit = pgTable("part_assignment_audit", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shop: text("shop").notNull().default(LEGACY_SHOP),
+  motorcycleRecid: integer("motorcycle_recid").notNull(),
+  partCategory: text("part_category").notNull(), // Fitment category; 'part_mapping' for part_mappings rows
+  partMappingId: varchar("part_mapping_id"), // Set when the change was to a part_mappings row (auto-heal)
+  previousValue: text("previous_value"),
+  newValue: text("new_value"),
+  source: text("source").notNull(), // One of PART_ASSIGNMENT_SOURCES
+  changedBy: text("changed_by"), // Admin username; null for system changes
+  revertOfId: varchar("revert_of_id"), // Audit entry this change reverted
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  motorcycleIdx: index("part_assignment_audit_motorcycle_idx").on(table.shop, table.motorcycleRecid),
+}));
+
+// Local copy of the Shopify catalog - filled by a full sync and kept current by product webhooks
+export const shopifyProducts = pgTable("shopify_products", {
+  id: varchar("id").primaryKey(), // Shopify product ID
+  shop: text("shop").notNull().default(LEGACY_SHOP),
+  title: text("title").notNull(),
+  handle: text("handle"),
+  bodyHtml: text("body_html"),
+  productType: text("product_type"),
+  vendor: text("vendor"),
+  tags: text("tags"), // Comma-separated, exactly as Shopify returns them
+  status: text("status"),
+  images: jsonb("images"), // Shopify image objects [{ id, src, ... }]
+  shopifyUpdatedAt: text("shopify_updated_at"), // updated_at reported by Shopify
+  syncedAt: text("synced_at").notNull().default(sql`CURRENT_TIMESTAMP`), // When this row was last written from Shopify
+}, (table) => ({
+  shopIdx: index("shopify_products_shop_idx").on(table.shop),
+}));
+
+export const shopifyProductVariants = pgTable("shopify_product_variants", {
+  id: varchar("id").primaryKey(), // Shopify variant ID
+  productId: varchar("product_id").notNull().references(() => shopifyProducts.id, { onDelete: "cascade" }),
+  title: text("title"),
+  sku: text("sku"),
+  price: text("price"),
+  inventoryQuantity: integer("inventory_quantity"),
+  option1: text("option1"),
+  option2: text("option2"),
+  option3: text("option3"),
+  position: integer("position"),
+}, (table) => ({
+  productIdx: index("shopify_product_variants_product_idx").on(table.productId),
+  skuIdx: index("shopify_product_variants_sku_idx").on(table.sku),
+}));
+
+// Products removed by a products/delete webhook. Shopify doesn't order webhooks, so a products/update delivered after
+// the delete must not bring the product back; Shopify never reuses product IDs.
+export const shopifyProductTombstones = pgTable("shopify_product_tombstones", {
+  id: varchar("id").primaryKey(), // Shopify product ID
+  shop: text("shop").notNull().default(LEGACY_SHOP),
+  deletedAt: text("deleted_at").notNull().default(sql`CURRENT_TIMESTAMP`), // When the delete webhook arrived
 });
 
 export const importHistory = pgTable("import_history", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shop: text("shop").notNull().default(LEGACY_SHOP),
   type: text("type").notNull(), // 'motorcycles' or 'mappings'
   filename: text("filename").notNull(),
   recordsCount: integer("records_count").notNull(),
-  status: text("status").notNull(), // 'success' or 'error'
+  status: text("status").notNull(), // 'running', 'success', 'error' or 'rolled_back'
+  rolledBackAt: text("rolled_back_at"),
+  rolledBackBy: text("rolled_back_by"), // Admin username
   createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
 });
 
+// Before-state of every row an import touched, so the whole batch can be rolled back
+export const IMPORT_BATCH_ENTITY_TYPES = ["motorcycle", "part_mapping"] as const;
+
+export const importBatchRows = pgTable("import_batch_rows", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  importId: varchar("import_id").notNull().references(() => importHistory.id, { onDelete: "cascade" }),
+  shop: text("shop").notNull().default(LEGACY_SHOP),
+  entityType: text("entity_type").notNull(), // 'motorcycle' or 'part_mapping'
+  entityId: text("entity_id").notNull(), // Motorcycle RECID or part mapping ID
+  action: text("action").notNull(), // 'created' or 'updated'
+  beforeState: jsonb("before_state"), // Full row as it was before the import; null for created rows
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  // Only the first touch in a batch is recorded - that is the true pre-import state
+  entityIdx: uniqueIndex("import_batch_rows_entity_idx").on(table.importId, table.entityType, table.entityId),
+}));
+
+// One run of promoting a part category: legacy values moved into fitments, then the category registered
+export const categoryPromotions = pgTable("category_promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shop: text("shop").notNull().default(LEGACY_SHOP),
+  partCategory: text("part_category").notNull(),
+  status: text("status").notNull(), // 'running', 'success', 'error' or 'rolled_back'
+  migratedCount: integer("migrated_count").notNull().default(0), // Legacy values moved into fitments
+  fitmentCount: integer("fitment_count").notNull().default(0), // Motorcycles with the category after promotion
+  registeredTag: boolean("registered_tag").notNull().default(false), // The promotion created the registry entry
+  errorMessage: text("error_message"),
+  promotedBy: text("promoted_by"), // Admin username
+  rolledBackAt: text("rolled_back_at"),
+  rolledBackBy: text("rolled_back_by"), // Admin username
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  shopIdx: index("category_promotions_shop_idx").on(table.shop),
+}));
+
+// Admin-defined fitment rule: every motorcycle matching the conditions gets the listed SKUs,
+// except in categories where it has its own (explicit) assignment
+export const fitmentRules = pgTable("fitment_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shop: text("shop").notNull().default(LEGACY_SHOP),
+  name: text("name").notNull(),
+  conditions: jsonb("conditions").$type<FitmentRuleConditions>().notNull(),
+  assignments: jsonb("assignments").$type<MotorcycleParts>().notNull(), // Category -> SKU assigned to matching bikes
+  priority: integer("priority").notNull().default(0), // Higher wins when two rules assign the same category
+  enabled: boolean("enabled").notNull().default(true),
+  createdBy: text("created_by"), // Admin username
+  updatedBy: text("updated_by"),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  shopIdx: index("fitment_rules_shop_idx").on(table.shop),
+}));
+
+// Replaced part numbers. A null newSku means the part was discontinued with no successor.
+export const skuSupersessions = pgTable("sku_supersessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shop: text("shop").notNull().default(LEGACY_SHOP),
+  oldSku: text("old_sku").notNull(),
+  newSku: text("new_sku"),
+  effectiveDate: text("effective_date"), // YYYY-MM-DD; ignored until this date. Null: effective immediately
+  notes: text("notes"),
+  createdBy: text("created_by"), // Admin username
+  updatedBy: text("updated_by"),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  oldSkuIdx: uniqueIndex("sku_supersessions_old_sku_idx").on(table.shop, table.oldSku),
+}));
+
+// Other spellings of a make or model, e.g. "Husky" -> "Husqvarna" or "SXF 250" -> "250 SX-F". CSV imports store the
+// canonical spelling and searches are rewritten to it.
+export const MOTORCYCLE_ALIAS_KINDS = ['make', 'model'] as const;
+
+export const motorcycleAliases = pgTable("motorcycle_aliases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shop: text("shop").notNull().default(LEGACY_SHOP),
+  kind: text("kind").notNull(), // MOTORCYCLE_ALIAS_KINDS
+  alias: text("alias").notNull(), // As entered, e.g. "Gas Gas"
+  aliasKey: text("alias_key").notNull(), // motorcycleNameKey(alias) - what lookups compare
+  canonical: text("canonical").notNull(), // The spelling motorcycles are stored with
+  bikemake: text("bikemake"), // Model aliases only: the make the model belongs to. Null: any make
+  createdBy: text("created_by"), // Admin username
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  aliasKeyIdx: index("motorcycle_aliases_key_idx").on(table.shop, table.kind, table.aliasKey),
+}));
+
+// Mapping maintenance jobs the background scheduler can run per shop
+export const SCHEDULED_JOB_TYPES = ["validate_mappings", "heal_stale_mappings", "populate_mapping_metadata"] as const;
+
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shop: text("shop").notNull().default(LEGACY_SHOP),
+  jobType: text("job_type").notNull(), // One of SCHEDULED_JOB_TYPES
+  schedule: text("schedule").notNull(), // Five-field cron expression, evaluated in UTC
+  enabled: boolean("enabled").notNull().default(true),
+  nextRunAt: text("next_run_at"), // ISO timestamp; null while disabled
+  updatedBy: text("updated_by"), // Admin username
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  jobIdx: uniqueIndex("scheduled_jobs_shop_job_idx").on(table.shop, table.jobType),
+}));
+
+export const scheduledJobRuns = pgTable("scheduled_job_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shop: text("shop").notNull().default(LEGACY_SHOP),
+  jobType: text("job_type").notNull(),
+  trigger: text("trigger").notNull(), // 'schedule' or 'manual'
+  status: text("status").notNull(), // 'running', 'success', 'error' or 'skipped' (another run held the lock)
+  summary: text("summary"),
+  result: jsonb("result"), // The job's full return value, e.g. the stale mapping list
+  errorMessage: text("error_message"),
+  durationMs: integer("duration_ms"),
+  triggeredBy: text("triggered_by"), // Admin username for manual runs
+  startedAt: text("started_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  finishedAt: text("finished_at"),
+}, (table) => ({
+  shopIdx: index("scheduled_job_runs_shop_idx").on(table.shop, table.startedAt),
+}));
+
 export const shopifySessions = pgTable("shopify_sessions", {
   id: varchar("id").primaryKey(),
   shop: text("shop").notNull(),
@@ -84,7 +425,8 @@ export const shopifySessions = pgTable("shopify_sessions", {
 
 export const partCategoryTags = pgTable("part_category_tags", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  categoryValue: text("category_value").notNull().unique(),
+  shop: text("shop").notNull().default(LEGACY_SHOP),
+  categoryValue: text("category_value").notNull(),
   categoryLabel: text("category_label").notNull(),
   productTags: text("product_tags").notNull(), // JSON array as text
   displayMode: text("display_mode").notNull().default('products'), // 'products' or 'variants' - controls dropdown display
@@ -92,16 +434,64 @@ export const partCategoryTags = pgTable("part_category_tags", {
   sortOrder: integer("sort_order").notNull().default(0), // Display order for categories in parts mapping
   createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
   updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
-});
+}, (table) => ({
+  shopCategoryIdx: uniqueIndex("part_category_tags_shop_category_idx").on(table.shop, table.categoryValue),
+}));
 
 export const searchAnalytics = pgTable("search_analytics", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shop: text("shop").notNull().default(LEGACY_SHOP),
   searchQuery: text("search_query").notNull(),
   resultsCount: integer("results_count").notNull().default(0),
+  topResultRecid: integer("top_result_recid"), // Best match when results were ranked by relevance
   ipAddress: text("ip_address"), // Optional for basic analytics
   userAgent: text("user_agent"), // Optional for basic analytics
   createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
-});
+}, (table) => ({
+  shopIdx: index("search_analytics_shop_idx").on(table.shop),
+}));
+
+// Storefront interactions after a search: bike page views, part category expansions and add-to-cart clicks
+export const STOREFRONT_EVENT_TYPES = ['bike_view', 'category_expand', 'add_to_cart'] as const;
+export const STOREFRONT_EVENT_SOURCES = ['proxy_page', 'finder_block', 'widget'] as const;
+
+export const storefrontEvents = pgTable("storefront_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shop: text("shop").notNull().default(LEGACY_SHOP),
+  eventType: text("event_type").notNull(), // STOREFRONT_EVENT_TYPES
+  source: text("source").notNull(), // STOREFRONT_EVENT_SOURCES
+  motorcycleRecid: integer("motorcycle_recid").notNull(),
+  partCategory: text("part_category"), // Expansions and add-to-cart clicks
+  sku: text("sku"), // Add-to-cart clicks
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  shopCreatedIdx: index("storefront_events_shop_created_idx").on(table.shop, table.createdAt),
+}));
+
+// Order lines bought for a specific motorcycle, from the orders/create webhook. The finder and widget add the bike
+// as line item properties when adding to cart (see ORDER_LINE_PROPERTIES).
+export const orderLineAttributions = pgTable("order_line_attributions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shop: text("shop").notNull().default(LEGACY_SHOP),
+  orderId: text("order_id").notNull(),
+  orderName: text("order_name"), // e.g. "#1001"
+  lineItemId: text("line_item_id").notNull(),
+  motorcycleRecid: integer("motorcycle_recid").notNull(),
+  bikemake: text("bikemake"), // Snapshot when the order came in, so the report survives bike edits and deletes
+  bikemodel: text("bikemodel"),
+  fitsLabel: text("fits_label"), // The "Compatible with" property as the shopper saw it
+  partCategory: text("part_category"),
+  sku: text("sku"),
+  variantId: text("variant_id"),
+  quantity: integer("quantity").notNull(),
+  revenueCents: integer("revenue_cents").notNull(), // Line total after line discounts, in the shop's currency
+  currency: text("currency"),
+  orderedAt: text("ordered_at").notNull(),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  lineItemIdx: uniqueIndex("order_line_attributions_line_item_idx").on(table.shop, table.lineItemId),
+  shopOrderedIdx: index("order_line_attributions_shop_ordered_idx").on(table.shop, table.orderedAt),
+}));
 
 export const motorcycleCategoryConfig = pgTable("motorcycle_category_config", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -151,19 +541,46 @@ export const systemSettings = pgTable("system_settings", {
   updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
 });
 
-export const insertMotorcycleSchema = createInsertSchema(motorcycles);
+// Admin dashboard accounts. Roles are cumulative: viewer < editor < admin
+export const USER_ROLES = ["viewer", "editor", "admin"] as const;
+
+export function roleAllows(role: string | null | undefined, required: typeof USER_ROLES[number]): boolean {
+  const rank = USER_ROLES.indexOf(role as typeof USER_ROLES[number]);
+  return rank !== -1 && rank >= USER_ROLES.indexOf(required);
+}
+
+export const adminUsers = pgTable("admin_users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(), // scrypt "hash.salt"
+  role: text("role").notNull().default("viewer"), // 'viewer', 'editor' or 'admin'
+  lastLoginAt: text("last_login_at"),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+// The owning shop is never client-supplied - storage stamps it from the request's shop
+export const insertMotorcycleSchema = createInsertSchema(motorcycles).omit({
+  shop: true,
+  ...LEGACY_PART_FIELD_MASK,
+});
 
 export const insertPartMappingSchema = createInsertSchema(partMappings).omit({
   id: true,
+  shop: true,
 });
 
 export const insertImportHistorySchema = createInsertSchema(importHistory).omit({
   id: true,
+  shop: true,
+  rolledBackAt: true,
+  rolledBackBy: true,
   createdAt: true,
 });
 
 export const insertPartCategoryTagsSchema = createInsertSchema(partCategoryTags).omit({
   id: true,
+  shop: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -193,9 +610,10 @@ export type PartCategoryTags = typeof partCategoryTags.$inferSelect;
 export type InsertPartCategoryTags = z.infer<typeof insertPartCategoryTagsSchema>;
 export type PartSection = typeof partSections.$inferSelect;
 export type InsertPartSection = z.infer<typeof insertPartSectionSchema>;
-export type Motorcycle = typeof motorcycles.$inferSelect;
+export type Motorcycle = Omit<typeof motorcycles.$inferSelect, LegacyPartField>;
+export type MotorcycleFitment = typeof motorcycleFitments.$inferSelect;
 
-// Types for live Shopify data with variants (fetched from API, not cached in database)
+// Types for Shopify product data with variants (served from the local product cache)
 export type ShopifyProductVariant = {
   id: string;
   title: string;
@@ -224,14 +642,87 @@ export type ShopifyProductWithVariants = {
 export type ShopifyProductWithCategory = ShopifyProductWithVariants & {
   adminCategory?: string; // The assignedSection from partCategoryTags (handlebars, frontSprocket, rearSprockets, etc.)
   adminCategoryLabel?: string; // The categoryLabel from partCategoryTags for display
+  fitmentNotes?: string | null; // Notes on the assignment that matched the product, if any
+  fitmentQualifiers?: FitmentQualifiers | null;
+};
+
+export const insertCachedShopifyProductSchema = createInsertSchema(shopifyProducts).omit({
+  shop: true,
+  syncedAt: true,
+});
+
+export const insertCachedShopifyProductVariantSchema = createInsertSchema(shopifyProductVariants);
+
+export type CachedShopifyProduct = typeof shopifyProducts.$inferSelect;
+export type InsertCachedShopifyProduct = z.infer<typeof insertCachedShopifyProductSchema>;
+export type CachedShopifyProductVariant = typeof shopifyProductVariants.$inferSelect;
+export type InsertCachedShopifyProductVariant = z.infer<typeof insertCachedShopifyProductVariantSchema>;
+
+// Freshness summary of the local product cache for the admin dashboard
+export type ProductCacheStatus = {
+  productCount: number;
+  variantCount: number;
+  lastFullSyncAt: string | null;
+  lastFullSyncPages: number | null;
+  lastWebhookAt: string | null;
+  lastWebhookTopic: string | null;
 };
 
 export type InsertPartMapping = z.infer<typeof insertPartMappingSchema>;
 export type PartMapping = typeof partMappings.$inferSelect;
 
+// Reverse fitment lookup: every motorcycle that references a SKU or product
+export type ReverseFitmentMatch = {
+  motorcycle: Motorcycle;
+  partCategory: string; // Fitment category, or 'part_mapping' for part_mappings rows
+  sku: string | null;
+  fitmentId: string | null;
+  partMappingId: string | null;
+};
+
+export type ReverseFitmentLookup = {
+  skus: string[]; // SKUs searched - the requested SKU, or every cached variant SKU of the requested product
+  productIds: string[]; // Cached products carrying those SKUs
+  matches: ReverseFitmentMatch[];
+};
+
 export type InsertImportHistory = z.infer<typeof insertImportHistorySchema>;
 export type ImportHistory = typeof importHistory.$inferSelect;
 
+export type ImportBatchEntityType = typeof IMPORT_BATCH_ENTITY_TYPES[number];
+export type ImportBatchRow = typeof importBatchRows.$inferSelect;
+
+export type CategoryPromotion = typeof categoryPromotions.$inferSelect;
+
+// CSV import dry run: what each row would do, returned before anything is written
+export type CsvImportType = 'motorcycles' | 'parts' | 'combined';
+
+export type CsvImportFieldChange = {
+  field: string; // Motorcycle field or part category
+  kind: 'field' | 'part' | 'notes' | 'qualifiers'; // notes/qualifiers of the field's assignment; qualifiers in CSV form
+  oldValue: string | number | null;
+  newValue: string | number | null;
+};
+
+export type CsvImportRowPreview = {
+  row: number; // CSV line number (header is row 1)
+  recid: number | null; // null when the RECID will be auto-assigned
+  motorcycle: string | null; // "Make Model" for display
+  status: 'new' | 'changed' | 'unchanged' | 'error';
+  changes: CsvImportFieldChange[];
+  errors: Array<{ field: string; message: string }>;
+};
+
+export type CsvImportPreview = {
+  previewId: string;
+  importType: CsvImportType;
+  filename: string;
+  totalRows: number;
+  summary: { new: number; changed: number; unchanged: number; error: number };
+  rows: CsvImportRowPreview[];
+  expiresAt: string;
+};
+
 export const insertShopifySessionSchema = createInsertSchema(shopifySessions).omit({
   createdAt: true,
   updatedAt: true,
@@ -242,12 +733,396 @@ export type ShopifySessionData = typeof shopifySessions.$inferSelect;
 
 export const insertSearchAnalyticsSchema = createInsertSchema(searchAnalytics).omit({
   id: true,
+  shop: true,
   createdAt: true,
 });
 
 export type InsertSearchAnalytics = z.infer<typeof insertSearchAnalyticsSchema>;
 export type SearchAnalytics = typeof searchAnalytics.$inferSelect;
 
+export const unmetSearchQuerySchema = z.object({
+  dateFrom: z.string().optional(),
+  dateTo: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const storefrontEventSchema = z.object({
+  type: z.enum(STOREFRONT_EVENT_TYPES),
+  source: z.enum(STOREFRONT_EVENT_SOURCES),
+  recid: z.coerce.number().int().positive(),
+  partCategory: z.string().trim().min(1).max(100).nullable().default(null),
+  sku: z.string().trim().min(1).max(100).nullable().default(null),
+}).refine(event => event.type === 'bike_view' || event.partCategory !== null, {
+  message: "Category expansions and add-to-cart clicks need a part category",
+  path: ["partCategory"],
+});
+
+export const storefrontFunnelQuerySchema = z.object({
+  dateFrom: z.string().optional(),
+  dateTo: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Line item properties the storefront sets on add to cart. Underscored properties are hidden from the shopper.
+export const ORDER_LINE_PROPERTIES = {
+  recid: 'Motorcycle ID',
+  fits: 'Compatible with',
+  partCategory: '_part_category',
+} as const;
+
+export const orderAttributionQuerySchema = z.object({
+  dateFrom: z.string().optional(),
+  dateTo: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type OrderLineAttribution = typeof orderLineAttributions.$inferSelect;
+export type InsertOrderLineAttribution = Omit<OrderLineAttribution, 'id' | 'shop' | 'createdAt'>;
+
+export type OrderAttributionTotals = { orders: number; units: number; revenueCents: number };
+
+// Attributed revenue and units by motorcycle, make and part category
+export type OrderAttributionReport = {
+  currency: string | null;
+  totals: OrderAttributionTotals;
+  motorcycles: (OrderAttributionTotals & { motorcycleRecid: number; bikemake: string | null; bikemodel: string | null })[];
+  makes: (OrderAttributionTotals & { bikemake: string })[];
+  categories: (OrderAttributionTotals & { partCategory: string | null; label: string })[];
+};
+
+export type StorefrontEventType = typeof STOREFRONT_EVENT_TYPES[number];
+export type StorefrontEventSource = typeof STOREFRONT_EVENT_SOURCES[number];
+export type StorefrontEventInput = z.infer<typeof storefrontEventSchema>;
+export type StorefrontEvent = typeof storefrontEvents.$inferSelect;
+
+// Searches -> bike views -> category expansions -> add-to-cart clicks. A search counts for the bike it ranked first.
+export type StorefrontFunnelCounts = { searches: number; views: number; expansions: number; addToCarts: number };
+
+export type StorefrontFunnel = {
+  motorcycles: (StorefrontFunnelCounts & { motorcycle: Motorcycle })[];
+  // Searches and views count for every category the bike has a part in now
+  categories: (StorefrontFunnelCounts & { partCategory: string; label: string })[];
+};
+
+// no_results: nothing matched; no_parts: the best match has no parts assigned
+export type UnmetSearchReason = 'no_results' | 'no_parts';
+
+// Searches for the same thing (same letters and digits once aliases are applied) whose latest search went unmet
+export type UnmetSearchDemand = {
+  key: string;
+  query: string; // Most searched spelling
+  variants: string[]; // Other spellings, most searched first
+  reason: UnmetSearchReason; // Of the latest search
+  searchCount: number; // Unmet searches
+  lastSearchedAt: string;
+  demandScore: number; // Unmet searches weighted by age: each counts half as much per SEARCH_DEMAND_HALF_LIFE_DAYS
+  motorcycle: Motorcycle | null; // no_parts: the best match
+  suggestion: { bikemake: string | null; bikemodel: string; year: number | null }; // Prefill for creating the motorcycle
+};
+
+export type PartAssignmentSource = typeof PART_ASSIGNMENT_SOURCES[number];
+export type PartAssignmentAudit = typeof partAssignmentAudit.$inferSelect;
+
+// Who and what made a part assignment change - recorded alongside it in the audit log
+export type PartAssignmentChange = {
+  source: PartAssignmentSource;
+  changedBy?: string | null;
+  revertOfId?: string | null;
+};
+
+// Bulk assignment: set or clear one part category on every motorcycle matching a filter
+const motorcycleFilterShape = {
+  bikemake: z.string().trim().min(1).optional(),
+  modelPattern: z.string().trim().min(1).optional(), // Case-insensitive; * matches any characters, e.g. "*SX-F*"
+  yearFrom: z.number().int().optional(), // Bike's production years must lie within yearFrom..yearTo
+  yearTo: z.number().int().optional(),
+  bikeCategory: z.string().min(1).optional(),
+  bikeSubcategory: z.string().min(1).optional(),
+  minCapacity: z.number().int().optional(),
+  maxCapacity: z.number().int().optional(),
+};
+
+export const bulkAssignmentFilterSchema = z.object(motorcycleFilterShape).refine(filter => Object.values(filter).some(value => value !== undefined), {
+  message: "At least one filter is required",
+});
+
+export const bulkAssignmentSchema = z.object({
+  filter: bulkAssignmentFilterSchema,
+  partCategory: z.string().min(1),
+  productVariant: z.string().trim().nullable(), // null clears the category
+  expectedRecids: z.array(z.number().int()).optional(), // RECIDs from the preview; the commit is refused if the match changed
+});
+
+export type BulkAssignmentFilter = z.infer<typeof bulkAssignmentFilterSchema>;
+export type BulkAssignment = z.infer<typeof bulkAssignmentSchema>;
+
+export type BulkAssignmentPreview = {
+  partCategory: string;
+  productVariant: string | null;
+  motorcycles: { motorcycle: Motorcycle; currentValue: string | null; willChange: boolean }[];
+  changeCount: number;
+};
+
+// Paginated motorcycle listing: GET /api/motorcycles with limit, offset or cursor.
+// Values arrive as query strings, so numbers are coerced.
+export const MOTORCYCLE_SORT_FIELDS = ['relevance', 'make', 'model', 'year', 'capacity', 'recid'] as const;
+export const MAX_MOTORCYCLE_PAGE_SIZE = 500;
+
+export const motorcycleListQuerySchema = z.object({
+  search: z.string().trim().min(1).optional(), // Fuzzy make/model search; a bare number is a RECID, a 4-digit year narrows by production years
+  bikemake: z.string().trim().min(1).optional(), // Make and model match whole values, case-insensitively
+  bikemodel: z.string().trim().min(1).optional(),
+  year: z.coerce.number().int().optional(), // Bikes in production that year
+  bikeCategory: z.string().min(1).optional(),
+  bikeSubcategory: z.string().min(1).optional(),
+  minCapacity: z.coerce.number().int().optional(),
+  maxCapacity: z.coerce.number().int().optional(),
+  hasPart: z.string().min(1).optional(), // Part category the bike has a fitment for
+  missingPart: z.string().min(1).optional(), // Part category the bike has no fitment for
+  sort: z.enum(MOTORCYCLE_SORT_FIELDS).optional(), // Best match first when searching, otherwise make
+  order: z.enum(['asc', 'desc']).optional(), // Relevance defaults to descending, everything else to ascending
+  limit: z.coerce.number().int().min(1).max(MAX_MOTORCYCLE_PAGE_SIZE).default(50),
+  offset: z.coerce.number().int().min(0).optional(),
+  cursor: z.string().min(1).optional(), // nextCursor from the previous page
+}).refine(query => query.offset === undefined || query.cursor === undefined, {
+  message: "Use either offset or cursor, not both",
+}).refine(query => query.sort !== 'relevance' || query.search !== undefined, {
+  message: "Sorting by relevance needs a search",
+}).transform(query => {
+  const sort = query.sort ?? (query.search ? 'relevance' : 'make');
+  return { ...query, sort, order: query.order ?? (sort === 'relevance' ? 'desc' : 'asc') };
+});
+
+export type MotorcycleSortField = typeof MOTORCYCLE_SORT_FIELDS[number];
+export type MotorcycleListQuery = z.infer<typeof motorcycleListQuerySchema>;
+
+export type MotorcycleListPage<T = Motorcycle> = {
+  motorcycles: T[];
+  total: number; // Every motorcycle matching the filters, across all pages
+  limit: number;
+  offset: number | null; // null when the page was fetched by cursor
+  nextCursor: string | null; // null on the last page
+};
+
+// Copy fitment: copy a source motorcycle's part assignments (tooth ranges included) onto other motorcycles
+export const cloneFitmentSchema = z.object({
+  targetRecids: z.array(z.number().int()).min(1),
+  categories: z.array(z.string().min(1)).min(1).optional(), // Categories to copy; omitted in the preview
+});
+
+export type CloneFitmentTargetStatus = 'new' | 'same' | 'conflict'; // conflict: the target already has a different value
+
+export type CloneFitmentPreview = {
+  source: Motorcycle;
+  targets: Motorcycle[];
+  categories: {
+    partCategory: string;
+    sourceValue: string;
+    targets: { recid: number; currentValue: string | null; status: CloneFitmentTargetStatus }[];
+  }[];
+};
+
+// Fitment rules: the motorcycle filter plus conditions on the bike's explicit part assignments
+export const fitmentRuleConditionsSchema = z.object({
+  ...motorcycleFilterShape,
+  partValues: z.record(z.string().min(1), z.string().trim().min(1)).optional(), // Category -> required SKU; * matches any characters, e.g. {"chain": "520*"}
+}).refine(conditions => Object.values(conditions).some(value => value !== undefined), {
+  message: "At least one condition is required",
+});
+
+export const insertFitmentRuleSchema = z.object({
+  name: z.string().trim().min(1),
+  conditions: fitmentRuleConditionsSchema,
+  assignments: z.record(z.string().min(1), z.string().trim().min(1)).refine(assignments => Object.keys(assignments).length > 0, {
+    message: "At least one assignment is required",
+  }),
+  priority: z.number().int().default(0),
+  enabled: z.boolean().default(true),
+});
+
+export type FitmentRuleConditions = z.infer<typeof fitmentRuleConditionsSchema>;
+export type InsertFitmentRule = z.infer<typeof insertFitmentRuleSchema>;
+export type FitmentRule = typeof fitmentRules.$inferSelect;
+
+// A category value a rule supplies for one motorcycle; overridden when the bike has its own assignment
+export type RuleFitment = {
+  partCategory: string;
+  sku: string;
+  ruleId: string;
+  ruleName: string;
+  overridden: boolean;
+};
+
+export type EffectiveMotorcycleParts = {
+  parts: MotorcycleParts; // Explicit assignments plus the rule values they don't override
+  ruleFitments: RuleFitment[];
+};
+
+// Compatible parts explanation: why each product matched a motorcycle, for support and debugging
+export type CompatiblePartMatchRule =
+  | 'product_sku' // Product's own SKU equals an assigned value
+  | 'variant_sku' // A variant's SKU equals an assigned value
+  | 'group_title' // Title equals fcwgroup/rcwgroup (group assigned without an OE sprocket)
+  | 'group_prefix' // A variant SKU starts with fcwgroup/rcwgroup
+  | 'part_mapping'; // A variant-level part mapping names one of its variants
+
+export type CompatiblePartCategoryMethod =
+  | 'oe_sku' // SKU equals one of the OE categories' values
+  | 'assigned_sku' // Matched variant's SKU equals another assigned category's value
+  | 'tag_exact' // Product tags equal the category's productTags (most matches, then fewest tags, wins)
+  | 'tag_partial' // A product tag contains, or is contained in, one of the category's productTags
+  | 'default'; // Nothing matched: 'others'
+
+export type CompatiblePartExplanation = {
+  productId: string;
+  title: string;
+  included: boolean; // false when tooth-range filtering removed every variant
+  matchRule: CompatiblePartMatchRule;
+  matchedCategory: string | null; // Part category whose value triggered the match
+  matchedValue: string; // That category's value (SKU or group prefix)
+  matchedSku: string | null; // Product or variant SKU it was compared with; null for title matches
+  fromRule: string | null; // Fitment rule name when the value came from a rule rather than the bike itself
+  matchedVariantId: string | null; // A variant-level part mapping's variant when it survived filtering
+  filteredVariants: { variantId: string | null; sku: string | null; reason: string }[];
+  adminCategory: string | null; // Section the storefront groups the product under; null where storage doesn't categorise
+  adminCategoryLabel: string | null;
+  categoryMethod: CompatiblePartCategoryMethod | null;
+  categoryDetail: string | null;
+};
+
+export type CompatiblePartsExplanation = {
+  motorcycle: Motorcycle;
+  parts: MotorcycleParts; // Effective values (explicit plus rule-supplied) the matching ran against
+  ruleFitments: RuleFitment[];
+  skuValues: string[]; // Values compared for exact SKU matches
+  prefixValues: string[]; // Sprocket groups matched by title/prefix because no OE sprocket is set
+  toothRanges: { fcwgroup_range: number[] | null; rcwgroup_range: number[] | null };
+  products: CompatiblePartExplanation[];
+};
+
+// Fitment data quality: assigned values that don't resolve in the product cache or don't fit their category
+export type FitmentQualityIssueType =
+  | 'missing_sku' // No cached product or variant has the SKU (or, for sprocket groups, the prefix/title)
+  | 'inactive_product' // Only draft or archived products carry it
+  | 'tag_mismatch' // The product has none of the category's productTags
+  | 'invalid_tooth_range' // A tooth range that can't be parsed
+  | 'empty_tooth_range'; // A tooth range that leaves no variant of the group
+
+export type FitmentQualityIssue = {
+  fitmentId: string;
+  motorcycle: Motorcycle;
+  partCategory: string;
+  value: string;
+  issue: FitmentQualityIssueType;
+  detail: string;
+};
+
+export type FitmentQualityReport = {
+  generatedAt: string;
+  fitmentCount: number; // Fitments checked
+  issues: FitmentQualityIssue[];
+};
+
+export const insertSkuSupersessionSchema = z.object({
+  oldSku: z.string().trim().min(1),
+  newSku: z.string().trim().min(1).nullable().default(null), // null: discontinued
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").nullable().default(null),
+  notes: z.string().trim().nullable().default(null),
+}).refine(supersession => supersession.newSku?.toLowerCase() !== supersession.oldSku.toLowerCase(), {
+  message: "A SKU can't supersede itself",
+  path: ["newSku"],
+});
+
+export type InsertSkuSupersession = z.infer<typeof insertSkuSupersessionSchema>;
+export type SkuSupersession = typeof skuSupersessions.$inferSelect;
+
+// A stored fitment whose SKU has an effective successor, as the bulk rewrite would change it
+export type SupersededFitment = {
+  fitmentId: string;
+  motorcycle: Motorcycle;
+  partCategory: string;
+  sku: string;
+  resolvedSku: string;
+  chain: string[]; // Every SKU from the stored one to the resolved one
+};
+
+// A discontinued SKU (no successor at the end of its chain) and the fitments still naming it
+export type DiscontinuedSkuReportEntry = {
+  sku: string;
+  supersession: SkuSupersession; // The entry that discontinued it (last in the chain)
+  fitments: { fitmentId: string; motorcycle: Motorcycle; partCategory: string; sku: string }[];
+};
+
+// Letters and digits only, lowercased: "Gas Gas", "GASGAS" and "gas-gas" share the key "gasgas"
+export const motorcycleNameKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+export const insertMotorcycleAliasSchema = z.object({
+  kind: z.enum(MOTORCYCLE_ALIAS_KINDS),
+  alias: z.string().trim().min(1).refine(alias => motorcycleNameKey(alias) !== '', "The alias needs letters or digits"),
+  canonical: z.string().trim().min(1),
+  bikemake: z.string().trim().min(1).nullable().default(null),
+}).refine(alias => alias.kind === 'model' || alias.bikemake === null, {
+  message: "Only model aliases belong to a make",
+  path: ["bikemake"],
+}).refine(alias => alias.alias !== alias.canonical, {
+  message: "The alias is already the canonical spelling",
+  path: ["alias"],
+});
+
+export type MotorcycleAliasKind = typeof MOTORCYCLE_ALIAS_KINDS[number];
+export type InsertMotorcycleAlias = z.infer<typeof insertMotorcycleAliasSchema>;
+export type MotorcycleAlias = typeof motorcycleAliases.$inferSelect;
+
+// Makes, or models under one make, stored with spellings that differ only in case, spacing or punctuation
+export type MotorcycleNameDuplicate = {
+  kind: MotorcycleAliasKind;
+  bikemake: string | null; // Models: the make they're under
+  key: string;
+  spellings: { value: string; count: number }[]; // Most used first
+  canonical: string | null; // Where an alias already sends these spellings, if one does
+};
+
+export type ScheduledJobType = typeof SCHEDULED_JOB_TYPES[number];
+export type ScheduledJobTrigger = 'schedule' | 'manual';
+export type ScheduledJobRunStatus = 'running' | 'success' | 'error' | 'skipped';
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type ScheduledJobRun = typeof scheduledJobRuns.$inferSelect;
+
+export const SCHEDULED_JOB_LABELS: Record<ScheduledJobType, string> = {
+  validate_mappings: "Validate part mappings",
+  heal_stale_mappings: "Auto-heal stale mappings",
+  populate_mapping_metadata: "Populate mapping metadata",
+};
+
+// Used until an admin saves a schedule for the shop; jobs start disabled
+export const DEFAULT_JOB_SCHEDULES: Record<ScheduledJobType, string> = {
+  validate_mappings: "0 3 * * *",
+  heal_stale_mappings: "30 3 * * *",
+  populate_mapping_metadata: "0 4 * * 0",
+};
+
+export const updateScheduledJobSchema = z.object({
+  schedule: z.string().trim().min(1),
+  enabled: z.boolean(),
+});
+
+export type UpdateScheduledJob = z.infer<typeof updateScheduledJobSchema>;
+
+export const insertAdminUserSchema = z.object({
+  username: z.string().trim().min(3).max(64),
+  password: z.string().min(8),
+  role: z.enum(USER_ROLES).default("viewer"),
+});
+
+export const updateAdminUserSchema = insertAdminUserSchema.partial().omit({ username: true });
+
+export type UserRole = typeof USER_ROLES[number];
+export type AdminUser = typeof adminUsers.$inferSelect;
+export type InsertAdminUser = z.infer<typeof insertAdminUserSchema>;
+export type UpdateAdminUser = z.infer<typeof updateAdminUserSchema>;
+// Never send password hashes to the client
+export type PublicAdminUser = Omit<AdminUser, "passwordHash">;
+
 export const insertMotorcycleCategoryConfigSchema = createInsertSchema(motorcycleCategoryConfig).omit({
   id: true,
   createdAt: true,